@@ -19,10 +19,10 @@ export const ANTI_PATTERNS: AntiPattern[] = [
     explanation: 'In mixed mode, content must be separated from properties by a blank line.',
   },
   {
-    name: 'nesting-same-type',
-    wrong: '--- core/section\ntitle: Outer\n\n--- core/section\ntitle: Inner\n\n--- /core/section\n\n--- /core/section',
-    correct: '--- core/section\ntitle: Outer\n\n--- newsletter/category\ntitle: Inner\n\n--- /newsletter/category\n\n--- /core/section',
-    explanation: 'Never nest same-type containers. Use different types for nesting levels.',
+    name: 'crossed-container-closers',
+    wrong: '--- core/section#outer\ntitle: Outer\n\n--- core/section#inner\ntitle: Inner\n\n--- /core/section#outer\n\n--- /core/section#inner',
+    correct: '--- core/section#outer\ntitle: Outer\n\n--- core/section#inner\ntitle: Inner\n\n--- /core/section#inner\n\n--- /core/section#outer',
+    explanation: 'Close containers innermost first. Give nested same-type containers ids (--- core/section#outer) so each closer names the one it ends.',
   },
   {
     name: 'unclosed-container',
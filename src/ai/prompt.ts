@@ -61,9 +61,13 @@ export function buildMklySystemPrompt(options?: PromptOptions): string {
 - Labels: --- use: kitName, --- theme: themeName (colon labels are for use/theme only)
 - Titled blocks: use the title: property (e.g. --- core/section\\ntitle: Featured)
 - Properties: key: value (right after block start)
+- Long values: key: | (keeps line breaks) or key: > (folds lines) followed by lines indented two spaces
 - Content: markdown text (after blank line in mixed mode)
-- Containers: close with --- /kit/blockType (e.g. --- /core/section)
+- Containers: close with --- /kit/blockType (e.g. --- /core/section); nested same-type containers take ids (--- core/section#outer … --- /core/section#outer)
+- Conditions: --- if: audience == "pro" … --- /if, or if: / unless: properties on one block
+- Repeats: --- each: links as link … --- /each renders its blocks per data element ({{link.title}}, {{loop.index}})
 - Comments: // ignored
+- Literal "--- core/text" lines in content: escape as \\--- core/text
 - Meta: --- meta (version, title, subject)
 - Style: --- style (mkly CSS v2)
 - Use: --- use: kitName
@@ -154,7 +158,7 @@ Key rules:
 - Block types are namespaced: kit/blockName (e.g. core/heading, newsletter/intro)
 - contentMode determines how the parser treats the block's body
 - compile() receives the parsed block and must return an HTML string
-- Container blocks must include {{children}} in their output
+- Container blocks must include {{children}} (or {{child:N}} per child) in their output
 - Schemas enable validation and editor autocomplete`;
 }
 
@@ -339,9 +343,13 @@ export function buildBlockReference(options?: BlockReferenceOptions): string {
 - Labels: \`--- use: kitName\`, \`--- theme: themeName\` (colon labels are for use/theme only)
 - Titled blocks: use the \`title:\` property (e.g. \`--- core/section\\ntitle: Featured\`)
 - Properties: \`key: value\` (immediately after block start)
+- Multi-line values: \`key: |\` keeps line breaks, \`key: >\` folds lines into one — the value is the following lines indented deeper than the key
 - Content: markdown text (after blank line in mixed mode)
-- Containers: close with \`--- /kit/blockType\` (e.g. \`--- /core/section\`)
+- Containers: close with \`--- /kit/blockType\` (e.g. \`--- /core/section\`), innermost first; add an id to tell nested same-type containers apart (\`--- core/section#outer\` … \`--- /core/section#outer\`)
+- Conditions: \`--- if: audience == "pro"\` … \`--- /if\` wraps blocks for one edition; \`if:\` / \`unless:\` properties show or hide a single block (operators: == != < > and or not in)
+- Repeats: \`--- each: links as link\` … \`--- /each\` renders its blocks once per element of a data list; use \`{{link.title}}\`, \`{{loop.index}}\`, \`loop.first\` / \`loop.last\` inside
 - Comments: \`// ignored\`
+- Escaping: a content line like \`\\--- core/text\` is text, not a block boundary (one backslash is dropped)
 - Meta: \`--- meta\` (version, title, subject)
 - Style: \`--- style\` (mkly CSS v2 — variables, block selectors, sub-elements)
 - Use: \`--- use: kitName\`
@@ -1,7 +1,9 @@
 import type { MklyDocument, MklyBlock, ParseError, CompileError } from '../types';
 import type { MklyKit } from '../kit';
+import { containerBlockTypes } from '../kit';
 import type { BlockSchema } from '../schemas';
 import { parse } from '../parser';
+import { CONTROL_BLOCKS } from '../expand';
 import { compile } from '../compiler';
 import { createRegistry, CORE_KIT } from '../blocks';
 import { validateBlock, createBlockSchemas } from '../schemas';
@@ -103,7 +105,7 @@ function generateSuggestion(error: ParseError | CompileError): ValidationSuggest
   }
 
   if (msg.includes('Unsupported version')) {
-    return { line, message: msg, fix: `Use version: 1 (currently the only supported version).` };
+    return { line, message: msg, fix: `Use version: 1 or version: 2 (the supported versions).` };
   }
 
   if (msg.includes('Invalid version')) {
@@ -114,6 +116,14 @@ function generateSuggestion(error: ParseError | CompileError): ValidationSuggest
     return { line, message: msg, fix: `Remove the closing tag or add a matching opening block above.` };
   }
 
+  if (msg.includes('is never closed')) {
+    return { line, message: msg, fix: `Close the container after its last child block.` };
+  }
+
+  if (msg.includes('is not closed before')) {
+    return { line, message: msg, fix: `Close the inner container first — containers close innermost first.` };
+  }
+
   if (msg.includes('Duplicate property')) {
     const propMatch = msg.match(/"(\w+)"/);
     if (propMatch) {
@@ -167,14 +177,15 @@ function generateSuggestion(error: ParseError | CompileError): ValidationSuggest
  * This catches everything the core language generates — no manual reimplementation.
  */
 export function validateMklyOutput(source: string, options?: ValidateOptions): ValidationResult {
-  const doc = parse(source);
+  // Core kit is always included — callers provide additional kits.
+  const kits = { core: CORE_KIT, ...options?.kits };
+  // Known containers make the parser report unclosed and crossed closers
+  const doc = parse(source, { containerBlocks: containerBlockTypes(kits) });
 
   // Run full compilation to catch ALL errors (parser + compiler + registry).
   // compile() handles kit resolution, block registration, theme/preset validation,
   // and all compile-time checks — no need to reimplement any of it.
-  // Core kit is always included — callers provide additional kits.
   const registry = createRegistry();
-  const kits = { core: CORE_KIT, ...options?.kits };
   const compileResult = compile(doc, registry, { kits });
   const allErrors: Array<ParseError | CompileError> = [...compileResult.errors];
 
@@ -187,6 +198,7 @@ export function validateMklyOutput(source: string, options?: ValidateOptions): V
     }
   }
   walkBlocks(doc.blocks, (block) => {
+    if (CONTROL_BLOCKS.has(block.blockType)) return;
     allErrors.push(...validateBlock(block, schemaMap));
   });
 
@@ -1,20 +1,37 @@
-import type { BlockDefinition, BlockDocs, MklyBlock } from './types';
+import type { BlockDefinition, BlockDocs, CompileContext, MklyBlock } from './types';
 import { cls, lineAttr } from './types';
 import type { MklyKit, ReverseBlockHandler } from './kit';
 import { BlockRegistry } from './registry';
-import { escapeHtml, markdownToHtml, isSafeUrl } from './utils';
+import { escapeHtml, isSafeUrl } from './utils';
+import { markdownToHtml, inlineMarkdownToHtml } from './markdown';
+import type { MarkdownOptions } from './markdown';
 import { requireProp, warnMissing, compileError, errorHtml, prop, safeCss, cssVal } from './errors';
 import { CORE_SCHEMAS } from './schemas';
 import { CORE_THEMES } from './themes';
 import { CORE_PRESETS } from './presets';
+import { STANDARD_META_PROPERTIES } from './document';
+import { tocPlaceholder } from './headings';
+import { footnotesPlaceholder } from './footnotes';
+import { renderCode } from './highlight';
+import { parseTable } from './table';
+import { resolveMediaQuery } from './style-graph';
+import { resolveEmbed, renderEmbedFallback, EMBED_PROVIDERS } from './embed';
+import { imageTag, markdownOptions } from './kit-utils';
 
 function safeUrl(url: string | undefined): string {
   if (!url) return '';
   return isSafeUrl(url) ? escapeHtml(url) : '';
 }
 
-function md(block: MklyBlock): string {
-  return markdownToHtml(block.content, block.contentLineMap);
+/** Markdown options for `block`: the document's settings, and with `CompileOptions.images` set, images through `imageTag`. */
+function mdOptions(block: MklyBlock, ctx: CompileContext): MarkdownOptions {
+  const options = markdownOptions(ctx);
+  if (!ctx.images) return options;
+  return { ...options, image: (url, alt, title) => imageTag(block, url, ctx, { alt, attrs: title !== undefined ? ` title="${title}"` : '' }) };
+}
+
+function md(block: MklyBlock, ctx: CompileContext): string {
+  return markdownToHtml(block.content, block.contentLineMap, mdOptions(block, ctx));
 }
 
 function clampInt(value: string | undefined, min: number, max: number, fallback: number): number {
@@ -46,7 +63,7 @@ const text: BlockDefinition = {
     self: ['text-align', 'color', 'font-family', 'font-size', 'font-weight', 'font-style', 'line-height', 'padding', 'margin', 'background', 'border-radius', 'border-width', 'border-style', 'border-color', 'opacity', 'box-shadow'],
   },
   contentHints: { contentBody: true },
-  compile: (block) => `<div class="${cls(block)}">${md(block)}</div>`,
+  compile: (block, ctx) => `<div class="${cls(block)}">${md(block, ctx)}</div>`,
 };
 
 const image: BlockDefinition = {
@@ -69,9 +86,8 @@ const image: BlockDefinition = {
     if (alt === undefined) {
       warnMissing(block, 'alt', ctx, 'image block is missing "alt" property (accessibility)');
     }
-    const width = prop(block, 'width');
-    const widthStyle = width ? ` width="${escapeHtml(width)}"` : '';
-    return `<figure class="${cls(block)}"><img src="${safeUrl(src)}" alt="${escapeHtml(alt ?? '')}"${widthStyle} class="${cls(block, '__img')}"${lineAttr(block, 'src', 'url')}></figure>`;
+    const img = imageTag(block, src, ctx, { alt, width: prop(block, 'width'), attrs: lineAttr(block, 'src', 'url') });
+    return `<figure class="${cls(block)}">${img}</figure>`;
   },
 };
 
@@ -123,7 +139,7 @@ const spacer: BlockDefinition = {
     }
     const validated = safeCss(raw);
     if (!validated) {
-      compileError(block, `Invalid CSS value for "height": ${raw}`, ctx);
+      compileError(block, `Invalid CSS value for "height": ${raw}`, ctx, 'error', 'height');
       return errorHtml(`spacer has invalid "height" value: ${raw}`, block.position.start.line);
     }
     return `<div class="${cls(block)}" style="height:${cssVal(validated)};"${lineAttr(block, 'height')}></div>`;
@@ -137,11 +153,7 @@ const code: BlockDefinition = {
     self: ['font-family', 'font-size', 'color', 'background', 'padding', 'margin', 'border-radius', 'border-width', 'border-style', 'border-color', 'opacity', 'box-shadow', 'overflow'],
   },
   contentHints: { contentBody: true },
-  compile: (block) => {
-    const lang = prop(block, 'lang');
-    const langAttr = lang ? ` data-lang="${escapeHtml(lang)}"` : '';
-    return `<div class="${cls(block)}"><pre><code${langAttr}${lineAttr(block, 'lang')}>${escapeHtml(block.content)}</code></pre></div>`;
-  },
+  compile: (block, ctx) => renderCode(block, ctx),
 };
 
 const quote: BlockDefinition = {
@@ -155,12 +167,12 @@ const quote: BlockDefinition = {
     author: ['color', 'font-family', 'font-size', 'font-weight', 'font-style', 'margin', 'padding'],
   },
   contentHints: { contentProps: ['author'], contentBody: true },
-  compile: (block) => {
+  compile: (block, ctx) => {
     const author = prop(block, 'author');
     const footer = author
       ? `<footer class="${cls(block, '__author')}"${lineAttr(block, 'author')}>\u2014 ${escapeHtml(author)}</footer>`
       : '';
-    return `<blockquote class="${cls(block)}">${md(block)}${footer}</blockquote>`;
+    return `<blockquote class="${cls(block)}">${md(block, ctx)}${footer}</blockquote>`;
   },
 };
 
@@ -177,14 +189,13 @@ const hero: BlockDefinition = {
     content: ['color', 'font-family', 'font-size', 'font-weight', 'line-height', 'padding', 'margin', 'text-align', 'background', 'border-radius'],
   },
   contentHints: { contentProps: ['image', 'src'], contentBody: true },
-  compile: (block) => {
+  compile: (block, ctx) => {
     const src = prop(block, 'image') ?? prop(block, 'src');
-    const alt = prop(block, 'alt') ?? '';
     const imageHtml = src
-      ? `<img src="${safeUrl(src)}" alt="${escapeHtml(alt)}" class="${cls(block, '__img')}"${lineAttr(block, 'image', 'src')}>`
+      ? imageTag(block, src, ctx, { alt: prop(block, 'alt'), eager: true, attrs: lineAttr(block, 'image', 'src') })
       : '';
     const contentHtml = block.content
-      ? `<div class="${cls(block, '__content')}">${md(block)}</div>`
+      ? `<div class="${cls(block, '__content')}">${md(block, ctx)}</div>`
       : '';
     return `<section class="${cls(block)}">${imageHtml}${contentHtml}</section>`;
   },
@@ -211,6 +222,66 @@ const section: BlockDefinition = {
   },
 };
 
+/** `2:1` → column widths in percent; missing or invalid parts count as 1. */
+function columnWidths(ratio: string | undefined, count: number): number[] {
+  const parts = (ratio ?? '').split(':').map(p => Number(p.trim()));
+  const weights = Array.from({ length: count }, (_, i) => (parts[i] > 0 ? parts[i] : 1));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map(w => Math.round((w / total) * 10000) / 100);
+}
+
+/** Media query stacking `--stack-<width>` columns, with `gap` between them as they stack. */
+function stackCss(width: number, gapClass: string, gap: string): string {
+  const column = ' > tbody > tr > .mkly-core-columns__column';
+  const stacked = `.mkly-core-columns--stack-${width}`;
+  return `@media (max-width:${width}px){${stacked}${column}{display:block!important;width:100%!important;padding-left:0!important}`
+    + `${stacked}.${gapClass}${column} + .mkly-core-columns__column{padding-top:${gap}!important}}`;
+}
+
+const columns: BlockDefinition = {
+  name: 'columns',
+  contentMode: 'properties',
+  isContainer: true,
+  targets: {
+    column: { label: 'Column' },
+  },
+  styleHints: {
+    self: ['margin', 'padding', 'background', 'border-radius', 'border-width', 'border-style', 'border-color', 'box-shadow', 'max-width'],
+    column: ['padding', 'background', 'text-align', 'border-radius', 'border-width', 'border-style', 'border-color'],
+  },
+  contentHints: { contentChildren: true },
+  compile: (block, ctx) => {
+    const ratio = prop(block, 'ratio');
+    const count = Math.max(block.children.length, 1);
+    if (ratio !== undefined) {
+      const parts = ratio.split(':').map(p => Number(p.trim()));
+      if (parts.some(p => !(p > 0))) {
+        compileError(block, `Invalid ratio "${ratio}" — use positive numbers separated by colons, like 2:1`, ctx, 'warning', 'ratio');
+      } else if (parts.length !== count) {
+        compileError(block, `ratio "${ratio}" has ${parts.length} part${parts.length === 1 ? '' : 's'} but the block has ${count} column${count === 1 ? '' : 's'}`, ctx, 'warning', 'ratio');
+      }
+    }
+    const widths = columnWidths(ratio, count);
+    const gap = cssVal(safeCss(prop(block, 'gap') ?? '') ?? '16');
+    const valign = ['top', 'middle', 'bottom'].includes(prop(block, 'valign') ?? '') ? prop(block, 'valign')! : 'top';
+    const stack = prop(block, 'stack') ?? 'mobile';
+    // A breakpoint name resolves like `@mobile` in styles, so redefining `mobile` moves it here too
+    const maxWidth = resolveMediaQuery(stack, ctx.variables).match(/^\(max-width: (\d+(?:\.\d+)?)px\)$/);
+    const stackWidth = maxWidth ? Math.round(Number(maxWidth[1])) : clampInt(stack, 0, 4096, 0);
+    // Stylesheet px become rem, so a px gap is named by its number alone
+    const gapClass = cls(block, `--gap-${gap.replace(/px$/, '').replace(/[^\w-]/g, '_')}`);
+    if (stackWidth > 0) ctx.extraStyles.add(stackCss(stackWidth, gapClass, gap));
+    // Table cells lay out side by side in every email client; the media query stacks them where supported
+    const cells = block.children.map((_, i) => {
+      const style = `width:${widths[i]}%;vertical-align:${valign}${i > 0 ? `;padding-left:${gap}` : ''}`;
+      return `<td class="${cls(block, '__column')}" width="${widths[i]}%" valign="${valign}" style="${style}">{{child:${i}}}</td>`;
+    });
+    const stackClass = stackWidth > 0 ? ` ${cls(block, `--stack-${stackWidth}`)} ${gapClass}` : '';
+    const ratioAttr = ratio ? ` data-ratio="${escapeHtml(ratio)}"` : '';
+    return `<table class="${cls(block)}${stackClass}" role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0"${ratioAttr}${lineAttr(block, 'ratio', 'gap', 'valign', 'stack')}><tbody><tr>${cells.join('')}</tr></tbody></table>`;
+  },
+};
+
 const card: BlockDefinition = {
   name: 'card',
   contentMode: 'mixed',
@@ -226,16 +297,16 @@ const card: BlockDefinition = {
     link: ['text-align', 'color', 'font-size', 'font-weight', 'font-family', 'padding', 'margin', 'background', 'border-radius'],
   },
   contentHints: { contentProps: ['image', 'link', 'url'], contentBody: true },
-  compile: (block) => {
+  compile: (block, ctx) => {
     const img = prop(block, 'image');
     const link = prop(block, 'link') ?? prop(block, 'url');
     const imgHtml = img
-      ? `<img src="${safeUrl(img)}" alt="" class="${cls(block, '__img')}"${lineAttr(block, 'image')}>`
+      ? imageTag(block, img, ctx, { attrs: lineAttr(block, 'image') })
       : '';
     const linkHtml = link
       ? `<a href="${safeUrl(link)}" class="${cls(block, '__link')}"${lineAttr(block, 'link', 'url')}>Read more</a>`
       : '';
-    return `<article class="${cls(block)}">${imgHtml}<div class="${cls(block, '__body')}">${md(block)}${linkHtml}</div></article>`;
+    return `<article class="${cls(block)}">${imgHtml}<div class="${cls(block, '__body')}">${md(block, ctx)}${linkHtml}</div></article>`;
   },
 };
 
@@ -246,7 +317,7 @@ const list: BlockDefinition = {
     self: ['text-align', 'color', 'font-family', 'font-size', 'font-style', 'line-height', 'padding', 'margin', 'background', 'border-radius', 'border-width', 'border-style', 'border-color', 'opacity', 'box-shadow'],
   },
   contentHints: { contentBody: true },
-  compile: (block) => `<div class="${cls(block)}">${md(block)}</div>`,
+  compile: (block, ctx) => `<div class="${cls(block)}">${md(block, ctx)}</div>`,
 };
 
 const header: BlockDefinition = {
@@ -263,18 +334,18 @@ const header: BlockDefinition = {
     title: ['color', 'font-family', 'font-size', 'font-weight', 'margin', 'padding', 'line-height'],
     subtitle: ['color', 'font-family', 'font-size', 'font-weight', 'font-style', 'margin', 'padding', 'line-height'],
   },
-  compile: (block) => {
+  compile: (block, ctx) => {
     const logo = prop(block, 'logo');
     const title = prop(block, 'title') ?? block.content.trim();
     const logoHtml = logo
-      ? `<img src="${safeUrl(logo)}" alt="" class="${cls(block, '__logo')}"${lineAttr(block, 'logo')}>`
+      ? imageTag(block, logo, ctx, { target: 'logo', eager: true, attrs: lineAttr(block, 'logo') })
       : '';
     const titleHtml = title
       ? `<h1 class="${cls(block, '__title')}"${lineAttr(block, 'title')}>${escapeHtml(title)}</h1>`
       : '';
     // When title is set via property, body content becomes the subtitle
     const subtitleHtml = prop(block, 'title') && block.content.trim()
-      ? `<div class="${cls(block, '__subtitle')}">${md(block)}</div>`
+      ? `<div class="${cls(block, '__subtitle')}">${md(block, ctx)}</div>`
       : '';
     return `<header class="${cls(block)}">${logoHtml}${titleHtml}${subtitleHtml}</header>`;
   },
@@ -287,7 +358,7 @@ const footer: BlockDefinition = {
     self: ['text-align', 'color', 'font-family', 'font-size', 'font-style', 'line-height', 'padding', 'margin', 'background', 'border-radius', 'border-width', 'border-style', 'border-color', 'opacity', 'box-shadow'],
   },
   contentHints: { contentBody: true },
-  compile: (block) => `<footer class="${cls(block)}">${md(block)}</footer>`,
+  compile: (block, ctx) => `<footer class="${cls(block)}">${md(block, ctx)}</footer>`,
 };
 
 const cta: BlockDefinition = {
@@ -312,7 +383,7 @@ const cta: BlockDefinition = {
       requireProp(block, 'buttonText', ctx);
       return errorHtml('cta block requires "buttonText" or "label" property', block.position.start.line);
     }
-    const contentHtml = block.content ? md(block) : '';
+    const contentHtml = block.content ? md(block, ctx) : '';
     return `<div class="${cls(block)}">${contentHtml}<a href="${safeUrl(url)}" class="${cls(block, '__button')}"${lineAttr(block, 'url', 'href')}>${escapeHtml(label)}</a></div>`;
   },
 };
@@ -364,9 +435,140 @@ const html: BlockDefinition = {
   },
 };
 
+const toc: BlockDefinition = {
+  name: 'toc',
+  contentMode: 'properties',
+  targets: {
+    title: { label: 'Title' },
+    link: { label: 'Link' },
+  },
+  styleHints: {
+    self: ['padding', 'margin', 'background', 'border-radius', 'border-width', 'border-style', 'border-color', 'font-size', 'line-height', 'opacity', 'box-shadow'],
+    title: ['color', 'font-family', 'font-size', 'font-weight', 'margin', 'padding'],
+    link: ['color', 'font-weight', 'text-decoration'],
+  },
+  compile: (block) => {
+    const depth = clampInt(prop(block, 'depth'), 1, 6, 3);
+    const title = prop(block, 'title');
+    const titleHtml = title
+      ? `<p class="${cls(block, '__title')}"${lineAttr(block, 'title')}>${escapeHtml(title)}</p>`
+      : '';
+    // The heading list is filled in once the whole document is rendered
+    return `<nav class="${cls(block)}" data-depth="${depth}">${titleHtml}${tocPlaceholder(depth)}</nav>`;
+  },
+};
+
+const footnotes: BlockDefinition = {
+  name: 'footnotes',
+  contentMode: 'mixed',
+  targets: {
+    title: { label: 'Title' },
+    note: { label: 'Note' },
+  },
+  styleHints: {
+    self: ['padding', 'margin', 'background', 'border-radius', 'border-width', 'border-style', 'border-color', 'color', 'font-size', 'line-height', 'opacity'],
+    title: ['color', 'font-family', 'font-size', 'font-weight', 'margin', 'padding'],
+    note: ['color', 'font-size', 'line-height', 'margin'],
+  },
+  contentHints: { contentBody: true },
+  compile: (block, ctx) => {
+    const title = prop(block, 'title');
+    const titleHtml = title
+      ? `<p class="${cls(block, '__title')}"${lineAttr(block, 'title')}>${escapeHtml(title)}</p>`
+      : '';
+    // Content holds `[^label]: note` definitions; every note in the document is listed here
+    return `<section class="${cls(block)}">${titleHtml}${md(block, ctx)}${footnotesPlaceholder()}</section>`;
+  },
+};
+
+const table: BlockDefinition = {
+  name: 'table',
+  contentMode: 'mixed',
+  targets: {
+    caption: { label: 'Caption' },
+    head: { label: 'Header' },
+    row: { label: 'Row' },
+    cell: { label: 'Cell' },
+  },
+  styleHints: {
+    self: ['width', 'max-width', 'margin', 'background', 'color', 'font-family', 'font-size', 'line-height', 'border-width', 'border-style', 'border-color', 'border-radius', 'box-shadow'],
+    caption: ['color', 'font-size', 'font-style', 'font-weight', 'text-align', 'padding', 'margin'],
+    head: ['background', 'color', 'font-weight', 'font-size', 'text-transform', 'letter-spacing'],
+    row: ['background', 'border-width', 'border-style', 'border-color'],
+    cell: ['padding', 'text-align', 'vertical-align', 'border-width', 'border-style', 'border-color', 'color', 'font-size'],
+  },
+  contentHints: { contentBody: true },
+  compile: (block, ctx) => {
+    const header = prop(block, 'header');
+    const data = parseTable(block.content, {
+      format: prop(block, 'format'),
+      header: header === undefined ? undefined : header !== 'false',
+      align: prop(block, 'align'),
+    });
+    if (!data.head && data.rows.length === 0) {
+      compileError(block, 'table block has no rows — add a pipe table or CSV as content', ctx, 'warning');
+      return '';
+    }
+    // Alignment is inline and spacing is reset with attributes, so email clients render it too
+    const cell = (tag: 'th' | 'td', text: string, c: number) => {
+      const scope = tag === 'th' ? ' scope="col"' : '';
+      const align = data.align[c] ? ` style="text-align:${data.align[c]}"` : '';
+      return `<${tag} class="${cls(block, '__cell')}"${scope}${align}>${inlineMarkdownToHtml(text, mdOptions(block, ctx))}</${tag}>`;
+    };
+    const row = (tag: 'th' | 'td', cells: string[]) =>
+      `<tr class="${cls(block, '__row')}">${cells.map((text, c) => cell(tag, text, c)).join('')}</tr>`;
+    const caption = prop(block, 'caption');
+    const captionHtml = caption
+      ? `<caption class="${cls(block, '__caption')}"${lineAttr(block, 'caption')}>${escapeHtml(caption)}</caption>`
+      : '';
+    const head = data.head ? `<thead class="${cls(block, '__head')}">${row('th', data.head)}</thead>` : '';
+    const body = data.rows.length > 0 ? `<tbody>${data.rows.map(r => row('td', r)).join('')}</tbody>` : '';
+    return `<table class="${cls(block)}" cellpadding="0" cellspacing="0"${lineAttr(block, 'format', 'header', 'align')}>${captionHtml}${head}${body}</table>`;
+  },
+};
+
+const embed: BlockDefinition = {
+  name: 'embed',
+  contentMode: 'properties',
+  targets: {
+    frame: { label: 'Player' },
+    caption: { label: 'Caption' },
+  },
+  styleHints: {
+    self: ['margin', 'padding', 'background', 'border-radius', 'border-width', 'border-style', 'border-color', 'box-shadow', 'max-width', 'text-align'],
+    frame: ['border-radius', 'border-width', 'border-style', 'border-color', 'box-shadow', 'max-width'],
+    caption: ['color', 'font-size', 'font-style', 'text-align', 'margin', 'padding'],
+  },
+  contentHints: { contentProps: ['url', 'title', 'caption', 'thumbnail'] },
+  compile: (block, ctx) => {
+    const url = requireProp(block, 'url', ctx);
+    if (!url) {
+      return errorHtml('embed block requires "url" property', block.position.start.line);
+    }
+    const match = resolveEmbed(url, ctx.embedProviders);
+    if (!match) {
+      compileError(block, `No embed provider recognizes "${url}" — it is shown as a link`, ctx, 'warning', 'url');
+      return renderEmbedFallback(block, ctx);
+    }
+    const { provider, embed: player } = match;
+    const title = prop(block, 'title') ?? provider.title;
+    const size = player.height
+      ? ` height="${player.height}"`
+      : ` style="aspect-ratio:${Number((player.aspectRatio ?? 16 / 9).toFixed(4))}"`;
+    const thumbnail = prop(block, 'thumbnail');
+    const thumbnailAttr = thumbnail ? ` data-thumbnail="${safeUrl(thumbnail)}"` : '';
+    const caption = prop(block, 'caption');
+    const captionHtml = caption
+      ? `<figcaption class="${cls(block, '__caption')}"${lineAttr(block, 'caption')}>${escapeHtml(caption)}</figcaption>`
+      : '';
+    const iframe = `<iframe src="${escapeHtml(player.src)}" title="${escapeHtml(title)}" loading="lazy" width="100%"${size} allow="autoplay; clipboard-write; encrypted-media; fullscreen; picture-in-picture" allowfullscreen referrerpolicy="strict-origin-when-cross-origin" class="${cls(block, '__frame')}"${lineAttr(block, 'url')}></iframe>`;
+    return `<figure class="${cls(block)} ${cls(block, `--${provider.name}`)}" data-url="${safeUrl(url)}"${thumbnailAttr}>${iframe}${captionHtml}</figure>`;
+  },
+};
+
 const CORE_BLOCKS: BlockDefinition[] = [
   heading, text, image, button, divider, spacer, code, quote,
-  hero, section, card, list, header, footer, cta, html,
+  hero, section, columns, card, list, header, footer, cta, html, toc, footnotes, table, embed,
 ];
 
 export function createRegistry(...presets: BlockDefinition[][]): BlockRegistry {
@@ -396,6 +598,11 @@ const CORE_REVERSE: ReverseBlockHandler[] = [
   { cssClass: 'mkly-core-footer', blockType: 'core/footer' },
   { cssClass: 'mkly-core-cta', blockType: 'core/cta' },
   { cssClass: 'mkly-core-html', blockType: 'core/html' },
+  { cssClass: 'mkly-core-toc', blockType: 'core/toc' },
+  { cssClass: 'mkly-core-footnotes', blockType: 'core/footnotes' },
+  { cssClass: 'mkly-core-table', blockType: 'core/table' },
+  { cssClass: 'mkly-core-columns', blockType: 'core/columns' },
+  { cssClass: 'mkly-core-embed', blockType: 'core/embed' },
 ];
 
 const CORE_DOCS: Record<string, BlockDocs> = {
@@ -477,13 +684,19 @@ const CORE_DOCS: Record<string, BlockDocs> = {
     displayName: 'Code',
     icon: 'code',
     color: '#f59e0b',
-    summary: 'Displays a formatted code block with optional language hint.',
-    usage: '--- core/code\nlang: javascript\n\nconst hello = "world";',
-    htmlPreview: '<div class="mkly-core-code"><pre><code data-lang="javascript">const hello = &quot;world&quot;;</code></pre></div>',
+    summary: 'Displays a code block, syntax-highlighted at compile time for known languages.',
+    usage: '--- core/code\nlang: javascript\nhighlight: 2\n\nconst hello = "world";\nconsole.log(hello);',
+    htmlPreview: '<div class="mkly-core-code"><pre><code data-lang="javascript" data-highlight="2"><span class="mkly-hl-line"><span class="mkly-hl-keyword">const</span> hello = <span class="mkly-hl-string">"world"</span><span class="mkly-hl-punctuation">;</span></span>\n<span class="mkly-hl-line mkly-hl-line--marked">console<span class="mkly-hl-punctuation">.</span><span class="mkly-hl-function">log</span><span class="mkly-hl-punctuation">(</span>hello<span class="mkly-hl-punctuation">);</span></span></code></pre></div>',
     properties: [
-      { name: 'lang', description: 'Programming language for syntax hints', example: 'javascript' },
+      { name: 'lang', description: 'Language: ts/js, json, html, css, bash, python, sql or mkly', example: 'javascript' },
+      { name: 'lineNumbers', description: 'Number the lines', example: 'true' },
+      { name: 'highlight', description: 'Lines to mark, as numbers and ranges', example: '3-5' },
+    ],
+    tips: [
+      'Content is rendered verbatim (HTML-escaped)',
+      'Colors come from hl* theme variables (hlKeyword, hlString, hlComment…), so a theme is a highlight theme',
+      'Other languages are shown uncolored with data-lang for client-side highlighters',
     ],
-    tips: ['Content is rendered verbatim (HTML-escaped)', 'Use lang property for syntax highlighting integration'],
   },
   'core/quote': {
     displayName: 'Quote',
@@ -523,6 +736,44 @@ const CORE_DOCS: Record<string, BlockDocs> = {
     ],
     tips: ['Set the title via the title: property', 'This is a container — close it with --- /section'],
   },
+  'core/columns': {
+    displayName: 'Columns',
+    icon: 'columns',
+    color: '#0891b2',
+    summary: 'Lays its child blocks out side by side, one column each, stacking them on narrow screens.',
+    usage: '--- core/columns\nratio: 2:1\n\n--- core/text\n\nMain story.\n\n--- core/image\nsrc: https://picsum.photos/seed/mkly-columns/300/200\nalt: Photo\n\n--- /core/columns',
+    htmlPreview: '<table class="mkly-core-columns mkly-core-columns--stack-480 mkly-core-columns--gap-16" role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" data-ratio="2:1"><tbody><tr><td class="mkly-core-columns__column" width="66.67%" valign="top" style="width:66.67%;vertical-align:top"><div class="mkly-core-text"><p>Main story.</p></div></td><td class="mkly-core-columns__column" width="33.33%" valign="top" style="width:33.33%;vertical-align:top;padding-left:16px"><figure class="mkly-core-image"><img src="https://picsum.photos/seed/mkly-columns/300/200" alt="Photo" class="mkly-core-image__img"></figure></td></tr></tbody></table>',
+    properties: [
+      { name: 'ratio', description: 'Relative column widths (default equal)', example: '2:1' },
+      { name: 'gap', description: 'Space between columns (default 16px)', example: '24px' },
+      { name: 'valign', description: 'Vertical alignment: top, middle or bottom', example: 'middle' },
+      { name: 'stack', description: 'Stack below mobile (480px, default), tablet (768px), a px width, or never', example: 'tablet' },
+    ],
+    tips: [
+      'Each child block is one column — wrap several blocks in a core/section to share a column',
+      'Renders as a table so columns hold in email clients too',
+      'This is a container — close it with --- /core/columns',
+    ],
+  },
+  'core/embed': {
+    displayName: 'Embed',
+    icon: 'play',
+    color: '#dc2626',
+    summary: 'Embeds a YouTube, Vimeo, X, Spotify, CodePen or Loom link as a player; email gets a linked thumbnail instead.',
+    usage: '--- core/embed\nurl: https://www.youtube.com/watch?v=dQw4w9WgXcQ\ncaption: Launch keynote',
+    htmlPreview: '<figure class="mkly-core-embed mkly-core-embed--youtube" data-url="https://www.youtube.com/watch?v=dQw4w9WgXcQ"><iframe src="https://www.youtube.com/embed/dQw4w9WgXcQ" title="YouTube video" loading="lazy" width="100%" style="aspect-ratio:1.7778" allowfullscreen class="mkly-core-embed__frame"></iframe><figcaption class="mkly-core-embed__caption">Launch keynote</figcaption></figure>',
+    properties: [
+      { name: 'url', description: 'Link to the video, post, track or pen (required)', example: 'https://youtu.be/dQw4w9WgXcQ' },
+      { name: 'title', description: 'Player title for screen readers (default from the provider)', example: 'Launch keynote video' },
+      { name: 'caption', description: 'Text below the player', example: 'Launch keynote' },
+      { name: 'thumbnail', description: 'Image for the email fallback, when the provider has none', example: 'https://example.com/poster.jpg' },
+    ],
+    tips: [
+      'Providers are matched from the URL alone — nothing is fetched at compile time',
+      'Email renderers show a thumbnail and play button linked to the URL, since email clients strip iframes',
+      'Kits add providers with embedProviders',
+    ],
+  },
   'core/card': {
     displayName: 'Card',
     icon: 'card',
@@ -597,6 +848,54 @@ const CORE_DOCS: Record<string, BlockDocs> = {
     ],
     tips: ['Content is NOT escaped — use with care', 'Set prettify: true for clean text formatting without changing the HTML', 'Verbatim content mode: no markdown processing'],
   },
+  'core/toc': {
+    displayName: 'Table of Contents',
+    icon: 'list',
+    color: '#6366f1',
+    summary: 'Nested list of links to the document\'s headings, generated at compile time.',
+    usage: '--- core/toc\ntitle: On this page\ndepth: 3',
+    htmlPreview: '<nav class="mkly-core-toc"><p class="mkly-core-toc__title">On this page</p><ul><li><a href="#getting-started">Getting started</a><ul><li><a href="#install">Install</a></li></ul></li><li><a href="#usage">Usage</a></li></ul></nav>',
+    properties: [
+      { name: 'depth', description: 'Deepest heading level listed (1-6)', example: '3' },
+      { name: 'title', description: 'Text above the list', example: 'On this page' },
+    ],
+    tips: ['Lists every heading in the document, including those above the block', 'Headings get ids from their text; repeated titles get -1, -2 suffixes'],
+  },
+  'core/footnotes': {
+    displayName: 'Footnotes',
+    icon: 'list',
+    color: '#78716c',
+    summary: 'Numbered list of the document\'s footnotes with links back to where they are cited.',
+    usage: '--- core/footnotes\ntitle: Sources\n\n[^survey]: Developer Survey 2026, p. 12.',
+    htmlPreview: '<section class="mkly-core-footnotes"><p class="mkly-core-footnotes__title">Sources</p><ol><li id="fn-survey">Developer Survey 2026, p. 12. <a href="#fnref-survey" class="mkly-footnote-back">↩</a></li></ol></section>',
+    properties: [
+      { name: 'title', description: 'Text above the list', example: 'Sources' },
+    ],
+    tips: [
+      'Cite with [^label] in any markdown content and define the note with [^label]: text anywhere in the document',
+      'Notes are numbered in order of first citation',
+      'Without this block the notes are listed after the last block',
+    ],
+  },
+  'core/table': {
+    displayName: 'Table',
+    icon: 'table',
+    color: '#0d9488',
+    summary: 'Data table from a markdown pipe table or CSV, with header row, column alignment and caption.',
+    usage: '--- core/table\ncaption: Q3 results\n\n| Region | Revenue |\n| --- | ---: |\n| EMEA | $1.2M |\n| APAC | $0.9M |',
+    htmlPreview: '<table class="mkly-core-table" cellpadding="0" cellspacing="0"><caption class="mkly-core-table__caption">Q3 results</caption><thead class="mkly-core-table__head"><tr class="mkly-core-table__row"><th class="mkly-core-table__cell" scope="col">Region</th><th class="mkly-core-table__cell" scope="col" style="text-align:right">Revenue</th></tr></thead><tbody><tr class="mkly-core-table__row"><td class="mkly-core-table__cell">EMEA</td><td class="mkly-core-table__cell" style="text-align:right">$1.2M</td></tr><tr class="mkly-core-table__row"><td class="mkly-core-table__cell">APAC</td><td class="mkly-core-table__cell" style="text-align:right">$0.9M</td></tr></tbody></table>',
+    properties: [
+      { name: 'format', description: 'Content format: markdown (pipe table, default) or csv', example: 'csv' },
+      { name: 'header', description: 'Whether the first row is the header (default: a delimiter row in markdown, always for CSV)', example: 'false' },
+      { name: 'align', description: 'Comma-separated column alignment, overriding the delimiter row', example: 'left,center,right' },
+      { name: 'caption', description: 'Table caption', example: 'Q3 results' },
+    ],
+    tips: [
+      'Cells support inline markdown',
+      'In CSV, quote fields that contain commas: "Paris, France"',
+      'Alignment is written inline so it survives email clients',
+    ],
+  },
 };
 
 const CORE_KEYFRAMES: Record<string, string> = {
@@ -616,7 +915,7 @@ export const CORE_KIT: MklyKit = {
   name: 'core',
   displayName: 'Core',
   description: 'Core layout and content blocks',
-  versions: { supported: [1], current: 1 },
+  versions: { supported: [1, 2], current: 2 },
   blocks: CORE_BLOCKS,
   schemas: CORE_SCHEMAS,
   keyframes: CORE_KEYFRAMES,
@@ -624,8 +923,9 @@ export const CORE_KIT: MklyKit = {
   presets: CORE_PRESETS,
   reverse: CORE_REVERSE,
   docs: CORE_DOCS,
+  embedProviders: EMBED_PROVIDERS,
   metaProperties: [
     { name: 'version', description: 'Document format version', required: true, example: '1' },
-    { name: 'title', description: 'Document or newsletter title', example: 'Weekly Digest' },
+    ...STANDARD_META_PROPERTIES,
   ],
 };
@@ -1,4 +1,4 @@
-import type { MklyDocument, MklyBlock, CompileOptions, CompileContext, CompileResult, MklyTheme, MklyPreset, SourceMapEntry } from './types';
+import type { MklyDocument, MklyBlock, CompileOptions, CompileContext, CompileError, CompileResult, MklyTheme, MklyPreset, SourceMapEntry, SourceRange, WrapMode } from './types';
 import type { MklyKit } from './kit';
 import type { MklyPlugin } from './plugin';
 import { BlockRegistry } from './registry';
@@ -7,7 +7,15 @@ import { applyPlugins } from './plugin';
 import { parseMklyStyle, themeToCSS } from './style-parser';
 import { DEFAULT_STYLES } from './styles';
 import { parseStyleGraph, compileLayeredCSS, mergeStyleGraphs, emptyStyleGraph } from './style-graph';
-import type { StyleGraph } from './style-graph';
+import { STANDARD_META_PROPERTIES, resolveMetaHeadMappings, buildDocumentHead } from './document';
+import { expandDocument, CONTROL_BLOCKS } from './expand';
+import { collectBlockIds, checkReferences } from './references';
+import { anchorHeadings, fillToc } from './headings';
+import type { HeadingEntry } from './headings';
+import { collectFootnotes, numberFootnotes, renderFootnotes, fillFootnotes, checkFootnotes } from './footnotes';
+import type { Footnote } from './footnotes';
+import { stripLiterals } from './utils';
+import type { StyleGraph, StyleWarning } from './style-graph';
 
 export interface CompileWithKitsOptions extends CompileOptions {
   kits?: Record<string, MklyKit>;
@@ -26,22 +34,24 @@ export function compile(
 
   // Resolve --- use declarations against available kits
   const resolvedKits: MklyKit[] = [];
-  for (const kitName of doc.uses) {
+  doc.uses.forEach((kitName, i) => {
     const kit = availableKits[kitName];
     if (kit) {
       resolvedKits.push(kit);
     } else {
       doc.errors.push({
         message: `Unknown kit "${kitName}" — not available. Available kits: ${Object.keys(availableKits).join(', ') || 'none'}`,
-        line: 1,
+        ...directiveLocation(doc.ranges?.uses[i]),
         severity: 'error',
       });
     }
-  }
+  });
 
   // Auto-detect kits from block type prefixes (e.g., core/heading → core kit)
   const resolvedNames = new Set(resolvedKits.map(k => k.name));
-  for (const block of doc.blocks) {
+  const topLevel = (blocks: MklyBlock[]): MklyBlock[] =>
+    blocks.flatMap(b => (CONTROL_BLOCKS.has(b.blockType) ? topLevel(b.children) : [b]));
+  for (const block of topLevel(doc.blocks)) {
     const slashIdx = block.blockType.indexOf('/');
     if (slashIdx > 0) {
       const prefix = block.blockType.substring(0, slashIdx);
@@ -60,7 +70,7 @@ export function compile(
     e.severity === 'error' && e.message.includes('Invalid version'),
   );
   if (hasInvalidVersion) {
-    return { html: '', errors: doc.errors };
+    return emptyResult(doc.errors, doc.meta);
   }
 
   // Derive version from the core kit (the kit named 'core')
@@ -70,20 +80,17 @@ export function compile(
 
   // Validate document version against core kit's supported versions
   if (doc.version !== currentVersion && !supportedVersions.includes(doc.version)) {
-    return {
-      html: '',
-      errors: [...doc.errors, {
-        message: `Unsupported version: ${doc.version}. Supported: ${supportedVersions.join(', ')}`,
-        blockType: '',
-        line: 1,
-        severity: 'error' as const,
-        property: undefined,
-      }],
-    };
+    return emptyResult([...doc.errors, {
+      message: `Unsupported version: ${doc.version}. Supported: ${supportedVersions.join(', ')}`,
+      blockType: '',
+      ...directiveLocation(doc.ranges?.meta.version?.value),
+      severity: 'error' as const,
+      property: undefined,
+    }], doc.meta);
   }
 
   // Apply kits with version gating — blocks with since > docVersion are filtered out
-  const { styles, keyframes, transforms: kitTransforms, afterCompile: kitAfterCompile, themes: allThemes, defaultThemes, presets: allPresets, defaultPresets } = applyKits(registry, resolvedKits, doc.version);
+  const { styles, keyframes, transforms: kitTransforms, afterCompile: kitAfterCompile, themes: allThemes, defaultThemes, presets: allPresets, defaultPresets, embedProviders, markdown } = applyKits(registry, resolvedKits, doc.version);
   const {
     renderers: pluginRenderers,
     transforms: pluginTransforms,
@@ -102,14 +109,15 @@ export function compile(
   // Resolve themes: only use explicitly declared doc.themes (no fallback to kit defaults)
   const themeNames = doc.themes;
   const resolvedThemes: MklyTheme[] = [];
-  for (const name of themeNames) {
+  themeNames.forEach((name, i) => {
+    const location = directiveLocation(doc.ranges?.themes[i]);
     if (name.includes('/')) {
       // Fully-qualified name: exact lookup
       const theme = allThemes.get(name);
       if (theme) {
         resolvedThemes.push(theme);
       } else {
-        doc.errors.push({ message: `Unknown theme "${name}" — not found in any kit`, line: 1, severity: 'warning' });
+        doc.errors.push({ message: `Unknown theme "${name}" — not found in any kit`, ...location, severity: 'warning' });
       }
     } else {
       // Shorthand: resolve from every kit that has this theme name
@@ -131,21 +139,22 @@ export function compile(
         }
       }
       if (!found) {
-        doc.errors.push({ message: `Unknown theme "${name}" — not found in any kit or inline definition`, line: 1, severity: 'warning' });
+        doc.errors.push({ message: `Unknown theme "${name}" — not found in any kit or inline definition`, ...location, severity: 'warning' });
       }
     }
-  }
+  });
 
   // Resolve presets: only use explicitly declared doc.presets (no fallback to kit defaults)
   const presetNames = doc.presets;
   const resolvedPresets: MklyPreset[] = [];
-  for (const name of presetNames) {
+  presetNames.forEach((name, i) => {
+    const location = directiveLocation(doc.ranges?.presets[i]);
     if (name.includes('/')) {
       const preset = allPresets.get(name);
       if (preset) {
         resolvedPresets.push(preset);
       } else {
-        doc.errors.push({ message: `Unknown preset "${name}" — not found in any kit`, line: 1, severity: 'warning' });
+        doc.errors.push({ message: `Unknown preset "${name}" — not found in any kit`, ...location, severity: 'warning' });
       }
     } else {
       let found = false;
@@ -166,27 +175,31 @@ export function compile(
         }
       }
       if (!found) {
-        doc.errors.push({ message: `Unknown preset "${name}" — not found in any kit or inline definition`, line: 1, severity: 'warning' });
+        doc.errors.push({ message: `Unknown preset "${name}" — not found in any kit or inline definition`, ...location, severity: 'warning' });
       }
     }
-  }
+  });
 
-  let transformedDoc = doc;
+  // Conditions, loops and {{references}} are settled before kits and plugins see the document
+  const compileErrors: CompileError[] = [];
+  let transformedDoc = expandDocument(doc, registry, { data: options?.data, variables: options?.variables }, compileErrors);
   for (const transform of [...kitTransforms, ...pluginTransforms]) {
     transformedDoc = transform(transformedDoc);
   }
 
   // Build StyleGraph from document --- style blocks (before block compilation so plugins can access it)
   const styleGraphs: StyleGraph[] = [];
-  for (const styleSource of transformedDoc.styles) {
+  transformedDoc.styles.forEach((styleSource, i) => {
     const graph = parseStyleGraph(styleSource);
     if (graph.warnings) {
+      const lineMap = transformedDoc.ranges?.styleLines[i];
+      const file = transformedDoc.ranges?.styleFiles[i];
       for (const w of graph.warnings) {
-        doc.errors.push({ message: `Style: ${w.message}`, severity: w.severity, line: 0 });
+        doc.errors.push({ message: `Style: ${w.message}`, severity: w.severity, ...styleWarningLocation(w, lineMap), ...(file ? { file } : {}) });
       }
     }
     styleGraphs.push(graph);
-  }
+  });
   const styleGraph = styleGraphs.length > 0
     ? mergeStyleGraphs(...styleGraphs)
     : emptyStyleGraph();
@@ -199,16 +212,31 @@ export function compile(
     }
   }
   for (const sv of styleGraph.variables) {
-    mergedVariables[sv.name] = sv.value;
+    if (!sv.scheme) mergedVariables[sv.name] = sv.value;
   }
   // API-level variables have highest priority
   Object.assign(mergedVariables, options?.variables ?? {});
 
+  // Dark-scheme overrides: theme variants < `@dark` style variables
+  const darkVariables: Record<string, string> = {};
+  for (const theme of resolvedThemes) {
+    Object.assign(darkVariables, theme.variants?.dark);
+  }
+  for (const sv of styleGraph.variables) {
+    if (sv.scheme === 'dark') darkVariables[sv.name] = sv.value;
+  }
+  const hasDarkScheme = Object.keys(darkVariables).length > 0;
+
   const ctx: CompileContext = {
     variables: mergedVariables,
-    errors: [],
+    errors: compileErrors,
     extraStyles: new Set(),
     styleGraph,
+    ...(hasDarkScheme ? { darkVariables } : {}),
+    embedProviders,
+    images: options?.images,
+    markdown: { ...markdown, ...options?.markdown },
+    version: doc.version,
   };
 
   const sourceMap = options?.sourceMap ?? false;
@@ -219,8 +247,35 @@ export function compile(
   const comments = [...transformedDoc.comments].sort((a, b) => a.line - b.line);
   let commentIdx = 0;
 
+  // Headings get ids once all blocks are rendered: slugs must not collide
+  // across blocks, and `core/toc` and `#id` links need the whole list.
+  // Footnotes are numbered document-wide the same way.
+  const rendered: RenderedBlock[] = [];
+  const ids = collectBlockIds(transformedDoc.blocks);
+  const headings: HeadingEntry[] = [];
+  const notes = new Map<string, Footnote>();
+  const blockHtmls = transformedDoc.blocks
+    .map(block => anchorHeadings(compileBlock(block, registry, pluginRenderers, ctx, sourceMap, rendered, 0), ids, headings))
+    .map(html => collectFootnotes(html, notes))
+    .map(html => numberFootnotes(html, notes))
+    .map(html => fillToc(html, headings));
+  for (const label of notes.keys()) ids.add(`fn-${label}`);
+  for (const { block, html } of rendered) {
+    checkReferences(block, html, ids, ctx.errors);
+    checkFootnotes(block, html, notes, ctx.errors);
+  }
+
+  // Footnotes go where `core/footnotes` is, or after the last block
+  const footnoteList = renderFootnotes(notes);
+  let footnotesPlaced = false;
+  blockHtmls.forEach((html, i) => {
+    const { html: filled, filled: placed } = fillFootnotes(html, footnoteList);
+    blockHtmls[i] = filled;
+    footnotesPlaced ||= placed;
+  });
+
   const htmlParts: string[] = [];
-  for (const block of transformedDoc.blocks) {
+  transformedDoc.blocks.forEach((block, i) => {
     // Emit any comments that appear before this block
     while (commentIdx < comments.length && comments[commentIdx].line < block.position.start.line) {
       const c = comments[commentIdx];
@@ -229,9 +284,11 @@ export function compile(
       htmlOffset += commentHtml.length + 1;
       commentIdx++;
     }
-    const html = compileBlock(block, registry, pluginRenderers, ctx, sourceMap, 0);
+    const html = blockHtmls[i];
     if (sourceMap) {
       entries.push({
+        ...(block.source ? { file: block.source } : {}),
+        ...(block.id ? { id: block.id } : {}),
         sourceLine: block.position.start.line,
         sourceEndLine: block.position.end.line,
         blockType: block.blockType,
@@ -242,19 +299,20 @@ export function compile(
     }
     htmlParts.push(html);
     htmlOffset += html.length + 1;
-  }
+  });
   // Emit any remaining comments after the last block
   while (commentIdx < comments.length) {
     htmlParts.push(`<!-- mkly-c: ${comments[commentIdx].content.replace(/--/g, '—')} -->`);
     commentIdx++;
   }
+  if (footnoteList && !footnotesPlaced) htmlParts.push(`<section class="mkly-core-footnotes">${footnoteList}</section>`);
   const blocksHtml = htmlParts.join('\n');
 
   // Build theme CSS
   const themeCSS: string[] = [];
   for (const theme of resolvedThemes) {
-    if (theme.variables) {
-      const themeCss = themeToCSS(theme.variables);
+    if (theme.variables || theme.variants) {
+      const themeCss = themeToCSS(theme.variables ?? {}, theme.variants);
       if (themeCss) themeCSS.push(themeCss);
     }
     if (theme.rawCss) {
@@ -299,6 +357,7 @@ export function compile(
     presetCSS: presetCSS.length > 0 ? presetCSS : undefined,
     apiThemeCSS: apiThemeCSS || undefined,
     blockContribCSS: blockContribCSS.length > 0 ? blockContribCSS : undefined,
+    variables: mergedVariables,
   });
 
   const extraCSS = [layeredCSS];
@@ -316,12 +375,28 @@ export function compile(
     transformedDoc.meta = { ...transformedDoc.meta, version: String(doc.version) };
   }
 
-  const html = wrapOutput
+  const parts = buildWebParts(blocksHtml, extraCSS, maxWidth, transformedDoc.meta, usedKitNames, activeThemeNames, activePresetNames, sourceMap, transformedDoc.styles, transformedDoc.inlineThemes, transformedDoc.inlinePresets);
+
+  const wrap = options?.wrap ?? 'legacy';
+  if (wrap === 'document') {
+    const metaMappings = resolveMetaHeadMappings(STANDARD_META_PROPERTIES, ...resolvedKits.map(k => k.metaProperties ?? []));
+    parts.documentHead = (hasDarkScheme ? '<meta name="color-scheme" content="light dark">\n' : '')
+      + buildDocumentHead(transformedDoc.meta, metaMappings);
+    parts.lang = transformedDoc.meta.lang || 'en';
+  }
+
+  // Plugin wrappers (e.g. email) own the final markup — their output is both html and body
+  const pluginHtml = wrapOutput
     ? wrapOutput(blocksHtml, transformedDoc.meta, ctx, maxWidth, usedKitNames)
-    : wrapWeb(blocksHtml, extraCSS, maxWidth, transformedDoc.meta, usedKitNames, activeThemeNames, activePresetNames, sourceMap, transformedDoc.styles, transformedDoc.inlineThemes, transformedDoc.inlinePresets);
+    : undefined;
 
   let result: CompileResult = {
-    html,
+    html: pluginHtml ?? assembleHtml(parts, wrap),
+    body: pluginHtml ?? parts.body,
+    css: parts.css,
+    headTags: parts.syncScript + parts.metaTags,
+    roundTripData: parts.roundTripData,
+    meta: transformedDoc.meta,
     errors: [...transformedDoc.errors, ...ctx.errors],
     ...(sourceMap ? { sourceMap: entries } : {}),
     styleGraph,
@@ -336,37 +411,54 @@ export function compile(
 
 const MAX_DEPTH = 50;
 
+const CHILDREN_RE = /\{\{child(?:ren|:(\d+))\}\}/g;
+
+/** A block's own output (children not filled in), kept for checking its `#id` links. */
+interface RenderedBlock {
+  block: MklyBlock;
+  html: string;
+}
+
 function compileBlock(
   block: MklyBlock,
   registry: BlockRegistry,
   pluginRenderers: Map<string, (block: MklyBlock, ctx: CompileContext) => string>,
   ctx: CompileContext,
   sourceMap: boolean,
+  rendered: RenderedBlock[],
   depth = 0,
 ): string {
   if (depth > MAX_DEPTH) {
     return '<!-- mkly: max nesting depth exceeded -->';
   }
   const pluginRenderer = pluginRenderers.get(block.blockType);
-  let html = pluginRenderer
+  const errorCount = ctx.errors.length;
+  let html = stripLiterals(pluginRenderer
     ? pluginRenderer(block, ctx)
-    : registry.compile(block, ctx);
+    : registry.compile(block, ctx));
+  // Lines of an included block are lines of its own document
+  if (block.source) {
+    for (let i = errorCount; i < ctx.errors.length; i++) ctx.errors[i].file ??= block.source;
+  }
 
-  // Inject source map + block identity attributes
-  if (sourceMap) {
-    html = html.replace(/^<(\w+)/, `<$1 data-mkly-line="${block.position.start.line}" data-mkly-id="${block.blockType}:${block.position.start.line}"`);
+  // `--- type#id` is the element's HTML id, unless the renderer set its own
+  if (block.id && !/^<\w+[^>]*\sid="/.test(html)) {
+    html = html.replace(/^<(\w+)/, `<$1 id="${block.id}"`);
   }
 
-  if (block.children.length > 0) {
-    const childrenHtml = block.children
-      .map(child => compileBlock(child, registry, pluginRenderers, ctx, sourceMap, depth + 1))
-      .join('\n');
-    html = html.replace('{{children}}', childrenHtml);
-  } else {
-    html = html.replace('{{children}}', '');
+  // Inject source map + block identity attributes
+  if (sourceMap) {
+    const file = block.source ? ` data-mkly-file="${escapeMetaContent(block.source)}"` : '';
+    const id = block.id ?? `${block.blockType}:${block.position.start.line}`;
+    html = html.replace(/^<(\w+)/, `<$1 data-mkly-line="${block.position.start.line}"${file} data-mkly-id="${id}"`);
   }
+  rendered.push({ block, html });
 
-  return html;
+  const children = block.children
+    .map(child => compileBlock(child, registry, pluginRenderers, ctx, sourceMap, rendered, depth + 1));
+  // `{{child:N}}` places one child on its own, for containers that lay children out (core/columns)
+  return html.replace(CHILDREN_RE, (_m, index?: string) =>
+    (index === undefined ? children.join('\n') : children[Number(index)] ?? ''));
 }
 
 function escapeMetaContent(value: string): string {
@@ -403,8 +495,14 @@ function serializeInlineDefines(inlineThemes: MklyTheme[], inlinePresets: MklyPr
         lines.push(`${key}: ${value}`);
       }
     }
+    if (theme.variants?.dark) {
+      lines.push('@dark');
+      for (const [key, value] of Object.entries(theme.variants.dark)) {
+        lines.push(`  ${key}: ${value}`);
+      }
+    }
     if (theme.css) {
-      if (theme.variables && Object.keys(theme.variables).length > 0) lines.push('');
+      if (lines.length > 1) lines.push('');
       lines.push(theme.css);
     }
     parts.push(lines.join('\n'));
@@ -419,17 +517,51 @@ function serializeInlineDefines(inlineThemes: MklyTheme[], inlinePresets: MklyPr
   return parts.join('\n---\n');
 }
 
-function wrapWeb(content: string, extraCSS: string[], maxWidth: number, meta?: Record<string, string>, uses?: string[], themes?: string[], presets?: string[], sourceMap?: boolean, styleSources?: string[], inlineThemes?: MklyTheme[], inlinePresets?: MklyPreset[]): string {
+interface WebParts {
+  body: string;
+  css: string;
+  syncScript: string;
+  metaTags: string;
+  roundTripData: string;
+  /** Meta-driven head tags and language, only built for document output */
+  documentHead?: string;
+  lang?: string;
+}
+
+/** Line and range for a diagnostic on a directive entry (documents built without parse() have no ranges). */
+function directiveLocation(range?: SourceRange): { line: number; range: SourceRange } {
+  return range ? { line: range.start.line, range } : { line: 1, range: { start: { line: 1, column: 1 }, end: { line: 1, column: 1 } } };
+}
+
+/**
+ * Map a style warning from its line within the style source onto the
+ * document. Without a mapped line (a style a transform added has no line map)
+ * it points at the start of the style, or of the document.
+ */
+function styleWarningLocation(warning: StyleWarning, lineMap?: number[]): { line: number; range: SourceRange } {
+  const mapped = warning.line !== undefined ? lineMap?.[warning.line - 1] : undefined;
+  if (mapped === undefined || !warning.range) {
+    const line = mapped ?? lineMap?.[0] ?? 1;
+    return { line, range: { start: { line, column: 1 }, end: { line, column: 1 } } };
+  }
+  return {
+    line: mapped,
+    range: { start: { line: mapped, column: warning.range.start.column }, end: { line: mapped, column: warning.range.end.column } },
+  };
+}
+
+function emptyResult(errors: CompileResult['errors'], meta: Record<string, string>): CompileResult {
+  return { html: '', body: '', css: '', headTags: '', roundTripData: '', meta, errors };
+}
+
+function buildWebParts(content: string, extraCSS: string[], maxWidth: number, meta?: Record<string, string>, uses?: string[], themes?: string[], presets?: string[], sourceMap?: boolean, styleSources?: string[], inlineThemes?: MklyTheme[], inlinePresets?: MklyPreset[]): WebParts {
   if (sourceMap) {
     extraCSS = [...extraCSS, '[data-mkly-active]{outline:0.125rem solid rgba(59,130,246,0.5);outline-offset:0.125rem;transition:outline 0.15s}'];
   }
-  const styleTag = extraCSS.length > 0
-    ? `<style>${extraCSS.join('\n')}</style>\n`
-    : '';
   const metaTags = meta && uses ? buildMetaTags(meta, uses, themes, presets) : '';
   const syncScript = sourceMap
     ? `<script>
-document.addEventListener('click',function(e){var el=e.target.closest('[data-mkly-line]');if(el)window.parent.postMessage({type:'mkly:click',line:+el.dataset.mklyLine},location.origin)});
+document.addEventListener('click',function(e){var el=e.target.closest('[data-mkly-line]');if(el)window.parent.postMessage({type:'mkly:click',line:+el.dataset.mklyLine,file:el.dataset.mklyFile,id:el.dataset.mklyId},location.origin)});
 window.addEventListener('message',function(e){if(e.origin!==location.origin)return;if(e.data&&e.data.type==='mkly:highlight'){var line=e.data.line;if(typeof line!=='number')return;document.querySelectorAll('[data-mkly-active]').forEach(function(x){x.removeAttribute('data-mkly-active')});var el=document.querySelector('[data-mkly-line="'+line+'"]');if(el){el.setAttribute('data-mkly-active','');el.scrollIntoView({behavior:'smooth',block:'nearest'})}}});
 </script>\n`
     : '';
@@ -442,14 +574,34 @@ window.addEventListener('message',function(e){if(e.origin!==location.origin)retu
   const definesSourceTag = hasInlineDefines
     ? `<script type="text/mkly-defines">${serializeInlineDefines(inlineThemes ?? [], inlinePresets ?? [])}</script>\n`
     : '';
-  return [
-    styleTag,
+  return {
+    body: `<main class="mkly-document" style="max-width:${maxWidth}px;margin:0 auto;">${content}</main>`,
+    css: extraCSS.join('\n'),
     syncScript,
-    styleSourceTag,
-    definesSourceTag,
     metaTags,
-    `<main class="mkly-document" style="max-width:${maxWidth}px;margin:0 auto;">`,
-    content,
-    '</main>',
-  ].join('');
+    roundTripData: styleSourceTag + definesSourceTag,
+  };
+}
+
+function assembleHtml(parts: WebParts, wrap: WrapMode): string {
+  const styleTag = parts.css ? `<style>${parts.css}</style>\n` : '';
+  switch (wrap) {
+    case 'fragment':
+      return parts.body;
+    case 'document':
+      return [
+        `<!DOCTYPE html>\n<html lang="${escapeMetaContent(parts.lang ?? 'en')}">\n<head>\n`,
+        '<meta charset="utf-8">\n<meta name="viewport" content="width=device-width, initial-scale=1">\n',
+        parts.documentHead ?? '',
+        styleTag,
+        parts.syncScript,
+        parts.metaTags,
+        parts.roundTripData,
+        '</head>\n<body>\n',
+        parts.body,
+        '\n</body>\n</html>\n',
+      ].join('');
+    case 'legacy':
+      return [styleTag, parts.syncScript, parts.roundTripData, parts.metaTags, parts.body].join('');
+  }
 }
@@ -43,8 +43,16 @@ export interface CompletionData {
   styleHints: Map<string, Record<string, string[]>>;
   styleProperties: CompletionItem[];
   contentModes: Map<string, string>;
+  /** The `--- if` container and the `if:`/`unless:` properties every block accepts. */
+  conditions: CompletionItem[];
 }
 
+const CONDITION_ITEMS: CompletionItem[] = [
+  { label: 'if', description: 'Conditional container — its blocks render only when the condition holds (e.g. --- if: audience == "pro")', type: 'block' },
+  { label: 'if', description: 'Show this block only when the condition holds', type: 'property', propType: 'text', optional: true },
+  { label: 'unless', description: 'Hide this block when the condition holds', type: 'property', propType: 'text', optional: true },
+];
+
 function unwrapZodType(zodType: unknown): unknown {
   if (!zodType || typeof zodType !== 'object') return zodType;
   const z = zodType as Record<string, unknown>;
@@ -309,5 +317,6 @@ export function createCompletionData(
     styleHints: styleHintsMap,
     styleProperties: stylePropertyItems,
     contentModes: contentModesMap,
+    conditions: CONDITION_ITEMS,
   };
 }
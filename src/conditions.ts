@@ -0,0 +1,220 @@
+import type { InterpolationScope } from './interpolate';
+import { resolvePath } from './interpolate';
+
+/** `--- if: condition` … `--- /if` — a container whose children render only when the condition holds. */
+export const CONDITIONAL_BLOCK = 'if';
+
+/** Block properties that show (`if`) or hide (`unless`) a single block. */
+export const CONDITION_PROPERTIES = ['if', 'unless'] as const;
+
+/** What identifiers in a condition resolve against — `data` first, then the API `variables`. */
+export interface ConditionScope extends InterpolationScope {
+  variables?: Record<string, string>;
+}
+
+// ---------------------------------------------------------------------------
+// Expressions — literals, dotted paths, comparisons, and/or/not, `in [..]`
+// ---------------------------------------------------------------------------
+
+type Expr =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'path'; path: string }
+  | { kind: 'list'; items: Expr[] }
+  | { kind: 'not'; operand: Expr }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr };
+
+interface Token {
+  type: 'string' | 'number' | 'word' | 'op';
+  value: string;
+  offset: number;
+}
+
+const TOKEN_RE = /\s*(?:("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(-?\d+(?:\.\d+)?)|([A-Za-z_][\w-]*(?:\.[\w-]+)*)|(==|!=|<=|>=|&&|\|\||[<>!()[\],]))/y;
+
+function tokenizeExpression(source: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_RE.lastIndex = 0;
+  while (TOKEN_RE.lastIndex < source.length) {
+    if (!source.slice(TOKEN_RE.lastIndex).trim()) break;
+    const start = TOKEN_RE.lastIndex;
+    const m = TOKEN_RE.exec(source);
+    if (!m) {
+      const offset = start + (source.slice(start).length - source.slice(start).trimStart().length);
+      throw new Error(`Unexpected "${source[offset]}" at column ${offset + 1}`);
+    }
+    const offset = m.index + m[0].length - (m[1] ?? m[2] ?? m[3] ?? m[4]).length;
+    if (m[1]) tokens.push({ type: 'string', value: m[1].slice(1, -1).replace(/\\(.)/g, '$1'), offset });
+    else if (m[2]) tokens.push({ type: 'number', value: m[2], offset });
+    else if (m[3]) tokens.push({ type: 'word', value: m[3], offset });
+    else tokens.push({ type: 'op', value: m[4], offset });
+  }
+  return tokens;
+}
+
+const WORD_OPS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+
+/** Recursive descent: or → and → not → comparison → primary. */
+function parseExpression(source: string): Expr {
+  const tokens = tokenizeExpression(source).map(t => (t.type === 'word' && WORD_OPS[t.value] ? { ...t, type: 'op' as const, value: WORD_OPS[t.value] } : t));
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => peek()?.type === 'op' && peek().value === value;
+  const fail = (what: string): never => {
+    const token = peek();
+    throw new Error(token ? `Unexpected "${token.value}" at column ${token.offset + 1} — expected ${what}` : `Condition ends early — expected ${what}`);
+  };
+  const expect = (value: string) => {
+    if (!isOp(value)) fail(`"${value}"`);
+    pos++;
+  };
+
+  const primary = (): Expr => {
+    const token = peek();
+    if (!token) return fail('a value');
+    if (token.type === 'string') { pos++; return { kind: 'literal', value: token.value }; }
+    if (token.type === 'number') { pos++; return { kind: 'literal', value: Number(token.value) }; }
+    if (token.type === 'word') {
+      pos++;
+      if (token.value === 'true') return { kind: 'literal', value: true };
+      if (token.value === 'false') return { kind: 'literal', value: false };
+      if (token.value === 'null') return { kind: 'literal', value: undefined };
+      return { kind: 'path', path: token.value };
+    }
+    if (isOp('(')) {
+      pos++;
+      const inner = or();
+      expect(')');
+      return inner;
+    }
+    if (isOp('[')) {
+      pos++;
+      const items: Expr[] = [];
+      while (!isOp(']')) {
+        items.push(primary());
+        if (!isOp(',')) break;
+        pos++;
+      }
+      expect(']');
+      return { kind: 'list', items };
+    }
+    return fail('a value');
+  };
+
+  const comparison = (): Expr => {
+    const left = primary();
+    const token = peek();
+    if (token?.type === 'op' && ['==', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+      pos++;
+      return { kind: 'binary', op: token.value, left, right: primary() };
+    }
+    if (token?.type === 'word' && token.value === 'in') {
+      pos++;
+      return { kind: 'binary', op: 'in', left, right: primary() };
+    }
+    return left;
+  };
+
+  const not = (): Expr => {
+    if (isOp('!')) {
+      pos++;
+      return { kind: 'not', operand: not() };
+    }
+    return comparison();
+  };
+
+  const and = (): Expr => {
+    let left = not();
+    while (isOp('&&')) {
+      pos++;
+      left = { kind: 'binary', op: '&&', left, right: not() };
+    }
+    return left;
+  };
+
+  const or = (): Expr => {
+    let left = and();
+    while (isOp('||')) {
+      pos++;
+      left = { kind: 'binary', op: '||', left, right: and() };
+    }
+    return left;
+  };
+
+  if (tokens.length === 0) throw new Error('Empty condition');
+  const expr = or();
+  if (pos < tokens.length) fail('"and", "or" or the end of the condition');
+  return expr;
+}
+
+function truthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== false && value !== '' && value !== 0 && value !== 'false';
+}
+
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return undefined;
+}
+
+/** Equality across data types and string variables: `issue == 42` holds for 42 and "42". */
+function equals(a: unknown, b: unknown): boolean {
+  if (a === undefined || a === null || b === undefined || b === null) return (a ?? undefined) === (b ?? undefined);
+  if (typeof a === 'boolean' || typeof b === 'boolean') return String(a) === String(b);
+  const x = asNumber(a);
+  const y = asNumber(b);
+  if (x !== undefined && y !== undefined) return x === y;
+  return String(a) === String(b);
+}
+
+function compare(a: unknown, b: unknown): number | undefined {
+  if (a === undefined || a === null || b === undefined || b === null) return undefined;
+  const x = asNumber(a);
+  const y = asNumber(b);
+  if (x !== undefined && y !== undefined) return x - y;
+  const s = String(a);
+  const t = String(b);
+  return s < t ? -1 : s > t ? 1 : 0;
+}
+
+function evaluateExpr(expr: Expr, scope: ConditionScope): unknown {
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value;
+    case 'path': {
+      const value = resolvePath(expr.path, scope);
+      return value !== undefined || expr.path.startsWith('meta.') ? value : scope.variables?.[expr.path];
+    }
+    case 'list':
+      return expr.items.map(item => evaluateExpr(item, scope));
+    case 'not':
+      return !truthy(evaluateExpr(expr.operand, scope));
+    case 'binary': {
+      if (expr.op === '&&') return truthy(evaluateExpr(expr.left, scope)) && truthy(evaluateExpr(expr.right, scope));
+      if (expr.op === '||') return truthy(evaluateExpr(expr.left, scope)) || truthy(evaluateExpr(expr.right, scope));
+      const left = evaluateExpr(expr.left, scope);
+      const right = evaluateExpr(expr.right, scope);
+      if (expr.op === '==') return equals(left, right);
+      if (expr.op === '!=') return !equals(left, right);
+      if (expr.op === 'in') {
+        if (Array.isArray(right)) return right.some(item => equals(left, item));
+        return typeof right === 'string' && left !== undefined && right.includes(String(left));
+      }
+      const order = compare(left, right);
+      if (order === undefined) return false;
+      if (expr.op === '<') return order < 0;
+      if (expr.op === '<=') return order <= 0;
+      if (expr.op === '>') return order > 0;
+      return order >= 0;
+    }
+  }
+}
+
+/**
+ * Evaluate a condition such as `audience == "pro" and not meta.draft`.
+ * Identifiers are dotted paths; unset ones are falsy. Throws on syntax errors.
+ */
+export function evaluateCondition(expression: string, scope: ConditionScope): boolean {
+  return truthy(evaluateExpr(parseExpression(expression), scope));
+}
@@ -0,0 +1,601 @@
+import type { MklyDocument, TokenizedLine } from './types';
+import { tokenize, serializeProperty } from './tokenizer';
+import { parse } from './parser';
+import type { ParseOptions } from './parser';
+import { CONTROL_BLOCKS } from './expand';
+import { cssPropertyName } from './style-graph';
+
+/**
+ * Lossless concrete syntax tree. Every source line is kept verbatim (including
+ * indentation, quotes, comments and `\r`), so `printCst(parseCst(source)) === source`
+ * and edits only rewrite the lines they touch.
+ *
+ * Nodes are mutable: the edit helpers below change the tree in place.
+ */
+export interface CstDocument {
+  children: CstNode[];
+}
+
+export interface CstBlock {
+  kind: 'block';
+  blockType: string;
+  id?: string;
+  label?: string;
+  /** The `--- type#id: label` line. */
+  header: string;
+  /** Lines between the header and the first child (or close): properties, comments, blank lines, content. */
+  body: string[];
+  children: CstNode[];
+  /** The `--- /type` line of a container or closed verbatim block. Unset on containers a mismatched closer ended. */
+  close?: string;
+}
+
+/** Blank lines, comments and unmatched closers between blocks. */
+export interface CstTrivia {
+  kind: 'trivia';
+  lines: string[];
+}
+
+export type CstNode = CstBlock | CstTrivia;
+
+export type CstParent = CstDocument | CstBlock;
+
+/** A style rule addressed the way StyleGraph addresses it. */
+export interface CstStyleRule {
+  blockType: string;
+  /** Defaults to `'self'`. */
+  target?: string;
+  label?: string;
+}
+
+// Directives whose lines are all content — they have no property section
+const NO_PROPERTIES = new Set(['style', 'use', 'theme', 'preset', 'define-preset', 'include']);
+const DIRECTIVES = new Set(['meta', 'style', 'use', 'theme', 'preset', 'define-theme', 'define-preset']);
+
+function lineToken(raw: string): TokenizedLine {
+  return tokenize(raw)[0];
+}
+
+/** `'\r'` if the sample line is CRLF-terminated, so inserted lines match. */
+function eolOf(sample: string): string {
+  return sample.endsWith('\r') ? '\r' : '';
+}
+
+function leadingSpace(raw: string): string {
+  return raw.slice(0, raw.length - raw.trimStart().length);
+}
+
+/** Tokens for a run of lines — unlike `lineToken`, block scalar lines come out as `continuation`. */
+function bodyTokens(lines: string[]): TokenizedLine[] {
+  return lines.length > 0 ? tokenize(lines.join('\n')) : [];
+}
+
+function isTrivia(token: TokenizedLine): boolean {
+  return token.type === 'blank' || token.type === 'comment';
+}
+
+// ---------------------------------------------------------------------------
+// Building & printing
+// ---------------------------------------------------------------------------
+
+function pushTrivia(nodes: CstNode[], lines: string[]): void {
+  if (lines.length === 0) return;
+  const last = nodes[nodes.length - 1];
+  if (last?.kind === 'trivia') {
+    last.lines.push(...lines);
+  } else {
+    nodes.push({ kind: 'trivia', lines: [...lines] });
+  }
+}
+
+/** Split trailing blank and comment lines off a body — they lead into whatever follows. */
+function splitTrailing(body: string[]): string[] {
+  const tokens = bodyTokens(body);
+  let i = body.length;
+  while (i > 0 && isTrivia(tokens[i - 1])) i--;
+  return body.splice(i);
+}
+
+/**
+ * Build a CST with the same block structure `parse()` produces: containers
+ * nest until their `--- /type` (retroactively for types not in
+ * `containerBlocks`) and verbatim blocks keep their lines as body.
+ */
+export function parseCst(source: string, options?: ParseOptions): CstDocument {
+  const verbatimBlocks = options?.verbatimBlocks ?? new Set<string>();
+  const containerBlocks = new Set([...(options?.containerBlocks ?? []), ...CONTROL_BLOCKS]);
+  const lines = source.split('\n');
+  const tokens = tokenize(source);
+  const nodes: CstNode[] = [];
+  const open: CstBlock[] = [];
+  const closed = new WeakSet<CstBlock>();
+  const siblings = (): CstNode[] => (open.length > 0 ? open[open.length - 1].children : nodes);
+  let current: CstBlock | null = null;
+  let verbatim = false;
+
+  const finish = (block: CstBlock | null) => {
+    if (!block) return;
+    const trailing = block.close === undefined ? splitTrailing(block.body) : [];
+    siblings().push(block);
+    pushTrivia(siblings(), trailing);
+    if (containerBlocks.has(block.blockType) && !verbatimBlocks.has(block.blockType)) open.push(block);
+    current = null;
+    verbatim = false;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const raw = lines[i];
+
+    if (current && verbatim) {
+      if (token.type === 'block_end' && token.blockType === current.blockType) {
+        current.close = raw;
+        finish(current);
+      } else {
+        current.body.push(raw);
+      }
+      continue;
+    }
+
+    if (token.type === 'block_start') {
+      finish(current);
+      current = {
+        kind: 'block',
+        blockType: token.blockType,
+        ...(token.id ? { id: token.id } : {}),
+        ...(token.label ? { label: token.label } : {}),
+        header: raw,
+        body: [],
+        children: [],
+      };
+    } else if (token.type === 'block_end') {
+      finish(current);
+      const matches = (block: CstBlock) =>
+        block.blockType === token.blockType && (token.id === undefined || block.id === token.id);
+      let depth = open.length - 1;
+      while (depth >= 0 && !matches(open[depth])) depth--;
+      if (depth !== -1) {
+        for (const inner of open.splice(depth + 1)) closed.add(inner);
+        open.pop()!.close = raw;
+        continue;
+      }
+      const list = siblings();
+      let openIndex = list.length - 1;
+      while (openIndex >= 0) {
+        const node = list[openIndex];
+        if (node.kind === 'block' && matches(node) && node.close === undefined && !closed.has(node) && !containerBlocks.has(node.blockType)) break;
+        openIndex--;
+      }
+      if (openIndex !== -1) {
+        const container = list[openIndex] as CstBlock;
+        container.children = list.splice(openIndex + 1);
+        container.close = raw;
+      } else {
+        pushTrivia(list, [raw]);
+      }
+    } else if (current) {
+      // Like the parser, verbatim capture starts after the property lines
+      if (verbatimBlocks.has(current.blockType) && (token.type === 'text' || token.type === 'blank')) {
+        verbatim = true;
+      }
+      current.body.push(raw);
+    } else {
+      pushTrivia(siblings(), [raw]);
+    }
+  }
+  finish(current);
+
+  return { children: nodes };
+}
+
+function printNodes(nodes: CstNode[], out: string[]): void {
+  for (const node of nodes) {
+    if (node.kind === 'trivia') {
+      out.push(...node.lines);
+      continue;
+    }
+    out.push(node.header, ...node.body);
+    printNodes(node.children, out);
+    if (node.close !== undefined) out.push(node.close);
+  }
+}
+
+export function printCst(cst: CstDocument): string {
+  const out: string[] = [];
+  printNodes(cst.children, out);
+  return out.join('\n');
+}
+
+/** Parse the printed CST into an AST. */
+export function cstToDocument(cst: CstDocument, options?: ParseOptions): MklyDocument {
+  return parse(printCst(cst), options);
+}
+
+/** All blocks (directives included) in document order, depth-first. */
+export function cstBlocks(parent: CstParent): CstBlock[] {
+  const blocks: CstBlock[] = [];
+  for (const node of parent.children) {
+    if (node.kind !== 'block') continue;
+    blocks.push(node, ...cstBlocks(node));
+  }
+  return blocks;
+}
+
+// ---------------------------------------------------------------------------
+// Properties & labels
+// ---------------------------------------------------------------------------
+
+type PropertyToken = Extract<TokenizedLine, { type: 'property' }>;
+
+/** A property line of the body and the block scalar lines that follow it. */
+interface PropertyLines {
+  index: number;
+  count: number;
+  token: PropertyToken;
+}
+
+/** The property section — properties and comments up to the first text or blank line. */
+function propertySection(block: CstBlock): PropertyLines[] {
+  const entries: PropertyLines[] = [];
+  if (NO_PROPERTIES.has(block.blockType)) return entries;
+  const tokens = bodyTokens(block.body);
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'property') entries.push({ index: i, count: 1, token });
+    else if (token.type === 'continuation' && entries.length > 0) entries[entries.length - 1].count++;
+    else if (token.type !== 'comment') break;
+  }
+  return entries;
+}
+
+function findPropertyLines(block: CstBlock, key: string): PropertyLines[] {
+  return propertySection(block).filter(entry => entry.token.key === key);
+}
+
+/** Values the tokenizer would alter (trim, unquote) or reject (empty) are written quoted. */
+export function formatValue(value: string): string {
+  if (value.includes('\n')) {
+    throw new Error('Property values cannot contain line breaks');
+  }
+  const needsQuotes = value === '' || value !== value.trim() || (value.startsWith('"') && value.endsWith('"'));
+  return needsQuotes ? `"${value}"` : value;
+}
+
+/** Source lines for a property — a `key: |` block scalar when the value spans lines. */
+function propertySource(indent: string, key: string, value: string, eol: string): string[] {
+  const formatted = value.includes('\n') ? value : formatValue(value);
+  return serializeProperty(key, formatted, indent).split('\n').map(line => line + eol);
+}
+
+/**
+ * Set a property, rewriting only the value of its line (quotes and spacing
+ * are kept). A new property is added after the last existing one; multi-line
+ * values are written as `key: |` block scalars.
+ */
+export function setCstProperty(block: CstBlock, key: string, value: string): void {
+  if (NO_PROPERTIES.has(block.blockType)) {
+    throw new Error(`"--- ${block.blockType}" blocks have no properties`);
+  }
+  const eol = eolOf(block.header);
+
+  const existing = findPropertyLines(block, key);
+  if (existing.length > 0) {
+    // The parser keeps the last duplicate, so that is the one to change
+    const { index, count, token } = existing[existing.length - 1];
+    const raw = block.body[index];
+    if (token.scalar || value.includes('\n')) {
+      block.body.splice(index, count, ...propertySource(leadingSpace(raw), key, value, eol));
+      return;
+    }
+    const start = token.valueRange.start.column - 1;
+    const end = token.valueRange.end.column - 1;
+    const quoted = raw[start - 1] === '"' && raw[end] === '"';
+    block.body[index] = raw.slice(0, start) + (quoted ? value : formatValue(value)) + raw.slice(end);
+    return;
+  }
+
+  const section = propertySection(block);
+  const last = section[section.length - 1];
+  const sample = last ? block.body[last.index] : block.header;
+  block.body.splice(last ? last.index + last.count : 0, 0, ...propertySource(leadingSpace(sample), key, value, eol));
+}
+
+/** Remove every line defining `key`. Returns false if the block had no such property. */
+export function removeCstProperty(block: CstBlock, key: string): boolean {
+  const lines = findPropertyLines(block, key);
+  for (const { index, count } of lines.reverse()) block.body.splice(index, count);
+  return lines.length > 0;
+}
+
+/** Set or (with `undefined`) remove the `: label` part of a block header. */
+export function setCstLabel(block: CstBlock, label: string | undefined): void {
+  const token = lineToken(block.header) as Extract<TokenizedLine, { type: 'block_start' }>;
+  const typeEnd = (token.idRange ?? token.typeRange).end.column - 1;
+  const tailStart = token.labelRange ? token.labelRange.end.column - 1 : typeEnd;
+  const tail = block.header.slice(tailStart);
+  if (label === undefined || label.trim() === '') {
+    block.header = block.header.slice(0, typeEnd) + tail;
+    delete block.label;
+  } else if (token.labelRange) {
+    block.header = block.header.slice(0, token.labelRange.start.column - 1) + label.trim() + tail;
+    block.label = label.trim();
+  } else {
+    block.header = `${block.header.slice(0, typeEnd)}: ${label.trim()}${tail}`;
+    block.label = label.trim();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Moving blocks — a block travels with the trivia directly above it
+// ---------------------------------------------------------------------------
+
+function findParent(parent: CstParent, block: CstBlock): CstParent | null {
+  if (parent.children.includes(block)) return parent;
+  for (const node of parent.children) {
+    if (node.kind !== 'block') continue;
+    const found = findParent(node, block);
+    if (found) return found;
+  }
+  return null;
+}
+
+function dropLeadingBlanks(nodes: CstNode[]): void {
+  const first = nodes[0];
+  if (first?.kind !== 'trivia') return;
+  while (first.lines.length > 0 && lineToken(first.lines[0]).type === 'blank') first.lines.shift();
+  if (first.lines.length === 0) nodes.shift();
+}
+
+function mergeTrivia(nodes: CstNode[]): void {
+  for (let i = nodes.length - 1; i > 0; i--) {
+    const prev = nodes[i - 1];
+    const node = nodes[i];
+    if (prev.kind === 'trivia' && node.kind === 'trivia') {
+      prev.lines.push(...node.lines);
+      nodes.splice(i, 1);
+    }
+  }
+}
+
+function detach(cst: CstDocument, block: CstBlock): CstNode[] {
+  const parent = findParent(cst, block);
+  if (!parent) throw new Error(`Block "${block.blockType}" is not part of this document`);
+  const list = parent.children;
+  let start = list.indexOf(block);
+  if (start > 0 && list[start - 1].kind === 'trivia') start--;
+  const removed = list.splice(start, list.indexOf(block) - start + 1);
+  // The block that now opens the document should not start with a gap
+  if (start === 0 && parent === cst) dropLeadingBlanks(list);
+  mergeTrivia(list);
+  return removed;
+}
+
+function attach(cst: CstDocument, parent: CstParent, index: number, nodes: CstNode[]): void {
+  const list = parent.children;
+  const blocks = list.filter((n): n is CstBlock => n.kind === 'block');
+  let at: number;
+  if (index < blocks.length) {
+    at = list.indexOf(blocks[Math.max(index, 0)]);
+    if (at > 0 && list[at - 1].kind === 'trivia') at--;
+  } else {
+    const lastBlock = blocks.length > 0 ? list.indexOf(blocks[blocks.length - 1]) : -1;
+    at = lastBlock + 1;
+  }
+
+  const group = [...nodes];
+  const first = group[0];
+  const eol = eolOf(nodes.find((n): n is CstBlock => n.kind === 'block')?.header ?? '');
+  if (at === 0 && parent === cst) {
+    dropLeadingBlanks(group);
+  } else if (first?.kind !== 'trivia' || lineToken(first.lines[0] ?? '').type !== 'blank') {
+    group.unshift({ kind: 'trivia', lines: [eol] });
+  }
+  if (list[at]?.kind === 'block') group.push({ kind: 'trivia', lines: [eol] });
+
+  list.splice(at, 0, ...group);
+  mergeTrivia(list);
+}
+
+/** Remove a block (with its children and the comments directly above it). */
+export function removeCstBlock(cst: CstDocument, block: CstBlock): void {
+  detach(cst, block);
+}
+
+/**
+ * Move a block to `index` among the blocks of `parent` (counted after the
+ * block has been taken out, like `Array#splice`).
+ */
+export function moveCstBlock(cst: CstDocument, block: CstBlock, parent: CstParent, index: number): void {
+  attach(cst, parent, index, detach(cst, block));
+}
+
+/** Insert blocks written as mkly source. Returns the inserted top-level blocks. */
+export function insertCstBlock(cst: CstDocument, source: string, parent: CstParent, index: number, options?: ParseOptions): CstBlock[] {
+  const nodes = parseCst(source, options).children;
+  while (nodes.length > 0 && nodes[nodes.length - 1].kind === 'trivia') nodes.pop();
+  dropLeadingBlanks(nodes);
+  attach(cst, parent, index, nodes);
+  return nodes.filter((n): n is CstBlock => n.kind === 'block');
+}
+
+// ---------------------------------------------------------------------------
+// Style rules — edits inside `--- style` blocks
+// ---------------------------------------------------------------------------
+
+const STYLE_PROP_RE = /^([\w-]+)\s*:\s*(.+)$/;
+const STYLE_PROP_PREFIX_RE = /^\s*[\w-]+\s*:\s*/;
+const INLINE_COMMENT_RE = /\s+\/\/\s.*$/;
+
+interface StyleSection {
+  /** Body indices of the property lines. */
+  props: number[];
+  /** Where a new property line goes. */
+  insertAt: number;
+  indent: string;
+}
+
+function isStyleContent(raw: string): boolean {
+  const text = raw.trim();
+  return text !== '' && !text.startsWith('//');
+}
+
+function isTopLevel(raw: string): boolean {
+  return isStyleContent(raw) && leadingSpace(raw) === '';
+}
+
+/** The selector line for a target inside a rule: `.img`, `:hover`, `>p`. */
+function subSelector(target: string): string {
+  if (target.startsWith('self')) return target.slice(4);
+  if (target.startsWith('>')) return target;
+  return `.${target}`;
+}
+
+function selectorNames(rule: CstStyleRule): string[] {
+  if (rule.label) return [`${rule.blockType}:${rule.label}`];
+  const short = rule.blockType.split('/').pop()!;
+  return short === rule.blockType ? [short] : [rule.blockType, short];
+}
+
+function lastContent(body: string[], from: number, to: number): number {
+  let last = from;
+  for (let i = from; i < to; i++) {
+    if (isStyleContent(body[i])) last = i;
+  }
+  return last;
+}
+
+/** Properties directly under a selector, i.e. deeper than `selectorIndent` and at one level. */
+function collectSection(body: string[], selector: number, end: number): StyleSection {
+  const selectorIndent = leadingSpace(body[selector]).length;
+  let stop = selector + 1;
+  while (stop < end && (!isStyleContent(body[stop]) || leadingSpace(body[stop]).length > selectorIndent)) stop++;
+  const firstContent = body.slice(selector + 1, stop).find(isStyleContent);
+  const indent = firstContent ? leadingSpace(firstContent) : `${leadingSpace(body[selector])}  `;
+  const props: number[] = [];
+  for (let i = selector + 1; i < stop; i++) {
+    const raw = body[i];
+    if (leadingSpace(raw) === indent && STYLE_PROP_RE.test(raw.trim())) props.push(i);
+  }
+  return { props, insertAt: (props.length > 0 ? props[props.length - 1] : selector) + 1, indent };
+}
+
+/** Locate a rule's properties (the last definition wins), or the rule that lacks the target. */
+function findStyleSection(body: string[], rule: CstStyleRule): { section?: StyleSection; rule?: { start: number; end: number } } {
+  const names = selectorNames(rule);
+  const target = rule.target ?? 'self';
+  const sub = target === 'self' ? '' : subSelector(target);
+  let section: StyleSection | undefined;
+  let region: { start: number; end: number } | undefined;
+
+  for (let i = 0; i < body.length; i++) {
+    if (!isTopLevel(body[i])) continue;
+    let end = i + 1;
+    while (end < body.length && !isTopLevel(body[end])) end++;
+    const text = body[i].trim();
+
+    if (sub && names.some(name => name + sub === text)) {
+      section = collectSection(body, i, end);
+    } else if (names.includes(text)) {
+      region = { start: i, end };
+      if (!sub) {
+        section = collectSection(body, i, end);
+      } else {
+        for (let j = i + 1; j < end; j++) {
+          if (body[j].trim() === sub) section = collectSection(body, j, end);
+        }
+      }
+    }
+  }
+  return { section, rule: region };
+}
+
+function matchesProperty(raw: string, property: string): boolean {
+  const match = raw.trim().match(STYLE_PROP_RE);
+  return match !== null && cssPropertyName(match[1]) === cssPropertyName(property);
+}
+
+function replaceStyleValue(raw: string, value: string): string {
+  const prefix = raw.match(STYLE_PROP_PREFIX_RE)![0];
+  const rest = raw.slice(prefix.length);
+  const comment = rest.match(INLINE_COMMENT_RE);
+  const valueEnd = comment ? comment.index! : rest.trimEnd().length;
+  return prefix + value + rest.slice(valueEnd);
+}
+
+function styleBlocks(cst: CstDocument): CstBlock[] {
+  return cst.children.filter((n): n is CstBlock => n.kind === 'block' && n.blockType === 'style');
+}
+
+/**
+ * Set a property of a style rule. An existing declaration has only its value
+ * replaced (inline comments survive); otherwise the declaration, the rule or
+ * a whole `--- style` block is added where the style parser expects it.
+ */
+export function setCstStyleProperty(cst: CstDocument, rule: CstStyleRule, property: string, value: string): void {
+  const blocks = styleBlocks(cst);
+  for (const block of [...blocks].reverse()) {
+    const { section, rule: region } = findStyleSection(block.body, rule);
+    const eol = eolOf(block.header);
+    if (section) {
+      const existing = section.props.filter(i => matchesProperty(block.body[i], property));
+      if (existing.length > 0) {
+        const index = existing[existing.length - 1];
+        block.body[index] = replaceStyleValue(block.body[index], value);
+      } else {
+        block.body.splice(section.insertAt, 0, `${section.indent}${property}: ${value}${eol}`);
+      }
+      return;
+    }
+    if (region) {
+      const last = lastContent(block.body, region.start, region.end);
+      const firstContent = block.body.slice(region.start + 1, region.end).find(isStyleContent);
+      const base = firstContent ? leadingSpace(firstContent) : '  ';
+      block.body.splice(last + 1, 0,
+        `${base}${subSelector(rule.target!)}${eol}`,
+        `${base}  ${property}: ${value}${eol}`,
+      );
+      return;
+    }
+  }
+
+  const target = rule.target ?? 'self';
+  const ruleLines = target === 'self'
+    ? [selectorNames(rule)[0], `  ${property}: ${value}`]
+    : [selectorNames(rule)[0], `  ${subSelector(target)}`, `    ${property}: ${value}`];
+
+  const block = blocks[blocks.length - 1];
+  if (block) {
+    const eol = eolOf(block.header);
+    const last = lastContent(block.body, 0, block.body.length);
+    const hasContent = block.body.some(isStyleContent);
+    const lines = [...(hasContent ? [''] : []), ...ruleLines].map(l => l + eol);
+    block.body.splice(hasContent ? last + 1 : block.body.length, 0, ...lines);
+    return;
+  }
+
+  // No style block yet: add one before the first content block
+  const eol = eolOf(cstBlocks(cst)[0]?.header ?? '');
+  const styleBlock: CstBlock = {
+    kind: 'block',
+    blockType: 'style',
+    header: `--- style${eol}`,
+    body: ruleLines.map(l => l + eol),
+    children: [],
+  };
+  const topBlocks = cst.children.filter((n): n is CstBlock => n.kind === 'block');
+  const firstContent = topBlocks.findIndex(b => !DIRECTIVES.has(b.blockType));
+  attach(cst, cst, firstContent === -1 ? topBlocks.length : firstContent, [styleBlock]);
+}
+
+/** Remove a style declaration. Returns false if the rule had no such property. */
+export function removeCstStyleProperty(cst: CstDocument, rule: CstStyleRule, property: string): boolean {
+  let removed = false;
+  for (const block of styleBlocks(cst)) {
+    const { section } = findStyleSection(block.body, rule);
+    if (!section) continue;
+    const lines = section.props.filter(i => matchesProperty(block.body[i], property));
+    for (const index of lines.reverse()) block.body.splice(index, 1);
+    removed = removed || lines.length > 0;
+  }
+  return removed;
+}
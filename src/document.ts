@@ -0,0 +1,139 @@
+import type { MetaProperty } from './types';
+
+/**
+ * Standard meta fields and the head tags they produce in `wrap: 'document'` mode.
+ * Kits can remap a field by declaring a metaProperty with the same name and its own `head`.
+ */
+export const STANDARD_META_PROPERTIES: MetaProperty[] = [
+  {
+    name: 'title',
+    description: 'Document or newsletter title',
+    example: 'Weekly Digest',
+    head: [{ type: 'title' }, { type: 'property', property: 'og:title' }, { type: 'meta', name: 'twitter:title' }],
+  },
+  {
+    name: 'description',
+    description: 'Short summary used for search results and link previews',
+    example: 'The best links of the week',
+    head: [{ type: 'meta', name: 'description' }, { type: 'property', property: 'og:description' }, { type: 'meta', name: 'twitter:description' }],
+  },
+  { name: 'lang', description: 'Document language (sets <html lang>)', example: 'en' },
+  {
+    name: 'canonical',
+    description: 'Canonical URL of the published page',
+    example: 'https://example.com/issues/7',
+    head: [{ type: 'link', rel: 'canonical' }, { type: 'property', property: 'og:url' }],
+  },
+  {
+    name: 'favicon',
+    description: 'Favicon URL',
+    example: 'https://example.com/favicon.ico',
+    head: [{ type: 'link', rel: 'icon' }],
+  },
+  {
+    name: 'image',
+    description: 'Social preview image URL',
+    example: 'https://example.com/cover.jpg',
+    head: [{ type: 'property', property: 'og:image' }, { type: 'meta', name: 'twitter:image' }],
+  },
+  {
+    name: 'siteName',
+    description: 'Publication or site name',
+    example: 'Example Weekly',
+    head: [{ type: 'property', property: 'og:site_name' }],
+  },
+  {
+    name: 'author',
+    description: 'Author name',
+    example: 'Jane Doe',
+    head: [{ type: 'meta', name: 'author' }],
+  },
+  {
+    name: 'date',
+    description: 'Publication date (ISO 8601)',
+    example: '2026-03-10',
+    head: [{ type: 'property', property: 'article:published_time' }],
+  },
+];
+
+function escapeAttr(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** Merge meta property lists by name — later lists override the head mapping of earlier ones. */
+export function resolveMetaHeadMappings(...lists: MetaProperty[][]): Map<string, MetaProperty> {
+  const map = new Map<string, MetaProperty>();
+  for (const list of lists) {
+    for (const mp of list) {
+      if (mp.head || !map.has(mp.name)) map.set(mp.name, mp);
+    }
+  }
+  return map;
+}
+
+function buildJsonLd(meta: Record<string, string>): string | undefined {
+  if (!meta.author && !meta.date) return undefined;
+  const article: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'Article',
+  };
+  if (meta.title) article.headline = meta.title;
+  if (meta.description) article.description = meta.description;
+  if (meta.image) article.image = meta.image;
+  if (meta.canonical) article.url = meta.canonical;
+  if (meta.author) article.author = { '@type': 'Person', name: meta.author };
+  if (meta.date) article.datePublished = meta.date;
+  // Escape "<" so the JSON can never close the surrounding script element
+  const json = JSON.stringify(article).replace(/</g, '\\u003c');
+  return `<script type="application/ld+json">${json}</script>`;
+}
+
+/**
+ * Build the `<head>` tags for a standalone page from document meta:
+ * title, description, canonical, favicon, Open Graph / Twitter cards and a JSON-LD Article.
+ */
+export function buildDocumentHead(
+  meta: Record<string, string>,
+  properties: Map<string, MetaProperty> = resolveMetaHeadMappings(STANDARD_META_PROPERTIES),
+): string {
+  const tags: string[] = [];
+  for (const [name, property] of properties) {
+    const value = meta[name];
+    if (!property.head || !value) continue;
+    for (const mapping of property.head) {
+      switch (mapping.type) {
+        case 'title':
+          tags.push(`<title>${escapeText(value)}</title>`);
+          break;
+        case 'meta':
+          tags.push(`<meta name="${escapeAttr(mapping.name)}" content="${escapeAttr(value)}">`);
+          break;
+        case 'property':
+          tags.push(`<meta property="${escapeAttr(mapping.property)}" content="${escapeAttr(value)}">`);
+          break;
+        case 'link':
+          tags.push(`<link rel="${escapeAttr(mapping.rel)}" href="${escapeAttr(value)}">`);
+          break;
+      }
+    }
+  }
+  // A valid page always needs a <title>
+  if (!tags.some(t => t.startsWith('<title>'))) {
+    tags.unshift('<title>Untitled</title>');
+  }
+
+  if (tags.some(t => t.startsWith('<meta property="og:'))) {
+    const isArticle = Boolean(meta.author || meta.date);
+    tags.push(`<meta property="og:type" content="${isArticle ? 'article' : 'website'}">`);
+    tags.push(`<meta name="twitter:card" content="${meta.image ? 'summary_large_image' : 'summary'}">`);
+  }
+
+  const jsonLd = buildJsonLd(meta);
+  if (jsonLd) tags.push(jsonLd);
+
+  return tags.join('\n') + '\n';
+}
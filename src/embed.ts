@@ -0,0 +1,199 @@
+import type { MklyBlock, CompileContext } from './types';
+import { cls, lineAttr } from './types';
+import { escapeHtml, isSafeUrl } from './utils';
+import { imageTag } from './kit-utils';
+
+/** What a provider derives from a URL: the player to frame and, for email, a poster. */
+export interface EmbedInfo {
+  /** Iframe `src`. */
+  src: string;
+  /** Poster image, when the provider serves one at a URL known from the link alone. */
+  thumbnail?: string;
+  /** Fixed player height in px. Without it the player keeps `aspectRatio`. */
+  height?: number;
+  /** Width / height of the player (default 16 / 9). */
+  aspectRatio?: number;
+}
+
+export interface EmbedProvider {
+  /** Lower-case id, used for the `mkly-core-embed--<name>` modifier. */
+  name: string;
+  /** Iframe title when the block sets none, e.g. "YouTube video". */
+  title: string;
+  /** Label of the email fallback's play button, e.g. "Watch on YouTube". */
+  action: string;
+  /** The embed for a URL this provider serves, or undefined. Works from the URL alone — no requests. */
+  match: (url: URL) => EmbedInfo | undefined;
+}
+
+export function defineEmbedProvider(provider: EmbedProvider): EmbedProvider {
+  return provider;
+}
+
+// ---------------------------------------------------------------------------
+// Built-in providers
+// ---------------------------------------------------------------------------
+
+function host(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^(?:www|m)\./, '');
+}
+
+/** `90`, `90s` or `1m30s` → seconds. */
+function seconds(value: string | null): number {
+  const m = value?.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/);
+  return m ? Number(m[1] ?? 0) * 3600 + Number(m[2] ?? 0) * 60 + Number(m[3] ?? 0) : 0;
+}
+
+const youtube = defineEmbedProvider({
+  name: 'youtube',
+  title: 'YouTube video',
+  action: 'Watch on YouTube',
+  match: (url) => {
+    const h = host(url);
+    let id: string | undefined;
+    if (h === 'youtu.be') id = url.pathname.split('/')[1];
+    else if (h === 'youtube.com' || h === 'youtube-nocookie.com' || h === 'music.youtube.com') {
+      id = url.pathname === '/watch'
+        ? url.searchParams.get('v') ?? undefined
+        : url.pathname.match(/^\/(?:embed|shorts|live|v)\/([^/]+)/)?.[1];
+    }
+    if (!id || !/^[\w-]{11}$/.test(id)) return undefined;
+    const start = seconds(url.searchParams.get('t') ?? url.searchParams.get('start'));
+    return {
+      src: `https://www.youtube.com/embed/${id}${start > 0 ? `?start=${start}` : ''}`,
+      thumbnail: `https://i.ytimg.com/vi/${id}/hqdefault.jpg`,
+    };
+  },
+});
+
+const vimeo = defineEmbedProvider({
+  name: 'vimeo',
+  title: 'Vimeo video',
+  action: 'Watch on Vimeo',
+  match: (url) => {
+    const h = host(url);
+    const m = h === 'vimeo.com'
+      ? url.pathname.match(/^\/(?:channels\/[\w-]+\/)?(\d+)(?:\/([\da-f]+))?\/?$/)
+      : h === 'player.vimeo.com' ? url.pathname.match(/^\/video\/(\d+)()/) : null;
+    if (!m) return undefined;
+    // Unlisted videos carry their privacy hash in the link
+    const query = url.searchParams.get('h');
+    const hash = m[2] || (query && /^[\da-f]+$/.test(query) ? query : '');
+    return { src: `https://player.vimeo.com/video/${m[1]}${hash ? `?h=${hash}` : ''}` };
+  },
+});
+
+const x = defineEmbedProvider({
+  name: 'x',
+  title: 'Post on X',
+  action: 'View on X',
+  match: (url) => {
+    const h = host(url);
+    if (h !== 'x.com' && h !== 'twitter.com' && h !== 'mobile.twitter.com') return undefined;
+    const id = url.pathname.match(/^\/\w+\/status(?:es)?\/(\d+)/)?.[1];
+    return id ? { src: `https://platform.twitter.com/embed/Tweet.html?id=${id}`, height: 560 } : undefined;
+  },
+});
+
+const spotify = defineEmbedProvider({
+  name: 'spotify',
+  title: 'Spotify player',
+  action: 'Listen on Spotify',
+  match: (url) => {
+    if (host(url) !== 'open.spotify.com') return undefined;
+    const m = url.pathname.match(/^\/(?:intl-[\w-]+\/)?(?:embed\/)?(track|album|playlist|episode|show|artist)\/(\w+)/);
+    if (!m) return undefined;
+    return { src: `https://open.spotify.com/embed/${m[1]}/${m[2]}`, height: m[1] === 'track' || m[1] === 'episode' ? 152 : 352 };
+  },
+});
+
+const codepen = defineEmbedProvider({
+  name: 'codepen',
+  title: 'CodePen',
+  action: 'Open on CodePen',
+  match: (url) => {
+    if (host(url) !== 'codepen.io') return undefined;
+    const m = url.pathname.match(/^\/([\w-]+)\/(?:pen|full|details|embed)\/(\w+)/);
+    if (!m) return undefined;
+    return {
+      src: `https://codepen.io/${m[1]}/embed/${m[2]}?default-tab=result`,
+      thumbnail: `https://shots.codepen.io/${m[1]}/pen/${m[2]}-800.jpg`,
+      height: 400,
+    };
+  },
+});
+
+const loom = defineEmbedProvider({
+  name: 'loom',
+  title: 'Loom video',
+  action: 'Watch on Loom',
+  match: (url) => {
+    if (host(url) !== 'loom.com') return undefined;
+    const id = url.pathname.match(/^\/(?:share|embed)\/([\da-f]{32})/)?.[1];
+    return id
+      ? { src: `https://www.loom.com/embed/${id}`, thumbnail: `https://cdn.loom.com/sessions/thumbnails/${id}-00001.jpg` }
+      : undefined;
+  },
+});
+
+/** The providers `CORE_KIT` registers. */
+export const EMBED_PROVIDERS: EmbedProvider[] = [youtube, vimeo, x, spotify, codepen, loom];
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+/**
+ * The first provider that recognizes `url`, with what it derived, or
+ * undefined. Without `providers` (a registry compiled without kits) the
+ * built-in ones are used.
+ */
+export function resolveEmbed(
+  url: string,
+  providers?: EmbedProvider[],
+): { provider: EmbedProvider; embed: EmbedInfo } | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return undefined;
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return undefined;
+  for (const provider of providers?.length ? providers : EMBED_PROVIDERS) {
+    const embed = provider.match(parsed);
+    if (embed) return { provider, embed };
+  }
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Email fallback
+// ---------------------------------------------------------------------------
+
+/**
+ * Render `core/embed` without an iframe — email clients strip them. The
+ * provider's thumbnail (or the block's `thumbnail`) and a play button both
+ * link to the source. Email plugins register this as the `core/embed` renderer.
+ */
+export function renderEmbedFallback(block: MklyBlock, ctx: CompileContext): string {
+  const url = block.properties.url ?? '';
+  const href = isSafeUrl(url) ? escapeHtml(url) : '';
+  const match = resolveEmbed(url, ctx.embedProviders);
+  const title = block.properties.title ?? match?.provider.title ?? url;
+  const thumbnail = block.properties.thumbnail ?? match?.embed.thumbnail;
+  const modifier = match ? ` ${cls(block, `--${match.provider.name}`)}` : '';
+  const image = thumbnail && isSafeUrl(thumbnail)
+    ? `<a href="${href}" class="${cls(block, '__link')}">${imageTag(block, thumbnail, ctx, {
+      target: 'thumbnail',
+      alt: title,
+      width: '100%',
+      style: 'display:block;width:100%;height:auto;border:0',
+    })}</a>`
+    : '';
+  const action = match?.provider.action ?? 'Open link';
+  const button = `<a href="${href}" class="${cls(block, '__play')}" style="display:inline-block;margin-top:8px;font-weight:600;text-decoration:none">&#9654; ${escapeHtml(action)}</a>`;
+  const caption = block.properties.caption
+    ? `<p class="${cls(block, '__caption')}">${escapeHtml(block.properties.caption)}</p>`
+    : '';
+  return `<div class="${cls(block)}${modifier}" data-url="${href}"${lineAttr(block, 'url')}>${image}${button}${caption}</div>`;
+}
@@ -1,6 +1,28 @@
-import type { MklyBlock, CompileContext, CompileError } from './types';
+import type { MklyBlock, CompileContext, CompileError, SourceRange } from './types';
 import { escapeHtml } from './utils';
 
+/**
+ * Where to underline a diagnostic on `block`: the property's value when the
+ * block has it, otherwise the block header.
+ */
+export function blockRange(block: MklyBlock, property?: string): SourceRange {
+  const propertyRange = property ? block.propertyRanges?.[property] : undefined;
+  return propertyRange?.value ?? block.headerRange ?? block.position;
+}
+
+/**
+ * Where `length` characters at `offset` in the block's content are in the
+ * source. Undefined only for blocks `parse()` did not produce.
+ */
+export function contentRange(block: MklyBlock, offset: number, length: number): SourceRange | undefined {
+  const { content } = block;
+  const lineIdx = content.slice(0, offset).split('\n').length - 1;
+  const line = (block.contentSourceLines ?? block.contentLineMap)?.[lineIdx];
+  if (line === undefined) return undefined;
+  const column = offset - (content.lastIndexOf('\n', offset - 1) + 1) + 1;
+  return { start: { line, column }, end: { line, column: column + length } };
+}
+
 export function requireProp(
   block: MklyBlock,
   key: string,
@@ -14,6 +36,7 @@ export function requireProp(
       line: block.position.start.line,
       property: key,
       severity: 'error',
+      range: blockRange(block),
     });
   }
   return val;
@@ -31,6 +54,7 @@ export function warnMissing(
     line: block.position.start.line,
     property: key,
     severity: 'warning',
+    range: blockRange(block, key),
   });
 }
 
@@ -39,12 +63,16 @@ export function compileError(
   message: string,
   ctx: CompileContext,
   severity: CompileError['severity'] = 'error',
+  property?: string,
 ): void {
+  const range = blockRange(block, property);
   ctx.errors.push({
     message,
     blockType: block.blockType,
-    line: block.position.start.line,
+    line: range.start.line,
+    ...(property ? { property } : {}),
     severity,
+    range,
   });
 }
 
@@ -0,0 +1,167 @@
+import type { MklyDocument, MklyBlock, CompileError, SourceRange } from './types';
+import type { BlockRegistry } from './registry';
+import type { ConditionScope } from './conditions';
+import type { InterpolationIssue } from './interpolate';
+import { CONDITIONAL_BLOCK, CONDITION_PROPERTIES, evaluateCondition } from './conditions';
+import { interpolate, resolvePath } from './interpolate';
+import { LITERAL_OPEN, LITERAL_CLOSE } from './utils';
+import { contentRange } from './errors';
+
+/** `--- each: items as item` … `--- /each` — children render once per element of a data list. */
+export const REPEAT_BLOCK = 'each';
+
+/** Built-in containers that shape the output instead of rendering. */
+export const CONTROL_BLOCKS: ReadonlySet<string> = new Set([CONDITIONAL_BLOCK, REPEAT_BLOCK]);
+
+// Code samples show template syntax as written
+const CODE_BLOCKS = new Set(['core/code']);
+
+const EACH_RE = /^\s*([\w-]+(?:\.[\w-]+)*)(?:\s+as\s+([A-Za-z_]\w*))?\s*$/;
+
+/** Loop state visible as `{{loop.index}}` etc. inside `--- each`. */
+export interface LoopState {
+  /** Position in the list, from 0. */
+  index: number;
+  first: boolean;
+  last: boolean;
+  length: number;
+}
+
+// ---------------------------------------------------------------------------
+// Diagnostic ranges
+// ---------------------------------------------------------------------------
+
+/** Where `issue` is in `value`, whose source is `range` (a property or meta value). */
+function valueRange(range: SourceRange | undefined, value: string, issue: InterpolationIssue): SourceRange | undefined {
+  if (!range || range.start.line !== range.end.line) return range;
+  // A quoted value's range includes the quotes
+  const quoted = range.end.column - range.start.column === value.length + 2 ? 1 : 0;
+  const column = range.start.column + quoted + issue.offset;
+  return { start: { line: range.start.line, column }, end: { line: range.start.line, column: column + issue.length } };
+}
+
+// ---------------------------------------------------------------------------
+// Expansion
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply the document's control flow and fill in its references: drop blocks
+ * whose `if`/`unless` condition fails, unwrap `--- if` containers that hold,
+ * repeat `--- each` children per list element, and resolve `{{path}}` in
+ * `--- meta` values, properties and content. Repeated blocks keep the template's positions, so
+ * every instance maps back to the lines it came from; their ids get the loop
+ * index appended (`faq-0`, `faq-1`) so each copy stays unique.
+ *
+ * Content values are wrapped so `markdownToHtml` renders them as plain text —
+ * a value can't add markup. Verbatim blocks, `core/code`, code spans and fenced
+ * code keep their content as written. A condition that can't be evaluated
+ * hides its blocks.
+ */
+export function expandDocument(
+  doc: MklyDocument,
+  registry: BlockRegistry,
+  options: { data?: Record<string, unknown>; variables?: Record<string, string> },
+  errors: CompileError[],
+): MklyDocument {
+  // Repeated templates report each problem once, not once per instance
+  const reported = new Set<string>();
+  // `block` is null for `--- meta` values
+  const report = (block: MklyBlock | null, message: string, range: SourceRange | undefined, property?: string, severity: CompileError['severity'] = 'error') => {
+    const at = range ?? block?.headerRange ?? block?.position ?? { start: { line: 1, column: 1 }, end: { line: 1, column: 1 } };
+    const key = `${block?.source ?? ''}|${at.start.line}:${at.start.column}|${message}`;
+    if (reported.has(key)) return;
+    reported.add(key);
+    errors.push({
+      message,
+      blockType: block?.blockType ?? '',
+      line: at.start.line,
+      ...(property ? { property } : {}),
+      severity,
+      range: at,
+      ...(block?.source ? { file: block.source } : {}),
+    });
+  };
+
+  const holds = (block: MklyBlock, scope: ConditionScope, expression: string | undefined, range: SourceRange | undefined, property?: string): boolean => {
+    if (!expression?.trim()) {
+      report(block, property ? `"${property}:" needs a condition` : '"--- if" requires a condition (e.g. --- if: audience == "pro")', range, property);
+      return false;
+    }
+    try {
+      return evaluateCondition(expression, scope);
+    } catch (err) {
+      report(block, `Invalid condition "${expression}": ${(err as Error).message}`, range, property);
+      return false;
+    }
+  };
+
+  const warnContent = (block: MklyBlock) => {
+    if (block.content.trim()) {
+      report(block, `Text directly under "--- ${block.blockType}" is not rendered — put it in a block`, undefined, undefined, 'warning');
+    }
+  };
+
+  const repeat = (block: MklyBlock, scope: ConditionScope, idSuffix: string): MklyBlock[] => {
+    const m = block.label?.match(EACH_RE);
+    if (!m) {
+      report(block, '"--- each" needs a list and a name (e.g. --- each: items as item)', block.labelRange);
+      return [];
+    }
+    const [, path, name = 'item'] = m;
+    const list = resolvePath(path, scope);
+    if (!Array.isArray(list)) {
+      report(block, list === undefined
+        ? `Undefined list "${path}" — add it to CompileOptions.data`
+        : `"${path}" is not a list`, block.labelRange);
+      return [];
+    }
+    return list.flatMap((element: unknown, index) => {
+      const loop: LoopState = { index, first: index === 0, last: index === list.length - 1, length: list.length };
+      return visit(block.children, { ...scope, data: { ...scope.data, [name]: element, loop } }, `${idSuffix}-${index}`);
+    });
+  };
+
+  const visit = (blocks: MklyBlock[], scope: ConditionScope, idSuffix = ''): MklyBlock[] => blocks.flatMap(block => {
+    if (block.blockType === CONDITIONAL_BLOCK) {
+      warnContent(block);
+      return holds(block, scope, block.label, block.labelRange) ? visit(block.children, scope, idSuffix) : [];
+    }
+    if (block.blockType === REPEAT_BLOCK) {
+      warnContent(block);
+      return repeat(block, scope, idSuffix);
+    }
+
+    const keys = CONDITION_PROPERTIES.filter(key => key in block.properties);
+    for (const key of keys) {
+      const shown = holds(block, scope, block.properties[key], block.propertyRanges?.[key]?.value, key);
+      if (shown !== (key === 'if')) return [];
+    }
+
+    const properties: Record<string, string> = {};
+    for (const [key, value] of Object.entries(block.properties)) {
+      if ((CONDITION_PROPERTIES as readonly string[]).includes(key)) continue;
+      properties[key] = interpolate(value, scope, issue => report(block, issue.message, valueRange(block.propertyRanges?.[key]?.value, value, issue), key));
+    }
+    const verbatim = registry.get(block.blockType)?.contentMode === 'verbatim' || CODE_BLOCKS.has(block.blockType);
+    const content = verbatim
+      ? block.content
+      : interpolate(
+        block.content,
+        scope,
+        issue => report(block, issue.message, contentRange(block, issue.offset, issue.length)),
+        value => `${LITERAL_OPEN}${value}${LITERAL_CLOSE}`,
+        true,
+      );
+    const id = block.id && idSuffix ? { id: block.id + idSuffix } : {};
+    return [{ ...block, ...id, properties, content, children: visit(block.children, scope, idSuffix) }];
+  });
+
+  // Meta values see the meta as written; everything else sees them resolved
+  const written: ConditionScope = { meta: doc.meta, data: options.data, variables: options.variables };
+  const meta: Record<string, string> = {};
+  for (const [key, value] of Object.entries(doc.meta)) {
+    meta[key] = interpolate(value, written, issue => report(null, issue.message, valueRange(doc.ranges?.meta[key]?.value, value, issue), key));
+  }
+  const scope: ConditionScope = { ...written, meta };
+  return { ...doc, meta, blocks: visit(doc.blocks, scope) };
+}
@@ -0,0 +1,113 @@
+import type { MklyBlock, CompileError, SourceRange } from './types';
+import { blockRange, contentRange } from './errors';
+
+/** A `[^label]: note` definition and the number its first reference gave it. */
+export interface Footnote {
+  label: string;
+  /** Rendered note, or undefined when the label is referenced but never defined. */
+  html?: string;
+  /** Position in the footnote list, or 0 while nothing references the note. */
+  number: number;
+  refs: number;
+}
+
+const REF_RE = /<sup class="mkly-footnote-ref"><a href="#fn-([\w-]+)" id="fnref-\1">\1<\/a><\/sup>/g;
+const DEFINITION_RE = /\n?<!--mkly-fn:([\w-]+)-->([\s\S]*?)<!--\/mkly-fn-->/g;
+const PLACEHOLDER = '<!--mkly-footnotes-->';
+
+/** What markdown renders for `[^label]` — numbered once the whole document is rendered. */
+export function footnoteRef(label: string): string {
+  return `<sup class="mkly-footnote-ref"><a href="#fn-${label}" id="fnref-${label}">${label}</a></sup>`;
+}
+
+/** What markdown renders for `[^label]: note` — moved into the footnote list at compile time. */
+export function footnoteDefinition(label: string, html: string): string {
+  return `<!--mkly-fn:${label}-->${html}<!--/mkly-fn-->`;
+}
+
+/** Where `core/footnotes` wants the list. */
+export function footnotesPlaceholder(): string {
+  return PLACEHOLDER;
+}
+
+/** Take the definitions out of `html` into `notes`. The first definition of a label wins. */
+export function collectFootnotes(html: string, notes: Map<string, Footnote>): string {
+  if (!html.includes('<!--mkly-fn:')) return html;
+  return html.replace(DEFINITION_RE, (_m, label: string, note: string) => {
+    const existing = notes.get(label);
+    if (!existing) notes.set(label, { label, html: note, number: 0, refs: 0 });
+    else existing.html ??= note;
+    return '';
+  });
+}
+
+/**
+ * Number the references in `html` in order of first use. Each reference gets
+ * its own id for the back-links; one to an undefined note is left as written.
+ */
+export function numberFootnotes(html: string, notes: Map<string, Footnote>): string {
+  return html.replace(REF_RE, (_m, label: string) => {
+    let note = notes.get(label);
+    if (!note) notes.set(label, note = { label, number: 0, refs: 0 });
+    if (note.html === undefined) return `[^${label}]`;
+    if (note.number === 0) note.number = Math.max(0, ...[...notes.values()].map(n => n.number)) + 1;
+    note.refs++;
+    return `<sup class="mkly-footnote-ref"><a href="#fn-${label}" id="${refId(label, note.refs)}">${note.number}</a></sup>`;
+  });
+}
+
+function refId(label: string, n: number): string {
+  return n === 1 ? `fnref-${label}` : `fnref-${label}-${n}`;
+}
+
+/** The referenced notes as an `<ol>`, each with links back to its references. */
+export function renderFootnotes(notes: Map<string, Footnote>): string {
+  const used = [...notes.values()].filter(n => n.number > 0).sort((a, b) => a.number - b.number);
+  if (used.length === 0) return '';
+  const items = used.map(note => {
+    const back = Array.from({ length: note.refs }, (_, i) =>
+      `<a href="#${refId(note.label, i + 1)}" class="mkly-footnote-back" aria-label="Back to reference ${note.number}">↩${i > 0 ? `<sup>${i + 1}</sup>` : ''}</a>`,
+    ).join(' ');
+    const html = note.html!.trim();
+    // Back-links go inside the note's last paragraph
+    const body = html.endsWith('</p>') ? `${html.slice(0, -4)} ${back}</p>` : `${html} ${back}`;
+    return `<li id="fn-${note.label}">${body}</li>`;
+  });
+  return `<ol>${items.join('')}</ol>`;
+}
+
+/** Put the footnote list into a `core/footnotes` placeholder, reporting whether there was one. */
+export function fillFootnotes(html: string, list: string): { html: string; filled: boolean } {
+  if (!html.includes(PLACEHOLDER)) return { html, filled: false };
+  return { html: html.split(PLACEHOLDER).join(list), filled: true };
+}
+
+function footnoteRange(block: MklyBlock, search: string): SourceRange {
+  const offset = block.content.indexOf(search);
+  return (offset === -1 ? undefined : contentRange(block, offset, search.length)) ?? blockRange(block);
+}
+
+/** Report references to notes nobody defined and definitions nothing references. */
+export function checkFootnotes(block: MklyBlock, html: string, notes: Map<string, Footnote>, errors: CompileError[]): void {
+  const found: Array<{ message: string; range: SourceRange }> = [];
+  for (const m of html.matchAll(REF_RE)) {
+    if (notes.get(m[1])?.html !== undefined) continue;
+    found.push({ message: `Footnote [^${m[1]}] has no definition — add "[^${m[1]}]: …" to the document`, range: footnoteRange(block, `[^${m[1]}]`) });
+  }
+  for (const m of html.matchAll(DEFINITION_RE)) {
+    if ((notes.get(m[1])?.number ?? 0) > 0) continue;
+    found.push({ message: `Footnote [^${m[1]}] is never referenced`, range: footnoteRange(block, `[^${m[1]}]:`) });
+  }
+  for (const { message, range } of found) {
+    // A block repeated by `--- each` renders the same note once per copy
+    if (errors.some(e => e.message === message && e.line === range.start.line && e.range?.start.column === range.start.column)) continue;
+    errors.push({
+      message,
+      blockType: block.blockType,
+      line: range.start.line,
+      severity: 'warning',
+      range,
+      ...(block.source ? { file: block.source } : {}),
+    });
+  }
+}
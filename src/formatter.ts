@@ -0,0 +1,401 @@
+import type { BlockDefinition, TokenizedLine } from './types';
+import type { MklyKit } from './kit';
+import { verbatimBlockTypes, containerBlockTypes } from './kit';
+import { CORE_KIT } from './blocks';
+import { tokenize } from './tokenizer';
+import { parseCst, formatValue } from './cst';
+import type { CstBlock, CstNode } from './cst';
+import { parseStyleGraph, serializeStyleGraph } from './style-graph';
+import type { StyleGraph } from './style-graph';
+
+export interface FormatMklyOptions {
+  /**
+   * Re-wrap markdown paragraphs to this width. Off by default. Reflow treats
+   * consecutive prose lines as one paragraph (markdown soft line breaks).
+   */
+  maxWidth?: number;
+  /**
+   * How property values are quoted:
+   * - `preserve`: as written (default)
+   * - `minimal`: only where the tokenizer needs quotes (empty, padded or quote-wrapped values)
+   * - `double`: every value
+   */
+  quoteStyle?: 'preserve' | 'minimal' | 'double';
+  /** Keep properties as written (default) or sort them by key. */
+  propertyOrder?: 'keep' | 'sort';
+  /** Spaces per container level for block headers, properties and closers. Content is never reindented. Default 0. */
+  indent?: number;
+  /** Kits used to find verbatim blocks and markdown blocks. Defaults to the core kit. */
+  kits?: Record<string, MklyKit>;
+  /** Blocks whose content is whitespace-sensitive and never reflowed. Defaults to `core/code`. */
+  preformattedBlocks?: Set<string>;
+}
+
+// Canonical directive order — the same phases parse() enforces
+const PHASES: Record<string, number> = {
+  'use': 0,
+  'define-theme': 1,
+  'define-preset': 1,
+  'theme': 2,
+  'preset': 2,
+  'meta': 3,
+  'style': 4,
+};
+const CONTENT_PHASE = 5;
+
+// Directives whose lines are all content — they have no property section
+const NO_PROPERTIES = new Set(['style', 'use', 'theme', 'preset', 'define-preset', 'include']);
+const LIST_DIRECTIVES = new Set(['use', 'theme', 'preset']);
+
+interface FormatContext {
+  options: FormatMklyOptions;
+  pad: (depth: number) => string;
+  verbatimBlocks: Set<string>;
+  markdownBlocks: Set<string>;
+  preformattedBlocks: Set<string>;
+}
+
+function lineToken(raw: string): TokenizedLine {
+  return tokenize(raw)[0];
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function trimBlankEdges(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && isBlank(lines[start])) start++;
+  while (end > start && isBlank(lines[end - 1])) end--;
+  return lines.slice(start, end);
+}
+
+/** Trim blank edges and collapse blank runs into a single empty line. */
+function collapseBlanks(lines: string[]): string[] {
+  const out: string[] = [];
+  for (const line of trimBlankEdges(lines)) {
+    if (isBlank(line)) {
+      if (out[out.length - 1] !== '') out.push('');
+    } else {
+      out.push(line);
+    }
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Units — a block with the comments above it
+// ---------------------------------------------------------------------------
+
+interface Unit {
+  /** Trivia separated from the block by a blank line. */
+  before: string[];
+  /** Comments directly above the header. */
+  attached: string[];
+  block: CstBlock;
+}
+
+interface UnitList {
+  header: string[];
+  units: Unit[];
+  footer: string[];
+}
+
+function triviaLine(line: string, pad: string): string {
+  const token = lineToken(line);
+  // Stray closers and text outside blocks are left as written
+  return token.type === 'comment' ? pad + line.trim() : line.trimEnd();
+}
+
+function toUnits(nodes: CstNode[], pad: string): UnitList {
+  const units: Unit[] = [];
+  let header: string[] = [];
+  let pending: string[] = [];
+  for (const node of nodes) {
+    if (node.kind === 'trivia') {
+      pending.push(...node.lines);
+      continue;
+    }
+    let split = pending.length;
+    while (split > 0 && !isBlank(pending[split - 1])) split--;
+    const before = collapseBlanks(pending.slice(0, split)).map(l => (l ? triviaLine(l, pad) : l));
+    const attached = pending.slice(split).map(l => triviaLine(l, pad));
+    if (units.length === 0) {
+      header = before;
+      units.push({ before: [], attached, block: node });
+    } else {
+      units.push({ before, attached, block: node });
+    }
+    pending = [];
+  }
+  const footer = collapseBlanks(pending).map(l => (l ? triviaLine(l, pad) : l));
+  if (units.length === 0) return { header: footer, units, footer: [] };
+  return { header, units, footer };
+}
+
+function printUnits(list: UnitList, depth: number, ctx: FormatContext): string[] {
+  const out: string[] = [];
+  const section = (lines: string[]) => {
+    if (lines.length === 0) return;
+    if (out.length > 0) out.push('');
+    out.push(...lines);
+  };
+  section(list.header);
+  for (const unit of list.units) {
+    section(unit.before);
+    section([...unit.attached, ...formatBlock(unit.block, depth, ctx)]);
+  }
+  section(list.footer);
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Blocks
+// ---------------------------------------------------------------------------
+
+interface PropertyItem {
+  key: string;
+  comments: string[];
+  lines: string[];
+}
+
+function formatProperty(token: Extract<TokenizedLine, { type: 'property' }>, raw: string, ctx: FormatContext): string {
+  if (token.scalar) return `${token.key}: ${token.scalar}`;
+  let value: string;
+  switch (ctx.options.quoteStyle ?? 'preserve') {
+    case 'double':
+      value = `"${token.value}"`;
+      break;
+    case 'minimal':
+      value = formatValue(token.value);
+      break;
+    default:
+      // As written, quotes included
+      value = raw.slice(token.keyRange.end.column).trim();
+  }
+  return `${token.key}: ${value}`;
+}
+
+/** Split a body into the property section (items with their comments) and the remaining lines. */
+function splitProperties(block: CstBlock, pad: string, ctx: FormatContext): { props: string[]; rest: string[] } {
+  if (NO_PROPERTIES.has(block.blockType)) return { props: [], rest: block.body };
+  const items: PropertyItem[] = [];
+  // A define-theme's `@dark` section, kept last and unsorted
+  const dark: string[] = [];
+  const tokens = block.body.length > 0 ? tokenize(block.body.join('\n')) : [];
+  let comments: string[] = [];
+  let i = 0;
+  for (; i < block.body.length; i++) {
+    const raw = block.body[i];
+    const token = tokens[i];
+    if (token.type === 'comment') {
+      comments.push(pad + raw.trim());
+    } else if (block.blockType === 'define-theme' && raw.trim() === '@dark') {
+      dark.push(...comments, `${pad}@dark`);
+      comments = [];
+      for (let next = tokens[i + 1]; next?.type === 'property' && /^\s/.test(block.body[i + 1]); next = tokens[i + 1]) {
+        i++;
+        dark.push(`${pad}  ${formatProperty(next, block.body[i], ctx)}`);
+      }
+    } else if (token.type === 'property') {
+      items.push({ key: token.key, comments, lines: [pad + formatProperty(token, raw, ctx)] });
+      comments = [];
+    } else if (token.type === 'continuation' && items.length > 0) {
+      items[items.length - 1].lines.push(raw.trimEnd());
+    } else {
+      break;
+    }
+  }
+  for (const item of items) {
+    if (item.lines.length > 1) item.lines = [item.lines[0], ...reindentScalar(item.lines.slice(1), pad)];
+  }
+  if (ctx.options.propertyOrder === 'sort') {
+    items.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  }
+  const props = items.flatMap(item => [...item.comments, ...item.lines]);
+  props.push(...comments, ...dark);
+  return { props, rest: block.body.slice(i) };
+}
+
+/** Block scalar lines moved to one level below the key, keeping their relative indentation. */
+function reindentScalar(lines: string[], pad: string): string[] {
+  const indent = Math.min(...lines.filter(Boolean).map(l => l.length - l.trimStart().length));
+  return lines.map(l => (l ? `${pad}  ${l.slice(indent)}` : ''));
+}
+
+function formatBlock(block: CstBlock, depth: number, ctx: FormatContext): string[] {
+  const pad = ctx.pad(depth);
+  const id = block.id ? `#${block.id}` : '';
+  const out = [`${pad}--- ${block.blockType}${id}${block.label ? `: ${block.label}` : ''}`];
+  const { props, rest } = splitProperties(block, pad, ctx);
+  out.push(...props);
+
+  const content = formatContent(block, rest, ctx);
+  if (content.length > 0) {
+    // A blank line separates content from properties, or from a header it could be mistaken for
+    if (props.length > 0 || (!NO_PROPERTIES.has(block.blockType) && tokenize(content[0])[0]?.type === 'property')) out.push('');
+    out.push(...content);
+  }
+
+  const isVerbatim = ctx.verbatimBlocks.has(block.blockType) && block.children.length === 0;
+  if (block.children.length > 0) {
+    const inner = printUnits(toUnits(block.children, ctx.pad(depth + 1)), depth + 1, ctx);
+    if (inner.length > 0) out.push('', ...inner);
+  }
+  if (block.close !== undefined) {
+    if (!isVerbatim) out.push('');
+    const close = lineToken(block.close);
+    out.push(`${pad}--- /${block.blockType}${close.type === 'block_end' && close.id ? `#${close.id}` : ''}`);
+  }
+  return out;
+}
+
+function formatContent(block: CstBlock, lines: string[], ctx: FormatContext): string[] {
+  const type = block.blockType;
+  if (type === 'style') return formatStyle(lines) ?? trimBlankEdges(lines);
+  if (LIST_DIRECTIVES.has(type)) return lines.map(l => l.trim()).filter(Boolean);
+  if (!ctx.markdownBlocks.has(type) || ctx.preformattedBlocks.has(type)) return trimBlankEdges(lines);
+  return formatMarkdown(lines, ctx.options.maxWidth);
+}
+
+// ---------------------------------------------------------------------------
+// Style blocks — reindented through the StyleGraph when nothing would be lost
+// ---------------------------------------------------------------------------
+
+const STYLE_COMMENT_RE = /(^|\s)\/\//;
+const LEGACY_STYLE_RE = /\{\s*$|^\s*\}\s*$/;
+
+/** Rules keyed by selector with merged properties — the meaning of a graph, not its layout. */
+function styleMeaning(graph: StyleGraph): string {
+  const rules: Record<string, Record<string, string>> = {};
+  for (const rule of graph.rules) {
+    const key = `${rule.blockType}|${rule.label ?? ''}|${rule.target}|${rule.media ?? ''}`;
+    rules[key] = { ...rules[key], ...rule.properties };
+  }
+  const variables = Object.fromEntries(graph.variables.map(v => [`${v.scheme ?? ''}|${v.name}`, v.value]));
+  return JSON.stringify([variables, Object.entries(rules).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))]);
+}
+
+function formatStyle(lines: string[]): string[] | null {
+  if (lines.some(l => STYLE_COMMENT_RE.test(l) || LEGACY_STYLE_RE.test(l))) return null;
+  const source = lines.join('\n');
+  if (!source.trim()) return [];
+  const graph = parseStyleGraph(source);
+  const formatted = serializeStyleGraph(graph);
+  if (styleMeaning(parseStyleGraph(formatted)) !== styleMeaning(graph)) return null;
+  return formatted.split('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Markdown content
+// ---------------------------------------------------------------------------
+
+// Lines that start a markdown construct rather than continue a paragraph
+const SPECIAL_LINE_RE = /^(#{1,6}\s|[-*+]\s|\d+[.)]\s|>|\||```|~~~|\/\/|<|!\[|\{@|\\+---)/;
+// Setext heading underlines and thematic breaks, which belong to no paragraph
+const RULE_LINE_RE = /^(=+|-+|\*{3,}|_{3,})\s*$/;
+// Words that would start such a construct if a wrap put them at the start of a line
+const UNSAFE_START_RE = /^(#{1,6}|[-*+>|]|=+|[-*_]{3,}|\d+[.)]|\/\/.*|\\*---.*|```.*|~~~.*)$/;
+// Words after which a line must not end (class annotations, backslash hard breaks)
+const UNSAFE_END_RE = /(\{[.#][^}]*\}|\\)$/;
+// Link and code spans wrap as single words
+const WORD_RE = /(?:\[[^\]]*\]\([^)]*\)|`[^`]*`|\S)+/g;
+
+function isProse(line: string): boolean {
+  if (isBlank(line) || /^\s/.test(line)) return false;
+  if (SPECIAL_LINE_RE.test(line) || RULE_LINE_RE.test(line) || line.includes('{@')) return false;
+  // Hard breaks and class annotations end a paragraph
+  return !/( {2}|\\)$/.test(line) && !/\{[.#][^}]*\}\s*$/.test(line);
+}
+
+function wrap(words: string[], width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of words) {
+    const fits = current.length + 1 + word.length <= width;
+    const breakable = !UNSAFE_START_RE.test(word) && !UNSAFE_END_RE.test(current);
+    if (current && (fits || !breakable)) {
+      current += ` ${word}`;
+    } else {
+      if (current) lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+function formatMarkdown(lines: string[], maxWidth?: number): string[] {
+  // Trailing whitespace goes, except a two-space hard break
+  const cleaned = collapseBlanks(lines.map(l => (/\S {2,}$/.test(l) ? `${l.trimEnd()}  ` : l.trimEnd())));
+  if (!maxWidth || maxWidth <= 0) return cleaned;
+
+  const out: string[] = [];
+  let paragraph: string[] = [];
+  let fence: string | null = null;
+  const flush = () => {
+    if (paragraph.length > 0) {
+      out.push(...wrap(paragraph.join(' ').match(WORD_RE) ?? [], maxWidth));
+      paragraph = [];
+    }
+  };
+  for (const line of cleaned) {
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fence || fenceMatch) {
+      flush();
+      if (fence && fenceMatch?.[1] === fence) fence = null;
+      else if (!fence && fenceMatch) fence = fenceMatch[1];
+      out.push(line);
+    } else if (isProse(line)) {
+      paragraph.push(line);
+    } else {
+      flush();
+      out.push(line);
+    }
+  }
+  flush();
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Format mkly source: directives in canonical order, one blank line between
+ * blocks, consistent container indentation, normalized properties and style
+ * blocks. Comments are kept, and regions the parser cannot make sense of
+ * (stray closers, text outside blocks, legacy or commented style blocks) are
+ * left as written. Formatting formatted source returns it unchanged.
+ */
+export function formatMkly(source: string, options?: FormatMklyOptions): string {
+  const eol = source.includes('\r\n') ? '\r\n' : '\n';
+  const kits = options?.kits ?? { core: CORE_KIT };
+  const indent = Math.max(0, options?.indent ?? 0);
+
+  const definitions = new Map<string, BlockDefinition>();
+  for (const kit of Object.values(kits)) {
+    for (const def of kit.blocks ?? []) definitions.set(`${kit.name}/${def.name}`, def);
+  }
+  const markdownBlocks = new Set(
+    [...definitions].filter(([, def]) => def.contentMode === 'text' || def.contentMode === 'mixed').map(([name]) => name),
+  );
+
+  const ctx: FormatContext = {
+    options: options ?? {},
+    pad: depth => ' '.repeat(indent * depth),
+    verbatimBlocks: verbatimBlockTypes(kits),
+    markdownBlocks,
+    preformattedBlocks: options?.preformattedBlocks ?? new Set(['core/code']),
+  };
+
+  const cst = parseCst(source.replace(/\r\n/g, '\n'), { verbatimBlocks: ctx.verbatimBlocks, containerBlocks: containerBlockTypes(kits) });
+  const list = toUnits(cst.children, '');
+  const phase = (unit: Unit) => PHASES[unit.block.blockType] ?? CONTENT_PHASE;
+  // Array#sort is stable, so blocks keep their order within a phase
+  list.units.sort((a, b) => phase(a) - phase(b));
+
+  const lines = printUnits(list, 0, ctx);
+  return lines.length > 0 ? lines.join(eol) + eol : '';
+}
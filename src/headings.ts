@@ -0,0 +1,78 @@
+import { escapeHtml } from './utils';
+import { slugify } from './kit-utils';
+import { decodeHtmlEntities } from './reverse/html-parsing';
+
+/** A rendered `<h1>`–`<h6>` and the id `[text](#id)` links and the table of contents use. */
+export interface HeadingEntry {
+  level: number;
+  id: string;
+  text: string;
+}
+
+const HEADING_RE = /<h([1-6])(\s[^>]*)?>([\s\S]*?)<\/h\1>/g;
+const ID_ATTR_RE = /\sid="([^"]*)"/;
+const TOC_RE = /<!--mkly-toc:([1-6])-->/g;
+
+/** The id a heading gets from its text, before any collision suffix. */
+export function headingSlug(text: string): string {
+  return slugify(text).replace(/^-+|-+$/g, '') || 'section';
+}
+
+/** Where `core/toc` wants the heading list — filled in once every block is rendered. */
+export function tocPlaceholder(depth: number): string {
+  return `<!--mkly-toc:${depth}-->`;
+}
+
+/**
+ * Give every heading in `html` without an id a slug of its text. Ids already
+ * in `taken` (block ids, earlier headings) get a `-1`, `-2`… suffix, so one
+ * document never repeats an id. Adds the new ids to `taken` and each heading
+ * to `headings`, in document order.
+ */
+export function anchorHeadings(html: string, taken: Set<string>, headings: HeadingEntry[]): string {
+  return html.replace(HEADING_RE, (match: string, level: string, attrs = '', inner: string) => {
+    const text = decodeHtmlEntities(inner.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+    const existing = attrs.match(ID_ATTR_RE)?.[1];
+    if (existing) {
+      taken.add(existing);
+      headings.push({ level: Number(level), id: existing, text });
+      return match;
+    }
+    const base = headingSlug(text);
+    let id = base;
+    for (let n = 1; taken.has(id); n++) id = `${base}-${n}`;
+    taken.add(id);
+    headings.push({ level: Number(level), id, text });
+    return `<h${level} id="${id}"${match.slice(3)}`;
+  });
+}
+
+/** Nested `<ul>` of the headings down to `depth` (3 lists h1–h3). */
+export function renderToc(headings: HeadingEntry[], depth: number): string {
+  const items = headings.filter(h => h.level <= depth);
+  if (items.length === 0) return '';
+
+  // Levels of the open lists; a deeper heading opens a list inside the open item
+  const open: number[] = [];
+  let html = '';
+  for (const heading of items) {
+    if (open.length === 0 || heading.level > open[open.length - 1]) {
+      html += '<ul>';
+      open.push(heading.level);
+    } else {
+      html += '</li>';
+      while (open.length > 1 && heading.level < open[open.length - 1]) {
+        html += '</ul></li>';
+        open.pop();
+      }
+    }
+    html += `<li><a href="#${heading.id}">${escapeHtml(heading.text)}</a>`;
+  }
+  return html + '</li>' + '</ul></li>'.repeat(open.length - 1) + '</ul>';
+}
+
+/** Replace `core/toc` placeholders with the document's headings. */
+export function fillToc(html: string, headings: HeadingEntry[]): string {
+  if (!html.includes('<!--mkly-toc:')) return html;
+  return html.replace(TOC_RE, (_, depth: string) => renderToc(headings, Number(depth)));
+}
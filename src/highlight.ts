@@ -0,0 +1,398 @@
+import type { MklyBlock, CompileContext } from './types';
+import { cls, lineAttr } from './types';
+import { escapeHtml } from './utils';
+import { resolveVariableName } from './style-parser';
+import { prop } from './errors';
+
+export type HighlightTokenType =
+  | 'comment' | 'string' | 'number' | 'keyword' | 'literal' | 'function'
+  | 'type' | 'tag' | 'attribute' | 'property' | 'variable' | 'punctuation';
+
+export interface HighlightToken {
+  type?: HighlightTokenType;
+  text: string;
+}
+
+export interface HighlightOptions {
+  /** Prefix every line with its number. */
+  lineNumbers?: boolean;
+  /** 1-based lines to mark, as returned by `parseLineRanges`. */
+  highlight?: Set<number>;
+  /**
+   * Color spans with inline `style` attributes instead of classes — for email,
+   * where `<style>` is unreliable. Theme variables (`hlKeyword`, `hlString`…)
+   * override the default palette, as they do the classes' custom properties.
+   */
+  inline?: Record<string, string>;
+}
+
+/** Light palette used when a theme sets no `hl*` variables. */
+export const HIGHLIGHT_COLORS: Record<HighlightTokenType | 'line' | 'lineNumber', string> = {
+  comment: '#6a737d',
+  string: '#032f62',
+  number: '#005cc5',
+  keyword: '#d73a49',
+  literal: '#005cc5',
+  function: '#6f42c1',
+  type: '#e36209',
+  tag: '#22863a',
+  attribute: '#6f42c1',
+  property: '#005cc5',
+  variable: '#e36209',
+  punctuation: '#586069',
+  line: 'rgba(255,213,79,0.25)',
+  lineNumber: '#959da5',
+};
+
+/** Theme variable for a palette entry: `keyword` → `hlKeyword`. */
+function colorVariable(name: string): string {
+  return `hl${name[0].toUpperCase()}${name.slice(1)}`;
+}
+
+function cssVar(name: string): string {
+  return `var(${resolveVariableName(colorVariable(name))}, ${HIGHLIGHT_COLORS[name as keyof typeof HIGHLIGHT_COLORS]})`;
+}
+
+/** Classes for highlighted code; colors come from `hl*` theme variables. */
+export const HIGHLIGHT_CSS = [
+  ...(Object.keys(HIGHLIGHT_COLORS) as Array<keyof typeof HIGHLIGHT_COLORS>)
+    .filter(type => type !== 'line' && type !== 'lineNumber')
+    .map(type => `.mkly-hl-${type}{color:${cssVar(type)}}`),
+  '.mkly-hl-comment{font-style:italic}',
+  '.mkly-hl-line{display:inline-block;min-width:100%}',
+  `.mkly-hl-line--marked{background:${cssVar('line')}}`,
+  `.mkly-hl-ln{display:inline-block;min-width:2em;padding-right:1em;text-align:right;color:${cssVar('lineNumber')};user-select:none}`,
+].join('');
+
+// ---------------------------------------------------------------------------
+// Grammars
+// ---------------------------------------------------------------------------
+
+/** A token rule; `type` may decide from the match and the text after it. */
+interface Rule {
+  re: RegExp;
+  type: HighlightTokenType | ((match: string, rest: string) => HighlightTokenType | undefined);
+}
+
+const words = (list: string): Set<string> => new Set(list.split(' '));
+
+const JS_KEYWORDS = words('abstract as async await break case catch class const continue debugger declare default delete do else enum export extends finally for from function get if implements import in instanceof interface keyof let namespace new of private protected public readonly return satisfies set static super switch this throw try type typeof var void while with yield');
+const JS_LITERALS = words('true false null undefined NaN Infinity');
+const PY_KEYWORDS = words('and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield match case');
+const PY_LITERALS = words('True False None');
+const SH_KEYWORDS = words('if then else elif fi for in do done case esac while until function return export local readonly declare set unset shift exit source alias');
+const SQL_KEYWORDS = words('select from where and or not insert into values update set delete create table drop alter add column index view join left right inner outer full cross on as group by order having limit offset union all distinct case when then else end is in like between exists primary key foreign references default unique check begin commit rollback transaction with returning asc desc if replace');
+const SQL_LITERALS = words('null true false');
+
+/** Identifier rule: keyword, literal, call or nothing. */
+function identifier(re: RegExp, keywords: Set<string>, literals: Set<string>, caseInsensitive = false): Rule {
+  return {
+    re,
+    type: (word, rest) => {
+      const key = caseInsensitive ? word.toLowerCase() : word;
+      if (keywords.has(key)) return 'keyword';
+      if (literals.has(key)) return 'literal';
+      if (/^\s*\(/.test(rest)) return 'function';
+      return /^[A-Z][a-z]\w*$/.test(word) && !caseInsensitive ? 'type' : undefined;
+    },
+  };
+}
+
+const NUMBER: Rule = { re: /\b(?:0[xX][\da-fA-F_]+|0[bB][01_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?n?)\b/y, type: 'number' };
+const DOUBLE_QUOTED: Rule = { re: /"(?:\\[\s\S]|[^"\\\n])*"?/y, type: 'string' };
+const SINGLE_QUOTED: Rule = { re: /'(?:\\[\s\S]|[^'\\\n])*'?/y, type: 'string' };
+
+const GRAMMARS: Record<string, Rule[]> = {
+  js: [
+    { re: /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y, type: 'comment' },
+    { re: /`(?:\\[\s\S]|[^\\`])*`?/y, type: 'string' },
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+    NUMBER,
+    identifier(/[A-Za-z_$][\w$]*/y, JS_KEYWORDS, JS_LITERALS),
+    { re: /[{}[\]();,.]/y, type: 'punctuation' },
+  ],
+  json: [
+    { re: /"(?:\\.|[^"\\\n])*"?/y, type: (_m, rest) => (/^\s*:/.test(rest) ? 'property' : 'string') },
+    { re: /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y, type: 'number' },
+    { re: /\b(?:true|false|null)\b/y, type: 'literal' },
+    { re: /[{}[\]:,]/y, type: 'punctuation' },
+  ],
+  css: [
+    { re: /\/\*[\s\S]*?(?:\*\/|$)/y, type: 'comment' },
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+    { re: /@[\w-]+/y, type: 'keyword' },
+    { re: /!important\b/y, type: 'keyword' },
+    { re: /#[\da-fA-F]{3,8}\b|-?(?:\d+\.?\d*|\.\d+)(?:%|[a-zA-Z]+)?/y, type: 'number' },
+    { re: /[.#][\w-]+/y, type: 'tag' },
+    { re: /[{}();:,]/y, type: 'punctuation' },
+    // Names (properties, functions) are classified by `tokenizeCss`
+  ],
+  bash: [
+    { re: /(?:^|(?<=\s))#[^\n]*/y, type: 'comment' },
+    DOUBLE_QUOTED,
+    { re: /'[^']*'?/y, type: 'string' },
+    { re: /\$\{[^}\n]*\}?|\$[\w@#?*!$-]/y, type: 'variable' },
+    { re: /(?<=\s|^)--?[\w-]+/y, type: 'attribute' },
+    NUMBER,
+    identifier(/[A-Za-z_][\w-]*/y, SH_KEYWORDS, new Set()),
+  ],
+  python: [
+    { re: /#[^\n]*/y, type: 'comment' },
+    { re: /[rbfuRBFU]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/y, type: 'string' },
+    { re: /[rbfuRBFU]{0,2}(?:"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?)/y, type: 'string' },
+    { re: /@[\w.]+/y, type: 'attribute' },
+    NUMBER,
+    identifier(/[A-Za-z_]\w*/y, PY_KEYWORDS, PY_LITERALS),
+    { re: /[{}[\]():,.]/y, type: 'punctuation' },
+  ],
+  sql: [
+    { re: /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y, type: 'comment' },
+    { re: /'(?:''|[^'])*'?/y, type: 'string' },
+    { re: /"(?:""|[^"])*"?/y, type: 'property' },
+    NUMBER,
+    identifier(/[A-Za-z_]\w*/y, SQL_KEYWORDS, SQL_LITERALS, true),
+    { re: /[();,.]/y, type: 'punctuation' },
+  ],
+};
+
+const ALIASES: Record<string, string> = {
+  javascript: 'js', jsx: 'js', mjs: 'js', cjs: 'js', ts: 'js', typescript: 'js', tsx: 'js',
+  sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash',
+  py: 'python',
+  scss: 'css', less: 'css',
+  xml: 'html', svg: 'html', htm: 'html',
+  mklyml: 'mkly',
+};
+
+/** Grammar name for a `lang` value, or undefined when it is not highlighted. */
+export function highlightLanguage(lang: string | undefined): string | undefined {
+  if (!lang) return undefined;
+  const name = ALIASES[lang.toLowerCase()] ?? lang.toLowerCase();
+  return name in GRAMMARS || name === 'html' || name === 'mkly' ? name : undefined;
+}
+
+function tokenizeWith(code: string, rules: Rule[]): HighlightToken[] {
+  const tokens: HighlightToken[] = [];
+  const push = (text: string, type?: HighlightTokenType) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.text += text;
+    else tokens.push(type ? { type, text } : { text });
+  };
+  let pos = 0;
+  outer: while (pos < code.length) {
+    for (const rule of rules) {
+      rule.re.lastIndex = pos;
+      const m = rule.re.exec(code);
+      if (!m || m[0] === '') continue;
+      const type = typeof rule.type === 'function' ? rule.type(m[0], code.slice(pos + m[0].length)) : rule.type;
+      push(m[0], type);
+      pos += m[0].length;
+      continue outer;
+    }
+    push(code[pos++]);
+  }
+  return tokens;
+}
+
+const HTML_TAG_RE = /<!--[\s\S]*?(?:-->|$)|<!\w[^>]*>?|<\/?[\w:-]+(?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*\s*\/?>?/g;
+const HTML_ATTR_RULES: Rule[] = [
+  { re: /<\/?|\/?>/y, type: 'punctuation' },
+  { re: /(?<=<\/?)[\w:-]+/y, type: 'tag' },
+  { re: /"[^"]*"|'[^']*'|(?<==\s*)[^\s>]+/y, type: 'string' },
+  { re: /[^\s"'>/=]+/y, type: 'attribute' },
+];
+
+function tokenizeHtml(code: string): HighlightToken[] {
+  const tokens: HighlightToken[] = [];
+  let last = 0;
+  for (const m of code.matchAll(HTML_TAG_RE)) {
+    if (m.index! > last) tokens.push({ text: code.slice(last, m.index) });
+    if (m[0].startsWith('<!')) tokens.push({ type: m[0].startsWith('<!--') ? 'comment' : 'keyword', text: m[0] });
+    else tokens.push(...tokenizeWith(m[0], HTML_ATTR_RULES));
+    last = m.index! + m[0].length;
+  }
+  if (last < code.length) tokens.push({ text: code.slice(last) });
+  return tokens;
+}
+
+const MKLY_HEADER_RE = /^(\s*)(---)(\s+)(\/?[\w/-]+(?::\s*.*)?)?(#[\w-]+)?(.*)$/;
+const MKLY_PROPERTY_RE = /^(\s*)([\w.-]+)(:)(.*)$/;
+
+/**
+ * CSS: a name is a function before `(`, and a property when a `:` follows it
+ * and the next `;`, `{` or `}` ends a declaration rather than opening a block.
+ */
+function tokenizeCss(code: string): HighlightToken[] {
+  // Next `;`, `{` or `}` at or after each offset, found in one pass so each name is classified in constant time
+  const next = new Uint8Array(code.length + 1);
+  for (let i = code.length - 1; i >= 0; i--) {
+    const c = code.charCodeAt(i);
+    next[i] = c === 0x3b || c === 0x7b || c === 0x7d ? c : next[i + 1];
+  }
+  const name: Rule = {
+    re: /-{0,2}[a-zA-Z][\w-]*/y,
+    type: (_word, rest) => {
+      if (rest[0] === '(') return 'function';
+      if (!/^\s*:/.test(rest)) return undefined;
+      const delimiter = next[code.length - rest.length];
+      return delimiter === 0x3b || delimiter === 0x7d ? 'property' : undefined;
+    },
+  };
+  return tokenizeWith(code, [...GRAMMARS.css, name]);
+}
+
+/** mkly source: directives and block headers, properties, comments and `{{…}}` references. */
+function tokenizeMkly(code: string): HighlightToken[] {
+  const tokens: HighlightToken[] = [];
+  const inline = (text: string) => {
+    let last = 0;
+    for (const m of text.matchAll(/\{\{[^}]*\}\}/g)) {
+      if (m.index! > last) tokens.push({ text: text.slice(last, m.index) });
+      tokens.push({ type: 'variable', text: m[0] });
+      last = m.index! + m[0].length;
+    }
+    if (last < text.length) tokens.push({ text: text.slice(last) });
+  };
+  // Properties follow a header until the first blank line
+  let inProperties = false;
+  code.split('\n').forEach((line, i) => {
+    if (i > 0) tokens.push({ text: '\n' });
+    const header = line.match(MKLY_HEADER_RE);
+    if (header) {
+      const [, indent, dashes, space, name = '', id = '', rest] = header;
+      tokens.push({ text: indent }, { type: 'keyword', text: dashes }, { text: space });
+      if (name) tokens.push({ type: 'tag', text: name });
+      if (id) tokens.push({ type: 'attribute', text: id });
+      inline(rest);
+      inProperties = true;
+      return;
+    }
+    if (/^\s*\/\//.test(line)) {
+      tokens.push({ type: 'comment', text: line });
+      return;
+    }
+    const property = inProperties ? line.match(MKLY_PROPERTY_RE) : null;
+    if (property) {
+      tokens.push({ text: property[1] }, { type: 'property', text: property[2] }, { type: 'punctuation', text: property[3] });
+      const value = property[4];
+      if (value.trim()) tokens.push({ type: 'string', text: value });
+      return;
+    }
+    if (!line.trim()) inProperties = false;
+    inline(line);
+  });
+  return tokens.filter(t => t.text !== '');
+}
+
+/** Split `code` into typed tokens; an unknown language gives one plain token. */
+export function tokenizeCode(code: string, lang: string | undefined): HighlightToken[] {
+  const name = highlightLanguage(lang);
+  if (name === 'html') return tokenizeHtml(code);
+  if (name === 'mkly') return tokenizeMkly(code);
+  if (name === 'css') return tokenizeCss(code);
+  return name ? tokenizeWith(code, GRAMMARS[name]) : [{ text: code }];
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/** Lines named by a `highlight` property: `3`, `3-5`, `1,4-6`. */
+export function parseLineRanges(value: string | undefined): Set<number> {
+  const lines = new Set<number>();
+  for (const part of (value ?? '').split(',')) {
+    const m = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!m) continue;
+    const start = Number(m[1]);
+    const end = Math.min(m[2] ? Number(m[2]) : start, start + 10_000);
+    for (let n = start; n <= end; n++) lines.add(n);
+  }
+  return lines;
+}
+
+/**
+ * Highlighted, escaped HTML for the inside of a `<code>` element. Tokens are
+ * `<span class="mkly-hl-keyword">` and so on — styled by `HIGHLIGHT_CSS` —
+ * or inline-styled with `options.inline`. Line numbers and marked lines wrap
+ * each line in its own span; the newlines between them stay, so the text is
+ * still the code.
+ */
+export function highlightCode(code: string, lang: string | undefined, options: HighlightOptions = {}): string {
+  const { inline } = options;
+  const color = (name: string) => {
+    const value = inline?.[colorVariable(name)] ?? HIGHLIGHT_COLORS[name as keyof typeof HIGHLIGHT_COLORS];
+    return escapeHtml(value);
+  };
+  const span = (type: HighlightTokenType, html: string) => {
+    if (!inline) return `<span class="mkly-hl-${type}">${html}</span>`;
+    return `<span style="color:${color(type)}${type === 'comment' ? ';font-style:italic' : ''}">${html}</span>`;
+  };
+  const render = (tokens: HighlightToken[]) =>
+    tokens.map(t => (t.type ? span(t.type, escapeCode(t.text)) : escapeCode(t.text))).join('');
+
+  const tokens = tokenizeCode(code, lang);
+  if (!options.lineNumbers && !options.highlight?.size) return render(tokens);
+
+  // Split tokens at newlines so each line can be wrapped on its own
+  const lines: HighlightToken[][] = [[]];
+  for (const token of tokens) {
+    token.text.split('\n').forEach((part, i) => {
+      if (i > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ ...token, text: part });
+    });
+  }
+  const width = String(lines.length).length;
+  return lines.map((line, i) => {
+    const n = i + 1;
+    const marked = options.highlight?.has(n) ?? false;
+    const number = options.lineNumbers
+      ? inline
+        ? `<span style="color:${color('lineNumber')};user-select:none">${String(n).padStart(width)}  </span>`
+        : `<span class="mkly-hl-ln">${n}</span>`
+      : '';
+    const attrs = inline
+      ? ` style="display:inline-block;min-width:100%${marked ? `;background:${color('line')}` : ''}"`
+      : ` class="mkly-hl-line${marked ? ' mkly-hl-line--marked' : ''}"`;
+    return `<span${attrs}>${number}${render(line)}</span>`;
+  }).join('\n');
+}
+
+/** Escape code text; unlike `escapeHtml` it keeps `\~` and entity-like text as written. */
+function escapeCode(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// ---------------------------------------------------------------------------
+// core/code
+// ---------------------------------------------------------------------------
+
+/** Render `core/code`: highlighted with classes, or with inline styles when `inline` is set. */
+export function renderCode(block: MklyBlock, ctx: CompileContext, inline = false): string {
+  const lang = prop(block, 'lang');
+  const lineNumbers = prop(block, 'lineNumbers') === 'true';
+  const marked = prop(block, 'highlight');
+  const highlight = parseLineRanges(marked);
+  if (!highlightLanguage(lang) && !lineNumbers && highlight.size === 0) {
+    const langAttr = lang ? ` data-lang="${escapeHtml(lang)}"` : '';
+    return `<div class="${cls(block)}"><pre><code${langAttr}${lineAttr(block, 'lang')}>${escapeHtml(block.content)}</code></pre></div>`;
+  }
+  if (!inline) ctx.extraStyles.add(HIGHLIGHT_CSS);
+  const attrs = [
+    lang ? ` data-lang="${escapeHtml(lang)}"` : '',
+    lineNumbers ? ' data-line-numbers' : '',
+    highlight.size > 0 ? ` data-highlight="${escapeHtml(marked!)}"` : '',
+  ].join('');
+  const html = highlightCode(block.content, lang, { lineNumbers, highlight, inline: inline ? ctx.variables : undefined });
+  return `<div class="${cls(block)}"><pre><code${attrs}${lineAttr(block, 'lang', 'lineNumbers', 'highlight')}>${html}</code></pre></div>`;
+}
+
+/**
+ * Render `core/code` with inline-styled spans and no `<style>` rules, colored
+ * from the document's `hl*` variables. Email plugins register this as the
+ * `core/code` renderer.
+ */
+export function renderCodeInline(block: MklyBlock, ctx: CompileContext): string {
+  return renderCode(block, ctx, true);
+}
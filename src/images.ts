@@ -0,0 +1,68 @@
+import type { ImageResolver, ResolvedImage } from './types';
+
+export interface ImageCdnOptions {
+  /**
+   * Image URL with placeholders: `{url}` is the source URL (encoded), `{path}`
+   * its path and query without the leading slash (a `?` after it becomes `&`
+   * when the source has a query), `{width}` the width to serve.
+   * E.g. `https://acme.imgix.net/{path}?w={width}&auto=format` or
+   * `https://res.cloudinary.com/acme/image/fetch/w_{width},f_auto/{url}`.
+   */
+  template: string;
+  /** `srcset` widths for images without a display width (default 480, 800, 1200, 1600). */
+  widths?: number[];
+  /** `sizes` for those images (default `100vw`). */
+  sizes?: string;
+  /** Template for the blurred placeholder, filled with `{width}` 24, e.g. `...?w={width}&blur=200`. */
+  placeholder?: string;
+  /** Intrinsic sizes by source URL, e.g. from a build-time manifest. */
+  dimensions?: Record<string, { width: number; height: number }>;
+  /** Which URLs to rewrite (default every absolute http(s) URL). */
+  include?: (url: string) => boolean;
+}
+
+const DEFAULT_WIDTHS = [480, 800, 1200, 1600];
+const PLACEHOLDER_WIDTH = 24;
+
+/**
+ * An `images` resolver that serves every image through a CDN URL template.
+ * Images with a display width get 1x/2x candidates, the rest a width-based
+ * `srcset`. Relative URLs are left alone.
+ */
+export function createImageResolver(options: ImageCdnOptions): ImageResolver {
+  const widths = [...(options.widths ?? DEFAULT_WIDTHS)].sort((a, b) => a - b);
+  return (url, context) => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return undefined;
+    }
+    if ((parsed.protocol !== 'https:' && parsed.protocol !== 'http:') || options.include?.(url) === false) {
+      return undefined;
+    }
+    // A query after `{path}` joins the source's own query with `&`
+    const fill = (template: string, width: number) => template.replace(/\{(url|path|width)\}(\?)?/g, (_, key: string, q = '') =>
+      key === 'url' ? encodeURIComponent(url) + q
+        : key === 'path' ? parsed.pathname.slice(1) + (parsed.search && q ? `${parsed.search}&` : parsed.search + q)
+          : String(width) + q);
+
+    const resolved: ResolvedImage = context.width
+      ? {
+        src: fill(options.template, context.width),
+        srcset: `${fill(options.template, context.width)} 1x, ${fill(options.template, context.width * 2)} 2x`,
+      }
+      : {
+        src: fill(options.template, widths[widths.length - 1]),
+        srcset: widths.map(w => `${fill(options.template, w)} ${w}w`).join(', '),
+        sizes: options.sizes ?? '100vw',
+      };
+    const size = options.dimensions?.[url];
+    if (size) {
+      resolved.width = size.width;
+      resolved.height = size.height;
+    }
+    if (options.placeholder) resolved.placeholder = fill(options.placeholder, PLACEHOLDER_WIDTH);
+    return resolved;
+  };
+}
@@ -0,0 +1,318 @@
+import type { MklyDocument, MklyBlock, MklyComment, ParseError, DocumentRanges, SourceRange } from './types';
+import { parse, getParsedSource, setParsedSource } from './parser';
+import type { ParseOptions } from './parser';
+import { tokenize } from './tokenizer';
+import { duplicateIdErrors } from './references';
+
+/**
+ * A text replacement against the previous source. Lines and columns are 1-based,
+ * `range.end` is exclusive. All edits in one call refer to the same previous source
+ * and must not overlap (same contract as an LSP `TextEdit[]`).
+ */
+export interface TextEdit {
+  range: SourceRange;
+  text: string;
+}
+
+export interface IncrementalParseResult {
+  doc: MklyDocument;
+  /** Top-level blocks that are new or whose content changed. */
+  changed: MklyBlock[];
+  /** Top-level blocks of the previous document that no longer exist. */
+  removed: MklyBlock[];
+  /** True when the edit could not be isolated (e.g. a directive changed) and the whole source was re-parsed. */
+  fullReparse: boolean;
+}
+
+// Directives that change document-level state — edits touching them force a full re-parse
+const DIRECTIVES = new Set(['meta', 'style', 'use', 'theme', 'preset', 'define-theme', 'define-preset', 'include']);
+
+function lineStarts(source: string): number[] {
+  const starts = [0];
+  let idx = source.indexOf('\n');
+  while (idx !== -1) {
+    starts.push(idx + 1);
+    idx = source.indexOf('\n', idx + 1);
+  }
+  return starts;
+}
+
+function toOffset(starts: number[], source: string, line: number, column: number): number {
+  if (line < 1) return 0;
+  if (line > starts.length) return source.length;
+  const lineStart = starts[line - 1];
+  const lineEnd = line < starts.length ? starts[line] - 1 : source.length;
+  return Math.min(lineStart + Math.max(column, 1) - 1, lineEnd);
+}
+
+function countNewlines(text: string): number {
+  let count = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) count++;
+  }
+  return count;
+}
+
+/** Apply edits to `text`, whose first character is at `baseOffset` of the original source. */
+function applyEdits(text: string, baseOffset: number, edits: Array<{ start: number; end: number; text: string }>): string {
+  let result = text;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start - baseOffset) + edit.text + result.slice(edit.end - baseOffset);
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Line shifting (blocks keep their identity, positions move)
+// ---------------------------------------------------------------------------
+
+function shiftRange(range: SourceRange, delta: number): SourceRange {
+  return {
+    start: { line: range.start.line + delta, column: range.start.column },
+    end: { line: range.end.line + delta, column: range.end.column },
+  };
+}
+
+function shiftBlock(block: MklyBlock, delta: number): void {
+  block.position = shiftRange(block.position, delta);
+  if (block.headerRange) block.headerRange = shiftRange(block.headerRange, delta);
+  if (block.labelRange) block.labelRange = shiftRange(block.labelRange, delta);
+  if (block.idRange) block.idRange = shiftRange(block.idRange, delta);
+  if (block.propertyRanges) {
+    for (const [key, range] of Object.entries(block.propertyRanges)) {
+      block.propertyRanges[key] = { key: shiftRange(range.key, delta), value: shiftRange(range.value, delta) };
+    }
+  }
+  if (block.contentSourceLines) {
+    block.contentSourceLines = block.contentSourceLines.map(l => l + delta);
+  }
+  if (block.contentLineMap) {
+    block.contentLineMap = block.contentLineMap.map(l => l + delta);
+  }
+  if (block.propertyLines) {
+    for (const key of Object.keys(block.propertyLines)) block.propertyLines[key] += delta;
+  }
+  for (const child of block.children) shiftBlock(child, delta);
+}
+
+/** Copy line information from a freshly parsed block onto an equal, reused one. */
+function adoptPositions(target: MklyBlock, fresh: MklyBlock): void {
+  target.position = fresh.position;
+  target.headerRange = fresh.headerRange;
+  target.labelRange = fresh.labelRange;
+  target.idRange = fresh.idRange;
+  target.propertyRanges = fresh.propertyRanges;
+  if (fresh.contentSourceLines) target.contentSourceLines = fresh.contentSourceLines;
+  if (fresh.contentLineMap) target.contentLineMap = fresh.contentLineMap;
+  if (fresh.propertyLines) target.propertyLines = fresh.propertyLines;
+  target.children.forEach((child, i) => adoptPositions(child, fresh.children[i]));
+}
+
+function sameBlock(a: MklyBlock, b: MklyBlock): boolean {
+  if (a.blockType !== b.blockType || a.id !== b.id || a.label !== b.label || a.content !== b.content) return false;
+  const aKeys = Object.keys(a.properties);
+  const bKeys = Object.keys(b.properties);
+  if (aKeys.length !== bKeys.length) return false;
+  for (let i = 0; i < aKeys.length; i++) {
+    if (aKeys[i] !== bKeys[i] || a.properties[aKeys[i]] !== b.properties[bKeys[i]]) return false;
+  }
+  if (a.children.length !== b.children.length) return false;
+  return a.children.every((child, i) => sameBlock(child, b.children[i]));
+}
+
+/**
+ * Reuse old block objects for new blocks with identical content, matching from
+ * both ends so an insertion or deletion in the middle keeps everything else stable.
+ */
+function reconcile(oldBlocks: MklyBlock[], newBlocks: MklyBlock[]): { blocks: MklyBlock[]; changed: MklyBlock[]; removed: MklyBlock[] } {
+  const blocks = [...newBlocks];
+  let head = 0;
+  while (head < oldBlocks.length && head < newBlocks.length && sameBlock(oldBlocks[head], newBlocks[head])) {
+    adoptPositions(oldBlocks[head], newBlocks[head]);
+    blocks[head] = oldBlocks[head];
+    head++;
+  }
+  let oldTail = oldBlocks.length - 1;
+  let newTail = newBlocks.length - 1;
+  while (oldTail >= head && newTail >= head && sameBlock(oldBlocks[oldTail], newBlocks[newTail])) {
+    adoptPositions(oldBlocks[oldTail], newBlocks[newTail]);
+    blocks[newTail] = oldBlocks[oldTail];
+    oldTail--;
+    newTail--;
+  }
+  return {
+    blocks,
+    changed: newBlocks.slice(head, newTail + 1),
+    removed: oldBlocks.slice(head, oldTail + 1),
+  };
+}
+
+/** Directives misplaced after the edited region (an ordering error, but still parsed) move with it. */
+function shiftDirectiveRanges(ranges: DocumentRanges, afterLine: number, delta: number): DocumentRanges {
+  if (delta === 0) return ranges;
+  const move = (range: SourceRange) => range.start.line > afterLine ? shiftRange(range, delta) : range;
+  const meta: DocumentRanges['meta'] = {};
+  for (const [key, range] of Object.entries(ranges.meta)) {
+    meta[key] = { key: move(range.key), value: move(range.value) };
+  }
+  return {
+    uses: ranges.uses.map(move),
+    themes: ranges.themes.map(move),
+    presets: ranges.presets.map(move),
+    meta,
+    styleLines: ranges.styleLines.map((lines, i) => ranges.styleFiles[i] ? lines : lines.map(l => l > afterLine ? l + delta : l)),
+    styleFiles: ranges.styleFiles,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Region checks
+// ---------------------------------------------------------------------------
+
+/** A region can be parsed in isolation if it has no directives and ends outside verbatim blocks. */
+function isSelfContained(source: string, verbatimBlocks: Set<string>): boolean {
+  let openVerbatim: string | null = null;
+  for (const token of tokenize(source)) {
+    if (openVerbatim) {
+      if (token.type === 'block_end' && token.blockType === openVerbatim) openVerbatim = null;
+      continue;
+    }
+    if (token.type === 'block_start') {
+      if (DIRECTIVES.has(token.blockType)) return false;
+      if (verbatimBlocks.has(token.blockType)) openVerbatim = token.blockType;
+    }
+  }
+  return openVerbatim === null;
+}
+
+const UNMATCHED_CLOSE_RE = /has no matching opening block/;
+// Whether an id is taken depends on the whole document, so these are recomputed after splicing
+const DUPLICATE_ID_RE = /^Duplicate block id/;
+// Container errors in a region parsed alone may resolve differently in the whole document
+const CONTAINER_ERROR_RE = /has no matching opening block|is never closed|is not closed before/;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Re-parse a document after text edits, re-tokenizing only the top-level blocks the
+ * edits touch. Unchanged blocks keep their object identity — blocks after the edit
+ * are reused from `prevDoc` with their line positions shifted in place, so `prevDoc`
+ * should be treated as consumed.
+ *
+ * `prevDoc` must come from `parse()` or a previous `parseIncremental()` call.
+ */
+export function parseIncremental(prevDoc: MklyDocument, edits: TextEdit[], options?: ParseOptions): IncrementalParseResult {
+  const prev = getParsedSource(prevDoc);
+  if (!prev) {
+    throw new Error('parseIncremental() requires a document returned by parse() or parseIncremental()');
+  }
+  const parseOptions = options ?? prev.options;
+  const oldSource = prev.source;
+
+  if (edits.length === 0) {
+    return { doc: prevDoc, changed: [], removed: [], fullReparse: false };
+  }
+
+  const starts = lineStarts(oldSource);
+  const offsetEdits = edits.map(e => {
+    const start = toOffset(starts, oldSource, e.range.start.line, e.range.start.column);
+    const end = toOffset(starts, oldSource, e.range.end.line, e.range.end.column);
+    return { start, end: Math.max(start, end), text: e.text };
+  });
+  const newSource = applyEdits(oldSource, 0, offsetEdits);
+
+  const fullReparse = (): IncrementalParseResult => {
+    const doc = parse(newSource, parseOptions);
+    const { blocks, changed, removed } = reconcile(prevDoc.blocks, doc.blocks);
+    doc.blocks = blocks;
+    return { doc, changed, removed, fullReparse: true };
+  };
+
+  const firstLine = Math.min(...edits.map(e => Math.max(1, e.range.start.line)));
+  const lastLine = Math.max(...edits.map(e => Math.max(1, e.range.end.line)));
+  const blocks = prevDoc.blocks;
+
+  // Edits in the preamble (use/theme/meta/style) change document-level state, and so
+  // do edits to the first block's header: without it, its content joins the preamble
+  if (blocks.length === 0 || firstLine <= blocks[0].position.start.line) return fullReparse();
+  // An unmatched closer after the edit could start matching a new opener
+  const regionCanGrow = prev.errors.some(e => UNMATCHED_CLOSE_RE.test(e.message) && e.line > firstLine);
+  if (regionCanGrow) return fullReparse();
+  // Included blocks carry lines of another document, which an edit here doesn't shift
+  if (blocks.some(b => b.source)) return fullReparse();
+
+  // Affected top-level blocks: the one containing the first edited line (plus its
+  // predecessor, which absorbs content if a block header is deleted) through the
+  // one containing the last edited line.
+  let first = 0;
+  while (first + 1 < blocks.length && blocks[first + 1].position.start.line <= firstLine) first++;
+  if (first > 0) first--;
+  let last = first;
+  while (last + 1 < blocks.length && blocks[last + 1].position.start.line <= lastLine) last++;
+
+  const regionStartLine = blocks[first].position.start.line;
+  const regionEndLine = last + 1 < blocks.length ? blocks[last + 1].position.start.line - 1 : starts.length;
+  const regionStart = starts[regionStartLine - 1];
+  const regionEnd = regionEndLine < starts.length ? starts[regionEndLine] : oldSource.length;
+
+  const verbatimBlocks = parseOptions?.verbatimBlocks ?? new Set<string>();
+  const oldRegion = oldSource.slice(regionStart, regionEnd);
+  const newRegion = applyEdits(oldRegion, regionStart, offsetEdits);
+  if (!isSelfContained(oldRegion, verbatimBlocks) || !isSelfContained(newRegion, verbatimBlocks)) {
+    return fullReparse();
+  }
+  // Text between the preamble and the first header joins the first block's content,
+  // which a region starting at that header would drop
+  if (first === 0) {
+    const firstEnd = blocks.length > 1 ? starts[blocks[1].position.start.line - 1] : oldSource.length;
+    const alone = parse(oldSource.slice(regionStart, firstEnd), parseOptions).blocks[0];
+    if (alone?.content !== blocks[0].content) return fullReparse();
+  }
+
+  // Parse the region alone (a trailing newline would add a phantom blank line)
+  const regionSource = regionEnd < oldSource.length ? newRegion.replace(/\n$/, '') : newRegion;
+  const regionDoc = parse(regionSource, parseOptions);
+  const offset = regionStartLine - 1;
+  if (regionDoc.errors.some(e => CONTAINER_ERROR_RE.test(e.message))) return fullReparse();
+  for (const block of regionDoc.blocks) shiftBlock(block, offset);
+
+  const lineDelta = countNewlines(newRegion) - countNewlines(oldRegion);
+  const suffix = blocks.slice(last + 1);
+  if (lineDelta !== 0) {
+    for (const block of suffix) shiftBlock(block, lineDelta);
+  }
+
+  const reconciled = reconcile(blocks.slice(first, last + 1), regionDoc.blocks);
+
+  // Splice errors and comments: keep before the region, replace inside, shift after
+  const shiftItem = <T extends { line: number; range?: SourceRange; relatedRange?: SourceRange }>(item: T, delta: number): T => ({
+    ...item,
+    line: item.line + delta,
+    ...(item.range ? { range: shiftRange(item.range, delta) } : {}),
+    ...(item.relatedRange ? { relatedRange: shiftRange(item.relatedRange, delta) } : {}),
+  });
+  const spliceLines = <T extends { line: number; range?: SourceRange; relatedRange?: SourceRange }>(before: T[], regionItems: T[]): T[] => [
+    ...before.filter(item => item.line < regionStartLine),
+    ...regionItems.map(item => shiftItem(item, offset)),
+    ...before.filter(item => item.line > regionEndLine).map(item => shiftItem(item, lineDelta)),
+  ];
+  const comments: MklyComment[] = spliceLines(prev.comments, regionDoc.comments);
+  const newBlocks = [...blocks.slice(0, first), ...reconciled.blocks, ...suffix];
+  const errors: ParseError[] = [
+    ...spliceLines(prev.errors, regionDoc.errors).filter(e => !DUPLICATE_ID_RE.test(e.message)),
+    ...duplicateIdErrors(newBlocks),
+  ];
+
+  const doc: MklyDocument = {
+    ...prevDoc,
+    blocks: newBlocks,
+    comments,
+    errors: [...errors],
+    ...(prevDoc.ranges ? { ranges: shiftDirectiveRanges(prevDoc.ranges, regionEndLine, lineDelta) } : {}),
+  };
+  setParsedSource(doc, { source: newSource, options: parseOptions, errors, comments });
+
+  return { doc, changed: reconciled.changed, removed: reconciled.removed, fullReparse: false };
+}
@@ -1,8 +1,35 @@
-export { tokenize } from './tokenizer';
-export { parse } from './parser';
+export { tokenize, serializeProperty, escapeBlockBoundaries } from './tokenizer';
+export { parse, parseAsync } from './parser';
 export type { ParseOptions } from './parser';
+export { parseIncremental } from './incremental';
+export type { TextEdit, IncrementalParseResult } from './incremental';
+export { createStreamingParser } from './streaming';
+export type { StreamingParser, StreamingParseResult } from './streaming';
+export {
+  parseCst,
+  printCst,
+  cstToDocument,
+  cstBlocks,
+  setCstProperty,
+  removeCstProperty,
+  setCstLabel,
+  insertCstBlock,
+  removeCstBlock,
+  moveCstBlock,
+  setCstStyleProperty,
+  removeCstStyleProperty,
+} from './cst';
+export type { CstDocument, CstBlock, CstTrivia, CstNode, CstParent, CstStyleRule } from './cst';
+export { formatMkly } from './formatter';
+export type { FormatMklyOptions } from './formatter';
 export { compile } from './compiler';
 export type { CompileWithKitsOptions } from './compiler';
+export { interpolate } from './interpolate';
+export type { InterpolationScope, InterpolationIssue } from './interpolate';
+export { findBlockById } from './references';
+export { evaluateCondition } from './conditions';
+export type { ConditionScope } from './conditions';
+export { STANDARD_META_PROPERTIES, buildDocumentHead, resolveMetaHeadMappings } from './document';
 export { BlockRegistry } from './registry';
 export type { RegistryOptions } from './registry';
 export {
@@ -10,12 +37,23 @@ export {
   CORE_BLOCKS,
   CORE_KIT,
 } from './blocks';
-export { defineKit, defineBlock, applyKits } from './kit';
+export { defineKit, defineBlock, applyKits, verbatimBlockTypes, containerBlockTypes } from './kit';
 export type { MklyKit, MklyKitVersions, ReverseBlockHandler, ParsedBlock, ImportPattern } from './kit';
 export { definePlugin, applyPlugins } from './plugin';
 export type { MklyPlugin } from './plugin';
-export { escapeHtml, markdownToHtml, isSafeUrl, toKebab } from './utils';
-export { safeUrl, md, clampInt, slugify } from './kit-utils';
+export { escapeHtml, isSafeUrl, toKebab } from './utils';
+export { markdownToHtml } from './markdown';
+export type { MarkdownOptions } from './markdown';
+export { highlightCode, renderCodeInline, tokenizeCode, highlightLanguage, parseLineRanges, HIGHLIGHT_CSS, HIGHLIGHT_COLORS } from './highlight';
+export type { HighlightOptions, HighlightToken, HighlightTokenType } from './highlight';
+export { parseTable, parseCsv } from './table';
+export type { TableData, TableOptions, TableAlign } from './table';
+export { defineEmbedProvider, resolveEmbed, renderEmbedFallback, EMBED_PROVIDERS } from './embed';
+export type { EmbedProvider, EmbedInfo } from './embed';
+export { safeUrl, md, markdownOptions, clampInt, slugify, imageTag } from './kit-utils';
+export type { ImageTagOptions } from './kit-utils';
+export { createImageResolver } from './images';
+export type { ImageCdnOptions } from './images';
 export {
   escapeRegex,
   extractAttr,
@@ -30,9 +68,9 @@ export {
 export { DEFAULT_STYLES } from './styles';
 export { CORE_THEMES } from './themes';
 export { CORE_PRESETS } from './presets';
-export { parseMklyStyle, themeToCSS, mergeVariables, VARIABLE_TO_CSS, STYLE_VARIABLES, resolveVariableName } from './style-parser';
+export { parseMklyStyle, themeToCSS, darkSchemeCSS, mergeVariables, VARIABLE_TO_CSS, STYLE_VARIABLES, resolveVariableName } from './style-parser';
 export type { MklyStyleResult, StyleVariable } from './style-parser';
-export { requireProp, warnMissing, compileError, errorHtml, prop, safeCss, cssVal } from './errors';
+export { requireProp, warnMissing, compileError, blockRange, errorHtml, prop, safeCss, cssVal } from './errors';
 export {
   parseStyleGraph,
   serializeStyleGraph,
@@ -41,6 +79,9 @@ export {
   mergeRule,
   removeRule,
   getStyleValue,
+  setStyleVariable,
+  removeStyleVariable,
+  getStyleVariable,
   mergeStyleGraphs,
   emptyStyleGraph,
   resolveSelector,
@@ -48,6 +89,11 @@ export {
   resolveValue,
   resolveForEmail,
   getEmailStyleMap,
+  getEmailDarkModeCSS,
+  getEmailMediaCSS,
+  resolveMediaQuery,
+  BREAKPOINTS,
+  EMAIL_COLOR_SCHEME_META,
   STYLE_ALIASES,
 } from './style-graph';
 export type { StyleGraph, StyleRule, StyleVariable as StyleGraphVariable } from './style-graph';
@@ -126,6 +172,11 @@ export type {
   CompileContext,
   CompileResult,
   CompileOptions,
+  WrapMode,
+  ImageResolver,
+  ImageContext,
+  ResolvedImage,
+  MarkdownSettings,
   MklyOptions,
   MklyTheme,
   MklyPreset,
@@ -133,6 +184,8 @@ export type {
   TokenizedLine,
   SourcePosition,
   SourceRange,
+  PropertyRange,
+  DocumentRanges,
   SourceMapEntry,
   BlockDefinition,
   BlockContentHints,
@@ -140,6 +193,7 @@ export type {
   BlockDocs,
   PropertyDoc,
   MetaProperty,
+  MetaHeadTag,
   TargetInfo,
 } from './types';
 
@@ -147,6 +201,7 @@ import { parse } from './parser';
 import { compile } from './compiler';
 import { createRegistry } from './blocks';
 import type { MklyOptions, CompileResult } from './types';
+import { verbatimBlockTypes, containerBlockTypes } from './kit';
 import type { MklyKit } from './kit';
 import type { MklyPlugin } from './plugin';
 
@@ -154,23 +209,15 @@ export function mkly(
   source: string,
   options?: MklyOptions & { kits?: Record<string, MklyKit>; plugins?: MklyPlugin[]; theme?: Record<string, string> },
 ): CompileResult {
-  // Extract verbatim block types from all available kits (using qualified names)
-  const verbatimBlocks = new Set<string>();
-  if (options?.kits) {
-    for (const kit of Object.values(options.kits)) {
-      if (kit.blocks) {
-        for (const block of kit.blocks) {
-          if (block.contentMode === 'verbatim') {
-            verbatimBlocks.add(`${kit.name}/${block.name}`);
-          }
-        }
-      }
-    }
-  }
+  // Extract verbatim and container block types from all available kits (using qualified names)
+  const verbatimBlocks = verbatimBlockTypes(options?.kits ?? {});
+  const containerBlocks = containerBlockTypes(options?.kits ?? {});
 
   const doc = parse(source, {
     ...(verbatimBlocks.size > 0 ? { verbatimBlocks } : {}),
+    ...(containerBlocks.size > 0 ? { containerBlocks } : {}),
     ...(options?.sourceMap ? { sourceMap: true } : {}),
+    ...(options?.resolveInclude ? { resolveInclude: options.resolveInclude } : {}),
   });
   const registry = createRegistry(...(options?.presets ?? []));
   return compile(doc, registry, {
@@ -0,0 +1,159 @@
+/** What `{{path}}` references resolve against: `meta.*` reads the document meta, anything else `data`. */
+export interface InterpolationScope {
+  meta: Record<string, string>;
+  data?: Record<string, unknown>;
+}
+
+/** A reference that could not be resolved; `offset`/`length` locate the `{{…}}` in the text. */
+export interface InterpolationIssue {
+  message: string;
+  offset: number;
+  length: number;
+}
+
+// `{{ path | filter:arg }}`, optionally escaped as `\{{ … }}`
+const EXPRESSION_RE = /(\\?)\{\{([^{}]*)\}\}/g;
+// A ``` or ~~~ fence line, up to three spaces in
+const FENCE_RE = /^ {0,3}(`{3,}|~{3,})/;
+// A backtick code span within a paragraph (the closing run has the opener's length)
+const CODE_SPAN_RE = /(?<![\\`])(`+)(?!`)(?:(?!\n[ \t]*\n)[\s\S])*?(?<!`)\1(?!`)/g;
+const PATH_RE = /^[\w-]+(?:\.[\w-]+)*$/;
+const DATE_STYLES = new Set(['short', 'medium', 'long', 'full']);
+
+type Filter = (value: string | undefined, arg: string | undefined, raw: unknown, scope: InterpolationScope) => string | undefined;
+
+const FILTERS: Record<string, Filter> = {
+  upper: value => value?.toUpperCase(),
+  lower: value => value?.toLowerCase(),
+  capitalize: value => value && value.charAt(0).toUpperCase() + value.slice(1),
+  trim: value => value?.trim(),
+  default: (value, arg) => (value === undefined || value === '' ? arg ?? '' : value),
+  date: (value, arg, raw, scope) => {
+    if (value === undefined) return undefined;
+    const date = raw instanceof Date ? raw : new Date(typeof raw === 'number' ? raw : value);
+    if (Number.isNaN(date.getTime())) throw new Error(`"${value}" is not a date`);
+    const style = arg ?? 'medium';
+    if (style === 'iso') return date.toISOString().slice(0, 10);
+    if (!DATE_STYLES.has(style)) throw new Error(`Unknown date style "${style}" — use short, medium, long, full or iso`);
+    return new Intl.DateTimeFormat(scope.meta.lang || 'en-US', { dateStyle: style as 'short', timeZone: 'UTC' }).format(date);
+  },
+};
+
+/** Split on `|` outside quotes. */
+function splitPipes(expression: string): string[] {
+  const parts: string[] = [];
+  let quote = '';
+  let start = 0;
+  for (let i = 0; i < expression.length; i++) {
+    const ch = expression[i];
+    if (quote) {
+      if (ch === quote) quote = '';
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '|') {
+      parts.push(expression.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(expression.slice(start));
+  return parts.map(p => p.trim());
+}
+
+function unquote(arg: string): string {
+  const m = arg.match(/^(["'])(.*)\1$/);
+  return m ? m[2] : arg;
+}
+
+/** Value at a dotted path — `meta.*` from the document meta, anything else from `data`. */
+export function resolvePath(path: string, scope: InterpolationScope): unknown {
+  const [root, ...rest] = path.split('.');
+  let value: unknown = root === 'meta' ? scope.meta : scope.data?.[root];
+  for (const key of rest) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function toText(value: unknown, path: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') throw new Error(`"${path}" is not a text value`);
+  return String(value);
+}
+
+function evaluate(expression: string, scope: InterpolationScope): string {
+  const [path, ...filters] = splitPipes(expression);
+  if (!PATH_RE.test(path)) throw new Error(`Invalid variable reference "{{${expression.trim()}}}"`);
+
+  const raw = resolvePath(path, scope);
+  let value = toText(raw, path);
+  for (const filter of filters) {
+    const colon = filter.indexOf(':');
+    const name = (colon === -1 ? filter : filter.slice(0, colon)).trim();
+    const fn = FILTERS[name];
+    if (!fn) throw new Error(`Unknown filter "${name}" — available: ${Object.keys(FILTERS).join(', ')}`);
+    value = fn(value, colon === -1 ? undefined : unquote(filter.slice(colon + 1).trim()), raw, scope);
+  }
+  if (value === undefined) {
+    throw new Error(`Undefined variable "${path}" — add it to CompileOptions.data or give a default (e.g. {{${path} | default:"…"}})`);
+  }
+  return value;
+}
+
+/** Offsets `[start, end)` of fenced code blocks and code spans, where `{{…}}` is meant literally. */
+function codeRanges(text: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  const addSpans = (from: number, to: number) => {
+    for (const m of text.slice(from, to).matchAll(CODE_SPAN_RE)) ranges.push([from + m.index, from + m.index + m[0].length]);
+  };
+  let fence: { marker: string; start: number } | null = null;
+  let proseStart = 0;
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    const end = offset + line.length + 1;
+    const marker = line.match(FENCE_RE)?.[1];
+    if (fence) {
+      // A closing fence uses the same character, at least as many times, and nothing else
+      if (marker && marker[0] === fence.marker[0] && marker.length >= fence.marker.length && !line.trim().slice(marker.length)) {
+        ranges.push([fence.start, end]);
+        fence = null;
+        proseStart = end;
+      }
+    } else if (marker) {
+      addSpans(proseStart, offset);
+      fence = { marker, start: offset };
+    }
+    offset = end;
+  }
+  if (fence) ranges.push([fence.start, text.length]);
+  else addSpans(proseStart, text.length);
+  return ranges;
+}
+
+/**
+ * Replace `{{path | filter}}` references in `text`. `\{{` keeps a reference
+ * literal. Unresolvable references become empty strings and are reported
+ * through `onIssue`. With `markdown`, references inside code spans and fenced
+ * code blocks are left as written.
+ */
+export function interpolate(
+  text: string,
+  scope: InterpolationScope,
+  onIssue?: (issue: InterpolationIssue) => void,
+  wrap: (value: string) => string = value => value,
+  markdown = false,
+): string {
+  if (!text.includes('{{')) return text;
+  const code = markdown ? codeRanges(text) : [];
+  return text.replace(EXPRESSION_RE, (match: string, escape: string, expression: string, offset: number) => {
+    if (code.some(([start, end]) => offset >= start && offset < end)) return match;
+    if (escape) return match.slice(1);
+    try {
+      return wrap(evaluate(expression, scope));
+    } catch (err) {
+      onIssue?.({ message: (err as Error).message, offset, length: match.length });
+      return '';
+    }
+  });
+}
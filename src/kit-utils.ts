@@ -1,15 +1,25 @@
-import type { MklyBlock } from './types';
-import { escapeHtml, isSafeUrl, markdownToHtml } from './utils';
+import type { MklyBlock, CompileContext, ResolvedImage } from './types';
+import { cls } from './types';
+import { escapeHtml, isSafeUrl } from './utils';
+import { markdownToHtml } from './markdown';
+import type { MarkdownOptions } from './markdown';
 
-export { escapeHtml, isSafeUrl, markdownToHtml } from './utils';
+export { escapeHtml, isSafeUrl } from './utils';
+export { markdownToHtml } from './markdown';
 
 export function safeUrl(url: string | undefined): string {
   if (!url) return '';
   return isSafeUrl(url) ? escapeHtml(url) : '';
 }
 
-export function md(block: MklyBlock): string {
-  return markdownToHtml(block.content, block.contentLineMap);
+/** Render a block's content; pass `markdownOptions(ctx)` to follow the document's markdown settings. */
+export function md(block: MklyBlock, options?: MarkdownOptions): string {
+  return markdownToHtml(block.content, block.contentLineMap, options);
+}
+
+/** Markdown options from the kits' and `CompileOptions` `markdown` settings and the document version. */
+export function markdownOptions(ctx: CompileContext): MarkdownOptions {
+  return { strict: ctx.markdown?.strict ?? false, ...(ctx.version !== undefined ? { version: ctx.version } : {}) };
 }
 
 export function clampInt(value: string | undefined, min: number, max: number, fallback: number): number {
@@ -27,3 +37,64 @@ export function slugify(text: string): string {
     .replace(/-+/g, '-')
     .trim();
 }
+
+// ---------------------------------------------------------------------------
+// Images
+// ---------------------------------------------------------------------------
+
+export interface ImageTagOptions {
+  /** Element target, also the BEM element class (default `img`). */
+  target?: string;
+  alt?: string;
+  /** `width` attribute as the source wrote it. */
+  width?: string;
+  /** Above the fold — skip `loading="lazy"`. */
+  eager?: boolean;
+  style?: string;
+  /** Appended verbatim, e.g. the block's `lineAttr`. */
+  attrs?: string;
+}
+
+const PLACEHOLDER_IMAGE_RE = /^(?:https?:|data:image\/|\/)/i;
+
+function placeholderStyle(placeholder: string): string {
+  return PLACEHOLDER_IMAGE_RE.test(placeholder)
+    ? `background-image:url("${placeholder.replace(/"/g, '%22')}");background-size:cover;background-position:center`
+    : `background-color:${placeholder.replace(/[;{}]/g, '')}`;
+}
+
+function sizeAttrs(resolved: ResolvedImage, width: string | undefined): string {
+  const { width: w, height: h } = resolved;
+  if (!w || !h) return width ? ` width="${escapeHtml(width)}"` : '';
+  if (!width) return ` width="${w}" height="${h}"`;
+  // Keep the block's display width and scale the height to the intrinsic ratio
+  return /^\d+$/.test(width) ? ` width="${width}" height="${Math.round(h * Number(width) / w)}"` : ` width="${escapeHtml(width)}"`;
+}
+
+/**
+ * An `<img>` for `url`. With `CompileOptions.images` set, the resolver's
+ * `src`, `srcset`, intrinsic size and placeholder are applied and the image
+ * gets `loading`/`decoding`; a rewritten URL keeps the original in
+ * `data-src` so reverse conversion recovers it.
+ */
+export function imageTag(block: MklyBlock, url: string, ctx: CompileContext, options: ImageTagOptions = {}): string {
+  const target = options.target ?? 'img';
+  const alt = ` alt="${escapeHtml(options.alt ?? '')}"`;
+  const className = ` class="${cls(block, `__${target}`)}"`;
+  const attrs = options.attrs ?? '';
+  const width = options.width?.trim();
+  const resolved = ctx.images && isSafeUrl(url)
+    ? ctx.images(url, { block, target, width: width && /^\d+$/.test(width) ? Number(width) : undefined, eager: options.eager })
+    : undefined;
+  if (!resolved) {
+    const style = options.style ? ` style="${escapeHtml(options.style)}"` : '';
+    return `<img src="${safeUrl(url)}"${alt}${width ? ` width="${escapeHtml(width)}"` : ''}${className}${style}${attrs}>`;
+  }
+  const srcset = resolved.srcset ? ` srcset="${escapeHtml(resolved.srcset)}"` : '';
+  const sizes = resolved.sizes ? ` sizes="${escapeHtml(resolved.sizes)}"` : '';
+  const loading = options.eager ? '' : ' loading="lazy"';
+  const styles = [options.style, resolved.placeholder && placeholderStyle(resolved.placeholder)].filter(Boolean).join(';');
+  const style = styles ? ` style="${escapeHtml(styles)}"` : '';
+  const original = resolved.src !== url ? ` data-src="${safeUrl(url)}"` : '';
+  return `<img src="${safeUrl(resolved.src)}"${srcset}${sizes}${alt}${sizeAttrs(resolved, width)}${loading} decoding="async"${className}${style}${original}${attrs}>`;
+}
@@ -1,6 +1,7 @@
-import type { BlockDefinition, BlockDocs, CompileContext, MklyDocument, CompileResult, MklyTheme, MklyPreset, ThemeDocs, MetaProperty } from './types';
+import type { BlockDefinition, BlockDocs, CompileContext, MklyDocument, CompileResult, MklyTheme, MklyPreset, ThemeDocs, MetaProperty, MarkdownSettings } from './types';
 import type { BlockSchema } from './schemas';
 import { BlockRegistry } from './registry';
+import type { EmbedProvider } from './embed';
 
 export interface MklyKitVersions {
   supported: number[];
@@ -14,6 +15,8 @@ export interface ParsedBlock {
   content: string;
   children: ParsedBlock[];
   label?: string;
+  /** From the element's HTML `id`, written back as `--- type#id`. */
+  id?: string;
   verbatim?: boolean;
 }
 
@@ -50,6 +53,10 @@ export interface MklyKit {
   importPatterns?: ImportPattern[];
   docs?: Record<string, BlockDocs>;
   metaProperties?: MetaProperty[];
+  /** Sites `core/embed` recognizes. A kit's providers are tried before those of kits listed ahead of it. */
+  embedProviders?: EmbedProvider[];
+  /** Markdown settings for every block's content; a later kit's override an earlier one's. Email kits set `{ strict: true }`. */
+  markdown?: MarkdownSettings;
   transform?: (doc: MklyDocument) => MklyDocument;
   afterCompile?: (result: CompileResult, ctx: CompileContext) => CompileResult;
 }
@@ -62,6 +69,28 @@ export function defineBlock(def: BlockDefinition): BlockDefinition {
   return def;
 }
 
+/** Qualified names (`kit/block`) of every verbatim block — what `ParseOptions.verbatimBlocks` expects. */
+export function verbatimBlockTypes(kits: Record<string, MklyKit>): Set<string> {
+  const types = new Set<string>();
+  for (const kit of Object.values(kits)) {
+    for (const block of kit.blocks ?? []) {
+      if (block.contentMode === 'verbatim') types.add(`${kit.name}/${block.name}`);
+    }
+  }
+  return types;
+}
+
+/** Qualified names of every container block — what `ParseOptions.containerBlocks` expects. */
+export function containerBlockTypes(kits: Record<string, MklyKit>): Set<string> {
+  const types = new Set<string>();
+  for (const kit of Object.values(kits)) {
+    for (const block of kit.blocks ?? []) {
+      if (block.isContainer) types.add(`${kit.name}/${block.name}`);
+    }
+  }
+  return types;
+}
+
 export function applyKits(
   registry: BlockRegistry,
   kits: MklyKit[],
@@ -76,6 +105,8 @@ export function applyKits(
   defaultThemes: string[];
   presets: Map<string, MklyPreset>;
   defaultPresets: string[];
+  embedProviders: EmbedProvider[];
+  markdown: MarkdownSettings;
 } {
   const styles: string[] = [];
   const keyframes: Record<string, string> = {};
@@ -85,6 +116,8 @@ export function applyKits(
   const defaultThemes: string[] = [];
   const presets = new Map<string, MklyPreset>();
   const defaultPresets: string[] = [];
+  const embedProviders: EmbedProvider[] = [];
+  const markdown: MarkdownSettings = {};
   const version = docVersion ?? 1;
 
   for (const kit of kits) {
@@ -127,6 +160,12 @@ export function applyKits(
     if (kit.defaultPreset) {
       defaultPresets.push(`${kit.name}/${kit.defaultPreset}`);
     }
+    if (kit.embedProviders) {
+      embedProviders.unshift(...kit.embedProviders);
+    }
+    if (kit.markdown) {
+      Object.assign(markdown, kit.markdown);
+    }
     if (kit.transform) {
       transforms.push(kit.transform);
     }
@@ -135,5 +174,5 @@ export function applyKits(
     }
   }
 
-  return { registry, styles, keyframes, transforms, afterCompile, themes, defaultThemes, presets, defaultPresets };
+  return { registry, styles, keyframes, transforms, afterCompile, themes, defaultThemes, presets, defaultPresets, embedProviders, markdown };
 }
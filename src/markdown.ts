@@ -0,0 +1,799 @@
+import { escapeHtml, isSafeUrl, toKebab } from './utils';
+import { footnoteRef, footnoteDefinition } from './footnotes';
+import { MKLY_DEFAULT_VERSION } from './version';
+
+/** How `markdownToHtml` renders content. */
+export interface MarkdownOptions {
+  /**
+   * Email-safe subset for kits that render into email clients: no tables or
+   * task-list checkboxes (their source stays text), no bare-URL autolinks,
+   * links only to `http(s):`, `mailto:`, `tel:` and `#` targets, and images
+   * only from absolute `http(s):` URLs.
+   */
+  strict?: boolean;
+  /**
+   * The mkly version the content was written for (default 1). In version 1
+   * every line is its own paragraph, as documents written for it expect;
+   * from version 2 lines wrap into one paragraph until a blank line.
+   */
+  version?: number;
+  /**
+   * Renders `![alt](url "title")` in place of the plain `<img>`; `alt` and
+   * `title` arrive HTML-escaped. Core blocks pass `imageTag` here so
+   * `CompileOptions.images` reaches markdown images too.
+   */
+  image?: (url: string, alt: string, title?: string) => string;
+}
+
+// ---------------------------------------------------------------------------
+// Literal values and inline styles
+// ---------------------------------------------------------------------------
+
+// Interpolated values arrive wrapped in LITERAL_OPEN/LITERAL_CLOSE (see utils.ts)
+const LITERAL_RE = /\uFDD0([^\uFDD0\uFDD1]*)\uFDD1/g;
+const LITERAL_MARK_RE = /\x00MKLY_L(\d+)\x00/g;
+
+/** Swap literal values for markers no markdown rule matches; `restoreLiterals` puts them back escaped. */
+function stashLiterals(content: string, literals: string[]): string {
+  return content.replace(LITERAL_RE, (_m, value: string) => `\x00MKLY_L${literals.push(value) - 1}\x00`);
+}
+
+function restoreLiterals(html: string, literals: string[], escape = true): string {
+  return html.replace(LITERAL_MARK_RE, (_m, i: string) => (escape ? escapeHtml(literals[+i]) : literals[+i]));
+}
+
+function processInlineStyles(content: string): { processed: string; styles: Array<{ id: number; css: string }> } {
+  const styles: Array<{ id: number; css: string }> = [];
+  let id = 0;
+  let processed = content;
+
+  // Match innermost styles first (content with no '{'), loop to resolve nesting
+  const re = /\{@([^}]+)\}([^{]*)\{\/\}/g;
+  let prev = '';
+  while (prev !== processed) {
+    prev = processed;
+    processed = processed.replace(re, (_match, styleStr: string, text: string) => {
+      const css = parseInlineStyleDecl(styleStr);
+      const currentId = id++;
+      styles.push({ id: currentId, css });
+      return `\x00MKLY_S${currentId}\x00${text}\x00MKLY_E${currentId}\x00`;
+    });
+  }
+
+  return { processed, styles };
+}
+
+function parseInlineStyleDecl(styleStr: string): string {
+  return styleStr.trim().split(/\s+/).map(decl => {
+    const match = decl.match(/^@?([\w-]+):(.+)$/);
+    if (!match) return '';
+    const prop = camelToKebab(match[1]);
+    return `${prop}:${match[2]}`;
+  }).filter(Boolean).join(';');
+}
+
+function camelToKebab(str: string): string {
+  if (str === 'bg') return 'background';
+  if (str === 'bgColor') return 'background-color';
+  return toKebab(str);
+}
+
+function restoreInlineStyles(html: string, styles: Array<{ id: number; css: string }>): string {
+  let result = html;
+  for (const { id, css } of styles) {
+    result = result.replace(`\x00MKLY_S${id}\x00`, `<span style="${css}">`);
+    result = result.replace(`\x00MKLY_E${id}\x00`, '</span>');
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Block structure
+// ---------------------------------------------------------------------------
+
+/** A content line and its index into the line map. */
+interface Line {
+  text: string;
+  idx: number;
+}
+
+type Block =
+  | { kind: 'paragraph'; text: string; idx: number; cls?: string }
+  | { kind: 'heading'; level: number; text: string; idx: number; cls?: string }
+  | { kind: 'hr'; idx: number }
+  | { kind: 'code'; lang: string; text: string; idx: number }
+  | { kind: 'quote'; children: Block[]; idx: number }
+  | { kind: 'list'; ordered: boolean; start: number; loose: boolean; items: ListItem[]; idx: number }
+  | { kind: 'table'; align: Array<string | null>; head: string[]; rows: string[][]; idx: number }
+  | { kind: 'footnote'; label: string; children: Block[]; idx: number };
+
+interface ListItem {
+  children: Block[];
+  idx: number;
+  /** `- [x]` task items: whether the box is checked. */
+  checked?: boolean;
+}
+
+interface LinkReference {
+  url: string;
+  title?: string;
+}
+
+interface Context {
+  lineMap?: number[];
+  literals: string[];
+  strict: boolean;
+  version: number;
+  references: Map<string, LinkReference>;
+  image?: MarkdownOptions['image'];
+}
+
+const ATX_RE = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_RE = /^ {0,3}(=+|-+)[ \t]*$/;
+const HR_RE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const FENCE_RE = /^( {0,3})(`{3,}|~{3,})[ \t]*([^\s`]*)[^`]*$/;
+const QUOTE_RE = /^ {0,3}> ?(.*)$/;
+const ITEM_RE = /^( {0,3})([-+*]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/;
+const TABLE_DELIMITER_RE = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const REFERENCE_RE = /^ {0,3}\[([^\]^][^\]]*)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+("[^"]*"|'[^']*'|\([^)]*\)))?[ \t]*$/;
+const TASK_RE = /^\[([ xX])\][ \t]+/;
+const FOOTNOTE_RE = /^ {0,3}\[\^([\w-]+)\]:[ \t]*(.*)$/;
+
+/** Quotes, lists and footnotes nest this deep; markers past it stay text. */
+const MAX_NESTING = 50;
+
+/** Match {.className} attribute annotation at end of a line (no leading `\s*`, which backtracks over long indents). */
+const ATTR_CLASS_RE = /\{\.([\w][\w-]*)\}\s*$/;
+
+/** Extract {.className} from end of text, returning clean text + the class. */
+function extractClass(text: string): { clean: string; cls?: string } {
+  const m = text.match(ATTR_CLASS_RE);
+  if (!m) return { clean: text };
+  return { clean: text.slice(0, m.index!).trimEnd(), cls: m[1] };
+}
+
+function isBlank(text: string): boolean {
+  return text.trim() === '';
+}
+
+function indentOf(text: string): number {
+  return text.length - text.trimStart().length;
+}
+
+/** Whether `text` is indented by at least `n` columns, looking no further than that into a long indent. */
+function indentedBy(text: string, n: number): boolean {
+  return text.length >= n && isBlank(text.slice(0, n));
+}
+
+/** Split a `| a | b |` pipe-table row into trimmed cells; `\|` is a literal pipe. */
+export function splitTableRow(text: string): string[] {
+  let row = text.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let cell = '';
+  let code = false;
+  for (let i = 0; i < row.length; i++) {
+    const ch = row[i];
+    if (ch === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (ch === '`') {
+      code = !code;
+      cell += ch;
+    } else if (ch === '|' && !code) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function isTableStart(lines: Line[], i: number, ctx: Context): boolean {
+  if (ctx.strict || i + 1 >= lines.length || !lines[i].text.includes('|')) return false;
+  return tableAlignment(lines[i + 1].text)?.length === splitTableRow(lines[i].text).length;
+}
+
+/** Whether a line ends a paragraph instead of continuing it. */
+function interruptsParagraph(text: string): boolean {
+  if (ATX_RE.test(text) || HR_RE.test(text) || FENCE_RE.test(text) || QUOTE_RE.test(text) || FOOTNOTE_RE.test(text)) return true;
+  const item = text.match(ITEM_RE);
+  // Only bullets and lists starting at 1 interrupt, and never with an empty item
+  return !!item && !!item[4]?.trim() && (/^[-+*]$/.test(item[2]) || /^1[.)]$/.test(item[2]));
+}
+
+function parseBlocks(lines: Line[], ctx: Context, depth = 0): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: Line[] = [];
+
+  const flush = () => {
+    if (paragraph.length === 0) return;
+    for (const lines of ctx.version < 2 ? paragraph.map(l => [l]) : [paragraph]) {
+      const text = lines.map(l => l.text.trimStart()).join('\n').trimEnd();
+      const { clean, cls } = extractClass(text);
+      blocks.push({ kind: 'paragraph', text: clean, idx: lines[0].idx, ...(cls ? { cls } : {}) });
+    }
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const { text, idx } = lines[i];
+
+    if (isBlank(text)) {
+      flush();
+      i++;
+      continue;
+    }
+
+    // Indented code can't interrupt a paragraph — there the line continues it
+    if (paragraph.length === 0 && indentOf(text) >= 4) {
+      const body: string[] = [];
+      while (i < lines.length && (isBlank(lines[i].text) || indentOf(lines[i].text) >= 4)) {
+        body.push(lines[i].text.slice(Math.min(4, indentOf(lines[i].text))));
+        i++;
+      }
+      while (isBlank(body[body.length - 1])) body.pop();
+      blocks.push({ kind: 'code', lang: '', text: body.join('\n'), idx });
+      continue;
+    }
+
+    const fence = text.match(FENCE_RE);
+    if (fence) {
+      flush();
+      const [, indent, marker, lang] = fence;
+      const body: string[] = [];
+      i++;
+      while (i < lines.length) {
+        const close = lines[i].text.match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+        if (close && close[1][0] === marker[0] && close[1].length >= marker.length) {
+          i++;
+          break;
+        }
+        const line = lines[i].text;
+        body.push(line.slice(Math.min(indent.length, indentOf(line))));
+        i++;
+      }
+      blocks.push({ kind: 'code', lang, text: body.join('\n'), idx });
+      continue;
+    }
+
+    const atx = text.match(ATX_RE);
+    if (atx) {
+      flush();
+      const { clean, cls } = extractClass(atx[2] ?? '');
+      blocks.push({ kind: 'heading', level: atx[1].length, text: clean, idx, ...(cls ? { cls } : {}) });
+      i++;
+      continue;
+    }
+
+    const setext = paragraph.length > 0 ? text.match(SETEXT_RE) : null;
+    if (setext) {
+      const first = paragraph[0].idx;
+      const { clean, cls } = extractClass(paragraph.map(l => l.text.trim()).join('\n'));
+      paragraph = [];
+      blocks.push({ kind: 'heading', level: setext[1][0] === '=' ? 1 : 2, text: clean, idx: first, ...(cls ? { cls } : {}) });
+      i++;
+      continue;
+    }
+
+    if (HR_RE.test(text)) {
+      flush();
+      blocks.push({ kind: 'hr', idx });
+      i++;
+      continue;
+    }
+
+    if (QUOTE_RE.test(text) && depth < MAX_NESTING) {
+      flush();
+      const inner: Line[] = [];
+      while (i < lines.length) {
+        const quoted = lines[i].text.match(QUOTE_RE);
+        if (quoted) {
+          inner.push({ text: quoted[1], idx: lines[i].idx });
+        } else if (!isBlank(lines[i].text) && inner.length > 0 && !isBlank(inner[inner.length - 1].text) && !interruptsParagraph(lines[i].text)) {
+          // Lazy continuation of a quoted paragraph
+          inner.push(lines[i]);
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ kind: 'quote', children: parseBlocks(inner, ctx, depth + 1), idx });
+      continue;
+    }
+
+    const item = text.match(ITEM_RE);
+    if (item && depth < MAX_NESTING && (paragraph.length === 0 || interruptsParagraph(text))) {
+      flush();
+      i = parseList(lines, i, ctx, blocks, depth);
+      continue;
+    }
+
+    if (isTableStart(lines, i, ctx)) {
+      flush();
+      i = parseTable(lines, i, blocks);
+      continue;
+    }
+
+    const footnote = depth < MAX_NESTING ? text.match(FOOTNOTE_RE) : null;
+    if (footnote) {
+      flush();
+      i = parseFootnote(lines, i, footnote, ctx, blocks, depth);
+      continue;
+    }
+
+    const reference = paragraph.length === 0 ? text.match(REFERENCE_RE) : null;
+    if (reference) {
+      const label = normalizeLabel(reference[1]);
+      if (!ctx.references.has(label)) {
+        ctx.references.set(label, { url: reference[2], ...(reference[3] ? { title: reference[3].slice(1, -1) } : {}) });
+      }
+      i++;
+      continue;
+    }
+
+    paragraph.push(lines[i]);
+    i++;
+    // A class annotation closes its paragraph, so `text {.s1}` lines stay separate
+    if (ATTR_CLASS_RE.test(text)) flush();
+  }
+  flush();
+  return blocks;
+}
+
+function parseList(lines: Line[], start: number, ctx: Context, blocks: Block[], depth: number): number {
+  const first = lines[start].text.match(ITEM_RE)!;
+  const ordered = /\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  const items: ListItem[] = [];
+  let loose = false;
+  let i = start;
+
+  // Ordered items must keep the delimiter; bullets may mix `-`, `*` and `+`
+  const continues = (text: string): RegExpMatchArray | null => {
+    const m = text.match(ITEM_RE);
+    if (!m || HR_RE.test(text)) return null;
+    return /\d/.test(m[2]) === ordered && (!ordered || m[2].slice(-1) === delimiter) ? m : null;
+  };
+
+  while (i < lines.length) {
+    const m = continues(lines[i].text);
+    if (!m) break;
+
+    const [, indent, marker, spacing = '', rest = ''] = m;
+    const contentIndent = indent.length + marker.length + (rest && spacing.length <= 4 ? spacing.length : 1);
+    const itemLines: Line[] = [{ text: rest && spacing.length > 4 ? ' '.repeat(spacing.length - 1) + rest : rest, idx: lines[i].idx }];
+    i++;
+
+    while (i < lines.length) {
+      const { text, idx } = lines[i];
+      // Nested lines are checked at every level, so only as far as this item's indent
+      if (indentedBy(text, contentIndent)) {
+        itemLines.push({ text: text.slice(contentIndent), idx });
+      } else if (isBlank(text)) {
+        itemLines.push({ text: '', idx });
+      } else if (!isBlank(itemLines[itemLines.length - 1].text) && !interruptsParagraph(text) && !ITEM_RE.test(text)) {
+        // Lazy continuation of the item's paragraph
+        itemLines.push({ text: text.trimStart(), idx });
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    let trailing = 0;
+    while (itemLines.length > 1 && isBlank(itemLines[itemLines.length - 1].text)) {
+      itemLines.pop();
+      trailing++;
+    }
+    const children = parseBlocks(itemLines, ctx, depth + 1);
+    // Blank lines between an item's blocks, or between items, make the list loose
+    if (children.length > 1 && itemLines.some(l => isBlank(l.text))) loose = true;
+    if (trailing > 0 && i < lines.length && continues(lines[i].text)) loose = true;
+
+    const listItem: ListItem = { children, idx: itemLines[0].idx };
+    const lead = children[0];
+    const task = !ctx.strict && lead?.kind === 'paragraph' ? lead.text.match(TASK_RE) : null;
+    if (task && lead.kind === 'paragraph') {
+      listItem.checked = task[1] !== ' ';
+      lead.text = lead.text.slice(task[0].length);
+    }
+    items.push(listItem);
+    if (trailing > 0 && (i >= lines.length || !continues(lines[i].text))) break;
+  }
+
+  blocks.push({ kind: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, loose, items, idx: lines[start].idx });
+  return i;
+}
+
+/** `[^label]: note`, continued by indented lines and lazy paragraph lines. */
+function parseFootnote(lines: Line[], start: number, m: RegExpMatchArray, ctx: Context, blocks: Block[], depth: number): number {
+  const noteLines: Line[] = [{ text: m[2], idx: lines[start].idx }];
+  let i = start + 1;
+  while (i < lines.length) {
+    const { text, idx } = lines[i];
+    if (isBlank(text)) {
+      // A blank line only continues the note if indented content follows
+      let next = i + 1;
+      while (next < lines.length && isBlank(lines[next].text)) next++;
+      if (next >= lines.length || indentOf(lines[next].text) < 2) break;
+      noteLines.push({ text: '', idx });
+    } else if (indentOf(text) >= 2) {
+      noteLines.push({ text: text.slice(Math.min(4, indentOf(text))), idx });
+    } else if (!isBlank(noteLines[noteLines.length - 1].text) && !interruptsParagraph(text) && !ITEM_RE.test(text)) {
+      noteLines.push({ text, idx });
+    } else {
+      break;
+    }
+    i++;
+  }
+  blocks.push({ kind: 'footnote', label: m[1], children: parseBlocks(noteLines, ctx, depth + 1), idx: lines[start].idx });
+  return i;
+}
+
+/** The column alignments of a `| --- | :-: |` delimiter row, or null when `text` is not one. */
+export function tableAlignment(text: string): Array<'left' | 'center' | 'right' | null> | null {
+  if (!TABLE_DELIMITER_RE.test(text) || !text.includes('-')) return null;
+  return splitTableRow(text).map(cell => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+  });
+}
+
+function parseTable(lines: Line[], start: number, blocks: Block[]): number {
+  const head = splitTableRow(lines[start].text);
+  const align = tableAlignment(lines[start + 1].text)!;
+  const rows: string[][] = [];
+  let i = start + 2;
+  while (i < lines.length && !isBlank(lines[i].text) && !interruptsParagraph(lines[i].text)) {
+    const cells = splitTableRow(lines[i].text);
+    rows.push(head.map((_, c) => cells[c] ?? ''));
+    i++;
+  }
+  blocks.push({ kind: 'table', align, head, rows, idx: lines[start].idx });
+  return i;
+}
+
+// ---------------------------------------------------------------------------
+// Inline content
+// ---------------------------------------------------------------------------
+
+const INLINE_MARK_RE = /\x00MKLY_I(\d+)\x00/g;
+const ESCAPABLE_RE = /\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}])/g;
+// Opening and closing backtick runs of the same length, neither part of a longer run
+const CODE_SPAN_RE = /(?<!`)(`+)(?!`)([\s\S]*?[^`])\1(?!`)/g;
+// `<…>` spans other than a `](<dest>)` link destination; AUTOLINK_TARGET_RE checks
+// what is inside once stashed literal values are back
+const AUTOLINK_RE = /(?<!\]\([ \n]*)<([^\s<>]+)>/g;
+const AUTOLINK_TARGET_RE = /^(?:[a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*|[\w.!#$%&'*+/=?^`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?)+)$/;
+const BARE_URL_RE = /(^|[\s(*_~])((?:https?:\/\/|www\.)[^\s<]*[^\s<?!.,:;*_~)'"])/g;
+const STRICT_URL_RE = /^(?:https?:|mailto:|tel:|#)/i;
+
+/** A delimiter run of `*` or `_` and the tags it became. */
+interface DelimiterRun {
+  char: string;
+  /** Characters not yet used by a match. */
+  count: number;
+  length: number;
+  canOpen: boolean;
+  canClose: boolean;
+  open: string;
+  close: string;
+}
+
+// Stash markers stand in for code spans, links and escapes, which flank like punctuation
+const PUNCTUATION_RE = /[\p{P}\p{S}\x00]/u;
+
+/**
+ * `*` and `_` emphasis by CommonMark's delimiter-run rules: each closer matches
+ * the nearest opener of the same character, the inner match first, so the tags
+ * always nest (`***x***` is `<em><strong>x</strong></em>`).
+ */
+function renderEmphasis(text: string): string {
+  const parts: Array<string | DelimiterRun> = [];
+  const runs: DelimiterRun[] = [];
+  let last = 0;
+  for (const m of text.matchAll(/\*+|_+/g)) {
+    const before = text[m.index - 1] ?? ' ';
+    const after = text[m.index + m[0].length] ?? ' ';
+    const left = !/\s/.test(after) && (!PUNCTUATION_RE.test(after) || /\s/.test(before) || PUNCTUATION_RE.test(before));
+    const right = !/\s/.test(before) && (!PUNCTUATION_RE.test(before) || /\s/.test(after) || PUNCTUATION_RE.test(after));
+    const char = m[0][0];
+    // `_` can't open or close inside a word
+    const run: DelimiterRun = {
+      char,
+      count: m[0].length,
+      length: m[0].length,
+      canOpen: char === '*' ? left : left && (!right || PUNCTUATION_RE.test(before)),
+      canClose: char === '*' ? right : right && (!left || PUNCTUATION_RE.test(after)),
+      open: '',
+      close: '',
+    };
+    parts.push(text.slice(last, m.index), run);
+    runs.push(run);
+    last = m.index + m[0].length;
+  }
+  if (runs.length === 0) return text;
+  parts.push(text.slice(last));
+
+  for (let c = 0; c < runs.length; c++) {
+    const closer = runs[c];
+    while (closer.canClose && closer.count > 0) {
+      let o = c - 1;
+      for (; o >= 0; o--) {
+        const opener = runs[o];
+        if (opener.char !== closer.char || !opener.canOpen || opener.count === 0) continue;
+        // A run that can both open and close doesn't match one whose lengths sum to a multiple of 3
+        const both = opener.canClose || closer.canOpen;
+        if (!both || (opener.length + closer.length) % 3 !== 0 || (opener.length % 3 === 0 && closer.length % 3 === 0)) break;
+      }
+      if (o < 0) break;
+      const opener = runs[o];
+      const tag = opener.count >= 2 && closer.count >= 2 ? 'strong' : 'em';
+      const used = tag === 'strong' ? 2 : 1;
+      opener.count -= used;
+      closer.count -= used;
+      opener.open = `<${tag}>${opener.open}`;
+      closer.close += `</${tag}>`;
+      // Runs between the pair stay text
+      for (let k = o + 1; k < c; k++) runs[k].canOpen = runs[k].canClose = false;
+    }
+  }
+
+  return parts.map(part => (typeof part === 'string' ? part : part.close + part.char.repeat(part.count) + part.open)).join('');
+}
+
+function escapeCode(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** Index of the `]` that closes the `[` at `open`, or -1. */
+function closingBracket(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === '[') depth++;
+    else if (text[i] === ']' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/** `(dest "title")` starting at `open`: the destination, title and where it ends. */
+function linkDestination(text: string, open: number): { url: string; title?: string; end: number } | null {
+  let i = open + 1;
+  while (text[i] === ' ' || text[i] === '\n') i++;
+  let url = '';
+  if (text[i] === '<') {
+    const close = text.indexOf('>', i);
+    if (close === -1) return null;
+    url = text.slice(i + 1, close);
+    i = close + 1;
+  } else {
+    let depth = 0;
+    const begin = i;
+    for (; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === '\\') { i++; continue; }
+      if (ch === ' ' || ch === '\n') break;
+      if (ch === '(') depth++;
+      if (ch === ')' && depth-- === 0) break;
+    }
+    url = text.slice(begin, i);
+  }
+  while (text[i] === ' ' || text[i] === '\n') i++;
+  let title: string | undefined;
+  const quote = text[i];
+  if (quote === '"' || quote === "'" || quote === '(') {
+    const close = text.indexOf(quote === '(' ? ')' : quote, i + 1);
+    if (close === -1) return null;
+    title = text.slice(i + 1, close);
+    i = close + 1;
+    while (text[i] === ' ' || text[i] === '\n') i++;
+  }
+  if (text[i] !== ')') return null;
+  return { url: url.replace(ESCAPABLE_RE, '$1'), ...(title !== undefined ? { title } : {}), end: i + 1 };
+}
+
+/** `stash` is shared with the link text rendered inside, which may hold its markers. */
+function renderInline(text: string, ctx: Context, stash: string[] = []): string {
+  const keep = (html: string) => `\x00MKLY_I${stash.push(html) - 1}\x00`;
+  // Escapes in a destination or title were stashed already; attributes need their text back
+  const unstash = (raw: string) => raw.replace(INLINE_MARK_RE, (_m, n: string) => stash[+n]);
+  const href = (raw: string) => restoreLiterals(unstash(raw), ctx.literals, false);
+  const allowed = (url: string) => isSafeUrl(url) && (!ctx.strict || STRICT_URL_RE.test(url.trim()));
+
+  let s = text
+    .replace(CODE_SPAN_RE, (_m, _ticks: string, code: string) => {
+      const body = code.replace(/\n/g, ' ');
+      const trimmed = /^ .* $/.test(body) && body.trim() ? body.slice(1, -1) : body;
+      return keep(`<code>${escapeCode(trimmed)}</code>`);
+    })
+    // A lone pair of backticks is an empty code span
+    .replace(/(?<!`)``(?!`)/g, () => keep('<code></code>'))
+    .replace(/(?: {2,}|\\)\n/g, () => keep('<br>\n'))
+    .replace(/\\~/g, () => keep('&nbsp;'))
+    .replace(ESCAPABLE_RE, (_m, ch: string) => keep(escapeCode(ch)))
+    .replace(AUTOLINK_RE, (m, raw: string) => {
+      const target = restoreLiterals(raw, ctx.literals, false);
+      if (!AUTOLINK_TARGET_RE.test(target)) return m;
+      const url = target.includes(':') ? target : `mailto:${target}`;
+      return allowed(url) ? keep(`<a href="${escapeHtml(url)}">${escapeCode(target)}</a>`) : m;
+    });
+
+  s = s.replace(/\[\^([\w-]+)\]/g, (_m, label: string) => keep(footnoteRef(label)));
+
+  // Links and images: [text](url "title"), [text][ref], [ref]
+  let out = '';
+  let i = 0;
+  while (i < s.length) {
+    const image = s[i] === '!' && s[i + 1] === '[';
+    const open = image ? i + 1 : i;
+    if (s[open] !== '[') {
+      out += s[i++];
+      continue;
+    }
+    const close = closingBracket(s, open);
+    if (close === -1) {
+      out += s.slice(i, open + 1);
+      i = open + 1;
+      continue;
+    }
+    const label = s.slice(open + 1, close);
+    let target: { url: string; title?: string; end: number } | null = null;
+    if (s[close + 1] === '(') {
+      target = linkDestination(s, close + 1);
+    } else {
+      const ref = s[close + 1] === '[' ? s.slice(close + 2, s.indexOf(']', close + 2)) : '';
+      const key = normalizeLabel(ref || label);
+      const definition = !label.startsWith('^') ? ctx.references.get(key) : undefined;
+      if (definition) {
+        const end = s[close + 1] === '[' ? s.indexOf(']', close + 2) + 1 : close + 1;
+        target = { ...definition, end };
+      }
+    }
+    if (!target) {
+      out += s.slice(i, open + 1);
+      i = open + 1;
+      continue;
+    }
+
+    const url = href(target.url);
+    const titleText = target.title !== undefined ? escapeHtml(unstash(target.title)) : undefined;
+    const title = titleText !== undefined ? ` title="${titleText}"` : '';
+    if (image) {
+      const alt = renderInline(label, ctx, stash).replace(/<[^>]+>/g, '');
+      const ok = allowed(url) && (!ctx.strict || /^https?:\/\//i.test(url));
+      const img = ctx.image ? ctx.image(url, alt, titleText) : `<img src="${escapeHtml(url)}" alt="${alt}"${title}>`;
+      out += ok ? keep(img) : alt;
+    } else {
+      const inner = renderInline(label, ctx, stash);
+      out += allowed(url) ? keep(`<a href="${escapeHtml(url)}"${title}>${inner}</a>`) : keep(inner);
+    }
+    i = target.end;
+  }
+  s = out;
+
+  if (!ctx.strict) {
+    s = s.replace(BARE_URL_RE, (_m, before: string, url: string) =>
+      `${before}${keep(`<a href="${escapeHtml(url.startsWith('www.') ? `http://${url}` : url)}">${escapeCode(url)}</a>`)}`);
+  }
+
+  s = renderEmphasis(escapeHtml(s)).replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+
+  return s.replace(INLINE_MARK_RE, (_m, n: string) => stash[+n]);
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+function renderBlocks(blocks: Block[], ctx: Context, tight = false): string[] {
+  const la = (idx: number): string => {
+    if (!ctx.lineMap || idx >= ctx.lineMap.length) return '';
+    return ` data-mkly-line="${ctx.lineMap[idx]}"`;
+  };
+  const classAttr = (cls?: string) => (cls ? ` class="${cls}"` : '');
+
+  return blocks.map(block => {
+    switch (block.kind) {
+      case 'paragraph': {
+        const html = renderInline(block.text, ctx);
+        return tight ? html : `<p${la(block.idx)}${classAttr(block.cls)}>${html}</p>`;
+      }
+      case 'heading':
+        return `<h${block.level}${la(block.idx)}${classAttr(block.cls)}>${renderInline(block.text, ctx)}</h${block.level}>`;
+      case 'hr':
+        return `<hr${la(block.idx)}>`;
+      case 'code': {
+        const lang = block.lang ? ` class="language-${escapeCode(block.lang)}"` : '';
+        return `<pre${la(block.idx)}><code${lang}>${escapeCode(block.text)}</code></pre>`;
+      }
+      case 'quote':
+        return `<blockquote${la(block.idx)}>\n${renderBlocks(block.children, ctx).join('\n')}\n</blockquote>`;
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+        const items = block.items.map(item => {
+          // An item's class annotation is on its first paragraph
+          const lead = item.children[0];
+          const cls = lead?.kind === 'paragraph' ? lead.cls : undefined;
+          const children = cls && lead.kind === 'paragraph' ? [{ ...lead, cls: undefined }, ...item.children.slice(1)] : item.children;
+          const box = item.checked === undefined ? '' : `<input type="checkbox" disabled${item.checked ? ' checked' : ''}> `;
+          const body = renderBlocks(children, ctx, !block.loose);
+          const html = block.loose || body.length > 1 ? body.join('\n') : body.join('');
+          return `<li${la(item.idx)}${classAttr(cls)}>${box}${html}</li>`;
+        });
+        return `<${tag}${start}${la(block.idx)}>\n${items.join('\n')}\n</${tag}>`;
+      }
+      case 'table': {
+        const cell = (tag: string, text: string, c: number) => {
+          const align = block.align[c] ? ` style="text-align:${block.align[c]}"` : '';
+          return `<${tag}${align}>${renderInline(text, ctx)}</${tag}>`;
+        };
+        const head = `<thead>\n<tr>${block.head.map((text, c) => cell('th', text, c)).join('')}</tr>\n</thead>`;
+        const body = block.rows.length > 0
+          ? `\n<tbody>\n${block.rows.map(row => `<tr>${row.map((text, c) => cell('td', text, c)).join('')}</tr>`).join('\n')}\n</tbody>`
+          : '';
+        return `<table${la(block.idx)}>\n${head}${body}\n</table>`;
+      }
+      case 'footnote':
+        return footnoteDefinition(block.label, renderBlocks(block.children, ctx).join('\n'));
+    }
+  });
+}
+
+/**
+ * Render mkly content markdown: ATX and setext headings, paragraphs, nested
+ * lists (task items too), blockquotes, fenced and indented code, tables,
+ * thematic breaks, emphasis with `*` and `_`, `~~strikethrough~~`, code
+ * spans, links and images (inline and reference style), autolinks, hard line
+ * breaks and footnotes — `[^label]` references and `[^label]: note`
+ * definitions, which the compiler numbers and gathers document-wide (see
+ * footnotes.ts).
+ *
+ * Beyond CommonMark: `{.class}` at the end of a line sets the element's
+ * class, `{@prop:value}text{/}` styles a span, `\~` is a non-breaking space
+ * and a lone ` `` ` is an empty code span. Raw HTML is escaped (that is what
+ * `core/html` is for). With a `lineMap` every block element gets its source
+ * line as `data-mkly-line`. Version 1 content (the default, see
+ * `MarkdownOptions.version`) has a paragraph per line.
+ */
+export function markdownToHtml(content: string, lineMap?: number[], options?: MarkdownOptions): string {
+  if (!content) return '';
+
+  const literals: string[] = [];
+  const { processed, styles } = processInlineStyles(stashLiterals(content, literals));
+  const lines = processed.split('\n').map((text, idx) => ({ text: text.replace(/^\t+/, tabs => '    '.repeat(tabs.length)), idx }));
+  const ctx: Context = {
+    lineMap,
+    literals,
+    strict: options?.strict ?? false,
+    version: options?.version ?? MKLY_DEFAULT_VERSION,
+    references: new Map(),
+    image: options?.image,
+  };
+
+  const html = restoreLiterals(renderBlocks(parseBlocks(lines, ctx), ctx).join('\n'), literals);
+  return styles.length > 0 ? restoreInlineStyles(html, styles) : html;
+}
+
+/** Render one line of inline markdown without a paragraph around it — table cells use this. */
+export function inlineMarkdownToHtml(text: string, options?: MarkdownOptions): string {
+  if (!text) return '';
+
+  const literals: string[] = [];
+  const { processed, styles } = processInlineStyles(stashLiterals(text, literals));
+  const ctx: Context = { literals, strict: options?.strict ?? false, version: options?.version ?? MKLY_DEFAULT_VERSION, references: new Map(), image: options?.image };
+
+  const html = restoreLiterals(renderInline(processed, ctx), literals);
+  return styles.length > 0 ? restoreInlineStyles(html, styles) : html;
+}
@@ -1,16 +1,57 @@
-import type { MklyDocument, MklyBlock, ParseError } from './types';
+import type { MklyDocument, MklyBlock, MklyComment, ParseError, DocumentRanges, SourcePosition, SourceRange, TokenizedLine } from './types';
 import { tokenize } from './tokenizer';
 import { resolveVersion, MKLY_DEFAULT_VERSION } from './version';
+import { CONTROL_BLOCKS } from './expand';
+import { duplicateIdErrors } from './references';
 
 type State = 'idle' | 'properties' | 'content' | 'verbatim';
 
 export interface ParseOptions {
   verbatimBlocks?: Set<string>;
+  /**
+   * Block types that are always containers. Their children nest as they are
+   * written and a missing `--- /type` is an error; other blocks only become
+   * containers when a closer for them turns up. `--- if` and `--- each` always are.
+   */
+  containerBlocks?: Set<string>;
   sourceMap?: boolean;
+  /**
+   * Source of the document named by `--- include: id`. `parse()` needs the
+   * source synchronously; a resolver returning a Promise requires `parseAsync()`.
+   * Included `--- style` sections apply before the including document's own.
+   */
+  resolveInclude?: (id: string) => string | Promise<string>;
+  /** How deep includes may nest (default 8). */
+  maxIncludeDepth?: number;
+}
+
+/** What a document was parsed from — kept so parseIncremental can re-parse only edited regions. */
+export interface ParsedSource {
+  source: string;
+  options?: ParseOptions;
+  /** Parse-time errors and comments (compile() may append to doc.errors later). */
+  errors: ParseError[];
+  comments: MklyComment[];
+}
+
+const PARSED_SOURCES = new WeakMap<MklyDocument, ParsedSource>();
+
+export function getParsedSource(doc: MklyDocument): ParsedSource | undefined {
+  return PARSED_SOURCES.get(doc);
+}
+
+export function setParsedSource(doc: MklyDocument, parsed: ParsedSource): void {
+  PARSED_SOURCES.set(doc, parsed);
+}
+
+/** `"--- type#id"` for messages about a block's header. */
+function header(block: MklyBlock): string {
+  return `"--- ${block.blockType}${block.id ? '#' + block.id : ''}"`;
 }
 
 const MAX_SOURCE_SIZE = 10 * 1024 * 1024; // 10 MB
 const MAX_BLOCKS = 10_000;
+const MAX_INCLUDE_DEPTH = 8;
 
 // Directive ordering phases — canonical order: use → define → theme → meta → style → blocks
 type DirectivePhase = 'use' | 'define' | 'theme' | 'meta' | 'style' | 'blocks';
@@ -27,7 +68,60 @@ function orderingError(directive: string, currentPhase: DirectivePhase): string
   }
 }
 
+function firstLineRange(source: string): SourceRange {
+  const end = source.indexOf('\n');
+  return { start: { line: 1, column: 1 }, end: { line: 1, column: (end === -1 ? source.length : end) + 1 } };
+}
+
+/** Tag a block read from an included document (nested includes keep their own id). */
+function markSource(block: MklyBlock, id: string): void {
+  block.source ??= id;
+  for (const child of block.children) markSource(child, id);
+}
+
 export function parse(source: string, options?: ParseOptions): MklyDocument {
+  return parseSource(source, options, []);
+}
+
+/**
+ * Parse with includes resolved up front, so `resolveInclude` may be async.
+ * Every id is resolved once; the resolved sources are kept on the document's
+ * options, so `parseIncremental()` can re-parse without resolving again.
+ */
+export async function parseAsync(source: string, options?: ParseOptions): Promise<MklyDocument> {
+  const resolve = options?.resolveInclude;
+  if (!resolve) return parse(source, options);
+
+  const maxDepth = options?.maxIncludeDepth ?? MAX_INCLUDE_DEPTH;
+  const resolved = new Map<string, string | Error>();
+  const visit = async (text: string, depth: number): Promise<void> => {
+    if (depth >= maxDepth) return;
+    for (const token of tokenize(text)) {
+      if (token.type !== 'block_start' || token.blockType !== 'include' || !token.label) continue;
+      if (resolved.has(token.label)) continue;
+      try {
+        const included = await resolve(token.label);
+        resolved.set(token.label, included);
+        await visit(included, depth + 1);
+      } catch (err) {
+        resolved.set(token.label, err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+  };
+  await visit(source, 0);
+
+  return parse(source, {
+    ...options,
+    resolveInclude: id => {
+      const included = resolved.get(id);
+      if (included instanceof Error) throw included;
+      if (included === undefined) throw new Error('not resolved by parseAsync()');
+      return included;
+    },
+  });
+}
+
+function parseSource(source: string, options: ParseOptions | undefined, includeStack: string[]): MklyDocument {
   if (source.length > MAX_SOURCE_SIZE) {
     return {
       version: MKLY_DEFAULT_VERSION,
@@ -40,29 +134,50 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
       inlineThemes: [],
       inlinePresets: [],
       comments: [],
-      errors: [{ message: 'Document exceeds maximum size (10 MB)', line: 1, severity: 'error' }],
+      errors: [{ message: 'Document exceeds maximum size (10 MB)', line: 1, severity: 'error', range: firstLineRange(source) }],
     };
   }
 
   const tokens = tokenize(source);
-  const doc: MklyDocument = { version: MKLY_DEFAULT_VERSION, blocks: [], meta: {}, styles: [], uses: [], themes: [], presets: [], inlineThemes: [], inlinePresets: [], comments: [], errors: [] };
+  const ranges: DocumentRanges = { uses: [], themes: [], presets: [], meta: {}, styleLines: [], styleFiles: [] };
+  const doc: MklyDocument = { version: MKLY_DEFAULT_VERSION, blocks: [], meta: {}, styles: [], uses: [], themes: [], presets: [], inlineThemes: [], inlinePresets: [], comments: [], errors: [], ranges };
   const verbatimBlocks = options?.verbatimBlocks ?? new Set<string>();
+  const containerBlocks = new Set([...(options?.containerBlocks ?? []), ...CONTROL_BLOCKS]);
   const sourceMap = options?.sourceMap ?? false;
 
+  /** Position just past the last non-whitespace character of a line. */
+  const endOf = (line: number): SourcePosition => ({ line, column: tokens[line - 1].range.end.column });
+
   let state: State = 'idle';
   let current: MklyBlock | null = null;
-  let specialBlock: 'meta' | 'style' | 'use' | 'theme' | 'preset' | 'define-theme' | 'define-preset' | null = null;
+  let specialBlock: 'meta' | 'style' | 'use' | 'theme' | 'preset' | 'define-theme' | 'define-preset' | 'include' | null = null;
   let verbatimBlockType: string | null = null;
   let phase: DirectivePhase = 'use';
+  let blockCount = 0;
+  // Included styles come first in `doc.styles`; this many are there so far
+  let includedStyles = 0;
+  // Containers waiting for their `--- /type`, innermost last
+  const open: MklyBlock[] = [];
+  // Blocks a closer has already ended — a later closer must not match them again
+  const closed = new WeakSet<MklyBlock>();
+  const siblings = (): MklyBlock[] => (open.length > 0 ? open[open.length - 1].children : doc.blocks);
   const contentLines: string[] = [];
   const contentLineNumbers: number[] = [];
   const styleLines: string[] = [];
+  const styleLineNumbers: number[] = [];
   const useLines: string[] = [];
   const themeLines: string[] = [];
   const presetLines: string[] = [];
+  // Ranges of the use/theme/preset lines above, index for index
+  const directiveRanges: SourceRange[] = [];
+  // Header of the current define-theme/define-preset block
+  let defineHeader: SourceRange | undefined;
   // Inline theme/preset definition accumulators
   let defineThemeName: string | null = null;
   const defineThemeVars: Record<string, string> = {};
+  // Indented variables under `@dark`
+  const defineThemeDarkVars: Record<string, string> = {};
+  let inDefineThemeDark = false;
   const defineThemeCssLines: string[] = [];
   let definePresetName: string | null = null;
   const definePresetCssLines: string[] = [];
@@ -80,8 +195,9 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
       contentLineNumbers.pop();
     }
     current.content = contentLines.join('\n');
-    if (sourceMap && contentLineNumbers.length > 0) {
-      current.contentLineMap = [...contentLineNumbers];
+    if (contentLineNumbers.length > 0) {
+      current.contentSourceLines = [...contentLineNumbers];
+      if (sourceMap) current.contentLineMap = [...contentLineNumbers];
     }
     contentLines.length = 0;
     contentLineNumbers.length = 0;
@@ -89,42 +205,52 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
 
   function flushStyle() {
     if (specialBlock === 'style' && styleLines.length > 0) {
-      // Trim leading/trailing blank lines
-      while (styleLines.length > 0 && styleLines[0].trim() === '') styleLines.shift();
-      while (styleLines.length > 0 && styleLines[styleLines.length - 1].trim() === '') styleLines.pop();
+      // Trim leading/trailing blank lines (and their line numbers)
+      while (styleLines.length > 0 && styleLines[0].trim() === '') {
+        styleLines.shift();
+        styleLineNumbers.shift();
+      }
+      while (styleLines.length > 0 && styleLines[styleLines.length - 1].trim() === '') {
+        styleLines.pop();
+        styleLineNumbers.pop();
+      }
       if (styleLines.length > 0) {
         doc.styles.push(styleLines.join('\n'));
+        ranges.styleLines.push([...styleLineNumbers]);
+        ranges.styleFiles.push(undefined);
       }
     }
     styleLines.length = 0;
+    styleLineNumbers.length = 0;
+  }
+
+  function flushEntries(lines: string[], into: string[], intoRanges: SourceRange[]) {
+    lines.forEach((line, i) => {
+      const trimmed = line.trim();
+      if (trimmed) {
+        into.push(trimmed);
+        intoRanges.push(directiveRanges[i]);
+      }
+    });
   }
 
   function flushUse() {
     if (specialBlock === 'use' && useLines.length > 0) {
-      for (const line of useLines) {
-        const trimmed = line.trim();
-        if (trimmed) doc.uses.push(trimmed);
-      }
+      flushEntries(useLines, doc.uses, ranges.uses);
     }
     useLines.length = 0;
   }
 
   function flushTheme() {
     if (specialBlock === 'theme' && themeLines.length > 0) {
-      for (const line of themeLines) {
-        const trimmed = line.trim();
-        if (trimmed) doc.themes.push(trimmed);
-      }
+      flushEntries(themeLines, doc.themes, ranges.themes);
     }
     themeLines.length = 0;
   }
 
   function flushPreset() {
     if (specialBlock === 'preset' && presetLines.length > 0) {
-      for (const line of presetLines) {
-        const trimmed = line.trim();
-        if (trimmed) doc.presets.push(trimmed);
-      }
+      flushEntries(presetLines, doc.presets, ranges.presets);
     }
     presetLines.length = 0;
   }
@@ -134,19 +260,23 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
       while (defineThemeCssLines.length > 0 && !defineThemeCssLines[0].trim()) defineThemeCssLines.shift();
       while (defineThemeCssLines.length > 0 && !defineThemeCssLines[defineThemeCssLines.length - 1].trim()) defineThemeCssLines.pop();
       const hasVars = Object.keys(defineThemeVars).length > 0;
+      const hasDark = Object.keys(defineThemeDarkVars).length > 0;
       const hasCss = defineThemeCssLines.length > 0;
-      if (hasVars || hasCss) {
+      if (hasVars || hasDark || hasCss) {
         doc.inlineThemes.push({
           name: defineThemeName,
           ...(hasVars ? { variables: { ...defineThemeVars } } : {}),
+          ...(hasDark ? { variants: { dark: { ...defineThemeDarkVars } } } : {}),
           ...(hasCss ? { css: defineThemeCssLines.join('\n') } : {}),
         });
       } else {
-        doc.errors.push({ message: `Empty define-theme "${defineThemeName}" — add variables or CSS`, line: 1, severity: 'warning' });
+        doc.errors.push({ message: `Empty define-theme "${defineThemeName}" — add variables or CSS`, line: defineHeader!.start.line, severity: 'warning', range: defineHeader });
       }
     }
     defineThemeName = null;
     for (const k of Object.keys(defineThemeVars)) delete defineThemeVars[k];
+    for (const k of Object.keys(defineThemeDarkVars)) delete defineThemeDarkVars[k];
+    inDefineThemeDark = false;
     defineThemeCssLines.length = 0;
   }
 
@@ -160,13 +290,69 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
           css: definePresetCssLines.join('\n'),
         });
       } else {
-        doc.errors.push({ message: `Empty define-preset "${definePresetName}" — add CSS rules`, line: 1, severity: 'warning' });
+        doc.errors.push({ message: `Empty define-preset "${definePresetName}" — add CSS rules`, line: defineHeader!.start.line, severity: 'warning', range: defineHeader });
       }
     }
     definePresetName = null;
     definePresetCssLines.length = 0;
   }
 
+  /** Parse the document named by an `--- include:` header and merge it in at this point. */
+  function include(token: Extract<TokenizedLine, { type: 'block_start' }>) {
+    const range = token.labelRange ?? token.range;
+    const fail = (message: string) => doc.errors.push({ message, line: token.line, severity: 'error', range });
+    const id = token.label;
+    const maxDepth = options?.maxIncludeDepth ?? MAX_INCLUDE_DEPTH;
+    if (!id) return fail('"--- include" requires an id (e.g. --- include: partials/header)');
+    if (!options?.resolveInclude) return fail(`Cannot include "${id}" — no ParseOptions.resolveInclude hook was given`);
+    if (includeStack.includes(id)) return fail(`Include cycle: ${[...includeStack, id].join(' → ')}`);
+    if (includeStack.length >= maxDepth) return fail(`Cannot include "${id}" — includes nest deeper than ${maxDepth} levels`);
+
+    let text: string | Promise<string>;
+    try {
+      text = options.resolveInclude(id);
+    } catch (err) {
+      return fail(`Cannot include "${id}": ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (typeof text !== 'string') {
+      return fail(`Include "${id}" resolved asynchronously — use parseAsync() with an async resolveInclude`);
+    }
+
+    const included = parseSource(text, options, [...includeStack, id]);
+    for (const error of included.errors) doc.errors.push({ ...error, file: error.file ?? id });
+
+    // Kits join the host's; their diagnostics point at the include line
+    for (const use of included.uses) {
+      if (doc.uses.includes(use)) continue;
+      doc.uses.push(use);
+      ranges.uses.push(range);
+    }
+    // Styles go ahead of the host's own, so the including document overrides them,
+    // and keep the lines of the document they were written in
+    included.styles.forEach((style, i) => {
+      const at = includedStyles++;
+      doc.styles.splice(at, 0, style);
+      ranges.styleLines.splice(at, 0, included.ranges?.styleLines[i] ?? style.split('\n').map(() => token.line));
+      ranges.styleFiles.splice(at, 0, included.ranges?.styleFiles[i] ?? id);
+    });
+    const ignored = Object.keys(included.meta).length + included.themes.length + included.presets.length
+      + included.inlineThemes.length + included.inlinePresets.length;
+    if (ignored > 0) {
+      doc.errors.push({
+        message: `Include "${id}": only --- use, --- style and content blocks are merged — its meta, theme and preset sections are ignored`,
+        line: token.line,
+        severity: 'warning',
+        range,
+      });
+    }
+
+    for (const block of included.blocks) {
+      markSource(block, id);
+      siblings().push(block);
+      blockCount++;
+    }
+  }
+
   function flushBlock(endLine?: number) {
     flushContent();
     flushStyle();
@@ -175,11 +361,13 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
     flushPreset();
     flushDefineTheme();
     flushDefinePreset();
+    directiveRanges.length = 0;
     if (current) {
       if (endLine !== undefined) {
-        current.position.end = { line: endLine, column: 1 };
+        current.position.end = endOf(endLine);
       }
-      doc.blocks.push(current);
+      siblings().push(current);
+      if (containerBlocks.has(current.blockType) && !verbatimBlocks.has(current.blockType)) open.push(current);
       current = null;
     }
     state = 'idle';
@@ -187,14 +375,34 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
     verbatimBlockType = null;
   }
 
-  for (const token of tokens) {
+  // Set once a `key: |` / `key: >` property is stored — its continuation lines are already in the value
+  let inScalar = false;
+
+  for (const next of tokens) {
+    if (next.type === 'continuation' && inScalar) continue;
+    inScalar = false;
+    // Outside a property section a block scalar is ordinary text
+    const token: TokenizedLine = next.type === 'continuation'
+      ? { type: 'text', content: next.content, line: next.line, range: next.range }
+      : next;
+
+    // An include has no body — anything under it up to the next block is dropped
+    if (specialBlock === 'include' && token.type !== 'block_start' && token.type !== 'block_end') {
+      if (token.type === 'text' || token.type === 'property') {
+        doc.errors.push({ message: 'Content under "--- include" is ignored', line: token.line, severity: 'warning', range: token.range });
+      }
+      if (token.type === 'comment') doc.comments.push({ content: token.content, line: token.line });
+      continue;
+    }
+
     // Verbatim mode: capture everything as raw text until matching closing tag
     if (state === 'verbatim' && verbatimBlockType) {
       if (token.type === 'block_end' && token.blockType === verbatimBlockType) {
         flushContent();
         if (current) {
-          current.position.end = { line: token.line, column: 1 };
-          doc.blocks.push(current);
+          current.position.end = endOf(token.line);
+          siblings().push(current);
+          closed.add(current);
           current = null;
         }
         state = 'idle';
@@ -205,28 +413,28 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
       // Reconstruct original line from token
       switch (token.type) {
         case 'block_start':
-          contentLines.push(`--- ${token.blockType}${token.label ? ': ' + token.label : ''}`);
-          if (sourceMap) contentLineNumbers.push(token.line);
+          contentLines.push(`--- ${token.blockType}${token.id ? '#' + token.id : ''}${token.label ? ': ' + token.label : ''}`);
+          contentLineNumbers.push(token.line);
           break;
         case 'block_end':
-          contentLines.push(`--- /${token.blockType}`);
-          if (sourceMap) contentLineNumbers.push(token.line);
+          contentLines.push(`--- /${token.blockType}${token.id ? '#' + token.id : ''}`);
+          contentLineNumbers.push(token.line);
           break;
         case 'property':
           contentLines.push(token.raw);
-          if (sourceMap) contentLineNumbers.push(token.line);
+          contentLineNumbers.push(token.line);
           break;
         case 'text':
           contentLines.push(token.content);
-          if (sourceMap) contentLineNumbers.push(token.line);
+          contentLineNumbers.push(token.line);
           break;
         case 'blank':
           contentLines.push('');
-          if (sourceMap) contentLineNumbers.push(token.line);
+          contentLineNumbers.push(token.line);
           break;
         case 'comment':
           contentLines.push(`// ${token.content}`);
-          if (sourceMap) contentLineNumbers.push(token.line);
+          contentLineNumbers.push(token.line);
           break;
       }
       continue;
@@ -234,90 +442,104 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
 
     switch (token.type) {
       case 'block_start': {
-        if (doc.blocks.length >= MAX_BLOCKS) {
-          doc.errors.push({ message: `Maximum block count (${MAX_BLOCKS}) exceeded`, line: token.line, severity: 'error' });
+        if (blockCount >= MAX_BLOCKS) {
+          doc.errors.push({ message: `Maximum block count (${MAX_BLOCKS}) exceeded`, line: token.line, severity: 'error', range: token.range });
           continue;
         }
         flushBlock(token.line > 1 ? token.line - 1 : 1);
 
         if (token.blockType === 'meta') {
           if (PHASE_IDX[phase] > PHASE_IDX['meta']) {
-            doc.errors.push({ message: orderingError('meta', phase), line: token.line, severity: 'error' });
+            doc.errors.push({ message: orderingError('meta', phase), line: token.line, severity: 'error', range: token.range });
           }
           if (PHASE_IDX['meta'] > PHASE_IDX[phase]) phase = 'meta';
           specialBlock = 'meta';
           state = 'properties';
         } else if (token.blockType === 'style') {
           if (PHASE_IDX[phase] > PHASE_IDX['style']) {
-            doc.errors.push({ message: orderingError('style', phase), line: token.line, severity: 'error' });
+            doc.errors.push({ message: orderingError('style', phase), line: token.line, severity: 'error', range: token.range });
           }
           if (PHASE_IDX['style'] > PHASE_IDX[phase]) phase = 'style';
           specialBlock = 'style';
           state = 'content';
         } else if (token.blockType === 'use') {
           if (PHASE_IDX[phase] > PHASE_IDX['use']) {
-            doc.errors.push({ message: orderingError('use:', phase), line: token.line, severity: 'error' });
+            doc.errors.push({ message: orderingError('use:', phase), line: token.line, severity: 'error', range: token.range });
           }
           specialBlock = 'use';
           if (token.label) {
             doc.uses.push(token.label);
+            ranges.uses.push(token.labelRange!);
           }
           state = 'content';
         } else if (token.blockType === 'theme') {
           if (PHASE_IDX[phase] > PHASE_IDX['theme']) {
-            doc.errors.push({ message: orderingError('theme:', phase), line: token.line, severity: 'error' });
+            doc.errors.push({ message: orderingError('theme:', phase), line: token.line, severity: 'error', range: token.range });
           }
           if (PHASE_IDX['theme'] > PHASE_IDX[phase]) phase = 'theme';
           specialBlock = 'theme';
           if (token.label) {
             doc.themes.push(token.label);
+            ranges.themes.push(token.labelRange!);
           }
           state = 'content';
         } else if (token.blockType === 'preset') {
           if (PHASE_IDX[phase] > PHASE_IDX['theme']) {
-            doc.errors.push({ message: orderingError('preset:', phase), line: token.line, severity: 'error' });
+            doc.errors.push({ message: orderingError('preset:', phase), line: token.line, severity: 'error', range: token.range });
           }
           if (PHASE_IDX['theme'] > PHASE_IDX[phase]) phase = 'theme';
           specialBlock = 'preset';
           if (token.label) {
             doc.presets.push(token.label);
+            ranges.presets.push(token.labelRange!);
           }
           state = 'content';
         } else if (token.blockType === 'define-theme') {
           if (PHASE_IDX[phase] > PHASE_IDX['define']) {
-            doc.errors.push({ message: orderingError('define-theme:', phase), line: token.line, severity: 'error' });
+            doc.errors.push({ message: orderingError('define-theme:', phase), line: token.line, severity: 'error', range: token.range });
           }
           if (PHASE_IDX['define'] > PHASE_IDX[phase]) phase = 'define';
           specialBlock = 'define-theme';
           defineThemeName = token.label ?? null;
+          defineHeader = token.range;
           if (!defineThemeName) {
-            doc.errors.push({ message: '"--- define-theme" requires a name (e.g. --- define-theme: my-theme)', line: token.line, severity: 'error' });
+            doc.errors.push({ message: '"--- define-theme" requires a name (e.g. --- define-theme: my-theme)', line: token.line, severity: 'error', range: token.range });
           }
           state = 'properties';
         } else if (token.blockType === 'define-preset') {
           if (PHASE_IDX[phase] > PHASE_IDX['define']) {
-            doc.errors.push({ message: orderingError('define-preset:', phase), line: token.line, severity: 'error' });
+            doc.errors.push({ message: orderingError('define-preset:', phase), line: token.line, severity: 'error', range: token.range });
           }
           if (PHASE_IDX['define'] > PHASE_IDX[phase]) phase = 'define';
           specialBlock = 'define-preset';
           definePresetName = token.label ?? null;
+          defineHeader = token.range;
           if (!definePresetName) {
-            doc.errors.push({ message: '"--- define-preset" requires a name (e.g. --- define-preset: my-preset)', line: token.line, severity: 'error' });
+            doc.errors.push({ message: '"--- define-preset" requires a name (e.g. --- define-preset: my-preset)', line: token.line, severity: 'error', range: token.range });
           }
           state = 'content';
+        } else if (token.blockType === 'include') {
+          if (PHASE_IDX['blocks'] > PHASE_IDX[phase]) phase = 'blocks';
+          specialBlock = 'include';
+          state = 'content';
+          include(token);
         } else {
           if (PHASE_IDX['blocks'] > PHASE_IDX[phase]) phase = 'blocks';
+          blockCount++;
           current = {
             blockType: token.blockType,
             properties: {},
             content: '',
             children: [],
             position: {
-              start: { line: token.line, column: 1 },
-              end: { line: token.line, column: 1 },
+              start: { ...token.range.start },
+              end: { ...token.range.end },
             },
-            ...(token.label ? { label: token.label } : {}),
+            ...(token.id ? { id: token.id, idRange: token.idRange } : {}),
+            ...(token.label ? { label: token.label, labelRange: token.labelRange } : {}),
             ...(sourceMap ? { propertyLines: {} } : {}),
+            headerRange: token.range,
+            propertyRanges: {},
           };
           state = 'properties';
 
@@ -330,25 +552,54 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
 
       case 'block_end': {
         flushBlock(token.line);
+        const matches = (block: MklyBlock) =>
+          block.blockType === token.blockType && (token.id === undefined || block.id === token.id);
+        const closer = `--- /${token.blockType}${token.id ? '#' + token.id : ''}`;
 
-        // Retroactive restructure: find matching open block, collect children
-        let openIndex = -1;
-        for (let i = doc.blocks.length - 1; i >= 0; i--) {
-          if (doc.blocks[i].blockType === token.blockType) {
-            openIndex = i;
-            break;
+        let depth = open.length - 1;
+        while (depth >= 0 && !matches(open[depth])) depth--;
+        if (depth !== -1) {
+          // Containers opened inside this one end here too, but were never closed
+          for (const inner of open.splice(depth + 1)) {
+            inner.position.end = endOf(Math.max(inner.position.start.line, token.line - 1));
+            closed.add(inner);
+            doc.errors.push({
+              message: `${header(inner)} (line ${inner.position.start.line}) is not closed before "${closer}" (line ${token.line})`,
+              line: token.line,
+              severity: 'error',
+              range: token.range,
+              relatedRange: inner.headerRange,
+            });
           }
+          const container = open.pop()!;
+          container.position.end = endOf(token.line);
+          closed.add(container);
+          break;
         }
 
+        // Blocks not known to be containers are closed retroactively: everything
+        // after the nearest open match becomes its children
+        const list = siblings();
+        let openIndex = list.length - 1;
+        while (openIndex >= 0) {
+          const block = list[openIndex];
+          if (matches(block) && !closed.has(block) && !containerBlocks.has(block.blockType)) break;
+          openIndex--;
+        }
         if (openIndex !== -1) {
-          const container = doc.blocks[openIndex];
-          container.children = doc.blocks.splice(openIndex + 1);
-          container.position.end = { line: token.line, column: 1 };
+          const container = list[openIndex];
+          container.children = list.splice(openIndex + 1);
+          container.position.end = endOf(token.line);
+          closed.add(container);
         } else {
+          const enclosing = open[open.length - 1];
           doc.errors.push({
-            message: `Closing --- /${token.blockType} has no matching opening block`,
+            message: `Closing ${closer} has no matching opening block`
+              + (enclosing ? ` — ${header(enclosing)} (line ${enclosing.position.start.line}) is still open` : ''),
             line: token.line,
             severity: 'warning',
+            range: token.range,
+            ...(enclosing ? { relatedRange: enclosing.headerRange } : {}),
           });
         }
         break;
@@ -357,29 +608,39 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
       case 'property': {
         if (specialBlock === 'style') {
           styleLines.push(token.raw);
+          styleLineNumbers.push(token.line);
         } else if (specialBlock === 'use') {
           useLines.push(token.raw);
+          directiveRanges.push(token.range);
         } else if (specialBlock === 'theme') {
           themeLines.push(token.raw);
+          directiveRanges.push(token.range);
         } else if (specialBlock === 'preset') {
           presetLines.push(token.raw);
+          directiveRanges.push(token.range);
         } else if (specialBlock === 'define-theme') {
           if (state === 'properties') {
-            defineThemeVars[token.key] = token.value;
+            // `@dark` holds the indented variables after it; an unindented one ends it
+            inDefineThemeDark &&= /^\s/.test(token.raw);
+            (inDefineThemeDark ? defineThemeDarkVars : defineThemeVars)[token.key] = token.value;
+            inScalar = !!token.scalar;
           } else {
             defineThemeCssLines.push(token.raw);
           }
         } else if (specialBlock === 'define-preset') {
           definePresetCssLines.push(token.raw);
         } else if (state === 'properties') {
+          inScalar = !!token.scalar;
           if (specialBlock === 'meta') {
             doc.meta[token.key] = token.value;
+            ranges.meta[token.key] = { key: token.keyRange, value: token.valueRange };
           } else if (current) {
             if (token.key.startsWith('@')) {
               doc.errors.push({
                 message: `Invalid property "${token.key}" — property names cannot start with @. Use a --- style block for styling.`,
                 line: token.line,
                 severity: 'error',
+                range: token.keyRange,
               });
             } else {
               if (token.key in current.properties) {
@@ -387,9 +648,11 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
                   message: `Duplicate property "${token.key}" — previous value will be overwritten`,
                   line: token.line,
                   severity: 'warning',
+                  range: token.keyRange,
                 });
               }
               current.properties[token.key] = token.value;
+              current.propertyRanges![token.key] = { key: token.keyRange, value: token.valueRange };
               if (sourceMap && current.propertyLines) {
                 current.propertyLines[token.key] = token.line;
               }
@@ -397,7 +660,7 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
           }
         } else if (state === 'content') {
           contentLines.push(token.raw);
-          if (sourceMap) contentLineNumbers.push(token.line);
+          contentLineNumbers.push(token.line);
         }
         break;
       }
@@ -405,13 +668,21 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
       case 'text': {
         if (specialBlock === 'style') {
           styleLines.push(token.content);
+          styleLineNumbers.push(token.line);
         } else if (specialBlock === 'use') {
           useLines.push(token.content);
+          directiveRanges.push(token.range);
         } else if (specialBlock === 'theme') {
           themeLines.push(token.content);
+          directiveRanges.push(token.range);
         } else if (specialBlock === 'preset') {
           presetLines.push(token.content);
+          directiveRanges.push(token.range);
         } else if (specialBlock === 'define-theme') {
+          if (state === 'properties' && token.content.trim() === '@dark') {
+            inDefineThemeDark = true;
+            break;
+          }
           if (state === 'properties') state = 'content';
           defineThemeCssLines.push(token.content);
         } else if (specialBlock === 'define-preset') {
@@ -421,7 +692,7 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
             state = verbatimBlockType ? 'verbatim' : 'content';
           }
           contentLines.push(token.content);
-          if (sourceMap) contentLineNumbers.push(token.line);
+          contentLineNumbers.push(token.line);
         }
         break;
       }
@@ -429,6 +700,7 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
       case 'blank': {
         if (specialBlock === 'style') {
           styleLines.push('');
+          styleLineNumbers.push(token.line);
         } else if (specialBlock === 'use') {
           // skip blank lines in use blocks
         } else if (specialBlock === 'theme') {
@@ -447,7 +719,7 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
           state = verbatimBlockType ? 'verbatim' : 'content';
         } else if (state === 'content') {
           contentLines.push('');
-          if (sourceMap) contentLineNumbers.push(token.line);
+          contentLineNumbers.push(token.line);
         }
         break;
       }
@@ -455,6 +727,7 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
       case 'comment':
         if (specialBlock === 'style') {
           styleLines.push(`// ${token.content}`);
+          styleLineNumbers.push(token.line);
         } else {
           doc.comments.push({ content: token.content, line: token.line });
         }
@@ -464,12 +737,26 @@ export function parse(source: string, options?: ParseOptions): MklyDocument {
 
   const lastLine = tokens.length > 0 ? tokens[tokens.length - 1].line : 1;
   flushBlock(lastLine);
+  for (const container of open) {
+    container.position.end = endOf(lastLine);
+    doc.errors.push({
+      message: `${header(container)} is never closed — add "--- /${container.blockType}${container.id ? '#' + container.id : ''}"`,
+      line: container.position.start.line,
+      severity: 'error',
+      range: container.headerRange,
+    });
+  }
 
   const versionResult = resolveVersion(doc.meta);
   doc.version = versionResult.version;
   if (versionResult.error) {
-    doc.errors.push({ message: versionResult.error, line: 1, severity: 'error' });
+    const range = ranges.meta.version?.value ?? tokens[0].range;
+    doc.errors.push({ message: versionResult.error, line: range.start.line, severity: 'error', range });
   }
 
+  if (includeStack.length === 0) {
+    doc.errors.push(...duplicateIdErrors(doc.blocks));
+    setParsedSource(doc, { source, options, errors: [...doc.errors], comments: [...doc.comments] });
+  }
   return doc;
 }
@@ -262,6 +262,19 @@ export const CORE_PRESETS: MklyPreset[] = [
   line-height: calc(1.6 * var(--_lhs, 1));
 }
 
+/* ── columns block ── */
+.mkly-document .mkly-core-columns {
+  margin: 0 0 calc(1.5rem * var(--_gs));
+  border-collapse: collapse;
+}
+.mkly-document .mkly-core-columns__column {
+  padding: 0;
+  border: none;
+  text-align: inherit;
+}
+.mkly-core-columns__column > :first-child { margin-top: 0; }
+.mkly-core-columns__column > :last-child { margin-bottom: 0; }
+
 /* ── section block ── */
 .mkly-core-section {
   margin: 0 0 calc(1.5rem * var(--_gs));
@@ -332,6 +345,93 @@ export const CORE_PRESETS: MklyPreset[] = [
 }
 .mkly-core-list li:last-child { margin-bottom: 0; }
 
+/* ── toc block ── */
+.mkly-core-toc {
+  margin: 0 0 calc(1.5rem * var(--_gs));
+  font-size: 0.9375em;
+}
+.mkly-core-toc__title {
+  font-weight: 600;
+  margin: 0 0 0.5rem;
+}
+.mkly-core-toc ul {
+  list-style: none;
+  padding-left: 0;
+  margin: 0;
+}
+.mkly-core-toc ul ul {
+  padding-left: 1.25em;
+}
+.mkly-core-toc li {
+  margin: 0.25rem 0;
+  line-height: calc(1.5 * var(--_lhs, 1));
+}
+
+/* ── footnotes block ── */
+.mkly-core-footnotes {
+  margin: calc(2rem * var(--_gs)) 0 0;
+  padding-top: 1rem;
+  border-top: 1px solid var(--mkly-border, rgba(128,128,128,0.2));
+  font-size: 0.875em;
+}
+.mkly-core-footnotes__title {
+  font-weight: 600;
+  margin: 0 0 0.5rem;
+}
+.mkly-core-footnotes ol {
+  padding-left: 1.5em;
+  margin: 0;
+}
+.mkly-core-footnotes li {
+  margin: 0.25rem 0;
+  line-height: calc(1.5 * var(--_lhs, 1));
+}
+.mkly-core-footnotes li p { margin: 0; }
+.mkly-footnote-ref a, .mkly-footnote-back { text-decoration: none; }
+
+/* ── table block ── */
+.mkly-document .mkly-core-table {
+  width: 100%;
+  border-collapse: collapse;
+  margin: calc(1rem * var(--_gs)) 0;
+  font-size: 0.9375em;
+}
+.mkly-core-table__caption {
+  caption-side: bottom;
+  padding-top: 0.5rem;
+  font-size: 0.875em;
+  opacity: 0.75;
+  text-align: left;
+}
+.mkly-document .mkly-core-table__head .mkly-core-table__cell {
+  font-weight: 600;
+  border-bottom: 2px solid var(--mkly-border, rgba(128,128,128,0.3));
+}
+.mkly-document .mkly-core-table__cell {
+  padding: 0.5rem 0.75rem;
+  text-align: left;
+  vertical-align: top;
+  border-bottom: 1px solid var(--mkly-border, rgba(128,128,128,0.2));
+  line-height: calc(1.5 * var(--_lhs, 1));
+}
+
+/* ── embed block ── */
+.mkly-core-embed {
+  margin: 0 0 calc(1.5rem * var(--_gs));
+}
+.mkly-core-embed__frame {
+  display: block;
+  width: 100%;
+  border: 0;
+  border-radius: var(--mkly-radius, 0.5rem);
+}
+.mkly-core-embed__thumbnail { border-radius: var(--mkly-radius, 0.5rem); }
+.mkly-core-embed__caption {
+  margin: 0.5rem 0 0;
+  font-size: 0.875em;
+  opacity: 0.75;
+}
+
 /* ── header block ── */
 .mkly-core-header {
   display: flex;
@@ -0,0 +1,89 @@
+import type { MklyDocument, MklyBlock, ParseError, CompileError, SourceRange } from './types';
+import { blockRange, contentRange } from './errors';
+
+const HREF_RE = /\shref="#([\w-]+)"/g;
+
+function walk(blocks: MklyBlock[], fn: (block: MklyBlock) => boolean | void): boolean {
+  for (const block of blocks) {
+    if (fn(block) === true || walk(block.children, fn)) return true;
+  }
+  return false;
+}
+
+/** The block with `--- type#id`, searching inside containers too. */
+export function findBlockById(doc: MklyDocument | MklyBlock[], id: string): MklyBlock | undefined {
+  let found: MklyBlock | undefined;
+  walk(Array.isArray(doc) ? doc : doc.blocks, block => {
+    if (block.id !== id) return false;
+    found = block;
+    return true;
+  });
+  return found;
+}
+
+/** Ids must be unique per document — they are HTML ids and what editors and `#` links hold on to. */
+export function duplicateIdErrors(blocks: MklyBlock[]): ParseError[] {
+  const errors: ParseError[] = [];
+  const seen = new Map<string, MklyBlock>();
+  walk(blocks, block => {
+    if (!block.id) return;
+    const first = seen.get(block.id);
+    if (!first) {
+      seen.set(block.id, block);
+      return;
+    }
+    const range = block.idRange ?? block.headerRange ?? block.position;
+    errors.push({
+      message: `Duplicate block id "${block.id}" — already used on line ${first.position.start.line}${first.source ? ` of "${first.source}"` : ''}`,
+      line: range.start.line,
+      severity: 'error',
+      range,
+      ...(first.source === block.source && first.idRange ? { relatedRange: first.idRange } : {}),
+      ...(block.source ? { file: block.source } : {}),
+    });
+  });
+  return errors;
+}
+
+/** Ids of every block, for checking `#id` links. */
+export function collectBlockIds(blocks: MklyBlock[]): Set<string> {
+  const ids = new Set<string>();
+  walk(blocks, block => {
+    if (block.id) ids.add(block.id);
+  });
+  return ids;
+}
+
+/** Where the link to `#id` is written: a `[text](#id)` in content, or a property set to `#id`. */
+function referenceRange(block: MklyBlock, id: string): { range: SourceRange; property?: string } {
+  const offset = block.content.indexOf(`](#${id})`);
+  const range = offset === -1 ? undefined : contentRange(block, offset + 2, id.length + 1);
+  if (range) return { range };
+  const property = Object.keys(block.properties).find(key => block.properties[key].trim() === `#${id}`);
+  return property ? { range: blockRange(block, property), property } : { range: blockRange(block) };
+}
+
+/**
+ * Report in-page links in a block's rendered HTML that no block id matches —
+ * `[text](#id)` in content as well as `#id` properties such as a button's
+ * `url`. Checking the output skips code and links that only look like links.
+ */
+export function checkReferences(block: MklyBlock, html: string, ids: Set<string>, errors: CompileError[]): void {
+  for (const m of html.matchAll(HREF_RE)) {
+    const id = m[1];
+    if (ids.has(id)) continue;
+    const { range, property } = referenceRange(block, id);
+    const message = `Link to "#${id}" does not match any block id — give the target block "--- type#${id}"`;
+    // A block repeated by `--- each` renders the same link once per copy
+    if (errors.some(e => e.message === message && e.line === range.start.line && e.range?.start.column === range.start.column)) continue;
+    errors.push({
+      message,
+      blockType: block.blockType,
+      line: range.start.line,
+      ...(property ? { property } : {}),
+      severity: 'warning',
+      range,
+      ...(block.source ? { file: block.source } : {}),
+    });
+  }
+}
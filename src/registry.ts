@@ -1,5 +1,6 @@
 import type { BlockDefinition, MklyBlock, CompileContext, CompileError, ParseError } from './types';
 import { escapeHtml } from './utils';
+import { blockRange } from './errors';
 import type { BlockSchema } from './schemas';
 import { validateBlock } from './schemas';
 
@@ -38,6 +39,7 @@ export class BlockRegistry {
           blockType: block.blockType,
           line: block.position.start.line,
           severity: 'warning',
+          range: blockRange(block),
         });
       }
       // Warn if text-mode block has properties (they will be ignored by the renderer)
@@ -47,6 +49,7 @@ export class BlockRegistry {
           blockType: block.blockType,
           line: block.position.start.line,
           severity: 'warning',
+          range: blockRange(block),
         });
       }
       return def.compile(block, ctx);
@@ -56,6 +59,7 @@ export class BlockRegistry {
       blockType: block.blockType,
       line: block.position.start.line,
       severity: 'warning',
+      range: blockRange(block),
     });
     const content = block.content ? escapeHtml(block.content) : '';
     return `<div data-block="${escapeHtml(block.blockType)}" class="mkly-unknown">${content}</div>`;
@@ -68,6 +72,7 @@ export class BlockRegistry {
         message: `Unknown block type: ${block.blockType}`,
         line: block.position.start.line,
         severity: 'warning',
+        range: blockRange(block),
       });
     }
 
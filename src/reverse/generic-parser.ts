@@ -1,3 +1,5 @@
+import { escapeBlockBoundaries } from '../tokenizer';
+
 // ---------------------------------------------------------------------------
 // Normalize browser-added indentation in multiline HTML
 // ---------------------------------------------------------------------------
@@ -32,5 +34,5 @@ export function reverseGeneric(html: string): string {
   const trimmed = normalizeHtmlIndent(content.trim());
   if (!trimmed) return '';
 
-  return `--- meta\nversion: 1\n\n--- use: core\n\n--- core/html\n\n${trimmed}\n\n--- /core/html\n`;
+  return `--- meta\nversion: 1\n\n--- use: core\n\n--- core/html\n\n${escapeBlockBoundaries(trimmed)}\n\n--- /core/html\n`;
 }
@@ -1,4 +1,6 @@
 import { kebabToCamel } from './utils';
+import { escapeBlockBoundaries } from '../tokenizer';
+import { decodeHtmlEntities } from './html-parsing';
 
 function normalizeInlineText(text: string): string {
   return text
@@ -22,8 +24,24 @@ export function htmlToMarkdown(html: string): string {
   // Preserve single spaces between inline elements (no newline present).
   text = text.replace(/>\s*\n\s*/g, '>\n');
 
-  // Strip outer wrapping tags (p, div)
-  text = text.replace(/^<(?:p|div)[^>]*>|<\/(?:p|div)>$/gi, '');
+  // Strip the outer wrapping tag (p, div) when it holds all of the content
+  const outer = text.match(/^<(p|div)[^>]*>([\s\S]*)<\/\1>$/i);
+  if (outer && !new RegExp(`</?${outer[1]}[\\s>]`, 'i').test(outer[2])) text = outer[2];
+
+  // Code blocks — kept verbatim until the text is cleaned up
+  const codeBlocks: string[] = [];
+  text = text.replace(/<pre[^>]*>\s*<code([^>]*)>([\s\S]*?)<\/code>\s*<\/pre>/gi, (_m, attrs: string, inner: string) => {
+    const lang = attrs.match(/class="language-([^"]+)"/)?.[1] ?? '';
+    const fence = inner.includes('```') ? '~~~' : '```';
+    return `\n\x00MKLY_C${codeBlocks.push(`${fence}${lang}\n${decodeHtmlEntities(inner).replace(/\n$/, '')}\n${fence}`) - 1}\x00\n\n`;
+  });
+
+  // Images
+  text = text.replace(/<img\b([^>]*)>/gi, (_m, attrs: string) => {
+    // A resolved image keeps the source URL in data-src
+    const src = attrs.match(/\sdata-src="([^"]*)"/)?.[1] ?? attrs.match(/\ssrc="([^"]*)"/)?.[1];
+    return src ? `![${attrs.match(/\salt="([^"]*)"/)?.[1] ?? ''}](${src})` : '';
+  });
 
   // Strong/bold
   text = text.replace(/<(?:strong|b)>([\s\S]*?)<\/(?:strong|b)>/gi, (_m, inner: string) =>
@@ -35,6 +53,15 @@ export function htmlToMarkdown(html: string): string {
     `*${normalizeInlineText(inner)}*`,
   );
 
+  // Footnote references and back-links — the list items become `[^label]:` definitions
+  text = text.replace(/<sup class="mkly-footnote-ref"><a href="#fn-([\w-]+)"[^>]*>[\s\S]*?<\/a><\/sup>/gi, '[^$1]');
+  text = text.replace(/\s*<a [^>]*class="mkly-footnote-back"[^>]*>[\s\S]*?<\/a>/gi, '');
+
+  // Strikethrough
+  text = text.replace(/<(?:del|s)>([\s\S]*?)<\/(?:del|s)>/gi, (_m, inner: string) =>
+    `~~${normalizeInlineText(inner)}~~`,
+  );
+
   // Inline styled spans → mkly inline syntax (inside-out loop for nested spans)
   const spanRe = /<span\s+style="([^"]*)"[^>]*>((?:(?!<\/?span[\s>])[\s\S])*?)<\/span>/gi;
   let prev = '';
@@ -65,14 +92,54 @@ export function htmlToMarkdown(html: string): string {
   text = text.replace(/<h5([^>]*)>([\s\S]*?)<\/h5>/gi, (_, a, c) => `##### ${normalizeBlockText(c)}${classAnnotation(a)}`);
   text = text.replace(/<h6([^>]*)>([\s\S]*?)<\/h6>/gi, (_, a, c) => `###### ${normalizeBlockText(c)}${classAnnotation(a)}`);
 
-  // List items — preserve {.className} annotations
+  // Tables
+  text = text.replace(/<table[^>]*>([\s\S]*?)<\/table>/gi, (_m, inner: string) => `\n${tableToMarkdown(inner)}\n\n`);
+
+  // Task list checkboxes
+  text = text.replace(/<input\b[^>]*type="checkbox"[^>]*>\s*/gi, m => (/\schecked\b/i.test(m) ? '[x] ' : '[ ] '));
+
+  // Lists, innermost first — a nested list is indented under its item
+  const lists: string[] = [];
+  const listRe = /<(ul|ol)([^>]*)>((?:(?!<\/?(?:ul|ol)[\s>])[\s\S])*?)<\/\1>/gi;
+  prev = '';
+  while (prev !== text) {
+    prev = text;
+    text = text.replace(listRe, (_m, tag: string, attrs: string, inner: string) => {
+      let n = tag.toLowerCase() === 'ol' ? parseInt(attrs.match(/start="(\d+)"/)?.[1] ?? '1', 10) : 0;
+      const items = [...inner.matchAll(/<li([^>]*)>([\s\S]*?)<\/li>/gi)].map(([, a, c]) => {
+        const footnote = a.match(/\sid="fn-([\w-]+)"/)?.[1];
+        const marker = footnote ? `[^${footnote}]:` : n > 0 ? `${n++}.` : '-';
+        const nested = [...c.matchAll(/\x00MKLY_N(\d+)\x00/g)].map(m => lists[+m[1]]);
+        const body = normalizeBlockText(c.replace(/\x00MKLY_N\d+\x00/g, ' ').replace(/<\/?p[^>]*>/gi, ' '));
+        const indent = ' '.repeat(marker.length + 1);
+        const children = nested.map(list => `\n${list.replace(/^/gm, indent)}`).join('');
+        return `${marker} ${body}${classAnnotation(a)}${children}`;
+      });
+      return `\x00MKLY_N${lists.push(items.join('\n')) - 1}\x00`;
+    });
+  }
+  text = text.replace(/\x00MKLY_N(\d+)\x00/g, (_m, i: string) => `\n${lists[+i]}\n\n`);
+
+  // List items outside a list — preserve {.className} annotations
   text = text.replace(/<li([^>]*)>([\s\S]*?)<\/li>/gi, (_, a, c) => `- ${normalizeBlockText(c)}${classAnnotation(a)}`);
 
-  // Paragraphs — preserve {.className} annotations
-  text = text.replace(/<p([^>]*)>([\s\S]*?)<\/p>/gi, (_, a, c) => `${normalizeBlockText(c)}${classAnnotation(a)}\n`);
+  // Paragraphs — preserve {.className} annotations, a blank line between each
+  text = text.replace(/<p([^>]*)>([\s\S]*?)<\/p>/gi, (_, a, c) => `${normalizeBlockText(c)}${classAnnotation(a)}\n\n`);
+
+  // Blockquotes, innermost first
+  const quoteRe = /<blockquote[^>]*>((?:(?!<\/?blockquote[\s>])[\s\S])*?)<\/blockquote>/gi;
+  prev = '';
+  while (prev !== text) {
+    prev = text;
+    text = text.replace(quoteRe, (_m, inner: string) =>
+      `\n${inner.trim().replace(/\n{3,}/g, '\n\n').replace(/^/gm, '> ').replace(/^> $/gm, '>')}\n\n`,
+    );
+  }
 
-  // Line breaks
-  text = text.replace(/<br\s*\/?>/gi, '\n');
+  text = text.replace(/<hr\b[^>]*>/gi, '\n---\n\n');
+
+  // Line breaks — a trailing backslash, since a bare newline only wraps the paragraph
+  text = text.replace(/[ \t]*<br\s*\/?>\s*/gi, '\\\n');
 
   // Strip remaining tags
   text = text.replace(/<[^>]+>/g, '');
@@ -89,8 +156,26 @@ export function htmlToMarkdown(html: string): string {
   // Clean up whitespace
   text = text.replace(/\n{3,}/g, '\n\n');
   text = text.trim();
+  text = text.replace(/\x00MKLY_C(\d+)\x00/g, (_m, i: string) => codeBlocks[+i]);
+
+  // Lines like "--- core/text" would otherwise split the block
+  return escapeBlockBoundaries(text);
+}
 
-  return text;
+/** GFM pipe table from a `<table>`'s rows; the first row is the header. */
+function tableToMarkdown(html: string): string {
+  const rows = [...html.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)].map(([, row]) =>
+    [...row.matchAll(/<(th|td)([^>]*)>([\s\S]*?)<\/\1>/gi)].map(([, , attrs, cell]) => ({
+      text: normalizeInlineText(cell.replace(/<[^>]+>/g, '')).replace(/\|/g, '\\|'),
+      align: attrs.match(/text-align:\s*(left|center|right)/)?.[1],
+    })),
+  );
+  if (rows.length === 0) return '';
+  const delimiter = rows[0].map(({ align }) =>
+    align === 'center' ? ':---:' : align === 'right' ? '---:' : align === 'left' ? ':---' : '---');
+  return [rows[0].map(c => c.text), delimiter, ...rows.slice(1).map(r => r.map(c => c.text))]
+    .map(cells => `| ${cells.join(' | ')} |`)
+    .join('\n');
 }
 
 /** Extract style class (s1, s2, ...) from tag attributes and return {.className} annotation. */
@@ -1,5 +1,6 @@
 import type { MklyKit, ParsedBlock, ImportPattern } from '../kit';
 import { htmlToMarkdown } from './html-to-markdown';
+import { escapeBlockBoundaries } from '../tokenizer';
 import { VOID_TAGS } from './utils';
 
 export interface ImportOptions {
@@ -342,7 +343,7 @@ function matchPattern(html: string, options?: ImportOptions): string | null {
   }
 
   // 13. Fallback: verbatim HTML
-  return `--- core/html\n\n${trimmed}\n\n--- /core/html`;
+  return `--- core/html\n\n${escapeBlockBoundaries(trimmed)}\n\n--- /core/html`;
 }
 
 // ---------------------------------------------------------------------------
@@ -467,7 +468,7 @@ function buildCardBlock(html: string): string {
 
 function buildCtaBlock(html: string): string {
   const linkMatch = html.match(/<a\b[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/i);
-  if (!linkMatch) return `--- core/html\n\n${html}\n\n--- /core/html`;
+  if (!linkMatch) return `--- core/html\n\n${escapeBlockBoundaries(html)}\n\n--- /core/html`;
 
   const lines = ['--- core/cta'];
   lines.push(`url: ${linkMatch[1]}`);
@@ -541,7 +542,8 @@ function buildImageBlock(attrs: string): string {
 function formatParsedBlock(parsed: ParsedBlock): string {
   const lines: string[] = [];
   const label = parsed.label ? `: ${parsed.label}` : '';
-  lines.push(`--- ${parsed.blockType}${label}`);
+  const id = parsed.id ? `#${parsed.id}` : '';
+  lines.push(`--- ${parsed.blockType}${id}${label}`);
 
   for (const [key, value] of Object.entries(parsed.properties)) {
     lines.push(`${key}: ${value}`);
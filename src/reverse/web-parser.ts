@@ -1,6 +1,7 @@
 import { htmlToMarkdown } from './html-to-markdown';
 import { normalizeHtmlIndent } from './generic-parser';
 import { extractMklyMeta } from './utils';
+import { serializeProperty, escapeBlockBoundaries } from '../tokenizer';
 import {
   decodeHtmlEntities,
   escapeRegex,
@@ -10,6 +11,8 @@ import {
   extractInnerHtml,
   extractTextContent,
 } from './html-parsing';
+import { headingSlug } from '../headings';
+import { resolveEmbed } from '../embed';
 import type { MklyKit, ParsedBlock } from '../kit';
 
 export type { ParsedBlock } from '../kit';
@@ -31,10 +34,15 @@ const CSS_TO_BLOCK: Record<string, string> = {
   'mkly-core-header': 'core/header',
   'mkly-core-footer': 'core/footer',
   'mkly-core-cta': 'core/cta',
+  'mkly-core-toc': 'core/toc',
+  'mkly-core-footnotes': 'core/footnotes',
+  'mkly-core-table': 'core/table',
+  'mkly-core-columns': 'core/columns',
+  'mkly-core-embed': 'core/embed',
 };
 
 // Container block types that have children
-const CONTAINER_TYPES = new Set(['core/section', 'newsletter/category', 'newsletter/tools']);
+const CONTAINER_TYPES = new Set(['core/section', 'core/columns', 'newsletter/category', 'newsletter/tools']);
 
 export function buildCssToBlockMap(kits?: Record<string, MklyKit>): {
   cssToBlock: Record<string, string>;
@@ -68,6 +76,16 @@ export function buildCssToBlockMap(kits?: Record<string, MklyKit>): {
 
 const VOID_ELEMENTS = new Set(['hr', 'br', 'img', 'input', 'meta', 'link', 'area', 'base', 'col', 'embed', 'source', 'track', 'wbr']);
 
+// A block's `--- type#id` (not `data-mkly-id`, which the source map adds)
+const BLOCK_ID_RE = /(?:^|\s)id="([\w-]+)"/;
+
+/** Whether a heading's id is the anchor the compiler derived from its text rather than a block id. */
+function isHeadingAnchor(tag: string, id: string, text: string): boolean {
+  if (!/^h[1-6]$/.test(tag)) return false;
+  const slug = headingSlug(text);
+  return id === slug || new RegExp(`^${escapeRegex(slug)}-\\d+$`).test(id);
+}
+
 interface ExtractedElement {
   tag: string;
   attrs: string;
@@ -154,7 +172,7 @@ export function parseCoreBlock(blockHtml: string, blockType: string): ParsedBloc
       const levelMatch = blockHtml.match(/mkly-core-heading--(\d)/);
       if (levelMatch) block.properties.level = levelMatch[1];
       const textMatch = blockHtml.match(/<h\d[^>]*>([\s\S]*?)<\/h\d>/);
-      if (textMatch) block.content = decodeHtmlEntities(textMatch[1].replace(/<[^>]+>/g, '').trim());
+      if (textMatch) block.content = escapeBlockBoundaries(decodeHtmlEntities(textMatch[1].replace(/<[^>]+>/g, '').trim()));
       break;
     }
     case 'core/text': {
@@ -179,12 +197,13 @@ export function parseCoreBlock(blockHtml: string, blockType: string): ParsedBloc
           cleaned = inner;
         }
       }
-      block.content = normalizeHtmlIndent(cleaned);
+      block.content = escapeBlockBoundaries(normalizeHtmlIndent(cleaned));
       block.verbatim = true;
       break;
     }
     case 'core/image': {
-      const src = extractAttr(blockHtml, 'src');
+      // A resolved image keeps the source URL in data-src
+      const src = extractAttr(blockHtml, 'data-src') ?? extractAttr(blockHtml, 'src');
       const alt = extractAttr(blockHtml, 'alt');
       const width = extractAttr(blockHtml, 'width');
       if (src) block.properties.src = src;
@@ -212,8 +231,63 @@ export function parseCoreBlock(blockHtml: string, blockType: string): ParsedBloc
     case 'core/code': {
       const lang = extractAttr(blockHtml, 'data-lang');
       if (lang) block.properties.lang = lang;
+      if (/<code[^>]*\sdata-line-numbers/.test(blockHtml)) block.properties.lineNumbers = 'true';
+      const highlight = extractAttr(blockHtml, 'data-highlight');
+      if (highlight) block.properties.highlight = decodeHtmlEntities(highlight);
       const codeMatch = blockHtml.match(/<code[^>]*>([\s\S]*?)<\/code>/);
-      if (codeMatch) block.content = codeMatch[1].replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"');
+      // Highlighting spans and line numbers are generated — only their text is code
+      if (codeMatch) block.content = escapeBlockBoundaries(codeMatch[1].replace(/<span class="mkly-hl-ln">\d+<\/span>/g, '').replace(/<\/?span[^>]*>/g, '').replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"'));
+      break;
+    }
+    case 'core/toc': {
+      const depth = extractAttr(blockHtml, 'data-depth');
+      const title = blockHtml.match(/mkly-core-toc__title[^>]*>([\s\S]*?)<\/p>/)?.[1];
+      if (title) block.properties.title = decodeHtmlEntities(title);
+      if (depth && depth !== '3') block.properties.depth = depth;
+      break;
+    }
+    case 'core/table': {
+      const caption = blockHtml.match(/mkly-core-table__caption[^>]*>([\s\S]*?)<\/caption>/)?.[1];
+      if (caption) block.properties.caption = decodeHtmlEntities(caption);
+      // CSV input comes back as a pipe table — the rendered table is the same
+      const rows = [...blockHtml.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/g)].map(([, row]) =>
+        [...row.matchAll(/<(th|td)([^>]*)>([\s\S]*?)<\/\1>/g)].map(([, tag, attrs, cell]) => ({
+          head: tag === 'th',
+          text: htmlToMarkdown(cell).replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|'),
+          align: attrs.match(/text-align:(left|center|right)/)?.[1] ?? '',
+        })),
+      );
+      if (rows.length === 0) break;
+      const line = (cells: Array<{ text: string }>) => `| ${cells.map(c => c.text).join(' | ')} |`;
+      const align = rows[0].map(c => c.align);
+      const lines = rows.map(line);
+      if (rows[0].every(c => c.head)) {
+        lines.splice(1, 0, `| ${align.map(a => (a === 'center' ? ':---:' : a === 'right' ? '---:' : a === 'left' ? ':---' : '---')).join(' | ')} |`);
+      } else if (align.some(Boolean)) {
+        block.properties.align = align.join(',');
+      }
+      block.content = escapeBlockBoundaries(lines.join('\n'));
+      break;
+    }
+    case 'core/embed': {
+      const url = extractAttr(blockHtml, 'data-url');
+      if (url) block.properties.url = url;
+      // The player's title, or the email fallback's thumbnail alt — unless it is the provider's default
+      const title = blockHtml.match(/<(?:iframe[^>]*\stitle|img[^>]*\salt)="([^"]*)"/)?.[1];
+      if (title && url && decodeHtmlEntities(title) !== (resolveEmbed(url)?.provider.title ?? url)) {
+        block.properties.title = decodeHtmlEntities(title);
+      }
+      const caption = blockHtml.match(/mkly-core-embed__caption[^>]*>([\s\S]*?)<\/(?:figcaption|p)>/)?.[1];
+      if (caption) block.properties.caption = decodeHtmlEntities(caption);
+      const thumbnail = extractAttr(blockHtml, 'data-thumbnail');
+      if (thumbnail) block.properties.thumbnail = thumbnail;
+      break;
+    }
+    case 'core/footnotes': {
+      const title = blockHtml.match(/mkly-core-footnotes__title[^>]*>([\s\S]*?)<\/p>/)?.[1];
+      if (title) block.properties.title = decodeHtmlEntities(title);
+      const list = blockHtml.match(/<ol[^>]*>[\s\S]*<\/ol>/);
+      if (list) block.content = htmlToMarkdown(list[0]);
       break;
     }
     case 'core/quote': {
@@ -226,7 +300,7 @@ export function parseCoreBlock(blockHtml: string, blockType: string): ParsedBloc
     case 'core/hero': {
       const imgTag = findTagWithClass(blockHtml, 'mkly-core-hero__img');
       if (imgTag) {
-        const src = extractAttrFromTag(imgTag, 'src');
+        const src = extractAttrFromTag(imgTag, 'data-src') ?? extractAttrFromTag(imgTag, 'src');
         const alt = extractAttrFromTag(imgTag, 'alt');
         if (src) block.properties.image = src;
         if (alt) block.properties.alt = alt;
@@ -240,10 +314,24 @@ export function parseCoreBlock(blockHtml: string, blockType: string): ParsedBloc
       if (titleText) block.properties.title = titleText;
       break;
     }
+    case 'core/columns': {
+      const ratio = extractAttr(blockHtml, 'data-ratio');
+      if (ratio) block.properties.ratio = decodeHtmlEntities(ratio);
+      // Every column carries the alignment; the gap is the second column's left padding
+      const cells = blockHtml.match(/^<table[^>]*><tbody><tr>(<td[^>]*>)(?:[\s\S]*?<td class="mkly-core-columns__column"[^>]*style="[^"]*padding-left:([^;"]+))?/);
+      const gap = cells?.[2];
+      if (gap && gap !== '16px') block.properties.gap = gap;
+      const valign = cells?.[1].match(/valign="(\w+)"/)?.[1];
+      if (valign && valign !== 'top') block.properties.valign = valign;
+      const stack = blockHtml.match(/^<table[^>]*mkly-core-columns--stack-(\d+)/)?.[1];
+      if (!stack) block.properties.stack = 'never';
+      else if (stack !== '480') block.properties.stack = stack === '768' ? 'tablet' : stack;
+      break;
+    }
     case 'core/card': {
       const imgTag = findTagWithClass(blockHtml, 'mkly-core-card__img');
       if (imgTag) {
-        const src = extractAttrFromTag(imgTag, 'src');
+        const src = extractAttrFromTag(imgTag, 'data-src') ?? extractAttrFromTag(imgTag, 'src');
         if (src) block.properties.image = src;
       }
       const linkTag = findTagWithClass(blockHtml, 'mkly-core-card__link');
@@ -268,7 +356,7 @@ export function parseCoreBlock(blockHtml: string, blockType: string): ParsedBloc
     case 'core/header': {
       const logoTag = findTagWithClass(blockHtml, 'mkly-core-header__logo');
       if (logoTag) {
-        const src = extractAttrFromTag(logoTag, 'src');
+        const src = extractAttrFromTag(logoTag, 'data-src') ?? extractAttrFromTag(logoTag, 'src');
         if (src) block.properties.logo = src;
       }
       const titleText = extractTextContent(blockHtml, 'mkly-core-header__title');
@@ -325,10 +413,11 @@ export function parseCoreBlock(blockHtml: string, blockType: string): ParsedBloc
 function blockToMkly(block: ParsedBlock): string {
   const lines: string[] = [];
   const label = block.label ? `: ${block.label}` : '';
-  lines.push(`--- ${block.blockType}${label}`);
+  const id = block.id ? `#${block.id}` : '';
+  lines.push(`--- ${block.blockType}${id}${label}`);
 
   for (const [key, value] of Object.entries(block.properties)) {
-    lines.push(`${key}: ${value}`);
+    lines.push(serializeProperty(key, value));
   }
 
   if (block.styleEntries && block.styleEntries.length > 0) {
@@ -564,6 +653,8 @@ export function reverseWeb(html: string, options?: ReverseWebOptions): string {
     }
 
     const block = parseBlockWithKit(el.fullHtml, blockType);
+    const id = el.attrs.match(BLOCK_ID_RE)?.[1];
+    if (id && !isHeadingAnchor(el.tag, id, block.content)) block.id = id;
 
     // Extract preserved inline/targeted styles from data-mkly-styles attribute
     const stylesAttr = extractAttr(el.fullHtml, 'data-mkly-styles');
@@ -637,7 +728,7 @@ export function reverseWeb(html: string, options?: ReverseWebOptions): string {
           gap.replace(/<style\b[\s\S]*?<\/style>/gi, '').trim(),
         );
         if (cleaned) {
-          sections.push(`--- core/html\n\n${cleaned}\n\n--- /core/html`);
+          sections.push(`--- core/html\n\n${escapeBlockBoundaries(cleaned)}\n\n--- /core/html`);
         }
       }
     }
@@ -664,7 +755,7 @@ export function reverseWeb(html: string, options?: ReverseWebOptions): string {
         trailing.replace(/<style\b[\s\S]*?<\/style>/gi, '').trim(),
       );
       if (cleaned) {
-        sections.push(`--- core/html\n\n${cleaned}\n\n--- /core/html`);
+        sections.push(`--- core/html\n\n${escapeBlockBoundaries(cleaned)}\n\n--- /core/html`);
       }
     }
   }
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import type { ContentMode, CompileError, MklyBlock } from './types';
+import { blockRange } from './errors';
 
 // ---------------------------------------------------------------------------
 // Block schema definition
@@ -22,7 +23,7 @@ const optionalUrl = z.string().url().optional().describe('Optional URL');
 const optionalString = z.string().optional().describe('Optional text');
 
 // ---------------------------------------------------------------------------
-// Core block schemas (16)
+// Core block schemas (21)
 // ---------------------------------------------------------------------------
 
 const headingSchema: BlockSchema = {
@@ -86,6 +87,8 @@ const codeSchema: BlockSchema = {
   description: 'Code block with optional syntax highlighting',
   properties: z.object({
     lang: optionalString.describe('Programming language for highlighting'),
+    lineNumbers: z.enum(['true', 'false']).optional().describe('Number the lines'),
+    highlight: z.string().regex(/^\s*\d+(?:\s*-\s*\d+)?(?:\s*,\s*\d+(?:\s*-\s*\d+)?)*\s*$/, 'highlight must be line numbers and ranges like 1,3-5').optional().describe('Lines to mark, e.g. 3-5'),
   }),
   contentMode: 'mixed',
 };
@@ -120,6 +123,19 @@ const sectionSchema: BlockSchema = {
   isContainer: true,
 };
 
+const columnsSchema: BlockSchema = {
+  name: 'columns',
+  description: 'Side-by-side columns, one per child block, stacking on narrow screens',
+  properties: z.object({
+    ratio: z.string().regex(/^\d+(?:\.\d+)?(?::\d+(?:\.\d+)?)*$/, 'ratio must be column weights like 2:1').optional().describe('Relative column widths, e.g. 2:1 (default equal)'),
+    gap: optionalString.describe('Space between columns (default 16px)'),
+    valign: z.enum(['top', 'middle', 'bottom']).optional().describe('Vertical alignment of the columns (default top)'),
+    stack: z.string().regex(/^(?:mobile|tablet|never|\d+)$/, 'stack must be mobile, tablet, never or a width in px').optional().describe('Viewport width at which columns stack (default mobile)'),
+  }),
+  contentMode: 'properties',
+  isContainer: true,
+};
+
 const cardSchema: BlockSchema = {
   name: 'card',
   description: 'Content card with optional image and link',
@@ -176,14 +192,58 @@ const htmlSchema: BlockSchema = {
   contentMode: 'verbatim',
 };
 
+const footnotesSchema: BlockSchema = {
+  name: 'footnotes',
+  description: 'Numbered footnotes cited with [^label] in markdown content',
+  properties: z.object({
+    title: optionalString.describe('Text above the list'),
+  }),
+  contentMode: 'mixed',
+};
+
+const tableSchema: BlockSchema = {
+  name: 'table',
+  description: 'Data table from a markdown pipe table or CSV',
+  properties: z.object({
+    format: z.enum(['markdown', 'csv']).optional().describe('Content format (default markdown)'),
+    header: z.enum(['true', 'false']).optional().describe('Whether the first row is the header'),
+    align: z.string().regex(/^\s*(?:left|center|right)?\s*(?:,\s*(?:left|center|right)?\s*)*$/, 'align must list left, center or right per column').optional().describe('Comma-separated column alignment'),
+    caption: optionalString.describe('Table caption'),
+  }),
+  contentMode: 'mixed',
+};
+
+const embedSchema: BlockSchema = {
+  name: 'embed',
+  description: 'Player for a YouTube, Vimeo, X, Spotify, CodePen or Loom link',
+  properties: z.object({
+    url: urlString.describe('Link to embed (required)'),
+    title: optionalString.describe('Player title for screen readers'),
+    caption: optionalString.describe('Text below the player'),
+    thumbnail: optionalUrl.describe('Image for the email fallback'),
+  }),
+  contentMode: 'properties',
+};
+
+const tocSchema: BlockSchema = {
+  name: 'toc',
+  description: 'Table of contents linking to the document headings',
+  properties: z.object({
+    depth: z.string().regex(/^[1-6]$/, 'depth must be a heading level from 1 to 6').optional().describe('Deepest heading level listed (default 3)'),
+    title: optionalString.describe('Text above the list'),
+  }),
+  contentMode: 'properties',
+};
+
 // ---------------------------------------------------------------------------
 // Schema collections
 // ---------------------------------------------------------------------------
 
 export const CORE_SCHEMAS: BlockSchema[] = [
   headingSchema, textSchema, imageSchema, buttonSchema, dividerSchema,
-  spacerSchema, codeSchema, quoteSchema, heroSchema, sectionSchema,
+  spacerSchema, codeSchema, quoteSchema, heroSchema, sectionSchema, columnsSchema,
   cardSchema, listSchema, headerSchema, footerSchema, ctaSchema, htmlSchema,
+  tocSchema, footnotesSchema, tableSchema, embedSchema,
 ];
 
 export function createBlockSchemas(
@@ -216,6 +276,7 @@ export function validateBlock(
       blockType: block.blockType,
       line: block.position.start.line,
       severity: 'warning',
+      range: blockRange(block),
     });
     return errors;
   }
@@ -224,12 +285,14 @@ export function validateBlock(
   if (!result.success) {
     for (const issue of result.error.issues) {
       const path = issue.path.join('.');
+      const range = blockRange(block, issue.path.length > 0 ? String(issue.path[0]) : undefined);
       errors.push({
         message: `${block.blockType}: ${path ? `"${path}" - ` : ''}${issue.message}`,
         blockType: block.blockType,
-        line: block.position.start.line,
+        line: range.start.line,
         property: path || undefined,
         severity: 'error',
+        range,
       });
     }
   }
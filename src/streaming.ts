@@ -0,0 +1,149 @@
+import type { MklyDocument, MklyBlock } from './types';
+import { parse } from './parser';
+import { parseIncremental } from './incremental';
+import { tokenize } from './tokenizer';
+import type { ParseOptions } from './parser';
+
+export interface StreamingParseResult {
+  /** Completed blocks and the diagnostics that are final — safe to compile and render. */
+  doc: MklyDocument;
+  /**
+   * The block still being written, left out of `doc`. Open containers around
+   * it stay in `doc` with their completed children.
+   */
+  pending: MklyBlock | null;
+  /** Source from the pending block's header (or the unfinished last line) to the end. */
+  pendingSource: string;
+}
+
+export interface StreamingParser {
+  /** Append a chunk and re-read the document. */
+  write(chunk: string): StreamingParseResult;
+  /** Finish the stream: everything is final and every error is reported. */
+  end(): StreamingParseResult;
+  readonly source: string;
+}
+
+const NEVER_CLOSED_RE = /is never closed/;
+
+function countNewlines(text: string): number {
+  let count = 0;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) count++;
+  return count;
+}
+
+/** Offset where 1-based `line` starts, counting back from `end`, the start of line `endLine`. */
+function lineStart(text: string, line: number, endLine: number, end: number): number {
+  let offset = end;
+  for (let l = endLine; l > line; l--) offset = offset <= 1 ? 0 : text.lastIndexOf('\n', offset - 2) + 1;
+  return offset;
+}
+
+/** `blocks` without `pending`, copying only the open containers on the way to it. */
+function withoutPending(blocks: MklyBlock[], path: MklyBlock[], pending: MklyBlock): MklyBlock[] {
+  if (path.length === 0) return blocks.filter(b => b !== pending);
+  const [container, ...rest] = path;
+  return blocks.map(b => (b === container ? { ...b, children: withoutPending(b.children, rest, pending) } : b));
+}
+
+/**
+ * Parse text as it arrives, e.g. streamed model output. Each `write()` parses
+ * the complete lines so far; the last block may still grow, so it is held back
+ * as `pending` together with any unfinished line, and errors about that tail —
+ * including containers not closed yet — wait for `end()`.
+ *
+ * New lines are parsed with `parseIncremental`, so a write re-reads the blocks
+ * from the last committed one on rather than the whole stream.
+ *
+ * Pass `containerBlocks` so containers nest while they are open; otherwise a
+ * container only takes its children once its closer arrives.
+ */
+export function createStreamingParser(options?: ParseOptions): StreamingParser {
+  const verbatimBlocks = options?.verbatimBlocks ?? new Set<string>();
+  let source = '';
+  let ended = false;
+  // The parse of the complete lines so far, and how many newlines they hold
+  let parsed = parse('', options);
+  let parsedLength = 0;
+  let lineCount = 0;
+  // The last header or closer the parser acts on — one inside verbatim content is text
+  let lastBoundary = 0;
+
+  /** Parse newly completed lines and find the last boundary, reading from the previous one on. */
+  function advance(complete: string): void {
+    const added = complete.slice(parsedLength);
+    const end = { line: lineCount + 1, column: 1 };
+    parsed = parseIncremental(parsed, [{ range: { start: end, end }, text: added }], options).doc;
+
+    parsedLength = complete.length;
+    lineCount += countNewlines(added);
+
+    const from = Math.max(lastBoundary, 1);
+    let verbatim: string | null = null;
+    for (const token of tokenize(complete.slice(lineStart(complete, from, lineCount + 1, complete.length)))) {
+      const line = token.line + from - 1;
+      if (verbatim) {
+        if (token.type === 'block_end' && token.blockType === verbatim) {
+          verbatim = null;
+          lastBoundary = line;
+        }
+        continue;
+      }
+      if (token.type === 'block_start' || token.type === 'block_end') lastBoundary = line;
+      if (token.type === 'block_start' && verbatimBlocks.has(token.blockType)) verbatim = token.blockType;
+    }
+  }
+
+  function read(): StreamingParseResult {
+    if (ended) return { doc: parse(source, options), pending: null, pendingSource: '' };
+
+    const complete = source.slice(0, source.lastIndexOf('\n') + 1);
+    if (complete.length > parsedLength) advance(complete);
+    const doc = parsed;
+    const openLines = new Set(doc.errors.filter(e => NEVER_CLOSED_RE.test(e.message)).map(e => e.line));
+    const isOpen = (block: MklyBlock) => openLines.has(block.position.start.line);
+
+    // The last block can still grow until another header or a closer follows it
+    let siblings = doc.blocks;
+    const path: MklyBlock[] = [];
+    let pending: MklyBlock | null = null;
+    while (siblings.length > 0) {
+      const last = siblings[siblings.length - 1];
+      if (isOpen(last) && last.children.length > 0) {
+        path.push(last);
+        siblings = last.children;
+        continue;
+      }
+      if (last.position.start.line === lastBoundary) pending = last;
+      break;
+    }
+
+    const partialLine = lineCount + 1;
+    const tailLine = pending ? pending.position.start.line : partialLine;
+
+    return {
+      doc: {
+        ...doc,
+        blocks: pending ? withoutPending(doc.blocks, path, pending) : doc.blocks,
+        errors: doc.errors.filter(e => e.line < tailLine && !openLines.has(e.line)),
+      },
+      pending,
+      pendingSource: source.slice(lineStart(source, tailLine, partialLine, complete.length)),
+    };
+  }
+
+  return {
+    write(chunk: string) {
+      if (ended) throw new Error('Cannot write to a streaming parser after end()');
+      source += chunk;
+      return read();
+    },
+    end() {
+      ended = true;
+      return read();
+    },
+    get source() {
+      return source;
+    },
+  };
+}
@@ -12,8 +12,9 @@
  */
 
 import { toKebab } from './utils';
-import { resolveVariableName, VARIABLE_TO_CSS } from './style-parser';
+import { resolveVariableName, darkSchemeCSS, VARIABLE_TO_CSS } from './style-parser';
 import { blockTypeToCssClass } from './types';
+import type { SourceRange } from './types';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -26,6 +27,11 @@ export interface StyleRule {
   target: string;
   /** Optional block instance label for per-instance styling (e.g. "hero" from core/card:hero) */
   label?: string;
+  /**
+   * Set for rules nested under `@mobile`/`@tablet` (a breakpoint name) or
+   * `@media (max-width: 600px)` (the query as written).
+   */
+  media?: string;
   /** CSS properties as camelCase or kebab-case keys → values */
   properties: Record<string, string>;
 }
@@ -33,11 +39,17 @@ export interface StyleRule {
 export interface StyleVariable {
   name: string;
   value: string;
+  /** Set for variables under `@dark`, which apply only to the dark color scheme. */
+  scheme?: 'dark';
 }
 
 export interface StyleWarning {
   message: string;
   severity: 'warning' | 'error';
+  /** 1-based line within the style source. */
+  line?: number;
+  /** Location within the style source (1-based columns, end exclusive). */
+  range?: SourceRange;
 }
 
 export interface StyleGraph {
@@ -46,6 +58,12 @@ export interface StyleGraph {
   warnings?: StyleWarning[];
 }
 
+/** Named viewport widths in px — layouts switch to their narrow form at or below these. */
+export const BREAKPOINTS: Record<string, number> = {
+  mobile: 480,
+  tablet: 768,
+};
+
 // ---------------------------------------------------------------------------
 // Aliases & property normalization
 // ---------------------------------------------------------------------------
@@ -337,6 +355,10 @@ const TAG_TARGET_RE = /^>(\.?[\w][\w-]*)$/;
 const TAG_PSEUDO_RE = /^>(\.?[\w][\w-]*)(::?[\w-]+(?:\([^)]*\))?)$/;
 // Label selector: requires kit prefix — "core/card:hero" (not "card:hover")
 const LABEL_SELECTOR_RE = /^([\w]+\/[\w]+):(\w+)$/;
+// Media section: "@media (max-width: 600px)" or a breakpoint name like "@mobile"
+const MEDIA_RE = /^@media\s+(.+)$|^@([\w-]+)$/;
+// Bare media queries that are not breakpoint names ("@media print")
+const MEDIA_TYPES = new Set(['all', 'print', 'screen']);
 
 /** Strip inline `// comment` from a value (e.g. "#4A3728 // Dark brown" → "#4A3728"). */
 function stripComment(value: string): string {
@@ -353,7 +375,7 @@ function getIndent(line: string): number {
   return count;
 }
 
-function cssPropertyName(key: string): string {
+export function cssPropertyName(key: string): string {
   if (key.includes('-')) return key;
   return toKebab(key);
 }
@@ -445,12 +467,20 @@ const HTML_ELEMENT_NAMES = new Set([
   'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'form', 'input', 'button', 'label',
 ]);
 
-function validateValue(value: string, warnings: StyleWarning[]): void {
+function lineRange(line: number, startIdx: number, endIdx: number): SourceRange {
+  return { start: { line, column: startIdx + 1 }, end: { line, column: endIdx + 1 } };
+}
+
+/** `lineNo` is the 1-based line of `text`, which holds `value` after its first colon. */
+function validateValue(value: string, text: string, lineNo: number, warnings: StyleWarning[]): void {
   const sassMatch = value.match(SASS_FN_RE);
   if (sassMatch) {
+    const start = text.indexOf(value, text.indexOf(':') + 1) + sassMatch.index!;
     warnings.push({
       message: `"${sassMatch[1]}()" is a Sass function, not valid CSS — value will be ignored by browsers`,
       severity: 'warning',
+      line: lineNo,
+      range: lineRange(lineNo, start, start + sassMatch[1].length),
     });
   }
 }
@@ -469,17 +499,28 @@ function parseIndentedToGraph(source: string): StyleGraph {
   let blockBaseIndent = -1;
   let targetFromSubElement = false;
   let subElementIndent = -1;
+  let scheme: StyleVariable['scheme'];
+  // Current `@mobile` / `@media …` section and the target to return to after it
+  let media: string | undefined;
+  let mediaIndent = -1;
+  let outside = { target: 'self', fromSub: false, subIndent: -1 };
+  // Lines nested under a misplaced top-level media section are dropped
+  let skipNested = false;
+  const breakpointRefs: Array<{ name: string; line: number; range: SourceRange }> = [];
 
   function flushRule() {
     if (currentBlock && Object.keys(currentProps).length > 0) {
       const rule: StyleRule = { blockType: currentBlock, target: currentTarget, properties: { ...currentProps } };
       if (currentLabel) rule.label = currentLabel;
+      if (media) rule.media = media;
       rules.push(rule);
     }
     currentProps = {};
   }
 
-  for (const line of lines) {
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const lineNo = i + 1;
     const trimmed = line.trim();
     if (!trimmed || COMMENT_RE.test(trimmed)) continue;
 
@@ -493,13 +534,38 @@ function parseIndentedToGraph(source: string): StyleGraph {
       blockBaseIndent = -1;
       targetFromSubElement = false;
       subElementIndent = -1;
+      scheme = undefined;
+      media = undefined;
+      skipNested = false;
+
+      // `@dark`: the indented variables below it apply to the dark color scheme
+      if (trimmed === '@dark') {
+        scheme = 'dark';
+        currentBlock = null;
+        currentLabel = undefined;
+        continue;
+      }
+
+      if (MEDIA_RE.test(trimmed)) {
+        const start = line.indexOf(trimmed);
+        warnings.push({
+          message: `"${trimmed}" must be nested under a block selector (e.g. "core/card" then "  ${trimmed}")`,
+          severity: 'warning',
+          line: lineNo,
+          range: lineRange(lineNo, start, start + trimmed.length),
+        });
+        currentBlock = null;
+        currentLabel = undefined;
+        skipNested = true;
+        continue;
+      }
 
       // Variable declaration: "key: value" (must have space after colon to
       // distinguish from pseudo selectors like "card:hover")
       const varMatch = trimmed.match(/^([\w-]+)\s*:\s+(.+)$/);
       if (varMatch) {
         const val = stripComment(varMatch[2]);
-        validateValue(val, warnings);
+        validateValue(val, line, lineNo, warnings);
         variables.push({ name: varMatch[1], value: val });
         currentBlock = null;
         currentLabel = undefined;
@@ -518,9 +584,12 @@ function parseIndentedToGraph(source: string): StyleGraph {
       // Simple block selector: "heading", "core/heading"
       if (SELECTOR_RE.test(trimmed)) {
         if (HTML_ELEMENT_NAMES.has(trimmed)) {
+          const start = line.indexOf(trimmed);
           warnings.push({
             message: `"${trimmed}" looks like an HTML element, not a mkly block — use document-level variables for page styles (e.g. "bg: #fff" at indent 0)`,
             severity: 'warning',
+            line: lineNo,
+            range: lineRange(lineNo, start, start + trimmed.length),
           });
         }
         currentBlock = trimmed;
@@ -551,16 +620,34 @@ function parseIndentedToGraph(source: string): StyleGraph {
 
     // Indent 1+: inside a block or raw selector
     if (!currentBlock) {
-      // Indented variable (rare but supported)
+      if (skipNested) continue;
+      // Indented variable (rare but supported), or one under `@dark`
       const propMatch = trimmed.match(PROP_RE);
       if (propMatch) {
-        variables.push({ name: propMatch[1], value: stripComment(propMatch[2]) });
+        const variable: StyleVariable = { name: propMatch[1], value: stripComment(propMatch[2]) };
+        if (scheme) variable.scheme = scheme;
+        variables.push(variable);
       }
       continue;
     }
 
-    // In raw context: only collect properties (no sub-element/pseudo parsing)
+    // In raw context: only collect properties and media sections (no sub-element/pseudo parsing)
     if (isRawContext) {
+      if (media !== undefined && indent <= mediaIndent) {
+        flushRule();
+        media = undefined;
+      }
+      const mediaMatch = trimmed.match(MEDIA_RE);
+      if (mediaMatch) {
+        flushRule();
+        media = mediaMatch[1] ?? mediaMatch[2];
+        mediaIndent = indent;
+        if (mediaMatch[2] && !Object.hasOwn(BREAKPOINTS, mediaMatch[2]) && !MEDIA_TYPES.has(mediaMatch[2])) {
+          const start = line.indexOf(trimmed);
+          breakpointRefs.push({ name: mediaMatch[2], line: lineNo, range: lineRange(lineNo, start, start + trimmed.length) });
+        }
+        continue;
+      }
       const propMatch = trimmed.match(PROP_RE);
       if (propMatch) {
         currentProps[cssPropertyName(propMatch[1])] = stripComment(propMatch[2]);
@@ -574,6 +661,37 @@ function parseIndentedToGraph(source: string): StyleGraph {
       blockBaseIndent = indent;
     }
 
+    // Leaving a media section: back to the rules outside it
+    if (media !== undefined && indent <= mediaIndent) {
+      flushRule();
+      media = undefined;
+      currentTarget = outside.target;
+      targetFromSubElement = outside.fromSub;
+      subElementIndent = outside.subIndent;
+    }
+
+    // Media section: @mobile, @tablet, a breakpoint variable, or @media (…)
+    const mediaMatch = trimmed.match(MEDIA_RE);
+    if (mediaMatch) {
+      flushRule();
+      // At a sub-element's own indent the section belongs to the block, like a property would
+      if (indent <= subElementIndent && targetFromSubElement) {
+        currentTarget = 'self';
+        targetFromSubElement = false;
+        subElementIndent = -1;
+      }
+      outside = { target: currentTarget, fromSub: targetFromSubElement, subIndent: subElementIndent };
+      media = mediaMatch[1] ?? mediaMatch[2];
+      mediaIndent = indent;
+      targetFromSubElement = false;
+      subElementIndent = -1;
+      if (mediaMatch[2] && !Object.hasOwn(BREAKPOINTS, mediaMatch[2]) && !MEDIA_TYPES.has(mediaMatch[2])) {
+        const start = line.indexOf(trimmed);
+        breakpointRefs.push({ name: mediaMatch[2], line: lineNo, range: lineRange(lineNo, start, start + trimmed.length) });
+      }
+      continue;
+    }
+
     // Tag descendant + pseudo: >p:hover, >a:visited
     const tagPseudoMatch = trimmed.match(TAG_PSEUDO_RE);
     if (tagPseudoMatch) {
@@ -639,12 +757,23 @@ function parseIndentedToGraph(source: string): StyleGraph {
     const propMatch = trimmed.match(PROP_RE);
     if (propMatch) {
       const val = stripComment(propMatch[2]);
-      validateValue(val, warnings);
+      validateValue(val, line, lineNo, warnings);
       currentProps[cssPropertyName(propMatch[1])] = val;
     }
   }
 
   flushRule();
+  for (const ref of breakpointRefs) {
+    if (variables.some(v => v.name === ref.name && !v.scheme)) continue;
+    warnings.push({
+      message: ref.name === 'dark'
+        ? '"@dark" must be at the top level, with the dark color variables indented under it'
+        : `Unknown breakpoint "@${ref.name}" — use @mobile, @tablet, @media (…), or define it as a variable (e.g. "${ref.name}: 600px")`,
+      severity: 'warning',
+      line: ref.line,
+      range: ref.range,
+    });
+  }
   return { variables, rules, warnings: warnings.length > 0 ? warnings : undefined };
 }
 
@@ -684,6 +813,61 @@ function decomposeSelector(selector: string): { blockType: string; target: strin
 // Serialization: StyleGraph → mkly v2 indented syntax
 // ---------------------------------------------------------------------------
 
+/** A block's rules as property and sub-element lines, `pad` being the indent of its own properties. */
+function serializeTargets(blockRules: StyleRule[], pad: string): string[] {
+  const lines: string[] = [];
+
+  // Merge all "self" rules (block root properties) — the parser may produce
+  // multiple self rules when sub-element sections interleave with self properties.
+  const mergedSelfProps: Record<string, string> = {};
+  for (const r of blockRules) {
+    if (r.target === 'self') Object.assign(mergedSelfProps, r.properties);
+  }
+  for (const [prop, value] of Object.entries(mergedSelfProps)) {
+    lines.push(`${pad}${prop}: ${value}`);
+  }
+
+  for (const rule of blockRules.filter(r => r.target !== 'self')) {
+    const { sub, pseudo, isTag } = parseTarget(rule.target);
+    if (pseudo && !sub) {
+      // Pseudo on self: :hover
+      lines.push(`${pad}${pseudo}`);
+    } else if (isTag && sub && !pseudo) {
+      // Tag descendant: >p
+      lines.push(`${pad}>${sub}`);
+    } else if (isTag && sub && pseudo) {
+      // Tag descendant with pseudo: >p:hover
+      lines.push(`${pad}>${sub}${pseudo}`);
+    } else if (sub && !pseudo) {
+      // BEM sub-element: .img
+      lines.push(`${pad}.${sub}`);
+    } else if (sub && pseudo) {
+      // BEM sub-element with pseudo: .img:hover
+      lines.push(`${pad}.${sub}${pseudo}`);
+    }
+
+    for (const [prop, value] of Object.entries(rule.properties)) {
+      lines.push(`${pad}  ${prop}: ${value}`);
+    }
+  }
+  return lines;
+}
+
+/** Media rules after the rest, one `@mobile` / `@media …` section per query. */
+function serializeMedia(rules: StyleRule[], serialize: (rules: StyleRule[]) => string[]): string[] {
+  const lines: string[] = [];
+  const byMedia = new Map<string, StyleRule[]>();
+  for (const rule of rules) {
+    if (rule.media) byMedia.set(rule.media, [...(byMedia.get(rule.media) ?? []), rule]);
+  }
+  for (const [media, mediaRules] of byMedia) {
+    const named = /^[\w-]+$/.test(media) && !MEDIA_TYPES.has(media);
+    lines.push(`  ${named ? `@${media}` : `@media ${media}`}`);
+    lines.push(...serialize(mediaRules));
+  }
+  return lines;
+}
+
 /**
  * Serialize a StyleGraph to mkly v2 indented style syntax.
  * Output is suitable for placing inside a --- style block.
@@ -691,9 +875,16 @@ function decomposeSelector(selector: string): { blockType: string; target: strin
 export function serializeStyleGraph(graph: StyleGraph): string {
   const lines: string[] = [];
 
-  // Variables first
+  // Variables first, then the dark scheme's under `@dark`
+  const darkVariables = graph.variables.filter(v => v.scheme === 'dark');
   for (const v of graph.variables) {
-    lines.push(`${v.name}: ${v.value}`);
+    if (!v.scheme) lines.push(`${v.name}: ${v.value}`);
+  }
+  if (darkVariables.length > 0) {
+    lines.push('@dark');
+    for (const v of darkVariables) {
+      lines.push(`  ${v.name}: ${v.value}`);
+    }
   }
 
   // Separate raw rules from block rules
@@ -714,56 +905,22 @@ export function serializeStyleGraph(graph: StyleGraph): string {
 
   for (const [selectorKey, blockRules] of grouped) {
     if (lines.length > 0) lines.push('');
-
-    // Merge all "self" rules (block root properties) — the parser may produce
-    // multiple self rules when sub-element sections interleave with self properties.
-    const selfRules = blockRules.filter(r => r.target === 'self');
-    const otherRules = blockRules.filter(r => r.target !== 'self');
-    const mergedSelfProps: Record<string, string> = {};
-    for (const r of selfRules) {
-      Object.assign(mergedSelfProps, r.properties);
-    }
-
     lines.push(selectorKey);
+    lines.push(...serializeTargets(blockRules.filter(r => !r.media), '  '));
 
-    if (Object.keys(mergedSelfProps).length > 0) {
-      for (const [prop, value] of Object.entries(mergedSelfProps)) {
-        lines.push(`  ${prop}: ${value}`);
-      }
-    }
-
-    for (const rule of otherRules) {
-      const { sub, pseudo, isTag } = parseTarget(rule.target);
-      if (pseudo && !sub) {
-        // Pseudo on self: :hover
-        lines.push(`  ${pseudo}`);
-      } else if (isTag && sub && !pseudo) {
-        // Tag descendant: >p
-        lines.push(`  >${sub}`);
-      } else if (isTag && sub && pseudo) {
-        // Tag descendant with pseudo: >p:hover
-        lines.push(`  >${sub}${pseudo}`);
-      } else if (sub && !pseudo) {
-        // BEM sub-element: .img
-        lines.push(`  .${sub}`);
-      } else if (sub && pseudo) {
-        // BEM sub-element with pseudo: .img:hover
-        lines.push(`  .${sub}${pseudo}`);
-      }
-
-      for (const [prop, value] of Object.entries(rule.properties)) {
-        lines.push(`    ${prop}: ${value}`);
-      }
-    }
+    lines.push(...serializeMedia(blockRules, rules => serializeTargets(rules, '    ')));
   }
 
   // Raw CSS rules (blockType === '__raw', target is the CSS selector)
-  for (const rule of rawRules) {
+  const rawGrouped = new Map<string, StyleRule[]>();
+  for (const rule of rawRules) rawGrouped.set(rule.target, [...(rawGrouped.get(rule.target) ?? []), rule]);
+  for (const [selector, selectorRules] of rawGrouped) {
     if (lines.length > 0) lines.push('');
-    lines.push(rule.target);
-    for (const [prop, value] of Object.entries(rule.properties)) {
-      lines.push(`  ${prop}: ${value}`);
-    }
+    lines.push(selector);
+    const props = (rules: StyleRule[], pad: string) =>
+      rules.flatMap(rule => Object.entries(rule.properties).map(([prop, value]) => `${pad}${prop}: ${value}`));
+    lines.push(...props(selectorRules.filter(r => !r.media), '  '));
+    lines.push(...serializeMedia(selectorRules, rules => props(rules, '    ')));
   }
 
   return lines.join('\n');
@@ -799,26 +956,117 @@ function parseTarget(target: string): { sub: string | null; pseudo: string | nul
 // Compilation: StyleGraph → CSS
 // ---------------------------------------------------------------------------
 
+/**
+ * The query for a rule's `media`. A breakpoint name resolves through the
+ * document variable of that name (`mobile: 400px`, or a whole query), then
+ * `BREAKPOINTS`; a width becomes `(max-width: …px)`. Queries and unknown
+ * names are used as written.
+ */
+export function resolveMediaQuery(media: string, variables: Record<string, string> = {}): string {
+  if (!/^[\w-]+$/.test(media)) return media;
+  const value = Object.hasOwn(variables, media)
+    ? variables[media]
+    : Object.hasOwn(BREAKPOINTS, media) ? String(BREAKPOINTS[media]) : undefined;
+  if (value === undefined) return media;
+  const width = value.trim().match(/^(\d+(?:\.\d+)?)(?:px)?$/);
+  return width ? `(max-width: ${width[1]}px)` : value.trim();
+}
+
+const WIDTH_QUERY_RE = /^\((max|min)-width:\s*(\d+(?:\.\d+)?)(px|r?em)?\)$/;
+
+/**
+ * Media groups in cascade order: `max-width` ones widest first, then
+ * `min-width` ones narrowest first, so the section closest to the viewport
+ * wins where several match; other queries follow in source order. A query
+ * still a bare breakpoint name was never defined (the parser warned), so its
+ * group is dropped rather than emitted as `@media name`.
+ */
+function orderMediaGroups<T>(groups: Map<string, T>): Array<[string, T]> {
+  const sortKey = (query: string): [number, number] => {
+    const m = query.match(WIDTH_QUERY_RE);
+    if (!m) return [2, 0];
+    const px = Number(m[2]) * (m[3] === 'em' || m[3] === 'rem' ? 16 : 1);
+    return m[1] === 'max' ? [0, -px] : [1, px];
+  };
+  return [...groups]
+    .filter(([query]) => !/^[\w-]+$/.test(query) || MEDIA_TYPES.has(query))
+    .map(([query, value]) => ({ query, value, key: sortKey(query) }))
+    .sort((a, b) => a.key[0] - b.key[0] || a.key[1] - b.key[1])
+    .map(({ query, value }) => [query, value]);
+}
+
+/** CSS for one rule: its own declarations plus the inherited-text and image-alignment companions. */
+function ruleToCSS(rule: StyleRule): string[] {
+  const cssLines: string[] = [];
+  // Raw CSS rules: use target as selector directly
+  if (rule.blockType === '__raw') {
+    const props = Object.entries(rule.properties)
+      .map(([k, v]) => `  ${cssProperty(k)}: ${resolveValue(v)};`)
+      .join('\n');
+    if (props) {
+      cssLines.push(`${rule.target} {\n${props}\n}`);
+    }
+    return cssLines;
+  }
+
+  const selector = resolveSelector(rule.target, rule.blockType, rule.label);
+  const isSubElement = rule.target !== 'self' && !rule.target.startsWith('self:');
+
+  const props = Object.entries(rule.properties)
+    .map(([k, v]) => `  ${cssProperty(k)}: ${resolveValue(v)};`)
+    .join('\n');
+  if (props) {
+    cssLines.push(`${selector} {\n${props}\n}`);
+
+    // For all non-self targets: propagate inherited properties to child text
+    // elements so they override theme rawCss rules like `.mkly-document p`.
+    if (isSubElement) {
+      const inheritedProps = Object.entries(rule.properties)
+        .filter(([k]) => INHERITED_CSS_PROPS.has(cssProperty(k)))
+        .map(([k, v]) => `  ${cssProperty(k)}: ${resolveValue(v)};`)
+        .join('\n');
+      if (inheritedProps) {
+        cssLines.push(`${selector} ${INHERITED_TEXT_DESCENDANT_SELECTOR} {\n${inheritedProps}\n}`);
+      }
+    }
+
+    // For self rules with text-align, propagate centering/alignment to block-level
+    // img children via auto margins. Images have display:block (for baseline gap fix),
+    // so text-align on the parent has no effect — they need margin: auto instead.
+    if ((rule.target === 'self' || rule.target.startsWith('self:')) && rule.properties['text-align']) {
+      const align = rule.properties['text-align'];
+      if (align === 'center') {
+        cssLines.push(`${selector} img {\n  margin-left: auto;\n  margin-right: auto;\n}`);
+      } else if (align === 'right') {
+        cssLines.push(`${selector} img {\n  margin-left: auto;\n  margin-right: 0;\n}`);
+      } else if (align === 'left') {
+        cssLines.push(`${selector} img {\n  margin-left: 0;\n  margin-right: auto;\n}`);
+      }
+    }
+  }
+  return cssLines;
+}
+
 /**
  * Compile a StyleGraph to CSS for the user layer.
- * Uses proper CSS selectors based on block type classes.
+ * Uses proper CSS selectors based on block type classes. Breakpoint names
+ * resolve through `variables` (the compiler passes theme, style and API
+ * variables merged), or the graph's own variables when omitted.
  */
-export function compileStyleGraphToCSS(graph: StyleGraph): string {
+export function compileStyleGraphToCSS(graph: StyleGraph, variables?: Record<string, string>): string {
   const cssLines: string[] = [];
   const variableNames = new Set<string>();
 
-  // Variables → .mkly-document { --mkly-*: value }
+  // Variables → .mkly-document { --mkly-*: value }, `@dark` ones → dark-scheme overrides
   if (graph.variables.length > 0) {
     const varLines: string[] = [];
+    const darkLines: string[] = [];
     for (const v of graph.variables) {
       variableNames.add(v.name);
-      if (v.name in VARIABLE_TO_CSS) {
-        varLines.push(`  ${VARIABLE_TO_CSS[v.name]}: ${resolveValue(v.value)};`);
-      } else {
-        varLines.push(`  ${resolveVariableName(v.name)}: ${resolveValue(v.value)};`);
-      }
+      (v.scheme === 'dark' ? darkLines : varLines).push(`  ${resolveVariableName(v.name)}: ${resolveValue(v.value)};`);
     }
-    cssLines.push(`.mkly-document {\n${varLines.join('\n')}\n}`);
+    if (varLines.length > 0) cssLines.push(`.mkly-document {\n${varLines.join('\n')}\n}`);
+    if (darkLines.length > 0) cssLines.push(darkSchemeCSS(darkLines));
 
     const globalOverrideCSS = buildGlobalTokenOverrideCSS(variableNames);
     if (globalOverrideCSS) {
@@ -826,54 +1074,19 @@ export function compileStyleGraphToCSS(graph: StyleGraph): string {
     }
   }
 
-  // Rules → CSS selectors
+  // Rules → CSS selectors, then media rules grouped by query after them, in cascade order
+  const mediaGroups = new Map<string, string[]>();
+  const breakpoints = variables ?? Object.fromEntries(graph.variables.filter(v => !v.scheme).map(v => [v.name, v.value]));
   for (const rule of graph.rules) {
-    // Raw CSS rules: use target as selector directly
-    if (rule.blockType === '__raw') {
-      const props = Object.entries(rule.properties)
-        .map(([k, v]) => `  ${cssProperty(k)}: ${resolveValue(v)};`)
-        .join('\n');
-      if (props) {
-        cssLines.push(`${rule.target} {\n${props}\n}`);
-      }
+    if (!rule.media) {
+      cssLines.push(...ruleToCSS(rule));
       continue;
     }
-
-    const selector = resolveSelector(rule.target, rule.blockType, rule.label);
-    const isSubElement = rule.target !== 'self' && !rule.target.startsWith('self:');
-
-    const props = Object.entries(rule.properties)
-      .map(([k, v]) => `  ${cssProperty(k)}: ${resolveValue(v)};`)
-      .join('\n');
-    if (props) {
-      cssLines.push(`${selector} {\n${props}\n}`);
-
-      // For all non-self targets: propagate inherited properties to child text
-      // elements so they override theme rawCss rules like `.mkly-document p`.
-      if (isSubElement) {
-        const inheritedProps = Object.entries(rule.properties)
-          .filter(([k]) => INHERITED_CSS_PROPS.has(cssProperty(k)))
-          .map(([k, v]) => `  ${cssProperty(k)}: ${resolveValue(v)};`)
-          .join('\n');
-        if (inheritedProps) {
-          cssLines.push(`${selector} ${INHERITED_TEXT_DESCENDANT_SELECTOR} {\n${inheritedProps}\n}`);
-        }
-      }
-
-      // For self rules with text-align, propagate centering/alignment to block-level
-      // img children via auto margins. Images have display:block (for baseline gap fix),
-      // so text-align on the parent has no effect — they need margin: auto instead.
-      if ((rule.target === 'self' || rule.target.startsWith('self:')) && rule.properties['text-align']) {
-        const align = rule.properties['text-align'];
-        if (align === 'center') {
-          cssLines.push(`${selector} img {\n  margin-left: auto;\n  margin-right: auto;\n}`);
-        } else if (align === 'right') {
-          cssLines.push(`${selector} img {\n  margin-left: auto;\n  margin-right: 0;\n}`);
-        } else if (align === 'left') {
-          cssLines.push(`${selector} img {\n  margin-left: 0;\n  margin-right: auto;\n}`);
-        }
-      }
-    }
+    const query = resolveMediaQuery(rule.media, breakpoints);
+    mediaGroups.set(query, [...(mediaGroups.get(query) ?? []), ...ruleToCSS(rule)]);
+  }
+  for (const [query, lines] of orderMediaGroups(mediaGroups)) {
+    if (lines.length > 0) cssLines.push(`@media ${query} {\n${lines.join('\n\n')}\n}`);
   }
 
   return cssLines.join('\n\n');
@@ -883,8 +1096,15 @@ export function compileStyleGraphToCSS(graph: StyleGraph): string {
 // Immutable mutations
 // ---------------------------------------------------------------------------
 
+/** Whether `rule` is the one addressed by block type, target, label and media. */
+function isRule(rule: StyleRule, blockType: string, target: string, label?: string, media?: string): boolean {
+  return rule.blockType === blockType && rule.target === target
+    && (rule.label ?? undefined) === label && (rule.media ?? undefined) === media;
+}
+
 /**
  * Merge (add or update) a style property in the graph. Returns a new graph.
+ * With `media` (a breakpoint name or query) the property applies only there.
  */
 export function mergeRule(
   graph: StyleGraph,
@@ -893,11 +1113,10 @@ export function mergeRule(
   prop: string,
   value: string,
   label?: string,
+  media?: string,
 ): StyleGraph {
   const rules = [...graph.rules];
-  const idx = rules.findIndex(r =>
-    r.blockType === blockType && r.target === target && (r.label ?? undefined) === label,
-  );
+  const idx = rules.findIndex(r => isRule(r, blockType, target, label, media));
 
   if (idx !== -1) {
     rules[idx] = {
@@ -907,6 +1126,7 @@ export function mergeRule(
   } else {
     const rule: StyleRule = { blockType, target, properties: { [prop]: value } };
     if (label) rule.label = label;
+    if (media) rule.media = media;
     rules.push(rule);
   }
 
@@ -923,9 +1143,10 @@ export function removeRule(
   target: string,
   prop: string,
   label?: string,
+  media?: string,
 ): StyleGraph {
   const rules = graph.rules.map(r => {
-    if (r.blockType === blockType && r.target === target && (r.label ?? undefined) === label) {
+    if (isRule(r, blockType, target, label, media)) {
       const { [prop]: _, ...rest } = r.properties;
       return { ...r, properties: rest };
     }
@@ -944,13 +1165,55 @@ export function getStyleValue(
   target: string,
   prop: string,
   label?: string,
+  media?: string,
 ): string | undefined {
-  const rule = graph.rules.find(r =>
-    r.blockType === blockType && r.target === target && (r.label ?? undefined) === label,
-  );
+  const rule = graph.rules.find(r => isRule(r, blockType, target, label, media));
   return rule?.properties[prop];
 }
 
+/**
+ * Set a document variable, for the default scheme or (with `scheme`) under
+ * `@dark`. Returns a new graph.
+ */
+export function setStyleVariable(
+  graph: StyleGraph,
+  name: string,
+  value: string,
+  scheme?: StyleVariable['scheme'],
+): StyleGraph {
+  const variables = [...graph.variables];
+  const variable: StyleVariable = scheme ? { name, value, scheme } : { name, value };
+  const idx = variables.findIndex(v => v.name === name && v.scheme === scheme);
+  if (idx !== -1) {
+    variables[idx] = variable;
+  } else {
+    variables.push(variable);
+  }
+  return { variables, rules: graph.rules };
+}
+
+/**
+ * Remove a document variable from one scheme. Returns a new graph.
+ */
+export function removeStyleVariable(
+  graph: StyleGraph,
+  name: string,
+  scheme?: StyleVariable['scheme'],
+): StyleGraph {
+  return { variables: graph.variables.filter(v => v.name !== name || v.scheme !== scheme), rules: graph.rules };
+}
+
+/**
+ * Get a document variable's value in one scheme.
+ */
+export function getStyleVariable(
+  graph: StyleGraph,
+  name: string,
+  scheme?: StyleVariable['scheme'],
+): string | undefined {
+  return graph.variables.find(v => v.name === name && v.scheme === scheme)?.value;
+}
+
 /**
  * Merge multiple StyleGraphs. Later graphs override earlier ones.
  */
@@ -961,19 +1224,18 @@ export function mergeStyleGraphs(...graphs: StyleGraph[]): StyleGraph {
 
   for (const graph of graphs) {
     for (const v of graph.variables) {
-      const existingIdx = seenVars.get(v.name);
+      const key = `${v.scheme ?? ''}:${v.name}`;
+      const existingIdx = seenVars.get(key);
       if (existingIdx !== undefined) {
         variables[existingIdx] = v;
       } else {
-        seenVars.set(v.name, variables.length);
+        seenVars.set(key, variables.length);
         variables.push(v);
       }
     }
 
     for (const rule of graph.rules) {
-      const existingIdx = rules.findIndex(
-        r => r.blockType === rule.blockType && r.target === rule.target && (r.label ?? undefined) === (rule.label ?? undefined),
-      );
+      const existingIdx = rules.findIndex(r => isRule(r, rule.blockType, rule.target, rule.label, rule.media));
       if (existingIdx !== -1) {
         rules[existingIdx] = {
           ...rules[existingIdx],
@@ -1000,6 +1262,8 @@ export interface LayeredCSSOptions {
   apiThemeCSS?: string;
   blockContribCSS?: string[];
   diagnosticCSS?: string;
+  /** Variables that breakpoint names in the graph's media rules resolve through. */
+  variables?: Record<string, string>;
 }
 
 /**
@@ -1046,7 +1310,7 @@ export function compileLayeredCSS(
   }
 
   // User layer (from StyleGraph — document --- style blocks)
-  const userCSS = compileStyleGraphToCSS(graph);
+  const userCSS = compileStyleGraphToCSS(graph, options.variables);
   if (userCSS) {
     parts.push(`@layer user {\n${normalizeCssUnits(userCSS)}\n}`);
   }
@@ -1124,9 +1388,8 @@ export function getEmailStyleMap(
   variables: Record<string, string>,
   label?: string,
 ): Record<string, string> {
-  const rule = graph.rules.find(r =>
-    r.blockType === blockType && r.target === target && (r.label ?? undefined) === label,
-  );
+  // Inline styles are the base rule; media rules go to the <style> block (getEmailMediaCSS)
+  const rule = graph.rules.find(r => isRule(r, blockType, target, label));
   if (!rule) return {};
 
   const result: Record<string, string> = {};
@@ -1135,3 +1398,73 @@ export function getEmailStyleMap(
   }
   return result;
 }
+
+/**
+ * The style graph's media rules for an email's `<style>` block. Breakpoints
+ * resolve through `variables`, values are made concrete like inline styles,
+ * and `!important` lets them win over the inlined base rules.
+ */
+export function getEmailMediaCSS(graph: StyleGraph, variables: Record<string, string>): string {
+  const groups = new Map<string, string[]>();
+  for (const rule of graph.rules) {
+    if (!rule.media) continue;
+    const selector = rule.blockType === '__raw' ? rule.target : resolveSelector(rule.target, rule.blockType, rule.label);
+    const props = Object.entries(rule.properties)
+      .map(([k, v]) => `  ${cssProperty(k)}: ${safeCssValue(resolveForEmail(v, variables))} !important;`)
+      .join('\n');
+    if (!props) continue;
+    const query = resolveMediaQuery(rule.media, variables);
+    groups.set(query, [...(groups.get(query) ?? []), `${selector} {\n${props}\n}`]);
+  }
+  return orderMediaGroups(groups).map(([query, rules]) => `@media ${query} {\n${rules.join('\n')}\n}`).join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Email dark mode
+// ---------------------------------------------------------------------------
+
+/** Head tags telling email clients the message is designed for both color schemes. */
+export const EMAIL_COLOR_SCHEME_META = '<meta name="color-scheme" content="light dark">\n<meta name="supported-color-schemes" content="light dark">';
+
+const BACKGROUND_PROPS = new Set(['background', 'background-color', 'background-image']);
+
+/**
+ * Dark-mode CSS for an email's `<style>` tag. Email styles are inlined with
+ * light values, so every property whose value changes under `darkVariables`
+ * gets an `!important` override — inside `prefers-color-scheme: dark` for
+ * Apple Mail and friends, and under Outlook.com's `[data-ogsc]` (text) and
+ * `[data-ogsb]` (background) markers. Empty when nothing changes.
+ */
+export function getEmailDarkModeCSS(
+  graph: StyleGraph,
+  variables: Record<string, string>,
+  darkVariables: Record<string, string> | undefined,
+): string {
+  if (!darkVariables) return '';
+  const dark = { ...variables, ...darkVariables };
+  const overrides: Array<{ selector: string; prop: string; value: string }> = [];
+  if (darkVariables.bg) overrides.push({ selector: '.mkly-document', prop: 'background-color', value: darkVariables.bg });
+  if (darkVariables.text) overrides.push({ selector: '.mkly-document', prop: 'color', value: darkVariables.text });
+  for (const rule of graph.rules) {
+    if (rule.media) continue;
+    const selector = rule.blockType === '__raw' ? rule.target : resolveSelector(rule.target, rule.blockType, rule.label);
+    for (const [prop, val] of Object.entries(rule.properties)) {
+      const value = resolveForEmail(val, dark);
+      if (value !== resolveForEmail(val, variables)) overrides.push({ selector, prop: cssProperty(prop), value });
+    }
+  }
+  if (overrides.length === 0) return '';
+
+  const block = (prefix: string, list: typeof overrides) => list
+    .map(o => `${prefix}${o.selector} {\n  ${o.prop}: ${safeCssValue(o.value)} !important;\n}`)
+    .join('\n');
+  const text = overrides.filter(o => !BACKGROUND_PROPS.has(o.prop));
+  const background = overrides.filter(o => BACKGROUND_PROPS.has(o.prop));
+  const parts = [
+    ':root {\n  color-scheme: light dark;\n  supported-color-schemes: light dark;\n}',
+    `@media (prefers-color-scheme: dark) {\n${block('', overrides)}\n}`,
+  ];
+  if (text.length > 0) parts.push(block('[data-ogsc] ', text));
+  if (background.length > 0) parts.push(block('[data-ogsb] ', background));
+  return parts.join('\n');
+}
@@ -56,6 +56,8 @@ export const VARIABLE_TO_CSS: Record<string, string> = {
   bgSubtle: '--mkly-bg-subtle',
   gapScale: '--mkly-gap-scale',
   lineHeightScale: '--mkly-line-height-scale',
+  mobile: '--mkly-mobile',
+  tablet: '--mkly-tablet',
 };
 
 export function resolveVariableName(key: string): string {
@@ -80,9 +82,12 @@ export const STYLE_VARIABLES: StyleVariable[] = [
   { name: 'bgSubtle', cssVar: '--mkly-bg-subtle', description: 'Subtle section background color' },
   { name: 'gapScale', cssVar: '--mkly-gap-scale', description: 'Scale multiplier for gaps between blocks (default 1)' },
   { name: 'lineHeightScale', cssVar: '--mkly-line-height-scale', description: 'Scale multiplier for body text line-height (default 1)' },
+  { name: 'mobile', cssVar: '--mkly-mobile', description: 'Max width of @mobile style rules (default 480px)' },
+  { name: 'tablet', cssVar: '--mkly-tablet', description: 'Max width of @tablet style rules (default 768px)' },
 ];
 
 import { toKebab } from './utils';
+import type { MklyTheme } from './types';
 
 function stripComment(value: string): string {
   return value.replace(INLINE_COMMENT_RE, '').trim();
@@ -360,14 +365,42 @@ export function mergeVariables(...sources: Array<Record<string, string> | undefi
 }
 
 /**
- * Convert a theme config object to CSS custom property declarations.
+ * Wrap declarations so they apply in dark mode: when the reader's system
+ * prefers it (unless a `data-mkly-scheme="light"` element opts out) and
+ * whenever the document or an ancestor sets `data-mkly-scheme="dark"`.
  */
-export function themeToCSS(theme: Record<string, string>): string {
-  const overrides: string[] = [];
-  for (const [key, value] of Object.entries(theme)) {
+export function darkSchemeCSS(declarations: string[]): string {
+  if (declarations.length === 0) return '';
+  const body = declarations.join('\n');
+  return `@media (prefers-color-scheme: dark) {
+.mkly-document:not([data-mkly-scheme=light], [data-mkly-scheme=light] *) {
+${body}
+}
+}
+.mkly-document[data-mkly-scheme=dark],
+[data-mkly-scheme=dark] .mkly-document {
+${body}
+}`;
+}
+
+function variableDeclarations(variables: Record<string, string>): string[] {
+  const declarations: string[] = [];
+  for (const [key, value] of Object.entries(variables)) {
     if (!value) continue;
-    overrides.push(`  ${resolveVariableName(key)}: ${value};`);
+    declarations.push(`  ${resolveVariableName(key)}: ${value};`);
   }
-  if (overrides.length === 0) return '';
-  return `.mkly-document {\n${overrides.join('\n')}\n}`;
+  return declarations;
+}
+
+/**
+ * Convert a theme config object to CSS custom property declarations,
+ * followed by the dark-scheme overrides from `variants.dark`.
+ */
+export function themeToCSS(theme: Record<string, string>, variants?: MklyTheme['variants']): string {
+  const overrides = variableDeclarations(theme);
+  const parts: string[] = [];
+  if (overrides.length > 0) parts.push(`.mkly-document {\n${overrides.join('\n')}\n}`);
+  const dark = darkSchemeCSS(variableDeclarations(variants?.dark ?? {}));
+  if (dark) parts.push(dark);
+  return parts.join('\n');
 }
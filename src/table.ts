@@ -0,0 +1,100 @@
+import { splitTableRow, tableAlignment } from './markdown';
+
+export type TableAlign = 'left' | 'center' | 'right';
+
+export interface TableData {
+  /** Header cells, or undefined for a table without a header row. */
+  head?: string[];
+  rows: string[][];
+  /** Alignment per column; null leaves the column to the stylesheet. */
+  align: Array<TableAlign | null>;
+}
+
+export interface TableOptions {
+  /** `markdown` (a GFM pipe table, the default) or `csv`. */
+  format?: string;
+  /** Whether the first row is the header. Defaults to the input: a delimiter row in markdown, always for CSV. */
+  header?: boolean;
+  /** Comma-separated alignment per column (`left,,right`), overriding the delimiter row. */
+  align?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Input formats
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse CSV: comma-separated fields, double-quoted when they hold commas,
+ * quotes or line breaks, with `""` for a quote inside quotes. Blank lines are
+ * skipped and unquoted fields are trimmed.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let inQuotes = false;
+
+  const endField = () => {
+    row.push(quoted ? field : field.trim());
+    field = '';
+    quoted = false;
+  };
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field.trim() === '') {
+      field = '';
+      quoted = inQuotes = true;
+    } else if (ch === ',') {
+      endField();
+    } else if (ch === '\n') {
+      endRow();
+    } else if (ch !== '\r') {
+      field += ch;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+function parsePipeTable(text: string): { rows: string[][]; align: Array<TableAlign | null> | null } {
+  const lines = text.split('\n').filter(line => line.trim() !== '');
+  const align = lines.length > 1 ? tableAlignment(lines[1]) : null;
+  const body = align ? [lines[0], ...lines.slice(2)] : lines;
+  return { rows: body.map(splitTableRow), align };
+}
+
+/** Parse a `core/table` body into a header, rows padded to the same width, and column alignment. */
+export function parseTable(content: string, options: TableOptions = {}): TableData {
+  const csv = options.format === 'csv';
+  const parsed = csv ? { rows: parseCsv(content), align: null } : parsePipeTable(content);
+  const rows = parsed.rows;
+  const hasHeader = options.header ?? (csv || parsed.align !== null);
+  const head = hasHeader ? rows.shift() : undefined;
+
+  const width = Math.max(head?.length ?? 0, ...rows.map(r => r.length));
+  const pad = (cells: string[]) => Array.from({ length: width }, (_, c) => cells[c] ?? '');
+  const overrides = options.align?.split(',').map(a => a.trim().toLowerCase()) ?? [];
+  const align = Array.from({ length: width }, (_, c) => {
+    const override = overrides[c];
+    if (override === 'left' || override === 'center' || override === 'right') return override;
+    return parsed.align?.[c] ?? null;
+  });
+
+  return { ...(head ? { head: pad(head) } : {}), rows: rows.map(pad), align };
+}
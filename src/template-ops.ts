@@ -1,28 +1,33 @@
 import { parse } from './parser';
+import { serializeProperty, escapeBlockBoundaries } from './tokenizer';
 import type { MklyDocument, MklyBlock, BlockDefinition } from './types';
 import type { MklyKit } from './kit';
+import { containerBlockTypes } from './kit';
+import { CONTROL_BLOCKS, REPEAT_BLOCK } from './expand';
 
 // ---------------------------------------------------------------------------
 // AST → mkly source serializer
 // ---------------------------------------------------------------------------
 
-function serializeBlock(block: MklyBlock, indent: number): string {
+function serializeBlock(block: MklyBlock, indent: number, containers: Set<string>): string {
   const lines: string[] = [];
   const prefix = '  '.repeat(indent);
-  const isContainer = block.children.length > 0;
+  // Known containers keep their closer even when stripped of children
+  const isContainer = block.children.length > 0 || containers.has(block.blockType) || CONTROL_BLOCKS.has(block.blockType);
+  const idSuffix = block.id ? `#${block.id}` : '';
   const labelSuffix = block.label ? `: ${block.label}` : '';
 
-  lines.push(`${prefix}--- ${block.blockType}${labelSuffix}`);
+  lines.push(`${prefix}--- ${block.blockType}${idSuffix}${labelSuffix}`);
 
   // Properties
   for (const [key, value] of Object.entries(block.properties)) {
-    lines.push(`${prefix}${key}: ${value}`);
+    lines.push(serializeProperty(key, value, prefix));
   }
 
   // Content body
   if (block.content) {
     lines.push('');
-    for (const line of block.content.split('\n')) {
+    for (const line of escapeBlockBoundaries(block.content).split('\n')) {
       lines.push(prefix + line);
     }
   }
@@ -30,19 +35,19 @@ function serializeBlock(block: MklyBlock, indent: number): string {
   // Children
   for (const child of block.children) {
     lines.push('');
-    lines.push(serializeBlock(child, indent));
+    lines.push(serializeBlock(child, indent, containers));
   }
 
   // Closing tag for containers
   if (isContainer) {
     lines.push('');
-    lines.push(`${prefix}--- /${block.blockType}`);
+    lines.push(`${prefix}--- /${block.blockType}${idSuffix}`);
   }
 
   return lines.join('\n');
 }
 
-function serializeDocument(doc: MklyDocument): string {
+function serializeDocument(doc: MklyDocument, containers: Set<string> = new Set()): string {
   const sections: string[] = [];
 
   // Canonical order: uses → defines → themes → presets → meta → styles → blocks
@@ -57,11 +62,17 @@ function serializeDocument(doc: MklyDocument): string {
     const lines = [`--- define-theme: ${theme.name}`];
     if (theme.variables) {
       for (const [key, value] of Object.entries(theme.variables)) {
-        lines.push(`${key}: ${value}`);
+        lines.push(serializeProperty(key, value));
+      }
+    }
+    if (theme.variants?.dark) {
+      lines.push('@dark');
+      for (const [key, value] of Object.entries(theme.variants.dark)) {
+        lines.push(serializeProperty(key, value, '  '));
       }
     }
     if (theme.css) {
-      if (theme.variables && Object.keys(theme.variables).length > 0) {
+      if (lines.length > 1) {
         lines.push('');
       }
       lines.push(theme.css);
@@ -88,7 +99,7 @@ function serializeDocument(doc: MklyDocument): string {
   if (Object.keys(doc.meta).length > 0) {
     const metaLines = ['--- meta'];
     for (const [key, value] of Object.entries(doc.meta)) {
-      metaLines.push(`${key}: ${value}`);
+      metaLines.push(serializeProperty(key, value));
     }
     sections.push(metaLines.join('\n'));
   }
@@ -103,7 +114,7 @@ function serializeDocument(doc: MklyDocument): string {
 
   // Content blocks
   for (const block of doc.blocks) {
-    sections.push(serializeBlock(block, 0));
+    sections.push(serializeBlock(block, 0, containers));
   }
 
   return sections.join('\n\n') + '\n';
@@ -131,6 +142,8 @@ function buildBlockDefMap(kits: Record<string, MklyKit>): BlockDefMap {
 // ---------------------------------------------------------------------------
 
 function stripBlock(block: MklyBlock, defs: BlockDefMap): MklyBlock {
+  // Blocks repeated per data element are templates, not editorial content
+  if (block.blockType === REPEAT_BLOCK) return block;
   const def = defs.get(block.blockType);
   const hints = def?.contentHints;
 
@@ -168,13 +181,14 @@ function stripBlock(block: MklyBlock, defs: BlockDefMap): MklyBlock {
 }
 
 export function stripContent(source: string, kits: Record<string, MklyKit>): string {
-  const doc = parse(source);
+  const containers = containerBlockTypes(kits);
+  const doc = parse(source, { containerBlocks: containers });
   const defs = buildBlockDefMap(kits);
   const strippedDoc: MklyDocument = {
     ...doc,
     blocks: doc.blocks.map(b => stripBlock(b, defs)),
   };
-  return serializeDocument(strippedDoc);
+  return serializeDocument(strippedDoc, containers);
 }
 
 // ---------------------------------------------------------------------------
@@ -328,6 +342,7 @@ function makeDummyBlock(blockType: string, props: Record<string, string>, body:
 }
 
 function injectBlock(block: MklyBlock, defs: BlockDefMap): MklyBlock {
+  if (block.blockType === REPEAT_BLOCK) return block;
   const def = defs.get(block.blockType);
   const hints = def?.contentHints;
   if (!hints) {
@@ -377,13 +392,14 @@ function injectBlock(block: MklyBlock, defs: BlockDefMap): MklyBlock {
 }
 
 export function injectSampleContent(source: string, kits: Record<string, MklyKit>): string {
-  const doc = parse(source);
+  const containers = containerBlockTypes(kits);
+  const doc = parse(source, { containerBlocks: containers });
   const defs = buildBlockDefMap(kits);
   const injectedDoc: MklyDocument = {
     ...doc,
     blocks: doc.blocks.map(b => injectBlock(b, defs)),
   };
-  return serializeDocument(injectedDoc);
+  return serializeDocument(injectedDoc, containers);
 }
 
 // Re-export the serializer for testing
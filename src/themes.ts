@@ -132,6 +132,20 @@ export const CORE_THEMES: MklyTheme[] = [
       bgSubtle: '#000000',
       buttonText: '#000000',
       codeBg: '#111111',
+      hlComment: '#8b949e',
+      hlString: '#a5d6ff',
+      hlNumber: '#79c0ff',
+      hlKeyword: '#ff7b72',
+      hlLiteral: '#79c0ff',
+      hlFunction: '#d2a8ff',
+      hlType: '#ffa657',
+      hlTag: '#7ee787',
+      hlAttribute: '#d2a8ff',
+      hlProperty: '#79c0ff',
+      hlVariable: '#ffa657',
+      hlPunctuation: '#c9d1d9',
+      hlLine: 'rgba(56,139,253,0.15)',
+      hlLineNumber: '#6e7681',
       radius: '0.5rem',
       fontBody: "-apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif",
       fontHeading: "-apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif",
@@ -1,50 +1,205 @@
-import type { TokenizedLine } from './types';
+import type { SourceRange, TokenizedLine } from './types';
 
-const BLOCK_END_RE = /^---\s+\/([\w-]+(?:\/[\w-]+)?)\s*$/;
-const BLOCK_START_RE = /^---\s+([\w-]+(?:\/[\w-]+)?)(?::\s*(.+))?\s*$/;
-const PROPERTY_RE = /^(@[\w.#:,/-]+|[\w]+):\s+(.*)$/;
+const BLOCK_END_RE = /^---\s+\/([\w-]+(?:\/[\w-]+)?)(?:#([\w-]+))?\s*$/d;
+const BLOCK_START_RE = /^---\s+([\w-]+(?:\/[\w-]+)?)(?:#([\w-]+))?(?::\s*(.+))?\s*$/d;
+const PROPERTY_RE = /^(@[\w.#:,/-]+|[\w]+):\s+(.*)$/d;
 const COMMENT_RE = /^\/\//;
 
 export function tokenize(source: string): TokenizedLine[] {
-  return source.split('\n').map((line, i) => classifyLine(line, i + 1));
+  const lines = source.split('\n');
+  const tokens: TokenizedLine[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const token = classifyLine(lines[i], i + 1);
+    tokens.push(token);
+    if (token.type === 'property') i = readBlockScalar(lines, i, token, tokens);
+  }
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Block scalars — `key: |` keeps line breaks, `key: >` folds lines into one
+// ---------------------------------------------------------------------------
+
+const SCALAR_RE = /:\s+([|>])\s*$/;
+
+function leadingSpace(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * If `token` opens a block scalar, fold the indented lines after it into its
+ * value, push them as `continuation` tokens and return the index of the last
+ * one. A `|` or `>` with nothing indented below it stays a literal value.
+ */
+function readBlockScalar(
+  lines: string[],
+  index: number,
+  token: Extract<TokenizedLine, { type: 'property' }>,
+  tokens: TokenizedLine[],
+): number {
+  const indicator = token.raw.match(SCALAR_RE)?.[1] as '|' | '>' | undefined;
+  if (!indicator) return index;
+
+  // The value runs while lines are indented deeper than the key; blank lines
+  // only belong to it when more indented text follows.
+  const keyIndent = leadingSpace(token.raw);
+  let last = index;
+  for (let j = index + 1; j < lines.length; j++) {
+    const trimmed = lines[j].trim();
+    if (!trimmed) continue;
+    if (leadingSpace(lines[j]) <= keyIndent || BLOCK_START_RE.test(trimmed) || BLOCK_END_RE.test(trimmed)) break;
+    last = j;
+  }
+  if (last === index) return index;
+
+  const body = lines.slice(index + 1, last + 1).map(line => line.trimEnd());
+  const indent = Math.min(...body.filter(Boolean).map(leadingSpace));
+  const text = body.map(line => unescapeBoundary(line.slice(indent)));
+
+  token.value = indicator === '|' ? text.join('\n') : foldLines(text);
+  token.scalar = indicator;
+  token.valueRange = {
+    start: { line: index + 2, column: leadingSpace(lines[index + 1]) + 1 },
+    end: { line: last + 1, column: body[body.length - 1].length + 1 },
+  };
+  for (let j = index + 1; j <= last; j++) {
+    const start = body[j - index - 1] ? leadingSpace(lines[j]) : 0;
+    const end = body[j - index - 1] ? body[j - index - 1].length : lines[j].length;
+    tokens.push({ type: 'continuation', content: lines[j], line: j + 1, range: span(j + 1, start, end) });
+  }
+  return last;
+}
+
+/** Join lines with spaces; each blank line becomes a line break. */
+function foldLines(lines: string[]): string {
+  let value = '';
+  let pendingSpace = false;
+  for (const line of lines) {
+    if (!line) {
+      value += '\n';
+      pendingSpace = false;
+    } else {
+      value += (pendingSpace ? ' ' : '') + line;
+      pendingSpace = true;
+    }
+  }
+  return value;
+}
+
+/**
+ * Serialize a property as `key: value`, switching to a `key: |` block scalar
+ * when the value spans several lines.
+ */
+export function serializeProperty(key: string, value: string, indent = ''): string {
+  if (!value.includes('\n')) return `${indent}${key}: ${value}`;
+  const body = escapeBlockBoundaries(value).split('\n').map(line => (line.trim() ? `${indent}  ${line.trimEnd()}` : ''));
+  return [`${indent}${key}: |`, ...body].join('\n');
+}
+
+function span(line: number, startIdx: number, endIdx: number): SourceRange {
+  return { start: { line, column: startIdx + 1 }, end: { line, column: endIdx + 1 } };
 }
 
 function classifyLine(line: string, lineNumber: number): TokenizedLine {
   const trimmed = line.trim();
 
   if (!trimmed) {
-    return { type: 'blank', line: lineNumber };
+    return { type: 'blank', line: lineNumber, range: span(lineNumber, 0, line.length) };
   }
 
+  // Offset of the trimmed text within the line — regex indices are relative to `trimmed`
+  const indent = line.length - line.trimStart().length;
+  const range = span(lineNumber, indent, indent + trimmed.length);
+  const group = (m: RegExpMatchArray, idx: number): SourceRange => {
+    const [start, end] = m.indices![idx]!;
+    return span(lineNumber, indent + start, indent + end);
+  };
+
   if (COMMENT_RE.test(trimmed)) {
-    return { type: 'comment', content: trimmed.slice(2).trim(), line: lineNumber };
+    return { type: 'comment', content: trimmed.slice(2).trim(), line: lineNumber, range };
   }
 
   // Block end must be checked before start (--- /type vs --- type)
   const endMatch = trimmed.match(BLOCK_END_RE);
   if (endMatch) {
-    return { type: 'block_end', blockType: endMatch[1], line: lineNumber };
+    return {
+      type: 'block_end',
+      blockType: endMatch[1],
+      line: lineNumber,
+      range,
+      typeRange: group(endMatch, 1),
+      ...(endMatch[2] ? { id: endMatch[2], idRange: group(endMatch, 2) } : {}),
+    };
   }
 
   const startMatch = trimmed.match(BLOCK_START_RE);
   if (startMatch) {
+    const label = startMatch[3]?.trim();
     return {
       type: 'block_start',
       blockType: startMatch[1],
-      label: startMatch[2]?.trim(),
+      label,
       line: lineNumber,
+      range,
+      typeRange: group(startMatch, 1),
+      ...(startMatch[2] ? { id: startMatch[2], idRange: group(startMatch, 2) } : {}),
+      ...(label ? { labelRange: group(startMatch, 3) } : {}),
     };
   }
 
   const propMatch = trimmed.match(PROPERTY_RE);
   if (propMatch) {
     let value = propMatch[2];
+    let valueRange = group(propMatch, 2);
     if (value.startsWith('"') && value.endsWith('"')) {
       value = value.slice(1, -1);
+      valueRange = {
+        start: { line: lineNumber, column: valueRange.start.column + 1 },
+        end: { line: lineNumber, column: valueRange.end.column - 1 },
+      };
     }
-    return { type: 'property', key: propMatch[1], value, raw: line, line: lineNumber };
+    return { type: 'property', key: propMatch[1], value, raw: line, line: lineNumber, range, keyRange: group(propMatch, 1), valueRange };
+  }
+
+  // `\--- type` is text — drop one backslash so `\\---` can still be written literally
+  if (isEscapedBoundary(trimmed)) {
+    return { type: 'text', content: unescapeBoundary(line), line: lineNumber, range };
   }
 
   // Preserve original indentation for text lines
-  return { type: 'text', content: line, line: lineNumber };
+  return { type: 'text', content: line, line: lineNumber, range };
+}
+
+// ---------------------------------------------------------------------------
+// Escaped block boundaries — content lines that look like `--- type`
+// ---------------------------------------------------------------------------
+
+function isBoundary(trimmed: string): boolean {
+  return BLOCK_START_RE.test(trimmed) || BLOCK_END_RE.test(trimmed);
+}
+
+function isEscapedBoundary(trimmed: string): boolean {
+  return trimmed.startsWith('\\') && isBoundary(trimmed.replace(/^\\+/, ''));
+}
+
+function unescapeBoundary(line: string): string {
+  if (!isEscapedBoundary(line.trim())) return line;
+  const indent = line.length - line.trimStart().length;
+  return line.slice(0, indent) + line.slice(indent + 1);
+}
+
+/**
+ * Escape content lines that would otherwise be read as block boundaries, so
+ * `--- core/text` in a code sample survives a round-trip through the parser.
+ */
+export function escapeBlockBoundaries(content: string): string {
+  return content
+    .split('\n')
+    .map(line => {
+      const trimmed = line.trim();
+      if (!isBoundary(trimmed) && !isEscapedBoundary(trimmed)) return line;
+      const indent = line.length - line.trimStart().length;
+      return `${line.slice(0, indent)}\\${line.slice(indent)}`;
+    })
+    .join('\n');
 }
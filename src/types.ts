@@ -1,4 +1,5 @@
 import type { StyleGraph } from './style-graph';
+import type { EmbedProvider } from './embed';
 
 export interface SourcePosition {
   line: number;
@@ -10,14 +11,23 @@ export interface SourceRange {
   end: SourcePosition;
 }
 
-// Tokenizer output — classified lines
+/** Key and value locations of a `key: value` line. */
+export interface PropertyRange {
+  key: SourceRange;
+  value: SourceRange;
+}
+
+// Tokenizer output — classified lines. Columns are 1-based; `range` covers the
+// line without surrounding whitespace and `end.column` is exclusive.
 export type TokenizedLine =
-  | { type: 'block_start'; blockType: string; label?: string; line: number }
-  | { type: 'block_end'; blockType: string; line: number }
-  | { type: 'property'; key: string; value: string; raw: string; line: number }
-  | { type: 'text'; content: string; line: number }
-  | { type: 'blank'; line: number }
-  | { type: 'comment'; content: string; line: number };
+  | { type: 'block_start'; blockType: string; id?: string; label?: string; line: number; range: SourceRange; typeRange: SourceRange; idRange?: SourceRange; labelRange?: SourceRange }
+  | { type: 'block_end'; blockType: string; id?: string; line: number; range: SourceRange; typeRange: SourceRange; idRange?: SourceRange }
+  | { type: 'property'; key: string; value: string; raw: string; line: number; range: SourceRange; keyRange: SourceRange; valueRange: SourceRange; scalar?: '|' | '>' }
+  /** An indented line belonging to the multi-line value of the preceding `key: |` or `key: >` property. */
+  | { type: 'continuation'; content: string; line: number; range: SourceRange }
+  | { type: 'text'; content: string; line: number; range: SourceRange }
+  | { type: 'blank'; line: number; range: SourceRange }
+  | { type: 'comment'; content: string; line: number; range: SourceRange };
 
 // Themes
 export interface MklyTheme {
@@ -26,6 +36,8 @@ export interface MklyTheme {
   displayName?: string;
   description?: string;
   variables?: Record<string, string>;
+  /** Variables that replace `variables` under a color scheme — `dark` applies with `prefers-color-scheme: dark` or `data-mkly-scheme="dark"`. */
+  variants?: { dark?: Record<string, string> };
   /** Raw CSS injected as-is (for real CSS selectors that parseMklyStyle can't handle). */
   rawCss?: string;
   /** mkly indented-syntax CSS parsed through parseMklyStyle. */
@@ -76,6 +88,20 @@ export interface MklyDocument {
   inlinePresets: MklyPreset[];
   comments: MklyComment[];
   errors: ParseError[];
+  /** Source locations of directive entries, set by `parse()`. */
+  ranges?: DocumentRanges;
+}
+
+/** Where document-level declarations came from. Arrays run parallel to the `MklyDocument` fields. */
+export interface DocumentRanges {
+  uses: SourceRange[];
+  themes: SourceRange[];
+  presets: SourceRange[];
+  meta: Record<string, PropertyRange>;
+  /** Source line of every line of the matching `styles` entry. */
+  styleLines: number[][];
+  /** Include id of each `styles` entry from an included document, whose `styleLines` are lines of that document. */
+  styleFiles: Array<string | undefined>;
 }
 
 export interface MklyBlock {
@@ -85,8 +111,24 @@ export interface MklyBlock {
   children: MklyBlock[];
   position: SourceRange;
   label?: string;
+  /**
+   * From `--- type#id` — unique per document. Rendered as the element's HTML
+   * `id`, the target of `[text](#id)` links, and lets a closer name the
+   * container it ends (`--- /type#id`).
+   */
+  id?: string;
+  /** Include id of the document this block came from; its positions are lines of that document. */
+  source?: string;
+  /** Source line of each line of `content`, set by `parse()` with or without `sourceMap` — diagnostics point into content with it. */
+  contentSourceLines?: number[];
+  /** The same lines, only with `sourceMap`: markdown renders them as `data-mkly-line`. */
   contentLineMap?: number[];
   propertyLines?: Record<string, number>;
+  /** The `--- type: label` header line, set by `parse()`. */
+  headerRange?: SourceRange;
+  labelRange?: SourceRange;
+  idRange?: SourceRange;
+  propertyRanges?: Record<string, PropertyRange>;
 }
 
 export interface ParseError {
@@ -94,6 +136,10 @@ export interface ParseError {
   line: number;
   severity: 'error' | 'warning';
   range?: SourceRange;
+  /** The other end of a container mismatch — the opener when `range` points at a closer. */
+  relatedRange?: SourceRange;
+  /** Include id when the error is in an included document rather than the one parsed. */
+  file?: string;
 }
 
 // Compile-time errors produced by block validation
@@ -104,9 +150,15 @@ export interface CompileError {
   property?: string;
   severity: 'error' | 'warning';
   range?: SourceRange;
+  /** Include id when the block is from an included document. */
+  file?: string;
 }
 
 export interface SourceMapEntry {
+  /** Include id when the lines are in an included document. */
+  file?: string;
+  /** The block's `--- type#id`, which survives edits that shift its lines. */
+  id?: string;
   sourceLine: number;
   sourceEndLine: number;
   blockType: string;
@@ -123,6 +175,22 @@ export interface CompileContext {
   extraStyles: Set<string>;
   /** StyleGraph from --- style blocks, available for plugins (e.g. email inlining). */
   styleGraph?: StyleGraph;
+  /** Dark-scheme overrides of `variables` (theme `variants.dark`, then `@dark` style variables); unset when the document has none. */
+  darkVariables?: Record<string, string>;
+  /** `core/embed` providers from every kit in use, tried in order. */
+  embedProviders?: EmbedProvider[];
+  /** `CompileOptions.images` — blocks reach it through `imageTag`. */
+  images?: ImageResolver;
+  /** The document's `version`; block content renders by its markdown rules. */
+  version?: number;
+  /** Kits' `markdown` settings, then `CompileOptions.markdown` — blocks reach them through `markdownOptions`. */
+  markdown?: MarkdownSettings;
+}
+
+/** Document-wide markdown settings for block content. */
+export interface MarkdownSettings {
+  /** Render every block's markdown in the email-safe subset (see `MarkdownOptions.strict`). */
+  strict?: boolean;
 }
 
 // Block registry
@@ -147,6 +215,7 @@ export interface BlockDefinition {
   /** Human-readable display name for editor UI. Falls back to BlockDocs.displayName or auto Title Case. */
   displayName?: string;
   contentMode: ContentMode;
+  /** Child blocks nest inside; compile places them with `{{children}}`, or one by one with `{{child:0}}`, `{{child:1}}`… */
   isContainer?: boolean;
   since?: number;
   targets?: Record<string, TargetInfo>;
@@ -162,21 +231,73 @@ export interface BlockDefinition {
   compile: (block: MklyBlock, ctx: CompileContext) => string;
 }
 
+/**
+ * How `CompileResult.html` is assembled from the separated output parts.
+ * - `legacy`: `<style>`, scripts and meta tags inlined ahead of the body (default)
+ * - `fragment`: only the body (`<main class="mkly-document">…</main>`)
+ * - `document`: a complete HTML page with the CSS and head tags in `<head>`
+ */
+export type WrapMode = 'fragment' | 'document' | 'legacy';
+
+// Images
+export interface ImageContext {
+  block: MklyBlock;
+  /** Element the image renders as, e.g. `img` or `logo`. */
+  target: string;
+  /** Display width in px when the block sets one. */
+  width?: number;
+  /** Above the fold (hero, header logo) — not lazy-loaded. */
+  eager?: boolean;
+}
+
+export interface ResolvedImage {
+  src: string;
+  srcset?: string;
+  sizes?: string;
+  /** Intrinsic size; emitted as `width`/`height` so the page reserves the space. */
+  width?: number;
+  height?: number;
+  /** Shown until the image loads: a tiny blurred image URL (LQIP) or a CSS color. */
+  placeholder?: string;
+}
+
+/** Rewrites an image URL the blocks emit. Returning undefined keeps the URL as written. */
+export type ImageResolver = (url: string, context: ImageContext) => ResolvedImage | undefined;
+
 // Compiler options
 export interface CompileOptions {
   variables?: Record<string, string>;
+  /** Values for `{{path}}` references in content and properties (`{{meta.*}}` reads the document meta). */
+  data?: Record<string, unknown>;
   maxWidth?: number;
   sourceMap?: boolean;
+  wrap?: WrapMode;
+  /** Resolves every image URL the core blocks emit, e.g. to a CDN with `srcset` (see `createImageResolver`). */
+  images?: ImageResolver;
+  /** Overrides the kits' `markdown` settings, e.g. `{ strict: true }` when the output goes to email. */
+  markdown?: MarkdownSettings;
 }
 
 // Convenience function options
 export interface MklyOptions extends CompileOptions {
   presets?: BlockDefinition[][];
+  /** Source of the document named by `--- include: id` (see `ParseOptions.resolveInclude`). */
+  resolveInclude?: (id: string) => string;
 }
 
 // Compiler output
 export interface CompileResult {
+  /** Assembled output, shaped by `CompileOptions.wrap`. */
   html: string;
+  /** The rendered document element (`<main class="mkly-document">…</main>`). */
+  body: string;
+  /** Layered document CSS without a `<style>` wrapper. */
+  css: string;
+  /** Tags that belong in `<head>`: `mkly:*` meta tags and the source-map sync script. */
+  headTags: string;
+  /** `text/mkly-style` / `text/mkly-defines` scripts that let `htmlToMkly` restore the source. */
+  roundTripData: string;
+  meta: Record<string, string>;
   errors: Array<ParseError | CompileError>;
   sourceMap?: SourceMapEntry[];
   styleGraph?: StyleGraph;
@@ -203,11 +324,20 @@ export interface PropertyDoc {
   example?: string;
 }
 
+/** A head tag a meta field maps to when compiling with `wrap: 'document'`. */
+export type MetaHeadTag =
+  | { type: 'title' }
+  | { type: 'meta'; name: string }
+  | { type: 'property'; property: string }
+  | { type: 'link'; rel: string };
+
 export interface MetaProperty {
   name: string;
   description: string;
   required?: boolean;
   example?: string;
+  /** Head tags this field produces in document output. Later kits override earlier ones. */
+  head?: MetaHeadTag[];
 }
 
 /**
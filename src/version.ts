@@ -36,6 +36,17 @@ export function getAvailableFeatures(version: number): string[] {
       'kit-system',
       'meta-block',
     ],
+    2: [
+      'core-blocks',
+      'newsletter-kit',
+      'style-v2',
+      'inline-styles',
+      'markdown-content',
+      'commonmark-paragraphs',
+      'container-blocks',
+      'kit-system',
+      'meta-block',
+    ],
   };
   return features[version] ?? [];
 }
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  mkly, parse, formatMkly, reverseWeb, CORE_KIT, themeToCSS,
+  parseStyleGraph, serializeStyleGraph, compileStyleGraphToCSS, mergeStyleGraphs,
+  setStyleVariable, removeStyleVariable, getStyleVariable, getEmailDarkModeCSS,
+} from '../src/index';
+
+const KITS = { core: CORE_KIT };
+
+const DARK_SELECTORS = '@media (prefers-color-scheme: dark) {\n'
+  + '.mkly-document:not([data-mkly-scheme=light], [data-mkly-scheme=light] *) {\n  --mkly-bg: #111;\n}\n}\n'
+  + '.mkly-document[data-mkly-scheme=dark],\n[data-mkly-scheme=dark] .mkly-document {\n  --mkly-bg: #111;\n}';
+
+const DOC = `--- use: core
+--- define-theme: ocean
+accent: #0a6
+bg: #fff
+@dark
+  accent: #5fd
+  bg: #111
+
+--- theme: ocean
+
+--- style
+text: #222
+@dark
+  text: #eee
+
+--- core/text
+
+Hello`;
+
+describe('themeToCSS', () => {
+  it('should follow the light variables with dark-scheme overrides', () => {
+    expect(themeToCSS({ bg: '#fff' }, { dark: { bg: '#111' } })).toBe(`.mkly-document {\n  --mkly-bg: #fff;\n}\n${DARK_SELECTORS}`);
+    expect(themeToCSS({}, { dark: { bg: '#111' } })).toBe(DARK_SELECTORS);
+    expect(themeToCSS({ bg: '#fff' })).toBe('.mkly-document {\n  --mkly-bg: #fff;\n}');
+  });
+});
+
+describe('define-theme @dark', () => {
+  it('should parse the indented variables under @dark as the dark variant', () => {
+    const theme = parse(DOC).inlineThemes[0];
+    expect(theme.variables).toEqual({ accent: '#0a6', bg: '#fff' });
+    expect(theme.variants).toEqual({ dark: { accent: '#5fd', bg: '#111' } });
+    expect(theme.css).toBeUndefined();
+  });
+
+  it('should return to light variables after an unindented one', () => {
+    const theme = parse('--- define-theme: t\n@dark\n  bg: #111\ntext: #000').inlineThemes[0];
+    expect(theme.variables).toEqual({ text: '#000' });
+    expect(theme.variants).toEqual({ dark: { bg: '#111' } });
+  });
+
+  it('should survive formatting and reverse conversion', () => {
+    expect(formatMkly(DOC)).toContain('--- define-theme: ocean\naccent: #0a6\nbg: #fff\n@dark\n  accent: #5fd\n  bg: #111\n');
+    expect(formatMkly('--- define-theme: t\n@dark\n  bg: #111\ntext: #000', { propertyOrder: 'sort' }))
+      .toBe('--- define-theme: t\ntext: #000\n@dark\n  bg: #111\n');
+    const reversed = reverseWeb(mkly(DOC, { kits: KITS }).html);
+    expect(parse(reversed).inlineThemes[0].variants).toEqual({ dark: { accent: '#5fd', bg: '#111' } });
+  });
+});
+
+describe('style @dark', () => {
+  it('should scope variables to the dark scheme and serialize them back', () => {
+    const graph = parseStyleGraph('bg: #fff\n@dark\n  bg: #111\n\ncore/text\n  color: $text');
+    expect(graph.variables).toEqual([{ name: 'bg', value: '#fff' }, { name: 'bg', value: '#111', scheme: 'dark' }]);
+    expect(graph.rules).toHaveLength(1);
+    expect(serializeStyleGraph(graph)).toBe('bg: #fff\n@dark\n  bg: #111\n\ncore/text\n  color: $text');
+    expect(compileStyleGraphToCSS(graph)).toContain(`.mkly-document {\n  --mkly-bg: #fff;\n}\n\n${DARK_SELECTORS}`);
+  });
+
+  it('should edit each scheme separately', () => {
+    let graph = parseStyleGraph('bg: #fff');
+    graph = setStyleVariable(graph, 'bg', '#111', 'dark');
+    graph = setStyleVariable(graph, 'bg', '#fafafa');
+    expect(getStyleVariable(graph, 'bg')).toBe('#fafafa');
+    expect(getStyleVariable(graph, 'bg', 'dark')).toBe('#111');
+    expect(removeStyleVariable(graph, 'bg', 'dark').variables).toEqual([{ name: 'bg', value: '#fafafa' }]);
+    expect(mergeStyleGraphs(graph, parseStyleGraph('@dark\n  bg: #000')).variables)
+      .toEqual([{ name: 'bg', value: '#fafafa' }, { name: 'bg', value: '#000', scheme: 'dark' }]);
+  });
+});
+
+describe('compile', () => {
+  it('should emit the dark scheme in the theme and user layers and the color-scheme meta', () => {
+    const result = mkly(DOC, { kits: KITS, wrap: 'document' });
+    expect(result.errors).toEqual([]);
+    expect(result.css).toMatch(/@layer theme \{[\s\S]*\[data-mkly-scheme=dark\] \.mkly-document \{\n  --mkly-accent: #5fd;/);
+    expect(result.css).toMatch(/@layer user \{[\s\S]*\[data-mkly-scheme=dark\] \.mkly-document \{\n  --mkly-text: #eee;/);
+    expect(result.html).toContain('<meta name="color-scheme" content="light dark">');
+    expect(mkly('--- core/text\n\nHi', { kits: KITS, wrap: 'document' }).html).not.toContain('color-scheme');
+  });
+
+  it('should give plugins the dark variables next to the light ones', () => {
+    let seen: Record<string, string> | undefined;
+    mkly(DOC, {
+      kits: KITS,
+      plugins: [{ name: 'probe', afterCompile: (result, ctx) => { seen = ctx.darkVariables; return result; } }],
+    });
+    expect(seen).toEqual({ accent: '#5fd', bg: '#111', text: '#eee' });
+  });
+});
+
+describe('getEmailDarkModeCSS', () => {
+  it('should override the values that change, for media queries and Outlook', () => {
+    const graph = parseStyleGraph('core/button\n  background: $accent\n  color: #fff\n  .link\n    color: $accent');
+    const css = getEmailDarkModeCSS(graph, { accent: '#0a6', bg: '#fff' }, { accent: '#5fd', bg: '#111' });
+    expect(css).toContain(':root {\n  color-scheme: light dark;\n  supported-color-schemes: light dark;\n}');
+    expect(css).toContain('@media (prefers-color-scheme: dark) {\n.mkly-document {\n  background-color: #111 !important;\n}\n'
+      + '.mkly-core-button {\n  background: #5fd !important;\n}\n'
+      + '.mkly-core-button__link {\n  color: #5fd !important;\n}\n}');
+    expect(css).toContain('[data-ogsc] .mkly-core-button__link {\n  color: #5fd !important;\n}');
+    expect(css).toContain('[data-ogsb] .mkly-document {\n  background-color: #111 !important;\n}\n[data-ogsb] .mkly-core-button {');
+    expect(css).not.toContain('#fff');
+    expect(getEmailDarkModeCSS(graph, { accent: '#0a6' }, undefined)).toBe('');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'bun:test';
+import { mkly, reverseWeb } from '../src/index';
+import { KITS, body } from './helpers';
+
+const DOC = `--- core/columns
+ratio: 2:1
+
+--- core/text
+
+Main story.
+
+--- core/divider
+
+--- /core/columns`;
+
+describe('core/columns', () => {
+  it('should render each child in its own table cell', () => {
+    expect(body(DOC)).toContain(
+      '<table class="mkly-core-columns mkly-core-columns--stack-480 mkly-core-columns--gap-16" role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" data-ratio="2:1"><tbody><tr>'
+      + '<td class="mkly-core-columns__column" width="66.67%" valign="top" style="width:66.67%;vertical-align:top"><div class="mkly-core-text"><p>Main story.</p></div></td>'
+      + '<td class="mkly-core-columns__column" width="33.33%" valign="top" style="width:33.33%;vertical-align:top;padding-left:16px"><hr class="mkly-core-divider"></td>'
+      + '</tr></tbody></table>',
+    );
+  });
+
+  it('should split evenly without a ratio and count missing parts as 1', () => {
+    expect(body('--- core/columns\n\n--- core/divider\n\n--- core/divider\n\n--- core/divider\n\n--- /core/columns'))
+      .toContain('width="33.33%"');
+    const result = mkly('--- core/columns\nratio: 3\n\n--- core/divider\n\n--- core/divider\n\n--- /core/columns', { kits: KITS });
+    expect(result.html).toMatch(/width="75%"[\s\S]*width="25%"/);
+    expect(result.errors.map(e => [e.message, e.severity])).toEqual([['ratio "3" has 1 part but the block has 2 columns', 'warning']]);
+  });
+
+  it('should warn about ratios that do not parse', () => {
+    const result = mkly(DOC.replace('ratio: 2:1', 'ratio: 2:x'), { kits: KITS, sourceMap: true });
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].message).toStartWith('Invalid ratio "2:x"');
+    expect(result.errors[0].severity).toBe('warning');
+    expect(result.errors[0].range?.start).toEqual({ line: 2, column: 8 });
+  });
+
+  it('should stack columns at the breakpoint with the gap between them', () => {
+    const result = mkly(DOC.replace('ratio: 2:1', 'gap: 24\nvalign: middle\nstack: tablet'), { kits: KITS, wrap: 'document' });
+    expect(result.html).toContain('valign="middle" style="width:50%;vertical-align:middle;padding-left:24px"');
+    expect(result.css).toContain(
+      '@media (max-width:48rem){.mkly-core-columns--stack-768 > tbody > tr > .mkly-core-columns__column{display:block!important;width:100%!important;padding-left:0!important}'
+      + '.mkly-core-columns--stack-768.mkly-core-columns--gap-24 > tbody > tr > .mkly-core-columns__column + .mkly-core-columns__column{padding-top:1.5rem!important}}',
+    );
+    const fixed = mkly(DOC.replace('ratio: 2:1', 'stack: never'), { kits: KITS, wrap: 'document' });
+    expect(fixed.html).not.toContain('--stack-');
+    expect(fixed.css).not.toContain('@media');
+  });
+
+  it('should move the stack breakpoint with the style rules when mobile is redefined', () => {
+    const source = `--- style\ncore/text\n  @mobile\n    color: red\n\n${DOC}`;
+    const result = mkly(source, { kits: KITS, wrap: 'document', variables: { mobile: '600px' } });
+    expect(result.html).toContain('mkly-core-columns--stack-600');
+    expect(result.css).toContain('@media (max-width:37.5rem){.mkly-core-columns--stack-600');
+    expect(result.css).toContain('@media (max-width: 37.5rem) {\n.mkly-core-text {');
+  });
+
+  it('should round-trip through reverse conversion', () => {
+    const source = DOC.replace('ratio: 2:1', 'ratio: 2:1\ngap: 24px\nvalign: bottom\nstack: tablet');
+    const reversed = reverseWeb(mkly(source, { kits: KITS }).html);
+    expect(reversed).toContain('--- core/columns\nratio: 2:1\ngap: 24px\nvalign: bottom\nstack: tablet\n\n--- core/text');
+    expect(reversed).toContain('--- /core/columns');
+    expect(body(reversed)).toBe(body(source));
+  });
+});
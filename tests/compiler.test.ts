@@ -85,6 +85,22 @@ describe('compiler', () => {
       expect(result.html).toContain('Child');
       expect(result.html).not.toContain('{{children}}');
     });
+
+    it('should place children one by one with {{child:N}}', () => {
+      const demo = defineKit({
+        name: 'demo',
+        blocks: [{
+          name: 'pair',
+          contentMode: 'properties',
+          isContainer: true,
+          compile: () => '<div class="pair"><i>{{child:1}}</i><b>{{child:0}}</b><u>{{child:2}}</u></div>',
+        }],
+      });
+      const source = `--- use: core\n\n--- demo/pair\n\n--- core/divider\n\n--- core/spacer\nheight: 8\n\n--- /demo/pair`;
+      const result = mkly(source, { kits: { core: CORE_KIT, demo }, wrap: 'fragment' });
+
+      expect(result.html).toContain('<div class="pair"><i><div class="mkly-core-spacer" style="height:8px;"></div></i><b><hr class="mkly-core-divider"></b><u></u></div>');
+    });
   });
 
   describe('output modes', () => {
@@ -101,6 +117,58 @@ describe('compiler', () => {
     });
   });
 
+  describe('structured result', () => {
+    const source = `--- use: core\n\n--- meta\nversion: 1\ntitle: Issue 7\n\n--- style\ncore/text\n  color: red\n\n--- core/text\nContent`;
+
+    it('should separate body, css, head tags and round-trip data', () => {
+      const result = mkly(source, { kits: { core: CORE_KIT } });
+      expect(result.body).toStartWith('<main class="mkly-document"');
+      expect(result.body).toEndWith('</main>');
+      expect(result.body).not.toContain('<style>');
+      expect(result.css).toContain('@layer kit, theme, preset, user;');
+      expect(result.css).not.toContain('<style>');
+      expect(result.headTags).toContain('<meta name="mkly:title" content="Issue 7">');
+      expect(result.roundTripData).toContain('<script type="text/mkly-style">');
+      expect(result.meta.title).toBe('Issue 7');
+    });
+
+    it('should keep the legacy html layout by default', () => {
+      const result = mkly(source, { kits: { core: CORE_KIT } });
+      expect(result.html).toBe(`<style>${result.css}</style>\n${result.roundTripData}${result.headTags}${result.body}`);
+    });
+
+    it('should return only the body in fragment mode', () => {
+      const result = mkly(source, { kits: { core: CORE_KIT }, wrap: 'fragment' });
+      expect(result.html).toBe(result.body);
+    });
+
+    it('should place css and head tags in <head> in document mode', () => {
+      const result = mkly(source, { kits: { core: CORE_KIT }, wrap: 'document' });
+      expect(result.html).toStartWith('<!DOCTYPE html>');
+      const head = result.html.slice(result.html.indexOf('<head>'), result.html.indexOf('</head>'));
+      expect(head).toContain(`<style>${result.css}</style>`);
+      expect(head).toContain('mkly:title');
+      expect(head).toContain('text/mkly-style');
+      expect(result.html).toContain(`<body>\n${result.body}\n</body>`);
+    });
+
+    it('should put the source-map sync script in head tags', () => {
+      const result = mkly(source, { kits: { core: CORE_KIT }, sourceMap: true });
+      expect(result.headTags).toContain('<script>');
+      expect(result.css).toContain('[data-mkly-active]');
+    });
+
+    it('should map included blocks to their own file', () => {
+      const result = mkly('--- use: core\n\n--- core/text\nHost\n\n--- include: footer', {
+        kits: { core: CORE_KIT },
+        sourceMap: true,
+        resolveInclude: () => '--- core/divider\n\n--- core/text\nFooter',
+      });
+      expect(result.sourceMap?.map(e => [e.file, e.sourceLine])).toEqual([[undefined, 3], ['footer', 1], ['footer', 3]]);
+      expect(result.html).toContain('data-mkly-line="3" data-mkly-file="footer"');
+    });
+  });
+
   describe('maxWidth option', () => {
     it('should apply custom maxWidth', () => {
       const result = html(`--- use: core\n\n--- meta\nversion: 1\n\n--- core/text\nContent`, { maxWidth: 800 });
@@ -182,8 +250,8 @@ describe('compiler', () => {
 
     it('should convert markdown headings', () => {
       const result = html(`--- use: core\n\n--- meta\nversion: 1\n\n--- core/text\n\n# Heading 1\n## Heading 2`);
-      expect(result).toContain('<h1>Heading 1</h1>');
-      expect(result).toContain('<h2>Heading 2</h2>');
+      expect(result).toContain('<h1 id="heading-1">Heading 1</h1>');
+      expect(result).toContain('<h2 id="heading-2">Heading 2</h2>');
     });
   });
 
@@ -394,4 +462,41 @@ Body copy`);
       expect(doc.presets).toEqual(['glass']);
     });
   });
+  describe('diagnostic ranges', () => {
+    const compileSource = (source: string) => {
+      const doc = parse(source);
+      return compile(doc, createRegistry(), { kits: { core: CORE_KIT } }).errors;
+    };
+
+    it('should place style warnings on their source line', () => {
+      const errors = compileSource('--- use: core\n\n--- style\ncore/text\n  color: darken(red, 10%)\n\n--- core/text\n\nHi');
+      const warning = errors.find(e => e.message.startsWith('Style:'));
+      expect(warning?.line).toBe(5);
+      expect(warning?.range).toEqual({ start: { line: 5, column: 10 }, end: { line: 5, column: 16 } });
+    });
+
+    it('should place warnings in a style a kit transform added at the start of the document', () => {
+      const styler = defineKit({ name: 'styler', transform: doc => ({ ...doc, styles: [...doc.styles, 'core/text\n  @phone\n    color: red'] }) });
+      const result = compile(parse('--- use: styler\n\n--- core/text\n\nHi'), createRegistry(), { kits: { core: CORE_KIT, styler } });
+      const warning = result.errors.find(e => e.message.startsWith('Style:'));
+      expect([warning?.line, warning?.range]).toEqual([1, { start: { line: 1, column: 1 }, end: { line: 1, column: 1 } }]);
+    });
+
+    it('should point unknown kits and themes at their declaration', () => {
+      const errors = compileSource('--- use: core\n--- use: nope\n--- theme: missing\n\n--- core/text\n\nHi');
+      const kit = errors.find(e => e.message.startsWith('Unknown kit'));
+      expect(kit?.range).toEqual({ start: { line: 2, column: 10 }, end: { line: 2, column: 14 } });
+      const theme = errors.find(e => e.message.startsWith('Unknown theme'));
+      expect(theme?.range).toEqual({ start: { line: 3, column: 12 }, end: { line: 3, column: 19 } });
+    });
+
+    it('should point block errors at the offending property or header', () => {
+      const errors = compileSource('--- use: core\n\n--- core/spacer\nheight: red;}\n\n--- core/image\nsrc: a.png');
+      const height = errors.find(e => e.message.includes('height'));
+      expect(height?.range).toEqual({ start: { line: 4, column: 9 }, end: { line: 4, column: 14 } });
+      const alt = errors.find(e => e.message.includes('alt'));
+      expect(alt?.range).toEqual({ start: { line: 6, column: 1 }, end: { line: 6, column: 15 } });
+      for (const error of errors) expect(error.range).toBeDefined();
+    });
+  });
 });
@@ -7,7 +7,7 @@ describe('completions', () => {
   describe('createCompletionData', () => {
     it('should extract block completions from kit schemas with qualified names', () => {
       const data = createCompletionData([], [CORE_KIT]);
-      expect(data.blocks.length).toBe(16);
+      expect(data.blocks.length).toBe(21);
       expect(data.blocks[0].type).toBe('block');
 
       const heading = data.blocks.find(b => b.label === 'core/heading');
@@ -34,6 +34,11 @@ describe('completions', () => {
       expect(textProps).toBeUndefined();
     });
 
+    it('should offer the condition syntax', () => {
+      const data = createCompletionData([], [CORE_KIT]);
+      expect(data.conditions.map(c => `${c.type}:${c.label}`)).toEqual(['block:if', 'property:if', 'property:unless']);
+    });
+
     it('should extract kit completions', () => {
       const data = createCompletionData([], [CORE_KIT]);
       expect(data.kits.length).toBe(1);
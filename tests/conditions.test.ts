@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'bun:test';
+import { evaluateCondition, mkly, parse, CORE_KIT } from '../src/index';
+
+const scope = {
+  meta: { edition: 'weekly' },
+  data: { audience: 'pro', issue: 42, flags: { beta: true }, tags: ['ai', 'web'] },
+  variables: { channel: 'email' },
+};
+
+describe('evaluateCondition', () => {
+  it('should compare paths and literals', () => {
+    expect(evaluateCondition('audience == "pro"', scope)).toBe(true);
+    expect(evaluateCondition("audience != 'pro'", scope)).toBe(false);
+    expect(evaluateCondition('issue >= 40 and issue < 50', scope)).toBe(true);
+    expect(evaluateCondition('issue == "42"', scope)).toBe(true);
+    expect(evaluateCondition('meta.edition == "weekly"', scope)).toBe(true);
+    expect(evaluateCondition('channel == "email"', scope)).toBe(true);
+  });
+
+  it('should combine with and/or/not and parentheses', () => {
+    expect(evaluateCondition('not flags.beta || audience == "free"', scope)).toBe(false);
+    expect(evaluateCondition('!(audience == "free") && flags.beta', scope)).toBe(true);
+    expect(evaluateCondition('audience in ["pro", "team"]', scope)).toBe(true);
+    expect(evaluateCondition('"web" in tags', scope)).toBe(true);
+  });
+
+  it('should treat unset paths as false', () => {
+    expect(evaluateCondition('missing', scope)).toBe(false);
+    expect(evaluateCondition('not missing.deep', scope)).toBe(true);
+    expect(evaluateCondition('missing > 1', scope)).toBe(false);
+  });
+
+  it('should reject anything outside the language', () => {
+    expect(() => evaluateCondition('audience = "pro"', scope)).toThrow('Unexpected "=" at column 10');
+    expect(() => evaluateCondition('alert(1)', scope)).toThrow('Unexpected "("');
+    expect(() => evaluateCondition('audience ==', scope)).toThrow('Condition ends early');
+    expect(() => evaluateCondition('', scope)).toThrow('Empty condition');
+  });
+});
+
+describe('conditional blocks', () => {
+  const source = `--- use: core
+
+--- meta
+version: 1
+
+--- core/text
+Everyone
+
+--- if: audience == "pro"
+
+--- core/text
+Pro analysis
+
+--- core/text
+unless: channel == "email"
+
+Web-only pro note
+
+--- /if
+
+--- core/text
+if: audience != "pro"
+
+Upgrade today`;
+
+  const render = (data: Record<string, unknown>) => mkly(source, { kits: { core: CORE_KIT }, wrap: 'fragment', data });
+
+  it('should render each edition from one source', () => {
+    const pro = render({ audience: 'pro', channel: 'web' });
+    expect(pro.errors).toEqual([]);
+    expect(pro.html).toContain('Pro analysis');
+    expect(pro.html).toContain('Web-only pro note');
+    expect(pro.html).not.toContain('Upgrade today');
+
+    const proEmail = render({ audience: 'pro', channel: 'email' });
+    expect(proEmail.html).not.toContain('Web-only pro note');
+
+    const free = render({});
+    expect(free.html).toContain('Everyone');
+    expect(free.html).toContain('Upgrade today');
+    expect(free.html).not.toContain('Pro analysis');
+  });
+
+  it('should report invalid conditions and hide their blocks', () => {
+    const result = mkly('--- core/text\nif: plan ===\n\nSecret', { kits: { core: CORE_KIT }, wrap: 'fragment' });
+    expect(result.html).not.toContain('Secret');
+    expect(result.errors[0]).toMatchObject({ property: 'if', range: { start: { line: 2, column: 5 } } });
+    expect(result.errors[0].message).toStartWith('Invalid condition "plan ==="');
+  });
+
+  it('should always parse --- if as a container', () => {
+    const doc = parse('--- if: a\n--- core/text\nHi');
+    expect(doc.errors[0].message).toBe('"--- if" is never closed — add "--- /if"');
+    expect(doc.blocks[0].children).toHaveLength(1);
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  parse,
+  parseCst,
+  printCst,
+  cstBlocks,
+  cstToDocument,
+  setCstProperty,
+  removeCstProperty,
+  setCstLabel,
+  moveCstBlock,
+  removeCstBlock,
+  insertCstBlock,
+  setCstStyleProperty,
+  removeCstStyleProperty,
+} from '../src/index';
+import type { CstBlock, CstDocument } from '../src/index';
+
+const SOURCE = `--- use: core
+// Palette comes from the theme
+--- theme: core/dark
+
+--- meta
+version: 1
+title: "  Padded title  "
+
+--- style
+core/card
+  padding: 24px // roomy
+  .img
+    borderRadius: 8px
+
+// Intro section
+--- core/section: Intro
+title: Welcome
+
+--- core/text
+Hello   **world**
+
+--- core/card
+link: https://example.com
+
+Card body
+
+--- /core/section
+
+--- core/html
+<div>
+--- not a block
+</div>
+--- /core/html
+
+--- /core/missing
+--- core/divider
+`;
+
+function find(cst: CstDocument, blockType: string): CstBlock {
+  return cstBlocks(cst).find(b => b.blockType === blockType)!;
+}
+
+/** Lines that differ between two sources of equal line count. */
+function changedLines(a: string, b: string): number[] {
+  const aLines = a.split('\n');
+  const bLines = b.split('\n');
+  expect(bLines).toHaveLength(aLines.length);
+  return aLines.flatMap((line, i) => (line === bLines[i] ? [] : [i + 1]));
+}
+
+describe('CST', () => {
+  describe('round-trip', () => {
+    it('should print the source byte-for-byte', () => {
+      const options = { verbatimBlocks: new Set(['core/html']) };
+      expect(printCst(parseCst(SOURCE, options))).toBe(SOURCE);
+    });
+
+    it('should keep CRLF endings, trailing whitespace and a missing final newline', () => {
+      const source = '--- core/text  \r\ntitle:   "x"\r\n\r\n  Body\t\r\n// end';
+      expect(printCst(parseCst(source))).toBe(source);
+    });
+
+    it('should round-trip an empty source', () => {
+      expect(printCst(parseCst(''))).toBe('');
+    });
+
+    it('should mirror the parser block structure', () => {
+      const options = { verbatimBlocks: new Set(['core/html']) };
+      const cst = parseCst(SOURCE, options);
+      const section = find(cst, 'core/section');
+      expect(section.label).toBe('Intro');
+      expect(section.children.filter(n => n.kind === 'block').map(n => (n as CstBlock).blockType))
+        .toEqual(['core/text', 'core/card']);
+      expect(find(cst, 'core/html').body).toContain('--- not a block');
+      expect(cstToDocument(cst, options)).toEqual(parse(SOURCE, options));
+    });
+  });
+
+  describe('containers', () => {
+    const source = '--- core/section#outer\n--- core/section: Inner\n--- core/text\nHi\n--- /core/section\n\n--- core/card\n--- /core/section#outer\n';
+
+    it('should nest same-type containers like the parser', () => {
+      for (const options of [undefined, { containerBlocks: new Set(['core/section']) }]) {
+        const cst = parseCst(source, options);
+        expect(printCst(cst)).toBe(source);
+        expect(cstToDocument(cst, options)).toEqual(parse(source, options));
+        const outer = find(cst, 'core/section');
+        expect(outer.id).toBe('outer');
+        expect(outer.children.filter(n => n.kind === 'block').length).toBe(2);
+      }
+    });
+
+    it('should keep the id when setting a label', () => {
+      const cst = parseCst(source);
+      setCstLabel(find(cst, 'core/section'), 'Main');
+      expect(printCst(cst).split('\n')[0]).toBe('--- core/section#outer: Main');
+    });
+  });
+
+  describe('properties', () => {
+    it('should change only the edited value', () => {
+      const cst = parseCst(SOURCE);
+      setCstProperty(find(cst, 'core/card'), 'link', 'https://mkly.dev');
+      const printed = printCst(cst);
+      expect(changedLines(SOURCE, printed)).toEqual([23]);
+      expect(printed).toContain('link: https://mkly.dev');
+    });
+
+    it('should keep existing quotes', () => {
+      const cst = parseCst(SOURCE);
+      setCstProperty(find(cst, 'meta'), 'title', 'Plain');
+      expect(printCst(cst)).toContain('title: "Plain"');
+      expect(cstToDocument(cst).meta.title).toBe('Plain');
+    });
+
+    it('should quote values the tokenizer would change', () => {
+      const cst = parseCst('--- core/button\nlabel: Go');
+      setCstProperty(find(cst, 'core/button'), 'label', ' Go ');
+      expect(cstToDocument(cst).blocks[0].properties.label).toBe(' Go ');
+    });
+
+    it('should add a property after the existing ones', () => {
+      const cst = parseCst(SOURCE);
+      setCstProperty(find(cst, 'core/section'), 'bg', '#fff');
+      const printed = printCst(cst);
+      expect(printed).toContain('title: Welcome\nbg: #fff\n');
+      expect(cstToDocument(cst).blocks.find(b => b.blockType === 'core/section')?.properties.bg).toBe('#fff');
+    });
+
+    it('should remove a property line', () => {
+      const cst = parseCst(SOURCE);
+      expect(removeCstProperty(find(cst, 'core/card'), 'link')).toBe(true);
+      expect(printCst(cst)).toBe(SOURCE.replace('link: https://example.com\n', ''));
+      expect(removeCstProperty(find(cst, 'core/card'), 'link')).toBe(false);
+    });
+
+    it('should write and replace multi-line values as block scalars', () => {
+      const cst = parseCst('--- core/card\nbody: |\n  Old\n  text\nlink: x\n\nContent\n');
+      const card = find(cst, 'core/card');
+      setCstProperty(card, 'body', 'New\nlines');
+      setCstProperty(card, 'note', 'A\nB');
+      expect(printCst(cst)).toBe('--- core/card\nbody: |\n  New\n  lines\nlink: x\nnote: |\n  A\n  B\n\nContent\n');
+      setCstProperty(card, 'body', 'Short');
+      expect(removeCstProperty(card, 'note')).toBe(true);
+      expect(printCst(cst)).toBe('--- core/card\nbody: Short\nlink: x\n\nContent\n');
+    });
+
+    it('should reject property edits on content-only directives', () => {
+      const cst = parseCst(SOURCE);
+      expect(() => setCstProperty(find(cst, 'style'), 'x', 'y')).toThrow();
+    });
+
+    it('should set, rename and remove labels', () => {
+      const cst = parseCst(SOURCE);
+      const section = find(cst, 'core/section');
+      setCstLabel(section, 'Welcome');
+      expect(section.header).toBe('--- core/section: Welcome');
+      setCstLabel(section, undefined);
+      expect(section.header).toBe('--- core/section');
+      setCstLabel(section, 'Back');
+      expect(section.header).toBe('--- core/section: Back');
+    });
+  });
+
+  describe('moving blocks', () => {
+    const source = '--- core/heading\nlevel: 1\n\nTitle\n\n// about the text\n--- core/text\n\nHello\n\n--- core/divider\n';
+
+    it('should move a block with the comment above it', () => {
+      const cst = parseCst(source);
+      moveCstBlock(cst, find(cst, 'core/text'), cst, 0);
+      expect(printCst(cst)).toBe('// about the text\n--- core/text\n\nHello\n\n--- core/heading\nlevel: 1\n\nTitle\n\n--- core/divider\n');
+    });
+
+    it('should move a block to the end and keep the final newline', () => {
+      const cst = parseCst(source);
+      moveCstBlock(cst, find(cst, 'core/heading'), cst, 2);
+      expect(printCst(cst)).toBe('// about the text\n--- core/text\n\nHello\n\n--- core/divider\n\n--- core/heading\nlevel: 1\n\nTitle\n');
+    });
+
+    it('should move blocks into containers', () => {
+      const cst = parseCst(SOURCE);
+      moveCstBlock(cst, find(cst, 'core/divider'), find(cst, 'core/section'), 1);
+      const doc = cstToDocument(cst);
+      const section = doc.blocks.find(b => b.blockType === 'core/section')!;
+      expect(section.children.map(c => c.blockType)).toEqual(['core/text', 'core/divider', 'core/card']);
+    });
+
+    it('should remove and insert blocks', () => {
+      const cst = parseCst(source);
+      removeCstBlock(cst, find(cst, 'core/text'));
+      expect(printCst(cst)).toBe('--- core/heading\nlevel: 1\n\nTitle\n\n--- core/divider\n');
+      const [inserted] = insertCstBlock(cst, '--- core/spacer\nheight: 20\n', cst, 1);
+      expect(inserted.blockType).toBe('core/spacer');
+      expect(printCst(cst)).toBe('--- core/heading\nlevel: 1\n\nTitle\n\n--- core/spacer\nheight: 20\n\n--- core/divider\n');
+    });
+  });
+
+  describe('style rules', () => {
+    it('should replace a declaration value and keep its comment', () => {
+      const cst = parseCst(SOURCE);
+      setCstStyleProperty(cst, { blockType: 'core/card' }, 'padding', '32px');
+      const printed = printCst(cst);
+      expect(changedLines(SOURCE, printed)).toEqual([11]);
+      expect(printed).toContain('  padding: 32px // roomy');
+    });
+
+    it('should match camelCase and kebab-case property names', () => {
+      const cst = parseCst(SOURCE);
+      setCstStyleProperty(cst, { blockType: 'core/card', target: 'img' }, 'border-radius', '0');
+      expect(printCst(cst)).toContain('    borderRadius: 0\n');
+    });
+
+    it('should add declarations, targets and rules', () => {
+      const cst = parseCst(SOURCE);
+      setCstStyleProperty(cst, { blockType: 'core/card' }, 'color', 'red');
+      setCstStyleProperty(cst, { blockType: 'core/card', target: 'self:hover' }, 'opacity', '0.9');
+      setCstStyleProperty(cst, { blockType: 'core/text' }, 'fontSize', '18px');
+      const printed = printCst(cst);
+      expect(printed).toContain('core/card\n  padding: 24px // roomy\n  color: red\n  .img\n    borderRadius: 8px\n  :hover\n    opacity: 0.9\n\ncore/text\n  fontSize: 18px\n\n// Intro section');
+    });
+
+    it('should create a style block before the first content block', () => {
+      const cst = parseCst('--- meta\nversion: 1\n\n--- core/text\n\nHi\n');
+      setCstStyleProperty(cst, { blockType: 'core/text', label: 'intro' }, 'color', 'red');
+      expect(printCst(cst)).toBe('--- meta\nversion: 1\n\n--- style\ncore/text:intro\n  color: red\n\n--- core/text\n\nHi\n');
+    });
+
+    it('should remove a declaration', () => {
+      const cst = parseCst(SOURCE);
+      expect(removeCstStyleProperty(cst, { blockType: 'core/card', target: 'img' }, 'borderRadius')).toBe(true);
+      expect(printCst(cst)).toBe(SOURCE.replace('    borderRadius: 8px\n', ''));
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'bun:test';
+import { mkly, CORE_KIT, defineKit, buildDocumentHead } from '../src/index';
+
+function page(meta: string, options?: Parameters<typeof mkly>[1]): string {
+  const source = `--- use: core\n\n--- meta\nversion: 1\n${meta}\n\n--- core/text\nHello`;
+  return mkly(source, { kits: { core: CORE_KIT }, wrap: 'document', ...options }).html;
+}
+
+function head(html: string): string {
+  return html.slice(html.indexOf('<head>'), html.indexOf('</head>'));
+}
+
+describe('document output', () => {
+  it('should emit doctype, lang, charset and viewport', () => {
+    const html = page('lang: de');
+    expect(html).toStartWith('<!DOCTYPE html>\n<html lang="de">');
+    expect(html).toContain('<meta charset="utf-8">');
+    expect(html).toContain('<meta name="viewport" content="width=device-width, initial-scale=1">');
+    expect(html).toContain('<body>');
+    expect(html.trimEnd()).toEndWith('</html>');
+  });
+
+  it('should default lang to en and always include a title', () => {
+    const html = page('');
+    expect(html).toContain('<html lang="en">');
+    expect(head(html)).toContain('<title>Untitled</title>');
+  });
+
+  it('should map title and description to head tags', () => {
+    const h = head(page('title: Issue <7>\ndescription: The "best" links'));
+    expect(h).toContain('<title>Issue &lt;7&gt;</title>');
+    expect(h).toContain('<meta name="description" content="The &quot;best&quot; links">');
+    expect(h).toContain('<meta property="og:title" content="Issue &lt;7>">');
+    expect(h).toContain('<meta name="twitter:title"');
+    expect(h).toContain('<meta property="og:type" content="website">');
+    expect(h).toContain('<meta name="twitter:card" content="summary">');
+  });
+
+  it('should emit canonical, favicon and image cards', () => {
+    const h = head(page('title: Issue 7\ncanonical: https://example.com/7\nfavicon: /favicon.ico\nimage: https://example.com/cover.jpg'));
+    expect(h).toContain('<link rel="canonical" href="https://example.com/7">');
+    expect(h).toContain('<meta property="og:url" content="https://example.com/7">');
+    expect(h).toContain('<link rel="icon" href="/favicon.ico">');
+    expect(h).toContain('<meta property="og:image" content="https://example.com/cover.jpg">');
+    expect(h).toContain('<meta name="twitter:card" content="summary_large_image">');
+  });
+
+  it('should emit a JSON-LD Article from author and date', () => {
+    const h = head(page('title: Issue 7\nauthor: Jane Doe\ndate: 2026-03-10'));
+    expect(h).toContain('<meta property="og:type" content="article">');
+    const match = h.match(/<script type="application\/ld\+json">(.*?)<\/script>/);
+    expect(match).not.toBeNull();
+    const data = JSON.parse(match![1]);
+    expect(data['@type']).toBe('Article');
+    expect(data.headline).toBe('Issue 7');
+    expect(data.author).toEqual({ '@type': 'Person', name: 'Jane Doe' });
+    expect(data.datePublished).toBe('2026-03-10');
+  });
+
+  it('should not let JSON-LD values close the script element', () => {
+    const tags = buildDocumentHead({ author: '</script><script>alert(1)</script>' });
+    expect(tags).not.toContain('</script><script>');
+  });
+
+  it('should let kits declare head mappings for meta fields', () => {
+    const kit = defineKit({
+      ...CORE_KIT,
+      metaProperties: [
+        ...CORE_KIT.metaProperties!,
+        { name: 'subject', description: 'Email subject', head: [{ type: 'title' }] },
+        { name: 'description', description: 'Summary', head: [{ type: 'meta', name: 'summary' }] },
+      ],
+    });
+    const h = head(page('subject: Hello readers\ndescription: Weekly', { kits: { core: kit } }));
+    expect(h).toContain('<title>Hello readers</title>');
+    expect(h).toContain('<meta name="summary" content="Weekly">');
+    expect(h).not.toContain('name="description"');
+  });
+
+  it('should not emit meta-driven head tags outside document mode', () => {
+    const html = mkly(`--- meta\nversion: 1\ntitle: Issue 7\n\n--- core/text\nHello`, { kits: { core: CORE_KIT } }).html;
+    expect(html).not.toContain('<title>');
+  });
+});
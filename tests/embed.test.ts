@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  mkly, reverseWeb, defineKit, definePlugin,
+  defineEmbedProvider, resolveEmbed, renderEmbedFallback,
+} from '../src/index';
+import { KITS, body } from './helpers';
+
+const DOC = `--- core/embed
+url: https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=1m30s
+caption: Launch keynote`;
+
+describe('resolveEmbed', () => {
+  it('should recognize the built-in providers from the URL alone', () => {
+    const src = (url: string) => resolveEmbed(url)?.embed.src;
+    expect(src('https://youtu.be/dQw4w9WgXcQ?t=90')).toBe('https://www.youtube.com/embed/dQw4w9WgXcQ?start=90');
+    expect(src('https://www.youtube.com/shorts/dQw4w9WgXcQ')).toBe('https://www.youtube.com/embed/dQw4w9WgXcQ');
+    expect(src('https://vimeo.com/76979871/8272103f6e')).toBe('https://player.vimeo.com/video/76979871?h=8272103f6e');
+    expect(src('https://player.vimeo.com/video/76979871?h=8272103f6e')).toBe('https://player.vimeo.com/video/76979871?h=8272103f6e');
+    expect(src('https://player.vimeo.com/video/76979871?h=abc%26autoplay%3D1')).toBe('https://player.vimeo.com/video/76979871');
+    expect(src('https://twitter.com/jack/status/20')).toBe('https://platform.twitter.com/embed/Tweet.html?id=20');
+    expect(resolveEmbed('https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC')?.embed.height).toBe(152);
+    expect(resolveEmbed('https://open.spotify.com/playlist/37i9dQZF1DXcBWIGoYBM5M')?.embed.height).toBe(352);
+    expect(resolveEmbed('https://codepen.io/ada/pen/abcDEF')?.embed.thumbnail).toBe('https://shots.codepen.io/ada/pen/abcDEF-800.jpg');
+    expect(resolveEmbed(`https://www.loom.com/share/${'a'.repeat(32)}`)?.provider.name).toBe('loom');
+  });
+
+  it('should reject unknown and non-http URLs', () => {
+    expect(resolveEmbed('https://example.com/video')).toBeUndefined();
+    expect(resolveEmbed('javascript:alert(1)')).toBeUndefined();
+    expect(resolveEmbed('https://youtube.com/watch?v=short')).toBeUndefined();
+  });
+});
+
+describe('core/embed', () => {
+  it('should render a lazy, titled iframe that keeps its aspect ratio', () => {
+    expect(body(DOC)).toContain(
+      '<figure class="mkly-core-embed mkly-core-embed--youtube" data-url="https://www.youtube.com/watch?v=dQw4w9WgXcQ&amp;t=1m30s">'
+      + '<iframe src="https://www.youtube.com/embed/dQw4w9WgXcQ?start=90" title="YouTube video" loading="lazy" width="100%" style="aspect-ratio:1.7778"',
+    );
+    expect(body(DOC)).toContain('<figcaption class="mkly-core-embed__caption">Launch keynote</figcaption></figure>');
+    expect(body('--- core/embed\nurl: https://open.spotify.com/episode/abc\ntitle: Episode 12')).toContain('title="Episode 12" loading="lazy" width="100%" height="152"');
+  });
+
+  it('should warn about an unknown URL and link to it instead', () => {
+    const result = mkly('--- core/embed\nurl: https://example.com/talk', { kits: KITS, wrap: 'fragment' });
+    expect(result.errors.map(e => [e.message, e.severity])).toEqual([
+      ['No embed provider recognizes "https://example.com/talk" — it is shown as a link', 'warning'],
+    ]);
+    expect(result.html).toContain('<a href="https://example.com/talk" class="mkly-core-embed__play"');
+    expect(result.html).not.toContain('<iframe');
+  });
+
+  it('should put providers from kits ahead of the built-in ones', () => {
+    const tube = defineEmbedProvider({
+      name: 'tube',
+      title: 'Tube video',
+      action: 'Watch on Tube',
+      match: (url) => url.hostname === 'tube.example' ? { src: `https://tube.example/embed${url.pathname}` } : undefined,
+    });
+    const kit = defineKit({ name: 'tube', blocks: [], embedProviders: [tube] });
+    const html = mkly('--- use: core\n--- use: tube\n\n--- core/embed\nurl: https://tube.example/42', {
+      kits: { ...KITS, tube: kit },
+      wrap: 'fragment',
+    }).html;
+    expect(html).toContain('<iframe src="https://tube.example/embed/42" title="Tube video"');
+  });
+
+  it('should fall back to a linked thumbnail and play button for email', () => {
+    const email = definePlugin({ name: 'email', renderers: { 'core/embed': renderEmbedFallback } });
+    const html = mkly(DOC, { kits: KITS, plugins: [email], wrap: 'fragment' }).html;
+    expect(html).toContain(
+      '<a href="https://www.youtube.com/watch?v=dQw4w9WgXcQ&amp;t=1m30s" class="mkly-core-embed__link">'
+      + '<img src="https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg" alt="YouTube video"',
+    );
+    expect(html).toContain('&#9654; Watch on YouTube</a><p class="mkly-core-embed__caption">Launch keynote</p>');
+  });
+
+  it('should round-trip through reverse conversion', () => {
+    const reversed = reverseWeb(mkly(DOC, { kits: KITS }).html);
+    expect(reversed).toContain('--- core/embed\nurl: https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=1m30s\ncaption: Launch keynote');
+    expect(body(reversed)).toBe(body(DOC));
+
+    const titled = '--- core/embed\nurl: https://vimeo.com/76979871\ntitle: Demo reel\nthumbnail: https://example.com/poster.jpg';
+    expect(body(reverseWeb(mkly(titled, { kits: KITS }).html))).toBe(body(titled));
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'bun:test';
+import { mkly, CORE_KIT } from '../src/index';
+
+const KITS = { core: CORE_KIT };
+
+const ROUNDUP = `--- use: core
+
+--- meta
+version: 1
+
+--- each: links as link
+--- core/text
+{{loop.index}}. [{{link.title}}]({{link.url}})
+
+--- core/divider
+unless: loop.last
+--- /each`;
+
+const links = [
+  { title: 'First', url: 'https://a.example' },
+  { title: 'Second', url: 'https://b.example' },
+];
+
+describe('--- each', () => {
+  it('should render its blocks once per element', () => {
+    const result = mkly(ROUNDUP, { kits: KITS, wrap: 'fragment', data: { links } });
+    expect(result.errors).toEqual([]);
+    expect(result.html).toContain('0. <a href="https://a.example">First</a>');
+    expect(result.html).toContain('1. <a href="https://b.example">Second</a>');
+    expect(result.html.match(/mkly-core-divider/g)).toHaveLength(1);
+  });
+
+  it('should map every instance back to the template block', () => {
+    const result = mkly(ROUNDUP, { kits: KITS, sourceMap: true, data: { links } });
+    expect(result.sourceMap?.map(e => [e.blockType, e.sourceLine])).toEqual([
+      ['core/text', 7],
+      ['core/divider', 10],
+      ['core/text', 7],
+    ]);
+    expect(result.html.match(/data-mkly-line="7"/g)).toHaveLength(2);
+  });
+
+  it('should nest loops and conditions with their own scope', () => {
+    const source = `--- each: groups as group
+--- core/heading
+{{group.name | upper}}
+
+--- each: group.items as entry
+--- core/text
+if: entry.featured
+
+{{group.name}}/{{entry.title}}{{loop.first}}
+--- /each
+--- /each`;
+    const data = { groups: [{ name: 'ai', items: [{ title: 'A', featured: true }, { title: 'B' }] }, { name: 'web', items: [] }] };
+    const result = mkly(source, { kits: KITS, wrap: 'fragment', data });
+    expect(result.errors).toEqual([]);
+    expect(result.html).toContain('>AI</h2>');
+    expect(result.html).toContain('>WEB</h2>');
+    expect(result.html).toContain('ai/Atrue');
+    expect(result.html).not.toContain('ai/B');
+  });
+
+  it('should report a missing list and undefined fields once', () => {
+    const missing = mkly('--- each: links as link\n--- core/text\nHi\n--- /each', { kits: KITS });
+    expect(missing.errors[0]).toMatchObject({ message: 'Undefined list "links" — add it to CompileOptions.data', line: 1 });
+
+    const result = mkly('--- each: links\n--- core/text\n{{item.missing}}\n--- /each', { kits: KITS, data: { links } });
+    expect(result.errors.filter(e => e.message.startsWith('Undefined variable "item.missing"'))).toHaveLength(1);
+  });
+
+  it('should keep template syntax shown in code in every copy', () => {
+    const source = '--- each: links as link\n--- core/text\n{{link.title}} uses `{{link.url}}`:\n\n~~~\n{{#each items}}\n~~~\n--- /each';
+    const result = mkly(source, { kits: KITS, wrap: 'fragment', data: { links } });
+    expect(result.errors).toEqual([]);
+    expect(result.html).toContain('<p>First uses <code>{{link.url}}</code>:</p>\n<pre><code>{{#each items}}</code></pre>');
+    expect(result.html).toContain('<p>Second uses <code>{{link.url}}</code>:</p>');
+  });
+});
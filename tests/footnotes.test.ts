@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'bun:test';
+import { mkly, reverseWeb, markdownToHtml } from '../src/index';
+import { htmlToMarkdown } from '../src/reverse/html-to-markdown';
+import { KITS, body } from './helpers';
+
+const DOC = `--- core/text
+
+Adoption grew[^survey] while churn fell[^2].
+
+[^survey]: Developer Survey 2026, p. 12.
+
+--- core/quote
+
+Cited again[^survey].
+
+--- core/footnotes
+title: Sources
+
+[^2]: Churn *report*.`;
+
+describe('footnotes', () => {
+  it('should number references in order of first use', () => {
+    const html = body(DOC);
+    expect(html).toContain('grew<sup class="mkly-footnote-ref"><a href="#fn-survey" id="fnref-survey">1</a></sup>');
+    expect(html).toContain('fell<sup class="mkly-footnote-ref"><a href="#fn-2" id="fnref-2">2</a></sup>');
+    expect(html).toContain('again<sup class="mkly-footnote-ref"><a href="#fn-survey" id="fnref-survey-2">1</a></sup>');
+  });
+
+  it('should list the notes in core/footnotes with back-links', () => {
+    expect(body(DOC)).toContain(
+      '<section class="mkly-core-footnotes"><p class="mkly-core-footnotes__title">Sources</p><ol>'
+      + '<li id="fn-survey"><p>Developer Survey 2026, p. 12. <a href="#fnref-survey" class="mkly-footnote-back" aria-label="Back to reference 1">↩</a>'
+      + ' <a href="#fnref-survey-2" class="mkly-footnote-back" aria-label="Back to reference 1">↩<sup>2</sup></a></p></li>'
+      + '<li id="fn-2"><p>Churn <em>report</em>. <a href="#fnref-2" class="mkly-footnote-back" aria-label="Back to reference 2">↩</a></p></li>'
+      + '</ol></section>',
+    );
+  });
+
+  it('should add a footnotes section after the last block without core/footnotes', () => {
+    const html = body('--- meta\nversion: 2\n\n--- core/text\n\nA claim[^1]\n\n[^1]: The source\n  on two lines.\n\n--- core/divider');
+    expect(html).toMatch(/<hr class="mkly-core-divider"[^>]*>\n<section class="mkly-core-footnotes"><ol><li id="fn-1"><p>The source\non two lines. <a href="#fnref-1"/);
+  });
+
+  it('should report missing and unused notes', () => {
+    const result = mkly('--- core/text\n\nSee[^a].\n\n[^b]: Unused.', { kits: KITS });
+    expect(result.errors.map(e => [e.message, e.line, e.range?.start.column])).toEqual([
+      ['Footnote [^a] has no definition — add "[^a]: …" to the document', 3, 4],
+      ['Footnote [^b] is never referenced', 5, 1],
+    ]);
+    expect(result.html).toMatch(/>See\[\^a\]\.<\/p>/);
+    expect(result.html).not.toContain('Unused');
+  });
+
+  it('should leave footnotes in code alone', () => {
+    expect(markdownToHtml('`[^1]`')).toBe('<p><code>[^1]</code></p>');
+  });
+
+  it('should convert footnotes back to markdown', () => {
+    const html = mkly(DOC, { kits: KITS, wrap: 'fragment' }).html;
+    const list = html.slice(html.indexOf('<ol>'), html.indexOf('</ol>') + 5);
+    expect(htmlToMarkdown(list)).toBe('[^survey]: Developer Survey 2026, p. 12.\n[^2]: Churn *report*.');
+    expect(htmlToMarkdown(html.slice(0, html.indexOf('</div>')))).toBe('Adoption grew[^survey] while churn fell[^2].');
+  });
+
+  it('should round-trip through reverse conversion', () => {
+    const reversed = reverseWeb(mkly(DOC, { kits: KITS }).html);
+    expect(reversed).toContain('--- core/footnotes\ntitle: Sources\n\n[^survey]: Developer Survey 2026, p. 12.\n[^2]: Churn *report*.');
+    expect(body(reversed)).toBe(body(DOC));
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect } from 'bun:test';
+import { formatMkly, parse, CORE_KIT, verbatimBlockTypes } from '../src/index';
+import type { FormatMklyOptions } from '../src/index';
+import type { MklyBlock } from '../src/types';
+
+const MESSY = `--- core/heading
+level:    1
+
+Welcome
+
+
+--- meta
+title: "Weekly"
+version: 1
+
+// Brand colors
+--- use: core
+--- style
+core/card
+      padding:   24px
+      .img
+            borderRadius: 8px
+
+--- core/section: Main
+// Section title
+title: News
+--- core/text
+First line
+
+
+Second line
+--- /core/section
+--- core/code
+lang: ts
+
+const a  =  1;
+
+
+const b = 2;
+`;
+
+/** What the parser sees — positions, ranges and blank-line runs (which render the same) aside. */
+function shape(blocks: MklyBlock[]): unknown[] {
+  return blocks.map(b => ({
+    blockType: b.blockType,
+    label: b.label,
+    properties: b.properties,
+    content: b.blockType === 'core/code' ? b.content : b.content.replace(/\n{3,}/g, '\n\n'),
+    children: shape(b.children),
+  }));
+}
+
+function expectSameDocument(a: string, b: string): void {
+  const options = { verbatimBlocks: verbatimBlockTypes({ core: CORE_KIT }) };
+  const docA = parse(a, options);
+  const docB = parse(b, options);
+  expect(shape(docB.blocks)).toEqual(shape(docA.blocks));
+  expect(docB.meta).toEqual(docA.meta);
+  expect(docB.uses).toEqual(docA.uses);
+  expect(docB.comments.map(c => c.content)).toEqual(expect.arrayContaining(docA.comments.map(c => c.content)));
+}
+
+describe('formatMkly', () => {
+  it('should put directives in canonical order with one blank line between blocks', () => {
+    expect(formatMkly(MESSY)).toBe(`// Brand colors
+--- use: core
+
+--- meta
+title: "Weekly"
+version: 1
+
+--- style
+core/card
+  padding: 24px
+  .img
+    border-radius: 8px
+
+--- core/heading
+level: 1
+
+Welcome
+
+--- core/section: Main
+// Section title
+title: News
+
+--- core/text
+First line
+
+Second line
+
+--- /core/section
+
+--- core/code
+lang: ts
+
+const a  =  1;
+
+
+const b = 2;
+`);
+  });
+
+  it('should not change the parsed document', () => {
+    expectSameDocument(MESSY, formatMkly(MESSY));
+  });
+
+  it('should be idempotent', () => {
+    const variants: FormatMklyOptions[] = [
+      {},
+      { quoteStyle: 'double', propertyOrder: 'sort' },
+      { maxWidth: 30, indent: 2 },
+    ];
+    for (const options of variants) {
+      const once = formatMkly(MESSY, options);
+      expect(formatMkly(once, options)).toBe(once);
+    }
+  });
+
+  it('should format the empty document', () => {
+    expect(formatMkly('')).toBe('');
+    expect(formatMkly('\n\n')).toBe('');
+  });
+
+  describe('properties', () => {
+    const source = '--- core/button\nurl: https://example.com\n// The call to action\nlabel: "Read more"\n';
+
+    it('should quote values as configured', () => {
+      expect(formatMkly(source, { quoteStyle: 'minimal' })).toContain('label: Read more');
+      expect(formatMkly(source, { quoteStyle: 'double' })).toContain('url: "https://example.com"');
+      expect(formatMkly('--- core/button\nlabel: "  padded  "', { quoteStyle: 'minimal' })).toContain('label: "  padded  "');
+    });
+
+    it('should reindent block scalars under their key', () => {
+      const source = '--- core/card\nbody: |\n      Line one\n\n        Nested\nlink: x\n';
+      const formatted = formatMkly(source, { propertyOrder: 'sort' });
+      expect(formatted).toBe('--- core/card\nbody: |\n  Line one\n\n    Nested\nlink: x\n');
+      expectSameDocument(source, formatted);
+    });
+
+    it('should separate content from the header only when it could be read as a property', () => {
+      expect(formatMkly('--- core/text\n\nHello\n')).toBe('--- core/text\nHello\n');
+      expect(formatMkly('--- core/text\n\nNote: read this\n')).toBe('--- core/text\n\nNote: read this\n');
+    });
+
+    it('should sort properties and keep their comments', () => {
+      expect(formatMkly(source, { propertyOrder: 'sort' }))
+        .toBe('--- core/button\n// The call to action\nlabel: "Read more"\nurl: https://example.com\n');
+    });
+  });
+
+  describe('containers', () => {
+    it('should indent container levels', () => {
+      const source = '--- core/section\ntitle: A\n--- core/card\nlink: x\n\nBody\n--- /core/section\n';
+      expect(formatMkly(source, { indent: 2 }))
+        .toBe('--- core/section\ntitle: A\n\n  --- core/card\n  link: x\n\nBody\n\n--- /core/section\n');
+    });
+
+    it('should keep container ids on openers and closers', () => {
+      const source = '--- core/section#outer\n--- core/section#inner\n--- /core/section#inner\n--- /core/section#outer\n';
+      expect(formatMkly(source))
+        .toBe('--- core/section#outer\n\n--- core/section#inner\n\n--- /core/section#inner\n\n--- /core/section#outer\n');
+    });
+  });
+
+  describe('style blocks', () => {
+    it('should leave style blocks with comments alone', () => {
+      const source = '--- style\ncore/card\n    padding: 24px // roomy\n';
+      expect(formatMkly(source)).toBe(source);
+    });
+
+    it('should leave legacy brace syntax alone', () => {
+      const source = '--- style\ncore/card {\n  padding: 24px\n}\n';
+      expect(formatMkly(source)).toBe(source);
+    });
+
+    it('should reindent breakpoint sections under their block', () => {
+      expect(formatMkly('--- style\ncore/card\n  padding: 24px\n  @mobile\n      padding: 12px\n'))
+        .toBe('--- style\ncore/card\n  padding: 24px\n  @mobile\n    padding: 12px\n');
+    });
+  });
+
+  describe('markdown reflow', () => {
+    it('should wrap long paragraphs and join short lines', () => {
+      const source = '--- core/text\n\nOne two three four five six seven eight\nnine ten.\n\n- a list item that is long enough to wrap\n';
+      expect(formatMkly(source, { maxWidth: 20 }))
+        .toBe('--- core/text\nOne two three four\nfive six seven eight\nnine ten.\n\n- a list item that is long enough to wrap\n');
+    });
+
+    it('should not start a wrapped line with markdown syntax', () => {
+      const source = '--- core/text\n\nPrices fell 5 - 10 percent\n';
+      const formatted = formatMkly(source, { maxWidth: 14 });
+      expect(formatted.split('\n').some(line => line.startsWith('- '))).toBe(false);
+      expect(formatMkly(formatted, { maxWidth: 14 })).toBe(formatted);
+    });
+
+    it('should keep setext underlines and thematic breaks on their own lines', () => {
+      const source = '--- core/text\nTitle\n===\nSubtitle\n---\nAfter\n***\nEnd\n___\n';
+      expect(formatMkly(source, { maxWidth: 40 })).toBe(source);
+    });
+
+    it('should keep links whole and leave code blocks alone', () => {
+      const source = '--- core/text\n\nSee [the full docs](https://example.com) now\n\n--- core/code\n\nconst x = "a long line that should not wrap";\n';
+      const formatted = formatMkly(source, { maxWidth: 12 });
+      expect(formatted).toContain('[the full docs](https://example.com)');
+      expect(formatted).toContain('const x = "a long line that should not wrap";');
+    });
+  });
+
+  describe('unparseable regions', () => {
+    it('should keep stray closers and text outside blocks', () => {
+      const source = 'stray text\n\n--- core/text\nHi\n\n--- /core/missing\n';
+      expect(formatMkly(source)).toBe(source);
+    });
+
+    it('should keep verbatim content as written', () => {
+      const source = '--- core/html\n\n<div>\n    <p>  x  </p>\n\n\n</div>\n--- /core/html\n';
+      expect(formatMkly(source)).toBe('--- core/html\n<div>\n    <p>  x  </p>\n\n\n</div>\n--- /core/html\n');
+    });
+  });
+
+  it('should keep CRLF line endings', () => {
+    expect(formatMkly('--- core/text\r\n\r\nHi \r\n')).toBe('--- core/text\r\nHi\r\n');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'bun:test';
+import { mkly, reverseWeb } from '../src/index';
+import { anchorHeadings, renderToc } from '../src/headings';
+import type { HeadingEntry } from '../src/headings';
+import { KITS, body } from './helpers';
+
+describe('heading anchors', () => {
+  it('should give core/heading and markdown headings slug ids', () => {
+    const html = body('--- core/heading\nlevel: 1\n\nHello, World!\n\n--- core/text\n\n## Getting started\n\n### Why *mkly*?', { ignoreWarnings: true });
+    expect(html).toContain('<h1 id="hello-world" class="mkly-core-heading');
+    expect(html).toContain('<h2 id="getting-started">Getting started</h2>');
+    expect(html).toContain('<h3 id="why-mkly">');
+  });
+
+  it('should suffix repeated slugs across the document', () => {
+    const html = body('--- core/text\n\n## Notes\n\n--- core/text\n\n## Notes\n\n## Notes');
+    expect(html.match(/id="notes(-\d)?"/g)).toEqual(['id="notes"', 'id="notes-1"', 'id="notes-2"']);
+  });
+
+  it('should keep block ids and not reuse them', () => {
+    const html = body('--- core/text#faq\n\nQuestions\n\n--- core/heading#top\n\nTop\n\n--- core/text\n\n## FAQ');
+    expect(html).toContain('<h2 id="top"');
+    expect(html).toContain('<h2 id="faq-1">FAQ</h2>');
+  });
+
+  it('should accept links to heading ids', () => {
+    const result = mkly('--- core/text\n\n[Jump](#getting-started) [Nowhere](#nowhere)\n\n## Getting started', { kits: KITS });
+    expect(result.errors.map(e => e.message)).toEqual([
+      'Link to "#nowhere" does not match any block id — give the target block "--- type#nowhere"',
+    ]);
+  });
+
+  it('should fall back to "section" for headings without slug text', () => {
+    const headings: HeadingEntry[] = [];
+    expect(anchorHeadings('<h2>!!!</h2><h2>???</h2>', new Set(), headings)).toBe('<h2 id="section">!!!</h2><h2 id="section-1">???</h2>');
+    expect(headings.map(h => h.text)).toEqual(['!!!', '???']);
+  });
+
+  it('should keep source map offsets accurate', () => {
+    const result = mkly('--- core/text\n\n## One\n\n--- core/heading\n\nTwo', { kits: KITS, sourceMap: true });
+    const blocks = result.body.slice(result.body.indexOf('>') + 1);
+    const [text, heading] = result.sourceMap!.map(e => blocks.slice(e.htmlOffset, e.htmlOffset + e.htmlLength));
+    expect(text).toMatch(/^<div [^>]*class="mkly-core-text"><h2 id="one"[^>]*>One<\/h2><\/div>$/);
+    expect(heading).toMatch(/^<h2 [^>]*id="two"[^>]*>Two<\/h2>$/);
+  });
+});
+
+describe('core/toc', () => {
+  const DOC = `--- core/toc
+title: On this page
+
+--- core/heading
+level: 1
+
+Guide
+
+--- core/text
+
+## Install
+
+### From npm
+
+#### Details
+
+## Usage`;
+
+  it('should list the headings as nested links', () => {
+    const html = body(DOC, { ignoreWarnings: true });
+    expect(html).toContain(
+      '<nav class="mkly-core-toc" data-depth="3"><p class="mkly-core-toc__title">On this page</p>'
+      + '<ul><li><a href="#guide">Guide</a><ul><li><a href="#install">Install</a><ul><li><a href="#from-npm">From npm</a></li></ul></li>'
+      + '<li><a href="#usage">Usage</a></li></ul></li></ul></nav>',
+    );
+  });
+
+  it('should stop at the configured depth', () => {
+    const html = body(DOC.replace('title: On this page', 'depth: 2'), { ignoreWarnings: true });
+    expect(html).toContain('href="#install"');
+    expect(html).not.toContain('href="#from-npm"');
+  });
+
+  it('should render nothing without headings', () => {
+    expect(renderToc([], 3)).toBe('');
+    expect(body('--- core/toc')).toContain('<nav class="mkly-core-toc" data-depth="3"></nav>');
+  });
+
+  it('should round-trip through reverse conversion', () => {
+    const reversed = reverseWeb(mkly(DOC.replace('title: On this page', 'depth: 2'), { kits: KITS }).html);
+    expect(reversed).toContain('--- core/toc\ndepth: 2');
+    expect(reversed).toContain('--- core/heading\nlevel: 1');
+    expect(reversed).not.toContain('#guide');
+  });
+});
@@ -0,0 +1,17 @@
+import { expect } from 'bun:test';
+import { mkly, CORE_KIT } from '../src/index';
+
+export const KITS = { core: CORE_KIT };
+
+type BodyOptions = NonNullable<Parameters<typeof mkly>[1]> & {
+  /** Fail on errors only — for sources whose warnings the test does not cover. */
+  ignoreWarnings?: boolean;
+};
+
+/** `source` compiled with the core kit as a fragment; fails the test on any diagnostic. */
+export function body(source: string, options: BodyOptions = {}): string {
+  const { ignoreWarnings, ...compileOptions } = options;
+  const result = mkly(source, { kits: KITS, wrap: 'fragment', ...compileOptions });
+  expect(ignoreWarnings ? result.errors.filter(e => e.severity === 'error') : result.errors).toEqual([]);
+  return result.html;
+}
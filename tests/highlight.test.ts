@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'bun:test';
+import { mkly, reverseWeb, definePlugin, renderCodeInline, CORE_KIT } from '../src/index';
+import { highlightCode, tokenizeCode, parseLineRanges } from '../src/highlight';
+
+const KITS = { core: CORE_KIT };
+
+/** Tokens as `type:text`, skipping plain text. */
+function typed(code: string, lang: string): string[] {
+  return tokenizeCode(code, lang).filter(t => t.type).map(t => `${t.type}:${t.text}`);
+}
+
+describe('tokenizeCode', () => {
+  it('should tokenize TypeScript', () => {
+    expect(typed('const n: Foo = run("x", 42); // done', 'ts')).toEqual([
+      'keyword:const', 'type:Foo', 'function:run', 'punctuation:(', 'string:"x"', 'punctuation:,', 'number:42', 'punctuation:);', 'comment:// done',
+    ]);
+  });
+
+  it('should tell JSON keys from string values', () => {
+    expect(typed('{"a": "b", "n": null}', 'json')).toEqual([
+      'punctuation:{', 'property:"a"', 'punctuation::', 'string:"b"', 'punctuation:,', 'property:"n"', 'punctuation::', 'literal:null', 'punctuation:}',
+    ]);
+  });
+
+  it('should tokenize HTML tags and attributes', () => {
+    expect(typed('<a href="/x">Hi</a><!-- c -->', 'html')).toEqual([
+      'punctuation:<', 'tag:a', 'attribute:href', 'string:"/x"', 'punctuation:>', 'punctuation:</', 'tag:a', 'punctuation:>', 'comment:<!-- c -->',
+    ]);
+  });
+
+  it('should tell CSS properties from selectors', () => {
+    expect(typed('a:hover { color: #fff; }', 'css')).toEqual([
+      'punctuation::', 'punctuation:{', 'property:color', 'punctuation::', 'number:#fff', 'punctuation:;', 'punctuation:}',
+    ]);
+  });
+
+  it('should tokenize long CSS names in one step', () => {
+    const word = 'a'.repeat(50_000);
+    expect(tokenizeCode(word, 'css')).toEqual([{ text: word }]);
+    expect(typed(`${word}(x) ${'b:'.repeat(20_000)};`, 'css').slice(0, 2)).toEqual([`function:${word}`, 'punctuation:(']);
+  }, 1000);
+
+  it('should tokenize bash, python and SQL', () => {
+    expect(typed('export X="$HOME" # c', 'sh')).toEqual(['keyword:export', 'string:"$HOME"', 'comment:# c']);
+    expect(typed('def f(): return None', 'py')).toEqual(['keyword:def', 'function:f', 'punctuation:():', 'keyword:return', 'literal:None']);
+    expect(typed("select * from t where a = 'x'", 'sql')).toEqual(['keyword:select', 'keyword:from', 'keyword:where', "string:'x'"]);
+  });
+
+  it('should tokenize mkly source', () => {
+    expect(typed('--- core/button#cta\nlabel: Go\n\nHi {{name}}', 'mkly')).toEqual([
+      'keyword:---', 'tag:core/button', 'attribute:#cta', 'property:label', 'punctuation::', 'string: Go', 'variable:{{name}}',
+    ]);
+  });
+
+  it('should leave unknown languages plain', () => {
+    expect(tokenizeCode('fn main() {}', 'rust')).toEqual([{ text: 'fn main() {}' }]);
+  });
+});
+
+describe('highlightCode', () => {
+  it('should escape code inside spans', () => {
+    expect(highlightCode('"<b>" & x', 'js')).toBe('<span class="mkly-hl-string">"&lt;b&gt;"</span> &amp; x');
+  });
+
+  it('should inline colors from theme variables', () => {
+    expect(highlightCode('let x', 'js', { inline: { hlKeyword: '#f00' } })).toBe('<span style="color:#f00">let</span> x');
+  });
+
+  it('should number and mark lines, splitting multi-line tokens', () => {
+    expect(highlightCode('/* a\nb */\nx', 'js', { lineNumbers: true, highlight: new Set([2]) })).toBe(
+      '<span class="mkly-hl-line"><span class="mkly-hl-ln">1</span><span class="mkly-hl-comment">/* a</span></span>\n'
+      + '<span class="mkly-hl-line mkly-hl-line--marked"><span class="mkly-hl-ln">2</span><span class="mkly-hl-comment">b */</span></span>\n'
+      + '<span class="mkly-hl-line"><span class="mkly-hl-ln">3</span>x</span>',
+    );
+  });
+
+  it('should parse line ranges', () => {
+    expect([...parseLineRanges('1, 3-5, x')]).toEqual([1, 3, 4, 5]);
+  });
+});
+
+describe('core/code highlighting', () => {
+  const SOURCE = '--- core/code\nlang: python\nlineNumbers: true\nhighlight: 2-3\n\nx = 1\nif x:\n    print("<hi>")';
+
+  it('should highlight at compile time and add the highlight CSS', () => {
+    const result = mkly(SOURCE, { kits: KITS });
+    expect(result.errors).toEqual([]);
+    expect(result.html).toContain('<code data-lang="python" data-line-numbers data-highlight="2-3">');
+    expect(result.html).toContain('<span class="mkly-hl-line mkly-hl-line--marked"><span class="mkly-hl-ln">2</span><span class="mkly-hl-keyword">if</span> x<span class="mkly-hl-punctuation">:</span></span>');
+    expect(result.css).toContain('.mkly-hl-keyword{color:var(--mkly-hl-keyword, #d73a49)}');
+  });
+
+  it('should take colors from the theme', () => {
+    const result = mkly(`--- theme: core/dark\n\n${SOURCE}`, { kits: KITS });
+    expect(result.css).toContain('--mkly-hl-keyword: #ff7b72');
+  });
+
+  it('should inline colors for email renderers', () => {
+    const email = definePlugin({ name: 'email', renderers: { 'core/code': renderCodeInline } });
+    const result = mkly(`--- style\nhlKeyword: #ff0000\n\n${SOURCE}`, { kits: KITS, plugins: [email] });
+    expect(result.html).toContain('<span style="color:#ff0000">if</span>');
+    expect(result.html).toContain('data-highlight="2-3"');
+    expect(result.html).not.toContain('class="mkly-hl-');
+    expect(result.css).not.toContain('.mkly-hl-');
+  });
+
+  it('should match the documented preview', () => {
+    const docs = CORE_KIT.docs!['core/code'];
+    expect(mkly(docs.usage, { kits: KITS, wrap: 'fragment' }).html).toContain(docs.htmlPreview);
+  });
+
+  it('should not touch code without a known language', () => {
+    const result = mkly('--- core/code\nlang: rust\n\nfn main() {}', { kits: KITS });
+    expect(result.html).toContain('<code data-lang="rust">fn main() {}</code>');
+    expect(result.css).not.toContain('.mkly-hl-');
+  });
+
+  it('should round-trip through reverse conversion', () => {
+    const reversed = reverseWeb(mkly(SOURCE, { kits: KITS }).html);
+    expect(reversed).toContain('--- core/code\nlang: python\nlineNumbers: true\nhighlight: 2-3\n\nx = 1\nif x:\n    print("<hi>")');
+  });
+});
@@ -37,10 +37,10 @@ describe('htmlToMarkdown: basic elements', () => {
     expect(result).toBe('[Click](https://example.com)');
   });
 
-  it('converts br to newline', () => {
-    expect(htmlToMarkdown('Line 1<br>Line 2')).toBe('Line 1\nLine 2');
-    expect(htmlToMarkdown('Line 1<br/>Line 2')).toBe('Line 1\nLine 2');
-    expect(htmlToMarkdown('Line 1<br />Line 2')).toBe('Line 1\nLine 2');
+  it('converts br to a hard line break', () => {
+    expect(htmlToMarkdown('Line 1<br>Line 2')).toBe('Line 1\\\nLine 2');
+    expect(htmlToMarkdown('Line 1<br/>Line 2')).toBe('Line 1\\\nLine 2');
+    expect(htmlToMarkdown('Line 1<br />\nLine 2')).toBe('Line 1\\\nLine 2');
   });
 });
 
@@ -231,3 +231,28 @@ describe('htmlToMarkdown: complex HTML', () => {
     expect(result).toBe('Hello');
   });
 });
+
+// ===== Block Structure =====
+
+describe('htmlToMarkdown: block structure', () => {
+  it('separates paragraphs with a blank line', () => {
+    expect(htmlToMarkdown('<p>One</p><p class="s1">Two</p>')).toBe('One\n\nTwo {.s1}');
+  });
+
+  it('numbers ordered lists and indents nested lists', () => {
+    expect(htmlToMarkdown('<ol start="2"><li>A<ul><li>Sub</li></ul></li><li>B</li></ol>')).toBe('2. A\n   - Sub\n3. B');
+  });
+
+  it('converts task items, quotes, rules, code and images', () => {
+    expect(htmlToMarkdown('<ul><li><input type="checkbox" disabled checked> Done</li></ul>')).toBe('- [x] Done');
+    expect(htmlToMarkdown('<blockquote><p>A</p><p>B</p></blockquote>')).toBe('> A\n>\n> B');
+    expect(htmlToMarkdown('<p>A</p><hr><p>B</p>')).toBe('A\n\n---\n\nB');
+    expect(htmlToMarkdown('<pre><code class="language-ts">a &lt; b\n\n\n**c**</code></pre>')).toBe('```ts\na < b\n\n\n**c**\n```');
+    expect(htmlToMarkdown('<img src="/a.png" alt="A">')).toBe('![A](/a.png)');
+  });
+
+  it('converts tables', () => {
+    const html = '<table><thead><tr><th>A</th><th style="text-align:right">B</th></tr></thead><tbody><tr><td>1</td><td>2</td></tr></tbody></table>';
+    expect(htmlToMarkdown(html)).toBe('| A | B |\n| --- | ---: |\n| 1 | 2 |');
+  });
+});
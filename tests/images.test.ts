@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'bun:test';
+import { mkly, reverseWeb, defineKit, defineBlock, createImageResolver, imageTag } from '../src/index';
+import type { ImageContext, ImageResolver } from '../src/index';
+import { KITS, body } from './helpers';
+
+const PHOTO = 'https://example.com/photos/lake.jpg';
+
+describe('images resolver', () => {
+  it('should leave images untouched without a resolver', () => {
+    expect(body(`--- core/image\nsrc: ${PHOTO}\nalt: Lake\nwidth: 300`)).toContain(
+      `<figure class="mkly-core-image"><img src="${PHOTO}" alt="Lake" width="300" class="mkly-core-image__img"></figure>`,
+    );
+  });
+
+  it('should apply the resolved source, intrinsic size and placeholder', () => {
+    const seen: Array<Omit<ImageContext, 'block'>> = [];
+    const images: ImageResolver = (url, { block: _, ...context }) => {
+      seen.push(context);
+      return { src: `${url}?w=600`, srcset: `${url}?w=600 1x, ${url}?w=1200 2x`, width: 1200, height: 800, placeholder: '#d4e4ef' };
+    };
+    expect(body(`--- core/image\nsrc: ${PHOTO}\nalt: Lake\nwidth: 300`, { images })).toContain(
+      `<img src="${PHOTO}?w=600" srcset="${PHOTO}?w=600 1x, ${PHOTO}?w=1200 2x" alt="Lake" width="300" height="200"`
+      + ` loading="lazy" decoding="async" class="mkly-core-image__img" style="background-color:#d4e4ef" data-src="${PHOTO}">`,
+    );
+    expect(seen).toEqual([{ target: 'img', width: 300, eager: undefined }]);
+  });
+
+  it('should call the resolver for card, hero and header images and load above-the-fold ones eagerly', () => {
+    const targets: string[] = [];
+    const images: ImageResolver = (url, { block, target }) => {
+      targets.push(`${block.blockType}:${target}`);
+      return { src: url };
+    };
+    const html = body(
+      `--- core/header\nlogo: ${PHOTO}\ntitle: Weekly\n\n--- core/hero\nimage: ${PHOTO}\n\nHello\n\n--- core/card\nimage: ${PHOTO}\n\nStory`,
+      { images },
+    );
+    expect(targets).toEqual(['core/header:logo', 'core/hero:img', 'core/card:img']);
+    expect(html).toContain(`<img src="${PHOTO}" alt="" decoding="async" class="mkly-core-header__logo">`);
+    expect(html).toContain(`<img src="${PHOTO}" alt="" decoding="async" class="mkly-core-hero__img">`);
+    expect(html).toContain(`<img src="${PHOTO}" alt="" loading="lazy" decoding="async" class="mkly-core-card__img">`);
+  });
+
+  it('should resolve markdown images in block content', () => {
+    const images: ImageResolver = url => ({ src: url.replace('example.com', 'cdn.example.com') });
+    const html = body(`--- core/text\n\n![Lake & hills](${PHOTO} "At dawn")\n\n--- core/table\n\n| Photo |\n| --- |\n| ![Lake](${PHOTO}) |`, { images });
+    expect(html).toContain(
+      '<p><img src="https://cdn.example.com/photos/lake.jpg" alt="Lake &amp; hills" loading="lazy" decoding="async"'
+      + ` class="mkly-core-text__img" data-src="${PHOTO}" title="At dawn"></p>`,
+    );
+    expect(html).toContain('<td class="mkly-core-table__cell"><img src="https://cdn.example.com/photos/lake.jpg" alt="Lake"');
+    expect(reverseWeb(mkly(`--- core/text\n\n![Lake](${PHOTO})`, { kits: KITS, images }).html)).toContain(`![Lake](${PHOTO})`);
+  });
+
+  it('should be available to kit blocks through imageTag', () => {
+    const kit = defineKit({
+      name: 'shop',
+      blocks: [defineBlock({
+        name: 'product',
+        contentMode: 'properties',
+        compile: (block, ctx) => `<div class="mkly-shop-product">${imageTag(block, block.properties.photo ?? '', ctx, { target: 'photo', alt: 'Product' })}</div>`,
+      })],
+    });
+    const html = mkly(`--- use: shop\n\n--- shop/product\nphoto: ${PHOTO}`, {
+      kits: { shop: kit },
+      wrap: 'fragment',
+      images: url => ({ src: url.replace('example.com', 'cdn.example.com') }),
+    }).html;
+    expect(html).toContain('<img src="https://cdn.example.com/photos/lake.jpg" alt="Product" loading="lazy" decoding="async" class="mkly-shop-product__photo"');
+  });
+
+  it('should recover the source URL in reverse conversion', () => {
+    const source = `--- core/card\nimage: ${PHOTO}\n\nStory`;
+    const images = createImageResolver({ template: 'https://cdn.example.com/{path}?w={width}' });
+    const reversed = reverseWeb(mkly(source, { kits: KITS, images }).html);
+    expect(reversed).toContain(`image: ${PHOTO}`);
+    expect(body(reversed, { images })).toBe(body(source, { images }));
+  });
+});
+
+describe('createImageResolver', () => {
+  const context = { block: { blockType: 'core/image', properties: {} } as ImageContext['block'], target: 'img' };
+
+  it('should fill the template for each srcset width', () => {
+    const resolve = createImageResolver({
+      template: 'https://acme.imgix.net/{path}?w={width}',
+      widths: [800, 400],
+      placeholder: 'https://acme.imgix.net/{path}?w={width}&blur=200',
+      dimensions: { [PHOTO]: { width: 1600, height: 900 } },
+    });
+    expect(resolve(`${PHOTO}`, context)).toEqual({
+      src: 'https://acme.imgix.net/photos/lake.jpg?w=800',
+      srcset: 'https://acme.imgix.net/photos/lake.jpg?w=400 400w, https://acme.imgix.net/photos/lake.jpg?w=800 800w',
+      sizes: '100vw',
+      width: 1600,
+      height: 900,
+      placeholder: 'https://acme.imgix.net/photos/lake.jpg?w=24&blur=200',
+    });
+  });
+
+  it('should join the template query to a source query with &', () => {
+    const resolve = createImageResolver({ template: 'https://acme.imgix.net/{path}?w={width}' });
+    expect(resolve('https://example.com/a.jpg?v=2', { ...context, width: 300 })?.src).toBe('https://acme.imgix.net/a.jpg?v=2&w=300');
+    expect(createImageResolver({ template: 'https://cdn.example.com/{path}' })('https://example.com/a.jpg?v=2', context)?.src)
+      .toBe('https://cdn.example.com/a.jpg?v=2');
+  });
+
+  it('should offer density candidates for a display width and skip relative or excluded URLs', () => {
+    const resolve = createImageResolver({
+      template: 'https://res.cloudinary.com/acme/image/fetch/w_{width}/{url}',
+      include: url => !url.includes('skip'),
+    });
+    expect(resolve('https://example.com/a.png?v=2', { ...context, width: 300 })?.srcset).toBe(
+      'https://res.cloudinary.com/acme/image/fetch/w_300/https%3A%2F%2Fexample.com%2Fa.png%3Fv%3D2 1x, '
+      + 'https://res.cloudinary.com/acme/image/fetch/w_600/https%3A%2F%2Fexample.com%2Fa.png%3Fv%3D2 2x',
+    );
+    expect(resolve('/local.png', context)).toBeUndefined();
+    expect(resolve('https://example.com/skip.png', context)).toBeUndefined();
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'bun:test';
+import { parse, parseIncremental } from '../src/index';
+import type { MklyDocument, TextEdit } from '../src/index';
+
+const SOURCE = [
+  '--- use: core',                 // 1
+  '',                              // 2
+  '--- meta',                      // 3
+  'version: 1',                    // 4
+  '',                              // 5
+  '--- core/heading',              // 6
+  'level: 1',                      // 7
+  '',                              // 8
+  'Title',                         // 9
+  '',                              // 10
+  '--- core/text',                 // 11
+  '',                              // 12
+  'First paragraph',               // 13
+  '',                              // 14
+  '--- core/section',              // 15
+  'title: News',                   // 16
+  '',                              // 17
+  '--- core/text',                 // 18
+  '',                              // 19
+  'Inside',                        // 20
+  '',                              // 21
+  '--- /core/section',             // 22
+  '',                              // 23
+  '--- core/text',                 // 24
+  '',                              // 25
+  'Last paragraph',                // 26
+].join('\n');
+
+function edit(startLine: number, startCol: number, endLine: number, endCol: number, text: string): TextEdit {
+  return { range: { start: { line: startLine, column: startCol }, end: { line: endLine, column: endCol } }, text };
+}
+
+function applyText(source: string, e: TextEdit): string {
+  const lines = source.split('\n');
+  const offset = (line: number, col: number) =>
+    lines.slice(0, line - 1).reduce((n, l) => n + l.length + 1, 0) + col - 1;
+  return source.slice(0, offset(e.range.start.line, e.range.start.column)) + e.text + source.slice(offset(e.range.end.line, e.range.end.column));
+}
+
+function stripIdentity(doc: MklyDocument) {
+  return JSON.parse(JSON.stringify({ blocks: doc.blocks, errors: doc.errors, comments: doc.comments }));
+}
+
+describe('parseIncremental', () => {
+  it('should match a full parse after an edit inside a block', () => {
+    const prev = parse(SOURCE, { sourceMap: true });
+    const e = edit(13, 7, 13, 16, 'line\n\nwith more');
+    const { doc, fullReparse } = parseIncremental(prev, [e]);
+    expect(fullReparse).toBe(false);
+    expect(stripIdentity(doc)).toEqual(stripIdentity(parse(applyText(SOURCE, e), { sourceMap: true })));
+  });
+
+  it('should keep identity of unchanged blocks and report changed ones', () => {
+    const prev = parse(SOURCE);
+    const [heading, text, section, last] = prev.blocks;
+    const { doc, changed, removed } = parseIncremental(prev, [edit(13, 1, 13, 6, 'Opening')]);
+    expect(doc.blocks[0]).toBe(heading);
+    expect(doc.blocks[1]).not.toBe(text);
+    expect(doc.blocks[1].content).toBe('Opening paragraph');
+    expect(doc.blocks[2]).toBe(section);
+    expect(doc.blocks[3]).toBe(last);
+    expect(changed).toEqual([doc.blocks[1]]);
+    expect(removed).toEqual([text]);
+  });
+
+  it('should shift positions of blocks after a line-count change', () => {
+    const prev = parse(SOURCE, { sourceMap: true });
+    const last = prev.blocks[3];
+    const { doc } = parseIncremental(prev, [edit(13, 16, 13, 16, '\nextra\nlines')]);
+    expect(doc.blocks[3]).toBe(last);
+    expect(last.position.start.line).toBe(26);
+    expect(last.contentLineMap).toEqual([28]);
+  });
+
+  it('should handle a newly inserted block', () => {
+    const prev = parse(SOURCE);
+    const e = edit(14, 1, 14, 1, '--- core/divider\n');
+    const { doc, changed } = parseIncremental(prev, [e]);
+    expect(doc.blocks.map(b => b.blockType)).toEqual(['core/heading', 'core/text', 'core/divider', 'core/section', 'core/text']);
+    expect(changed.map(b => b.blockType)).toEqual(['core/divider']);
+    expect(stripIdentity(doc)).toEqual(stripIdentity(parse(applyText(SOURCE, e))));
+  });
+
+  it('should merge content into the previous block when a header is deleted', () => {
+    const prev = parse(SOURCE);
+    const e = edit(11, 1, 12, 1, '');
+    const { doc } = parseIncremental(prev, [e]);
+    expect(stripIdentity(doc)).toEqual(stripIdentity(parse(applyText(SOURCE, e))));
+    expect(doc.blocks[0].content).toContain('First paragraph');
+  });
+
+  it('should fall back to a full parse when the first block header is edited', () => {
+    const source = '--- style\ncore/text\n  color: red\n\n--- core/text\n\nHello\n\n--- core/text\n\nBye';
+    for (const e of [edit(5, 1, 6, 1, ''), edit(5, 5, 5, 14, 'core/quote')]) {
+      const { doc, fullReparse } = parseIncremental(parse(source, { sourceMap: true }), [e]);
+      expect(fullReparse).toBe(true);
+      expect(stripIdentity(doc)).toEqual(stripIdentity(parse(applyText(source, e), { sourceMap: true })));
+      expect(doc.styles).toEqual(parse(applyText(source, e)).styles);
+    }
+  });
+
+  it('should fall back to a full parse when text before the first header joins its content', () => {
+    const source = '--- meta\nversion: 1\n\nstray\n--- core/text\nHi\n\n--- core/text\nBye';
+    for (const e of [edit(6, 1, 6, 1, 'X'), edit(9, 1, 9, 1, 'X')]) {
+      const { doc, fullReparse } = parseIncremental(parse(source, { sourceMap: true }), [e]);
+      expect(fullReparse).toBe(true);
+      expect(stripIdentity(doc)).toEqual(stripIdentity(parse(applyText(source, e), { sourceMap: true })));
+    }
+  });
+
+  it('should re-parse the whole container for edits inside it', () => {
+    const prev = parse(SOURCE);
+    const e = edit(20, 1, 20, 7, 'Changed');
+    const { doc, changed } = parseIncremental(prev, [e]);
+    expect(changed).toHaveLength(1);
+    expect(changed[0].children[0].content).toBe('Changed');
+    expect(stripIdentity(doc)).toEqual(stripIdentity(parse(applyText(SOURCE, e))));
+  });
+
+  it('should fall back to a full parse for preamble edits but keep identity', () => {
+    const prev = parse(SOURCE);
+    const blocks = [...prev.blocks];
+    const { doc, fullReparse, changed } = parseIncremental(prev, [edit(4, 11, 4, 11, '\ntitle: Hi')]);
+    expect(fullReparse).toBe(true);
+    expect(doc.meta.title).toBe('Hi');
+    expect(doc.blocks).toEqual(blocks);
+    doc.blocks.forEach((b, i) => expect(b).toBe(blocks[i]));
+    expect(changed).toHaveLength(0);
+  });
+
+  it('should fall back to a full parse when a directive is typed into the body', () => {
+    const prev = parse(SOURCE);
+    const e = edit(14, 1, 14, 1, '--- style\ncore/text\n  color: red\n');
+    const { doc, fullReparse } = parseIncremental(prev, [e]);
+    expect(fullReparse).toBe(true);
+    expect(doc.styles).toHaveLength(1);
+  });
+
+  it('should fall back when a verbatim block loses its closer', () => {
+    const source = '--- core/text\n\nA\n\n--- core/html\n\n<b>x</b>\n\n--- /core/html\n\n--- core/text\n\nB';
+    const options = { verbatimBlocks: new Set(['core/html']) };
+    const prev = parse(source, options);
+    const e = edit(9, 1, 9, 15, '');
+    const { doc, fullReparse } = parseIncremental(prev, [e]);
+    expect(fullReparse).toBe(true);
+    expect(stripIdentity(doc)).toEqual(stripIdentity(parse(applyText(source, e), options)));
+  });
+
+  it('should update errors and comments inside the edited region', () => {
+    const prev = parse(SOURCE);
+    const e = edit(13, 1, 13, 1, '// note\n');
+    const { doc } = parseIncremental(prev, [edit(7, 1, 7, 1, 'level: 2\n'), e]);
+    expect(doc.errors.some(err => err.message.includes('Duplicate property "level"'))).toBe(true);
+    expect(doc.comments).toEqual([{ content: 'note', line: 14 }]);
+  });
+
+  it('should chain incremental parses', () => {
+    let source = SOURCE;
+    let doc = parse(source);
+    const edits = [edit(26, 15, 26, 15, '!'), edit(9, 1, 9, 1, 'My '), edit(24, 1, 24, 1, '--- core/divider\n\n')];
+    for (const e of edits) {
+      doc = parseIncremental(doc, [e]).doc;
+      source = applyText(source, e);
+    }
+    expect(stripIdentity(doc)).toEqual(stripIdentity(parse(source)));
+  });
+
+  it('should reject documents that were not produced by parse()', () => {
+    const doc = { ...parse(SOURCE) };
+    expect(() => parseIncremental(doc, [])).toThrow();
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'bun:test';
+import { interpolate, mkly, CORE_KIT } from '../src/index';
+import type { InterpolationIssue } from '../src/index';
+
+const scope = {
+  meta: { title: 'Weekly' },
+  data: { issue: 42, sponsor: { name: 'acme' }, date: '2026-10-19', empty: '' },
+};
+
+describe('interpolate', () => {
+  it('should resolve meta and data paths', () => {
+    expect(interpolate('{{meta.title}} #{{ issue }} by {{sponsor.name}}', scope)).toBe('Weekly #42 by acme');
+  });
+
+  it('should apply filters in order', () => {
+    expect(interpolate('{{sponsor.name | upper}}', scope)).toBe('ACME');
+    expect(interpolate('{{sponsor.name | capitalize}}', scope)).toBe('Acme');
+    expect(interpolate('{{date | date:long}}', scope)).toBe('October 19, 2026');
+    expect(interpolate('{{date | date:iso}}', scope)).toBe('2026-10-19');
+    expect(interpolate('Hi {{name | default:"Friend" | upper}}', scope)).toBe('Hi FRIEND');
+    expect(interpolate('{{empty | default:"a | b"}}', scope)).toBe('a | b');
+  });
+
+  it('should keep escaped references literal', () => {
+    expect(interpolate('\\{{meta.title}} is {{meta.title}}', scope)).toBe('{{meta.title}} is Weekly');
+  });
+
+  it('should leave code spans and fenced code alone in markdown', () => {
+    const text = 'Use `{{issue}}` or ``{{ `x` }}`` for {{issue}}\n\n```hbs\n{{#each items}}\n```\n~~~\n{{issue}}\n~~~\n{{issue}}';
+    const issues: InterpolationIssue[] = [];
+    expect(interpolate(text, scope, i => issues.push(i), undefined, true))
+      .toBe('Use `{{issue}}` or ``{{ `x` }}`` for 42\n\n```hbs\n{{#each items}}\n```\n~~~\n{{issue}}\n~~~\n42');
+    expect(issues).toEqual([]);
+    expect(interpolate('```\n{{issue}}', scope, undefined, undefined, true)).toBe('```\n{{issue}}');
+    expect(interpolate('`{{issue}}', scope, undefined, undefined, true)).toBe('`42');
+  });
+
+  it('should report what it cannot resolve', () => {
+    const issues: InterpolationIssue[] = [];
+    expect(interpolate('A {{missing}} B {{issue | shout}} {{sponsor}}', scope, i => issues.push(i))).toBe('A  B  ');
+    expect(issues.map(i => [i.offset, i.length])).toEqual([[2, 11], [16, 17], [34, 11]]);
+    expect(issues[0].message).toStartWith('Undefined variable "missing"');
+    expect(issues[1].message).toStartWith('Unknown filter "shout"');
+    expect(issues[2].message).toBe('"sponsor" is not a text value');
+  });
+});
+
+describe('interpolation in compile', () => {
+  const source = `--- use: core
+
+--- meta
+version: 1
+title: Weekly
+
+--- core/heading
+
+{{meta.title}} #{{issue}}
+
+--- core/button
+url: "https://example.com/{{issue}}"
+
+Read more
+
+--- core/text
+Read **{{title}}**
+
+--- core/html
+<p>{{ kept }}</p>
+--- /core/html`;
+
+  it('should resolve references in content and properties', () => {
+    const result = mkly(source, { kits: { core: CORE_KIT }, data: { issue: 7, title: '<i>*One*</i>' } });
+    expect(result.errors).toEqual([]);
+    expect(result.html).toContain('Weekly #7</h2>');
+    expect(result.html).toContain('href="https://example.com/7"');
+    expect(result.html).toContain('<strong>&lt;i&gt;*One*&lt;/i&gt;</strong>');
+    expect(result.html).toContain('<p>{{ kept }}</p>');
+    expect(result.html).not.toContain('\uFDD0');
+  });
+
+  it('should resolve references in meta values, which content then sees', () => {
+    const result = mkly('--- meta\ntitle: "Issue {{issue}}"\nauthor: {{who}}\n\n--- core/text\n\n{{meta.title}}', { kits: { core: CORE_KIT }, wrap: 'fragment', data: { issue: 7 } });
+    expect(result.meta.title).toBe('Issue 7');
+    expect(result.html).toContain('<p>Issue 7</p>');
+    expect(result.errors.map(e => [e.message.split(' — ')[0], e.line, e.range])).toEqual([
+      ['Undefined variable "who"', 3, { start: { line: 3, column: 9 }, end: { line: 3, column: 16 } }],
+    ]);
+  });
+
+  it('should link autolinks and destinations made from values', () => {
+    const result = mkly('--- core/text\n\n<{{url}}> <{{mail}}> [a]({{url}}) [b](<{{url}}>)', {
+      kits: { core: CORE_KIT },
+      wrap: 'fragment',
+      data: { url: 'https://example.com/?a=1&b=2', mail: 'me@example.com' },
+    });
+    const href = '<a href="https://example.com/?a=1&amp;b=2">';
+    expect(result.html).toContain(`<p>${href}https://example.com/?a=1&amp;b=2</a> <a href="mailto:me@example.com">me@example.com</a> ${href}a</a> ${href}b</a></p>`);
+  });
+
+  it('should show template syntax in code as written', () => {
+    const code = '--- core/text\n\nType `{{name}}`:\n\n```\n{{#each items}}\n```\n\n--- core/code\nlang: hbs\n\n<b>{{name}}</b>';
+    const result = mkly(code, { kits: { core: CORE_KIT }, wrap: 'fragment' });
+    expect(result.errors).toEqual([]);
+    expect(result.html).toContain('<p>Type <code>{{name}}</code>:</p>');
+    expect(result.html).toContain('<pre><code>{{#each items}}</code></pre>');
+    expect(result.html).toContain('<code data-lang="hbs">&lt;b&gt;{{name}}&lt;/b&gt;</code>');
+  });
+
+  it('should keep private-use characters that icon fonts use', () => {
+    const result = mkly('--- core/text\n\n\uE000 Home {{page}} \uE001', { kits: { core: CORE_KIT }, data: { page: 2 } });
+    expect(result.html).toContain('<p>\uE000 Home 2 \uE001</p>');
+  });
+
+  it('should report undefined variables with ranges, with or without a source map', () => {
+    for (const sourceMap of [true, false]) {
+      const result = mkly(source, { kits: { core: CORE_KIT }, sourceMap });
+      const errors = result.errors.filter(e => e.message.startsWith('Undefined variable'));
+      expect(errors.map(e => [e.message.split(' — ')[0], e.range?.start.line, e.range?.start.column, e.range?.end.column])).toEqual([
+        ['Undefined variable "issue"', 9, 17, 26],
+        ['Undefined variable "issue"', 12, 27, 36],
+        ['Undefined variable "title"', 17, 8, 17],
+      ]);
+    }
+  });
+});
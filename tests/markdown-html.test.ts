@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'bun:test';
-import { markdownToHtml } from '../src/utils';
+import { markdownToHtml } from '../src/markdown';
+import { defineKit } from '../src/kit';
+import { body, KITS } from './helpers';
 
 describe('markdownToHtml', () => {
   // ===== Basic Elements =====
@@ -139,6 +141,11 @@ describe('markdownToHtml', () => {
     expect(result).toContain('data-mkly-line="6"');
   });
 
+  it('maps a wrapped version 2 paragraph to its first line', () => {
+    const result = markdownToHtml('Hello\nagain\n\n- World', [5, 6, 7, 8], { version: 2 });
+    expect(result).toBe('<p data-mkly-line="5">Hello\nagain</p>\n<ul data-mkly-line="8">\n<li data-mkly-line="8">World</li>\n</ul>');
+  });
+
   // ===== Non-breaking Spaces =====
 
   it('converts \\~ to &nbsp;', () => {
@@ -176,4 +183,180 @@ describe('markdownToHtml', () => {
     expect(result).toContain('</ol>');
     expect(result).toContain('<ul>');
   });
+
+  it('renders literal values as plain text', () => {
+    expect(markdownToHtml('Hi \uFDD0**<b>**\uFDD1!')).toBe('<p>Hi **&lt;b&gt;**!</p>');
+    expect(markdownToHtml('\uFDD0- not a list\uFDD1')).toBe('<p>- not a list</p>');
+    expect(markdownToHtml('[Go](\uFDD0javascript:alert(1)\uFDD1)')).toBe('<p>Go</p>');
+    expect(markdownToHtml('[Go](https://x.com/\uFDD0a&b\uFDD1)')).toBe('<p><a href="https://x.com/a&amp;b">Go</a></p>');
+  });
+});
+
+describe('markdownToHtml: block structure', () => {
+  const v2 = { version: 2 };
+
+  it('joins wrapped lines into one paragraph from version 2', () => {
+    expect(markdownToHtml('One\ntwo\n\nThree', undefined, v2)).toBe('<p>One\ntwo</p>\n<p>Three</p>');
+    expect(markdownToHtml('One\ntwo\n\nThree')).toBe('<p>One</p>\n<p>two</p>\n<p>Three</p>');
+    expect(markdownToHtml('> One\ntwo')).toBe('<blockquote>\n<p>One</p>\n<p>two</p>\n</blockquote>');
+  });
+
+  it('ends a paragraph at a class annotation', () => {
+    expect(markdownToHtml('One {.s1}\nTwo')).toBe('<p class="s1">One</p>\n<p>Two</p>');
+  });
+
+  it('renders all six heading levels and setext headings', () => {
+    expect(markdownToHtml('###### Six')).toBe('<h6>Six</h6>');
+    expect(markdownToHtml('Title\n=====\n\nSub\n---')).toBe('<h1>Title</h1>\n<h2>Sub</h2>');
+  });
+
+  it('renders thematic breaks', () => {
+    expect(markdownToHtml('Above\n\n***\n\nBelow')).toBe('<p>Above</p>\n<hr>\n<p>Below</p>');
+  });
+
+  it('renders fenced code verbatim', () => {
+    expect(markdownToHtml('```js\nconst a = **b** < c;\n\n// [x](y)\n```')).toBe(
+      '<pre><code class="language-js">const a = **b** &lt; c;\n\n// [x](y)</code></pre>',
+    );
+    expect(markdownToHtml('~~~\nopen')).toBe('<pre><code>open</code></pre>');
+  });
+
+  it('renders indented code, which cannot interrupt a paragraph', () => {
+    expect(markdownToHtml('Run:\n\n    npm i\n\n      --save\n\nDone')).toBe(
+      '<p>Run:</p>\n<pre><code>npm i\n\n  --save</code></pre>\n<p>Done</p>',
+    );
+    expect(markdownToHtml('One\n    two', undefined, v2)).toBe('<p>One\ntwo</p>');
+    expect(markdownToHtml('- Item\n\n      code')).toBe('<ul>\n<li><p>Item</p>\n<pre><code>code</code></pre></li>\n</ul>');
+  });
+
+  it('renders blockquotes with lazy continuation and nesting', () => {
+    expect(markdownToHtml('> Quoted\nlazy\n>\n> > Inner', undefined, v2)).toBe(
+      '<blockquote>\n<p>Quoted\nlazy</p>\n<blockquote>\n<p>Inner</p>\n</blockquote>\n</blockquote>',
+    );
+  });
+
+  it('stops nesting quotes, lists and footnotes at 50 levels', () => {
+    const quotes = markdownToHtml(`${'>'.repeat(20_000)} x`);
+    expect(quotes.match(/<blockquote>/g)).toHaveLength(50);
+    expect(quotes).toContain(`<p>${'&gt;'.repeat(19_950)} x</p>`);
+    const list = markdownToHtml(Array.from({ length: 2000 }, (_, i) => `${'  '.repeat(i)}- item`).join('\n'), undefined, v2);
+    expect(list.match(/<ul>/g)).toHaveLength(50);
+    expect(list).toContain('<li>item\n- item\n- item');
+    expect(() => markdownToHtml('[^a]: '.repeat(20_000))).not.toThrow();
+  }, 1000);
+
+  it('nests lists by indentation', () => {
+    expect(markdownToHtml('- One\n  1. Sub\n  2. Sub\n- Two')).toBe(
+      '<ul>\n<li>One\n<ol>\n<li>Sub</li>\n<li>Sub</li>\n</ol></li>\n<li>Two</li>\n</ul>',
+    );
+  });
+
+  it('wraps loose list items in paragraphs', () => {
+    expect(markdownToHtml('- One\n\n- Two')).toBe('<ul>\n<li><p>One</p></li>\n<li><p>Two</p></li>\n</ul>');
+  });
+
+  it('keeps the ordered list start', () => {
+    expect(markdownToHtml('3. Three\n4. Four')).toContain('<ol start="3">');
+  });
+
+  it('renders task list items', () => {
+    expect(markdownToHtml('- [x] Done\n- [ ] Todo')).toBe(
+      '<ul>\n<li><input type="checkbox" disabled checked> Done</li>\n<li><input type="checkbox" disabled> Todo</li>\n</ul>',
+    );
+  });
+
+  it('renders tables with alignment', () => {
+    expect(markdownToHtml('| Name | Qty |\n|:--|--:|\n| `a|b` | 2 |')).toBe(
+      '<table>\n<thead>\n<tr><th style="text-align:left">Name</th><th style="text-align:right">Qty</th></tr>\n</thead>\n'
+      + '<tbody>\n<tr><td style="text-align:left"><code>a|b</code></td><td style="text-align:right">2</td></tr>\n</tbody>\n</table>',
+    );
+  });
+
+  it('escapes raw HTML', () => {
+    expect(markdownToHtml('<script>x</script>')).toBe('<p>&lt;script&gt;x&lt;/script&gt;</p>');
+  });
+});
+
+describe('markdownToHtml: inline', () => {
+  it('renders emphasis with underscores, but not inside words', () => {
+    expect(markdownToHtml('__strong__ _em_ snake_case_name')).toBe('<p><strong>strong</strong> <em>em</em> snake_case_name</p>');
+  });
+
+  it('nests emphasis by delimiter runs', () => {
+    expect(markdownToHtml('***both*** ___both___')).toBe('<p><em><strong>both</strong></em> <em><strong>both</strong></em></p>');
+    expect(markdownToHtml('***a** b* *a **b***')).toBe('<p><em><strong>a</strong> b</em> <em>a <strong>b</strong></em></p>');
+    expect(markdownToHtml('*foo**bar**baz* **foo*')).toBe('<p><em>foo<strong>bar</strong>baz</em> *<em>foo</em></p>');
+  });
+
+  it('renders hard line breaks', () => {
+    expect(markdownToHtml('One  \nTwo\\\nThree', undefined, { version: 2 })).toBe('<p>One<br>\nTwo<br>\nThree</p>');
+  });
+
+  it('keeps markdown inside code spans literal', () => {
+    expect(markdownToHtml('`[x](#y) **b**`')).toBe('<p><code>[x](#y) **b**</code></p>');
+  });
+
+  it('renders an empty code span', () => {
+    expect(markdownToHtml('Empty `` and ``` ` ```')).toBe('<p>Empty <code></code> and <code>`</code></p>');
+  });
+
+  it('honors backslash escapes', () => {
+    expect(markdownToHtml('\\*not em\\* \\# \\[x\\]')).toBe('<p>*not em* # [x]</p>');
+  });
+
+  it('renders images', () => {
+    expect(markdownToHtml('![A *cat*](https://x.com/cat.png "Cat")')).toBe(
+      '<p><img src="https://x.com/cat.png" alt="A cat" title="Cat"></p>',
+    );
+  });
+
+  it('renders links with parentheses, titles and references', () => {
+    expect(markdownToHtml('[Wiki](https://x.org/a_(b) "T")')).toBe('<p><a href="https://x.org/a_(b)" title="T">Wiki</a></p>');
+    expect(markdownToHtml('[a](/u\\_v "x \\"y\\"")')).toBe('<p><a href="/u_v" title="x &quot;y&quot;">a</a></p>');
+    expect(markdownToHtml('[Docs][d] and [d]\n\n[d]: https://docs.x.com')).toBe(
+      '<p><a href="https://docs.x.com">Docs</a> and <a href="https://docs.x.com">d</a></p>',
+    );
+  });
+
+  it('renders autolinks and bare URLs', () => {
+    expect(markdownToHtml('<https://a.com> <me@x.com> see www.b.com.')).toBe(
+      '<p><a href="https://a.com">https://a.com</a> <a href="mailto:me@x.com">me@x.com</a> see <a href="http://www.b.com">www.b.com</a>.</p>',
+    );
+  });
+
+  it('keeps inline styles across markdown', () => {
+    expect(markdownToHtml('{@color:red}**hot**{/}')).toBe('<p><span style="color:red"><strong>hot</strong></span></p>');
+  });
+});
+
+describe('markdownToHtml: strict mode', () => {
+  const strict = { strict: true, version: 2 };
+
+  it('leaves tables and task items as text', () => {
+    expect(markdownToHtml('| a |\n|---|', undefined, strict)).toBe('<p>| a |\n|---|</p>');
+    expect(markdownToHtml('- [x] Done', undefined, strict)).toBe('<ul>\n<li>[x] Done</li>\n</ul>');
+  });
+
+  it('only links to web, mail, phone and in-page targets', () => {
+    expect(markdownToHtml('[a](https://x.com) [b](mailto:a@x.com) [c](#top) [d](ftp://x.com)', undefined, strict)).toBe(
+      '<p><a href="https://x.com">a</a> <a href="mailto:a@x.com">b</a> <a href="#top">c</a> d</p>',
+    );
+    expect(markdownToHtml('See https://x.com', undefined, strict)).toBe('<p>See https://x.com</p>');
+  });
+
+  it('only shows images from absolute URLs', () => {
+    expect(markdownToHtml('![Logo](/logo.png) ![Logo](https://x.com/logo.png)', undefined, strict)).toBe(
+      '<p>Logo <img src="https://x.com/logo.png" alt="Logo"></p>',
+    );
+  });
+
+  it('applies to core blocks through the kit and compile markdown settings', () => {
+    const source = '--- core/text\n\nSee https://x.com\n\n--- core/table\n\n| [a](ftp://x.com) |\n|---|';
+    const kits = { ...KITS, email: defineKit({ name: 'email', markdown: { strict: true } }) };
+    for (const html of [body(source, { markdown: { strict: true } }), body(`--- use: email\n\n${source}`, { kits })]) {
+      expect(html).toContain('<p>See https://x.com</p>');
+      expect(html).toContain('>a</th>');
+    }
+    expect(body(`--- use: email\n\n${source}`, { kits, markdown: { strict: false } })).toContain('<a href="https://x.com">');
+  });
 });
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'bun:test';
-import { parse } from '../src/parser';
+import { parse, parseAsync } from '../src/parser';
+import { mkly, CORE_KIT } from '../src/index';
 import type { MklyDocument } from '../src/types';
 
 describe('parser', () => {
@@ -88,6 +89,36 @@ This is hero content`;
       expect(doc.blocks[0].content).toBe('# Welcome\n\nThis is hero content');
     });
 
+    it('should parse multi-line property values', () => {
+      const source = `--- core/card
+title: Card
+description: |
+  First line
+
+  Second line
+summary: >
+  Folded
+  text
+
+Body`;
+      const doc = parse(source, { sourceMap: true });
+      const block = doc.blocks[0];
+      expect(block.properties).toEqual({
+        title: 'Card',
+        description: 'First line\n\nSecond line',
+        summary: 'Folded text',
+      });
+      expect(block.content).toBe('Body');
+      expect(block.propertyLines).toEqual({ title: 2, description: 3, summary: 7 });
+      expect(block.propertyRanges!.description.value).toEqual({ start: { line: 4, column: 3 }, end: { line: 6, column: 14 } });
+      expect(doc.errors).toEqual([]);
+    });
+
+    it('should keep block scalar syntax in content as written', () => {
+      const source = '--- core/text\n\nUsage: |\n  indented';
+      expect(parse(source).blocks[0].content).toBe('Usage: |\n  indented');
+    });
+
     it('should require blank line to separate properties from content', () => {
       const source = `--- core/text
 key: value
@@ -200,6 +231,170 @@ Nested item
       expect(doc.errors[0].message).toContain('Closing --- /core/section has no matching opening block');
       expect(doc.errors[0].severity).toBe('warning');
     });
+
+    it('should nest same-type containers', () => {
+      const source = `--- core/section: Outer
+--- core/section: Inner
+--- core/text
+Inside
+--- /core/section
+--- core/text
+After inner
+--- /core/section`;
+      const doc = parse(source);
+      expect(doc.errors).toEqual([]);
+      expect(doc.blocks).toHaveLength(1);
+      const outer = doc.blocks[0];
+      expect(outer.children.map(c => c.label ?? c.blockType)).toEqual(['Inner', 'core/text']);
+      expect(outer.children[0].children.map(c => c.content)).toEqual(['Inside']);
+      expect(outer.position.end.line).toBe(8);
+      expect(outer.children[0].position.end.line).toBe(5);
+    });
+
+    it('should close containers by id', () => {
+      const source = `--- core/section#outer
+--- core/section#inner
+--- core/text
+Inside
+--- /core/section#inner
+--- core/card
+--- /core/section#outer`;
+      const doc = parse(source);
+      expect(doc.errors).toEqual([]);
+      const outer = doc.blocks[0];
+      expect(outer.id).toBe('outer');
+      expect(outer.children.map(c => c.id ?? c.blockType)).toEqual(['inner', 'core/card']);
+      expect(outer.idRange).toEqual({ start: { line: 1, column: 18 }, end: { line: 1, column: 23 } });
+    });
+
+    it('should not match a closer id against a different opener', () => {
+      const doc = parse('--- core/section#a\n--- core/text\nHi\n--- /core/section#b');
+      expect(doc.errors[0].message).toContain('Closing --- /core/section#b has no matching opening block');
+    });
+
+    describe('known containers', () => {
+      const options = { containerBlocks: new Set(['core/section', 'newsletter/category']) };
+
+      it('should nest children as written', () => {
+        const doc = parse('--- core/section\n--- core/text\nA\n--- /core/section\n--- core/text\nB', options);
+        expect(doc.errors).toEqual([]);
+        expect(doc.blocks.map(b => b.blockType)).toEqual(['core/section', 'core/text']);
+        expect(doc.blocks[0].children.map(c => c.content)).toEqual(['A']);
+      });
+
+      it('should report a container that is never closed', () => {
+        const doc = parse('--- core/text\nA\n--- core/section: Main\n--- core/text\nB', options);
+        expect(doc.errors).toHaveLength(1);
+        expect(doc.errors[0]).toMatchObject({
+          message: '"--- core/section" is never closed — add "--- /core/section"',
+          line: 3,
+          severity: 'error',
+          range: { start: { line: 3, column: 1 }, end: { line: 3, column: 23 } },
+        });
+        expect(doc.blocks[1].children.map(c => c.content)).toEqual(['B']);
+        expect(doc.blocks[1].position.end.line).toBe(5);
+      });
+
+      it('should point at both ends of a crossed closer', () => {
+        const source = `--- core/section#outer
+--- newsletter/category
+--- core/text
+A
+--- /core/section#outer
+--- /newsletter/category`;
+        const doc = parse(source, options);
+        expect(doc.errors[0]).toMatchObject({
+          message: '"--- newsletter/category" (line 2) is not closed before "--- /core/section#outer" (line 5)',
+          line: 5,
+          severity: 'error',
+          range: { start: { line: 5, column: 1 } },
+          relatedRange: { start: { line: 2, column: 1 } },
+        });
+        expect(doc.errors[1].message).toBe('Closing --- /newsletter/category has no matching opening block');
+        expect(doc.blocks).toHaveLength(1);
+        expect(doc.blocks[0].children[0].children.map(c => c.content)).toEqual(['A']);
+      });
+
+      it('should name the open container when a closer matches nothing', () => {
+        const doc = parse('--- core/section\n--- core/text\nA\n--- /core/card\n--- /core/section', options);
+        expect(doc.errors).toHaveLength(1);
+        expect(doc.errors[0]).toMatchObject({
+          message: 'Closing --- /core/card has no matching opening block — "--- core/section" (line 1) is still open',
+          line: 4,
+          relatedRange: { start: { line: 1, column: 1 } },
+        });
+      });
+    });
+  });
+
+  describe('includes', () => {
+    const files: Record<string, string> = {
+      header: '--- use: newsletter\n\n--- style\ncore/text\n  color: red\n\n--- core/heading\nlevel: 1\n\nHello',
+      card: '--- core/card\nlink: x\n\n--- include: header',
+      loop: '--- include: loop',
+    };
+    const resolveInclude = (id: string) => {
+      if (!(id in files)) throw new Error('not found');
+      return files[id];
+    };
+
+    it('should splice included blocks in place and tag their source', () => {
+      const doc = parse('--- use: core\n\n--- core/section\n--- include: card\n--- /core/section\n--- core/divider', { resolveInclude });
+      expect(doc.errors).toEqual([]);
+      expect(doc.blocks.map(b => b.blockType)).toEqual(['core/section', 'core/divider']);
+      const [card, heading] = doc.blocks[0].children;
+      expect(card.source).toBe('card');
+      expect(heading.source).toBe('header');
+      expect(heading.position.start.line).toBe(7);
+      expect(doc.blocks[1].source).toBeUndefined();
+    });
+
+    it('should merge included kits and styles', () => {
+      const doc = parse('--- use: core\n\n--- style\ncore/card\n  padding: 8px\n\n--- include: header', { resolveInclude });
+      expect(doc.uses).toEqual(['core', 'newsletter']);
+      expect(doc.styles).toHaveLength(2);
+      expect(doc.styles[0]).toContain('color: red');
+      expect(doc.ranges?.styleLines).toEqual([[4, 5], [4, 5]]);
+      expect(doc.ranges?.styleFiles).toEqual(['header', undefined]);
+    });
+
+    it('should let the including document override included styles', () => {
+      const result = mkly('--- include: header\n\n--- style\ncore/text\n  color: blue', {
+        kits: { core: CORE_KIT },
+        resolveInclude: () => '--- style\ncore/text\n  color: red\n  @phone\n    color: green',
+      });
+      expect(result.css).toContain('color: blue');
+      expect(result.css).not.toContain('color: red');
+      expect(result.errors.find(e => e.message.includes('@phone'))).toMatchObject({ line: 4, file: 'header' });
+    });
+
+    it('should report cycles, depth and resolver failures at the include line', () => {
+      const cycle = parse('--- include: loop', { resolveInclude });
+      expect(cycle.errors[0]).toMatchObject({ message: 'Include cycle: loop → loop', line: 1, file: 'loop' });
+      expect(parse('--- include: card', { resolveInclude, maxIncludeDepth: 1 }).errors[0]).toMatchObject({ line: 4, file: 'card' });
+      expect(parse('--- core/text\nHi\n--- include: missing', { resolveInclude }).errors[0])
+        .toMatchObject({ message: 'Cannot include "missing": not found', line: 3 });
+      expect(parse('--- include: header').errors[0].message).toContain('no ParseOptions.resolveInclude');
+    });
+
+    it('should point errors inside an included document at that document', () => {
+      const doc = parse('--- include: broken', { resolveInclude: () => '--- core/text\n@title: x' });
+      expect(doc.errors[0]).toMatchObject({ line: 2, file: 'broken' });
+    });
+
+    it('should resolve asynchronously with parseAsync', async () => {
+      const calls: string[] = [];
+      const doc = await parseAsync('--- include: card\n--- include: card', {
+        resolveInclude: async id => {
+          calls.push(id);
+          return resolveInclude(id);
+        },
+      });
+      expect(calls).toEqual(['card', 'header']);
+      expect(doc.errors).toEqual([]);
+      expect(doc.blocks.map(b => b.blockType)).toEqual(['core/card', 'core/heading', 'core/card', 'core/heading']);
+      expect(parse('--- include: card', { resolveInclude: async id => files[id] }).errors[0].message).toContain('parseAsync()');
+    });
   });
 
   describe('multiple blocks', () => {
@@ -280,6 +475,22 @@ Block 2`;
     });
   });
 
+  describe('escaped block boundaries', () => {
+    it('should keep escaped boundaries as content', () => {
+      const source = '--- core/section\n--- core/text\n\nWrite\n\\--- core/card\nand close with\n\\--- /core/section\n--- /core/section';
+      const doc = parse(source);
+      expect(doc.blocks).toHaveLength(1);
+      expect(doc.blocks[0].children).toHaveLength(1);
+      expect(doc.blocks[0].children[0].content).toBe('Write\n--- core/card\nand close with\n--- /core/section');
+    });
+
+    it('should let verbatim blocks contain their own closer', () => {
+      const source = '--- core/html\n\n<pre>\\--- /core/html</pre>\n\\--- /core/html\n--- /core/html';
+      const doc = parse(source, { verbatimBlocks: new Set(['core/html']) });
+      expect(doc.blocks[0].content).toBe('<pre>\\--- /core/html</pre>\n--- /core/html');
+    });
+  });
+
   describe('content trimming', () => {
     it('should trim leading blank lines from content', () => {
       const source = `--- core/text
@@ -343,6 +554,39 @@ Content`;
       expect(doc.blocks[0].position.start.line).toBe(1);
       expect(doc.blocks[0].position.end.line).toBe(5);
     });
+
+    it('should record header, label and property ranges', () => {
+      const doc = parse('--- core/card: Intro\ntitle: Hello\n\nBody text  ');
+      const block = doc.blocks[0];
+      expect(block.headerRange).toEqual({ start: { line: 1, column: 1 }, end: { line: 1, column: 21 } });
+      expect(block.labelRange).toEqual({ start: { line: 1, column: 16 }, end: { line: 1, column: 21 } });
+      expect(block.propertyRanges?.title).toEqual({
+        key: { start: { line: 2, column: 1 }, end: { line: 2, column: 6 } },
+        value: { start: { line: 2, column: 8 }, end: { line: 2, column: 13 } },
+      });
+      expect(block.position.end).toEqual({ line: 4, column: 10 });
+    });
+
+    it('should record directive ranges', () => {
+      const doc = parse('--- use: core\n--- theme\n  core/dark\n--- meta\nversion: 1\n--- style\n\ncore/text\n  color: red');
+      expect(doc.ranges?.uses).toEqual([{ start: { line: 1, column: 10 }, end: { line: 1, column: 14 } }]);
+      expect(doc.ranges?.themes).toEqual([{ start: { line: 3, column: 3 }, end: { line: 3, column: 12 } }]);
+      expect(doc.ranges?.meta.version.value).toEqual({ start: { line: 5, column: 10 }, end: { line: 5, column: 11 } });
+      expect(doc.ranges?.styleLines).toEqual([[8, 9]]);
+    });
+
+    it('should attach ranges to every parse error', () => {
+      const source = '--- meta\nversion: abc\n--- core/text\n@color: red\ntitle: a\ntitle: b\n--- /core/card\n--- define-preset: empty';
+      const doc = parse(source);
+      expect(doc.errors.length).toBeGreaterThanOrEqual(5);
+      for (const error of doc.errors) {
+        expect(error.range?.start.line).toBe(error.line);
+      }
+      const duplicate = doc.errors.find(e => e.message.startsWith('Duplicate'));
+      expect(duplicate?.range).toEqual({ start: { line: 6, column: 1 }, end: { line: 6, column: 6 } });
+      const version = doc.errors.find(e => e.message.includes('version'));
+      expect(version?.range).toEqual({ start: { line: 2, column: 10 }, end: { line: 2, column: 13 } });
+    });
   });
 
   describe('full document parsing', () => {
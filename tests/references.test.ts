@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'bun:test';
+import { mkly, parse, parseIncremental, findBlockById, reverseWeb, CORE_KIT } from '../src/index';
+import type { CompileError } from '../src/types';
+
+const KITS = { core: CORE_KIT };
+
+const DOC = `--- use: core
+
+--- meta
+version: 1
+
+--- core/section#news
+--- core/text#intro
+
+See [the signup](#signup).
+--- /core/section#news
+
+--- core/button#signup
+url: https://example.com
+label: Join`;
+
+describe('block ids', () => {
+  it('should render the id as the HTML id', () => {
+    const result = mkly(DOC, { kits: KITS, wrap: 'fragment' });
+    expect(result.errors).toEqual([]);
+    expect(result.html).toMatch(/<section id="news" class="mkly-core-section/);
+    expect(result.html).toMatch(/<\w+ id="intro"/);
+    expect(result.html).toMatch(/<\w+ id="signup"/);
+    expect(result.html).toContain('<a href="#signup">the signup</a>');
+  });
+
+  it('should use the id as the source map identity', () => {
+    const result = mkly(DOC, { kits: KITS, sourceMap: true });
+    expect(result.html).toContain('data-mkly-id="signup"');
+    expect(result.html).toContain('data-mkly-id="news"');
+    expect(result.sourceMap?.map(e => e.id)).toEqual(['news', 'signup']);
+    expect(mkly('--- core/divider', { sourceMap: true }).html).toContain('data-mkly-id="core/divider:1"');
+  });
+
+  it('should find blocks by id inside containers', () => {
+    const doc = parse(DOC);
+    expect(findBlockById(doc, 'intro')?.blockType).toBe('core/text');
+    expect(findBlockById(doc.blocks, 'signup')?.properties.label).toBe('Join');
+    expect(findBlockById(doc, 'missing')).toBeUndefined();
+  });
+
+  it('should report duplicate ids at the second id', () => {
+    const doc = parse('--- core/text#a\n\nOne\n\n--- core/text#a\n\nTwo');
+    expect(doc.errors).toEqual([{
+      message: 'Duplicate block id "a" — already used on line 1',
+      line: 5,
+      severity: 'error',
+      range: { start: { line: 5, column: 15 }, end: { line: 5, column: 16 } },
+      relatedRange: { start: { line: 1, column: 15 }, end: { line: 1, column: 16 } },
+    }]);
+  });
+
+  it('should recheck duplicates after an incremental edit', () => {
+    const source = '--- core/text#a\n\nOne\n\n--- core/text#b\n\nTwo\n\n--- core/text\n\nThree';
+    const doc = parse(source);
+    const edit = { range: { start: { line: 5, column: 15 }, end: { line: 5, column: 16 } }, text: 'a' };
+    const duplicated = parseIncremental(doc, [edit]).doc;
+    expect(duplicated.errors.map(e => e.line)).toEqual([5]);
+
+    const fixed = parseIncremental(duplicated, [{ range: { start: { line: 1, column: 15 }, end: { line: 1, column: 16 } }, text: 'c' }]).doc;
+    expect(fixed.errors).toEqual([]);
+  });
+
+  it('should number ids repeated by --- each', () => {
+    const source = '--- each: items\n--- core/text#item\n\n{{item}}\n--- /each';
+    const result = mkly(source, { kits: KITS, wrap: 'fragment', data: { items: ['x', 'y'] } });
+    expect(result.errors).toEqual([]);
+    expect(result.html).toContain('id="item-0"');
+    expect(result.html).toContain('id="item-1"');
+  });
+
+  it('should keep ids through reverse conversion', () => {
+    const html = mkly(DOC, { kits: KITS }).html;
+    const reversed = reverseWeb(html);
+    expect(reversed).toContain('--- core/section#news');
+    expect(reversed).toContain('--- core/button#signup');
+  });
+});
+
+describe('[text](#id) references', () => {
+  it('should report links to ids no block has, with or without a source map', () => {
+    for (const sourceMap of [true, false]) {
+      const result = mkly('--- core/text#a\n\nSee [b](#b) and [a](#a)', { kits: KITS, sourceMap });
+      expect(result.errors).toEqual([{
+        message: 'Link to "#b" does not match any block id — give the target block "--- type#b"',
+        blockType: 'core/text',
+        line: 3,
+        severity: 'warning',
+        range: { start: { line: 3, column: 9 }, end: { line: 3, column: 11 } },
+      }]);
+    }
+  });
+
+  it('should check links built from data against the expanded ids', () => {
+    const source = '--- each: items\n--- core/text#item\n\n[next](#item-{{loop.index}})\n--- /each';
+    const result = mkly(source, { kits: KITS, data: { items: ['x', 'y'] } });
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should check #id properties', () => {
+    const result = mkly('--- core/button\nurl: #signup\nlabel: Join', { kits: KITS });
+    expect(result.errors.map(e => [(e as CompileError).property, e.line])).toEqual([['url', 2]]);
+  });
+
+  it('should ignore links in code', () => {
+    const source = '--- core/code\n\n[x](#nowhere)';
+    expect(mkly(source, { kits: KITS }).errors).toEqual([]);
+  });
+});
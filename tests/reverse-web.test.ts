@@ -36,6 +36,10 @@ describe('reverse web parser', () => {
       expect(htmlToMarkdown('<h2>Title</h2>')).toBe('## Title');
     });
 
+    it('should escape lines that look like block boundaries', () => {
+      expect(htmlToMarkdown('Intro<br>--- /core/section')).toBe('Intro\\\n\\--- /core/section');
+    });
+
     it('should decode entities', () => {
       expect(htmlToMarkdown('&amp; &lt; &gt;')).toBe('& < >');
     });
@@ -182,6 +186,23 @@ describe('reverse web parser', () => {
       expect(reversed).toContain('alt: Test image');
     });
 
+    it('should round-trip multi-line property values', () => {
+      const source = '--- use: core\n\n--- meta\nversion: 1\n\n--- core/image\nsrc: https://example.com/photo.jpg\nalt: |\n  Line one\n  Line two';
+      const html = mkly(source, { kits: { core: CORE_KIT } }).html;
+      const reversed = htmlToMkly(html);
+      expect(reversed).toContain('alt: |\n  Line one\n  Line two');
+      expect(mkly(reversed, { kits: { core: CORE_KIT } }).html).toBe(html);
+    });
+
+    it('should round-trip content that looks like block boundaries', () => {
+      const source = '--- use: core\n\n--- meta\nversion: 1\n\n--- core/code\nlang: mkly\n\n\\--- core/card\nlink: x\n\\--- /core/card\n\n--- core/text\n\n\\--- core/text';
+      const html = mkly(source, { kits: { core: CORE_KIT } }).html;
+      expect(html.replace(/<[^>]+>/g, '')).toContain('--- /core/card');
+      const reversed = htmlToMkly(html);
+      expect(reversed).toContain('\\--- /core/card');
+      expect(mkly(reversed, { kits: { core: CORE_KIT } }).html).toBe(html);
+    });
+
     it('should round-trip header with logo and title', () => {
       const source = '--- use: core\n\n--- meta\nversion: 1\n\n--- core/header\nlogo: https://example.com/logo.png\ntitle: My Newsletter';
       const html = mkly(source, { kits: { core: CORE_KIT } }).html;
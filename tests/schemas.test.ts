@@ -25,15 +25,15 @@ function makeBlock(
 
 describe('schemas', () => {
   describe('CORE_SCHEMAS', () => {
-    it('should have 16 schemas', () => {
-      expect(CORE_SCHEMAS).toHaveLength(16);
+    it('should have 21 schemas', () => {
+      expect(CORE_SCHEMAS).toHaveLength(21);
     });
 
-    it('should contain all 16 core block schemas', () => {
+    it('should contain all 21 core block schemas', () => {
       const coreNames = [
         'heading', 'text', 'image', 'button', 'divider', 'spacer',
-        'code', 'quote', 'hero', 'section', 'card', 'list',
-        'header', 'footer', 'cta', 'html',
+        'code', 'quote', 'hero', 'section', 'columns', 'card', 'list',
+        'header', 'footer', 'cta', 'html', 'toc', 'footnotes', 'table', 'embed',
       ];
       for (const name of coreNames) {
         expect(CORE_SCHEMA_MAP.has(name)).toBe(true);
@@ -44,7 +44,7 @@ describe('schemas', () => {
   describe('createBlockSchemas', () => {
     it('should create a map with only core schemas when called with no extras', () => {
       const schemas = createBlockSchemas();
-      expect(schemas.size).toBe(16);
+      expect(schemas.size).toBe(21);
       expect(schemas.has('heading')).toBe(true);
       expect(schemas.has('intro')).toBe(false);
     });
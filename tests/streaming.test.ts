@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'bun:test';
+import { createStreamingParser, compile, createRegistry, CORE_KIT } from '../src/index';
+
+const containerBlocks = new Set(['core/section']);
+
+describe('createStreamingParser', () => {
+  it('should hold back the block being written', () => {
+    const stream = createStreamingParser();
+    stream.write('--- core/text\nHello\n\n--- core/button\nur');
+    const result = stream.write('l: https://example.com\nlab');
+    expect(result.doc.blocks.map(b => b.blockType)).toEqual(['core/text']);
+    expect(result.pending?.blockType).toBe('core/button');
+    expect(result.pending?.properties).toEqual({ url: 'https://example.com' });
+    expect(result.pendingSource).toBe('--- core/button\nurl: https://example.com\nlab');
+    expect(result.doc.errors).toEqual([]);
+  });
+
+  it('should treat a half-written line as pending', () => {
+    const stream = createStreamingParser();
+    const result = stream.write('--- core/section\n--- /core/section\n--- /core/sec');
+    expect(result.doc.blocks.map(b => b.blockType)).toEqual(['core/section']);
+    expect(result.pending).toBeNull();
+    expect(result.pendingSource).toBe('--- /core/sec');
+    expect(result.doc.errors).toEqual([]);
+  });
+
+  it('should keep open containers with their completed children', () => {
+    const stream = createStreamingParser({ containerBlocks });
+    const result = stream.write('--- core/section\ntitle: News\n\n--- core/text\nOne\n\n--- core/text\nTw');
+    const [section] = result.doc.blocks;
+    expect(section.children.map(c => c.content)).toEqual(['One']);
+    expect(result.pending?.position.start.line).toBe(7);
+    expect(result.doc.errors).toEqual([]);
+  });
+
+  it('should report every error at end()', () => {
+    const stream = createStreamingParser({ containerBlocks });
+    stream.write('--- core/section\n--- core/text\nHi\n');
+    expect(stream.write('--- /core/missing\n').doc.errors.map(e => e.message)).toEqual([
+      'Closing --- /core/missing has no matching opening block — "--- core/section" (line 1) is still open',
+    ]);
+    const result = stream.end();
+    expect(result.pending).toBeNull();
+    expect(result.doc.errors.map(e => e.message)).toContain('"--- core/section" is never closed — add "--- /core/section"');
+    expect(() => stream.write('more')).toThrow();
+  });
+
+  it('should not take a block header inside verbatim content as a boundary', () => {
+    const stream = createStreamingParser({ verbatimBlocks: new Set(['core/html']) });
+    stream.write('--- core/text\nIntro\n\n--- core/html\n<pre>\n');
+    const result = stream.write('--- core/text\n</pre>\n');
+    expect(result.doc.blocks.map(b => b.blockType)).toEqual(['core/text']);
+    expect(result.pending?.blockType).toBe('core/html');
+    expect(result.pending?.content).toBe('<pre>\n--- core/text\n</pre>');
+    const closed = stream.write('--- /core/html\n');
+    expect(closed.doc.blocks.map(b => b.blockType)).toEqual(['core/text', 'core/html']);
+    expect(closed.pending).toBeNull();
+  });
+
+  it('should re-read only the blocks after the last committed one', () => {
+    const stream = createStreamingParser();
+    const first = stream.write('--- core/text\nOne\n\n--- core/text\nTwo\n\n--- core/text\nThr');
+    const second = stream.write('ee\n\n--- core/text\nFour\n');
+    expect(second.doc.blocks[0]).toBe(first.doc.blocks[0]);
+    expect(second.doc.blocks.map(b => b.content)).toEqual(['One', 'Two', 'Three']);
+    expect(second.pending?.content).toBe('Four');
+  });
+
+  it('should give the compiler only finished blocks', () => {
+    const stream = createStreamingParser();
+    const { doc } = stream.write('--- core/text\nDone\n\n--- core/image\nsrc: https://exa');
+    const result = compile(doc, createRegistry(), { kits: { core: CORE_KIT }, wrap: 'fragment' });
+    expect(result.errors).toEqual([]);
+    expect(result.html).toContain('Done');
+    expect(result.html).not.toContain('mkly-error');
+  });
+});
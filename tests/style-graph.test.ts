@@ -13,9 +13,25 @@ import {
   resolveValue,
   resolveForEmail,
   getEmailStyleMap,
+  getEmailMediaCSS,
+  resolveMediaQuery,
   type StyleGraph,
 } from '../src/style-graph';
 
+const RESPONSIVE = `core/card
+  padding: 24px
+  @mobile
+    padding: 12px
+    .img
+      width: 100%
+  .img
+    border-radius: 8px
+    @tablet
+      border-radius: 0
+  margin: 0
+  @media (min-width: 1200px)
+    max-width: 960px`;
+
 // ===== parseStyleGraph: Basic Parsing =====
 
 describe('parseStyleGraph: basic parsing', () => {
@@ -1212,3 +1228,119 @@ describe('style graph: stress tests', () => {
     expect(merged.rules).toHaveLength(5);
   });
 });
+
+describe('style graph: media rules', () => {
+  it('parses @mobile, @tablet and @media sections under blocks and sub-elements', () => {
+    const graph = parseStyleGraph(RESPONSIVE);
+    expect(graph.rules).toEqual([
+      { blockType: 'core/card', target: 'self', properties: { padding: '24px' } },
+      { blockType: 'core/card', target: 'self', properties: { padding: '12px' }, media: 'mobile' },
+      { blockType: 'core/card', target: 'img', properties: { width: '100%' }, media: 'mobile' },
+      { blockType: 'core/card', target: 'img', properties: { 'border-radius': '8px' } },
+      { blockType: 'core/card', target: 'img', properties: { 'border-radius': '0' }, media: 'tablet' },
+      { blockType: 'core/card', target: 'self', properties: { margin: '0' } },
+      { blockType: 'core/card', target: 'self', properties: { 'max-width': '960px' }, media: '(min-width: 1200px)' },
+    ]);
+    expect(graph.warnings).toBeUndefined();
+  });
+
+  it('warns about unknown breakpoints and top-level sections', () => {
+    expect(parseStyleGraph('core/text\n  @phone\n    color: red').warnings?.map(w => [w.message, w.line])).toEqual([
+      ['Unknown breakpoint "@phone" — use @mobile, @tablet, @media (…), or define it as a variable (e.g. "phone: 600px")', 2],
+    ]);
+    expect(parseStyleGraph('phone: 360px\ncore/text\n  @phone\n    color: red').warnings).toBeUndefined();
+    const topLevel = parseStyleGraph('@mobile\n  padding: 0');
+    expect(topLevel.warnings?.[0].message).toBe('"@mobile" must be nested under a block selector (e.g. "core/card" then "  @mobile")');
+    expect(topLevel.variables).toEqual([]);
+  });
+
+  it('parses media sections under raw CSS selectors', () => {
+    const source = '.promo a\n  color: red\n  @mobile\n    color: blue\n  font-weight: 600';
+    const graph = parseStyleGraph(source);
+    expect(graph.rules).toEqual([
+      { blockType: '__raw', target: '.promo a', properties: { color: 'red' } },
+      { blockType: '__raw', target: '.promo a', properties: { color: 'blue' }, media: 'mobile' },
+      { blockType: '__raw', target: '.promo a', properties: { 'font-weight': '600' } },
+    ]);
+    expect(compileStyleGraphToCSS(graph)).toContain('@media (max-width: 480px) {\n.promo a {\n  color: blue;\n}\n}');
+    expect(serializeStyleGraph(graph)).toBe('.promo a\n  color: red\n  font-weight: 600\n  @mobile\n    color: blue');
+    expect(parseStyleGraph('.promo\n  @phone\n    color: red').warnings?.[0].message).toStartWith('Unknown breakpoint "@phone"');
+  });
+
+  it('serializes media sections after the rest of each block', () => {
+    expect(serializeStyleGraph(parseStyleGraph(RESPONSIVE))).toBe(`core/card
+  padding: 24px
+  margin: 0
+  .img
+    border-radius: 8px
+  @mobile
+    padding: 12px
+    .img
+      width: 100%
+  @tablet
+    .img
+      border-radius: 0
+  @media (min-width: 1200px)
+    max-width: 960px`);
+    expect(serializeStyleGraph(parseStyleGraph('core/text\n  @media print\n    color: black'))).toBe('core/text\n  @media print\n    color: black');
+  });
+
+  it('compiles media rules into @media blocks after the base rules', () => {
+    const css = compileStyleGraphToCSS(parseStyleGraph(`mobile: 400px\n${RESPONSIVE}`));
+    expect(css).toEndWith([
+      '.mkly-core-card {\n  margin: 0;\n}',
+      '@media (max-width: 768px) {\n.mkly-core-card__img {\n  border-radius: 0;\n}\n}',
+      '@media (max-width: 400px) {\n.mkly-core-card {\n  padding: 12px;\n}\n\n.mkly-core-card__img {\n  width: 100%;\n}\n}',
+      '@media (min-width: 1200px) {\n.mkly-core-card {\n  max-width: 960px;\n}\n}',
+    ].join('\n\n'));
+  });
+
+  it('orders @media blocks so the narrowest max-width and widest min-width come last', () => {
+    const source = 'core/text\n  @mobile\n    color: red\n  @media (min-width: 1200px)\n    color: green\n  @tablet\n    color: blue\n  @media (min-width: 800px)\n    color: gray\n  @media print\n    color: black';
+    const queries = (css: string) => [...css.matchAll(/@media ([^{]+) \{/g)].map(m => m[1]);
+    const expected = ['(max-width: 768px)', '(max-width: 480px)', '(min-width: 800px)', '(min-width: 1200px)', 'print'];
+    expect(queries(compileStyleGraphToCSS(parseStyleGraph(source)))).toEqual(expected);
+    expect(queries(getEmailMediaCSS(parseStyleGraph(source), {}))).toEqual(expected);
+  });
+
+  it('leaves sections under unknown breakpoints and a nested @dark out of the CSS', () => {
+    const graph = parseStyleGraph('core/text\n  color: red\n  @phone\n    color: blue\n  @dark\n    color: white');
+    expect(graph.warnings?.map(w => [w.message, w.line])).toEqual([
+      ['Unknown breakpoint "@phone" — use @mobile, @tablet, @media (…), or define it as a variable (e.g. "phone: 600px")', 3],
+      ['"@dark" must be at the top level, with the dark color variables indented under it', 5],
+    ]);
+    expect(compileStyleGraphToCSS(graph)).toBe('.mkly-core-text {\n  color: red;\n}');
+    expect(getEmailMediaCSS(graph, {})).toBe('');
+    expect(compileStyleGraphToCSS(graph, { phone: '360px' })).toContain('@media (max-width: 360px) {\n.mkly-core-text {\n  color: blue;\n}\n}');
+  });
+
+  it('resolves breakpoint names through variables, then the defaults', () => {
+    expect(resolveMediaQuery('mobile')).toBe('(max-width: 480px)');
+    expect(resolveMediaQuery('tablet', { tablet: '800' })).toBe('(max-width: 800px)');
+    expect(resolveMediaQuery('wide', { wide: '(min-width: 1400px)' })).toBe('(min-width: 1400px)');
+    expect(resolveMediaQuery('(orientation: portrait)')).toBe('(orientation: portrait)');
+    expect(resolveMediaQuery('print')).toBe('print');
+  });
+
+  it('addresses media rules separately in mergeRule, removeRule, getStyleValue and mergeStyleGraphs', () => {
+    let graph = mergeRule(emptyStyleGraph(), 'core/card', 'self', 'padding', '24px');
+    graph = mergeRule(graph, 'core/card', 'self', 'padding', '12px', undefined, 'mobile');
+    expect(getStyleValue(graph, 'core/card', 'self', 'padding')).toBe('24px');
+    expect(getStyleValue(graph, 'core/card', 'self', 'padding', undefined, 'mobile')).toBe('12px');
+    expect(serializeStyleGraph(graph)).toBe('core/card\n  padding: 24px\n  @mobile\n    padding: 12px');
+
+    const merged = mergeStyleGraphs(graph, parseStyleGraph('core/card\n  @mobile\n    padding: 8px'));
+    expect(merged.rules).toHaveLength(2);
+    expect(getStyleValue(merged, 'core/card', 'self', 'padding', undefined, 'mobile')).toBe('8px');
+
+    graph = removeRule(graph, 'core/card', 'self', 'padding', undefined, 'mobile');
+    expect(graph.rules).toEqual([{ blockType: 'core/card', target: 'self', properties: { padding: '24px' } }]);
+  });
+
+  it('keeps media rules out of inline email styles and puts them in the style block', () => {
+    const graph = parseStyleGraph('core/card\n  padding: $spacing\n  @mobile\n    padding: $gap');
+    expect(getEmailStyleMap(graph, 'core/card', 'self', { spacing: '24px', gap: '12px' })).toEqual({ padding: '24px' });
+    expect(getEmailMediaCSS(graph, { spacing: '24px', gap: '12px', mobile: '600px' }))
+      .toBe('@media (max-width: 600px) {\n.mkly-core-card {\n  padding: 12px !important;\n}\n}');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'bun:test';
+import { mkly, reverseWeb } from '../src/index';
+import { parseCsv, parseTable } from '../src/table';
+import { KITS, body } from './helpers';
+
+const DOC = `--- core/table
+caption: Q3 results
+
+| Region | Revenue |
+| --- | ---: |
+| **EMEA** | $1.2M |
+| APAC | $0.9M |`;
+
+describe('parseCsv', () => {
+  it('should split quoted fields with commas, quotes and line breaks', () => {
+    expect(parseCsv('a, b ,c\n"Paris, France","say ""hi""","two\nlines"\n\n')).toEqual([
+      ['a', 'b', 'c'],
+      ['Paris, France', 'say "hi"', 'two\nlines'],
+    ]);
+  });
+});
+
+describe('parseTable', () => {
+  it('should take the header from the delimiter row and pad short rows', () => {
+    expect(parseTable('| A | B |\n|:--|:-:|\n| 1 |')).toEqual({
+      head: ['A', 'B'],
+      rows: [['1', '']],
+      align: ['left', 'center'],
+    });
+  });
+
+  it('should follow the header and align options', () => {
+    expect(parseTable('| A | B |\n| 1 | 2 |')).toEqual({ rows: [['A', 'B'], ['1', '2']], align: [null, null] });
+    expect(parseTable('| A | B |\n| 1 | 2 |', { header: true, align: ',right' }).head).toEqual(['A', 'B']);
+    expect(parseTable('name,age\nAda,36', { format: 'csv', header: false }).rows).toEqual([['name', 'age'], ['Ada', '36']]);
+    expect(parseTable('a,b', { format: 'csv', align: 'right, nope' }).align).toEqual(['right', null]);
+  });
+});
+
+describe('core/table', () => {
+  it('should render BEM classes, inline alignment and a caption', () => {
+    expect(body(DOC)).toContain(
+      '<table class="mkly-core-table" cellpadding="0" cellspacing="0">'
+      + '<caption class="mkly-core-table__caption">Q3 results</caption>'
+      + '<thead class="mkly-core-table__head"><tr class="mkly-core-table__row">'
+      + '<th class="mkly-core-table__cell" scope="col">Region</th>'
+      + '<th class="mkly-core-table__cell" scope="col" style="text-align:right">Revenue</th></tr></thead>'
+      + '<tbody><tr class="mkly-core-table__row"><td class="mkly-core-table__cell"><strong>EMEA</strong></td>'
+      + '<td class="mkly-core-table__cell" style="text-align:right">$1.2M</td></tr>'
+      + '<tr class="mkly-core-table__row"><td class="mkly-core-table__cell">APAC</td>'
+      + '<td class="mkly-core-table__cell" style="text-align:right">$0.9M</td></tr></tbody></table>',
+    );
+  });
+
+  it('should render CSV without a header', () => {
+    const html = body('--- core/table\nformat: csv\nheader: false\nalign: center\n\nname,"Paris, France"');
+    expect(html).not.toContain('<thead');
+    expect(html).toContain('<td class="mkly-core-table__cell" style="text-align:center">name</td><td class="mkly-core-table__cell">Paris, France</td>');
+  });
+
+  it('should warn about an empty table', () => {
+    const result = mkly('--- core/table\ncaption: Nothing', { kits: KITS });
+    expect(result.errors.map(e => [e.message, e.severity])).toEqual([
+      ['table block has no rows — add a pipe table or CSV as content', 'warning'],
+    ]);
+  });
+
+  it('should style its targets through the style graph', () => {
+    const html = mkly(`${DOC}\n\n--- style\ncore/table\n  padding: 0\n  .cell\n    padding: 4px\n`, { kits: KITS }).html;
+    expect(html).toContain('.mkly-core-table__cell {\n  padding: 0.25rem;\n}');
+  });
+
+  it('should round-trip through reverse conversion', () => {
+    const reversed = reverseWeb(mkly(DOC, { kits: KITS }).html);
+    expect(reversed).toContain('--- core/table\ncaption: Q3 results\n\n| Region | Revenue |\n| --- | ---: |\n| **EMEA** | $1.2M |\n| APAC | $0.9M |');
+    expect(body(reversed)).toBe(body(DOC));
+
+    const csv = '--- core/table\nformat: csv\nheader: false\nalign: ",right"\n\na,"b | c"';
+    expect(body(reverseWeb(mkly(csv, { kits: KITS }).html))).toBe(body(csv));
+  });
+});
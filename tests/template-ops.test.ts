@@ -92,6 +92,45 @@ A featured article summary.
       expect(result).not.toContain('A featured article summary');
     });
 
+    it('keeps multi-line properties as block scalars', () => {
+      const source = `--- meta
+version: 1
+notes: |
+  Line one
+  Line two
+
+--- newsletter/featured
+link: https://example.com
+caption: |
+  First
+  Second
+
+Summary.
+`;
+      const result = stripContent(source, KITS);
+      expect(result).toContain('caption: |\n  First\n  Second');
+      const doc = parse(result);
+      expect(doc.meta.notes).toBe('Line one\nLine two');
+      expect(doc.blocks[0].properties.caption).toBe('First\nSecond');
+    });
+
+    it('escapes content lines that look like block boundaries', () => {
+      const source = `--- meta
+version: 1
+
+--- core/html
+
+<pre>
+\\--- core/text
+</pre>
+`;
+      const result = stripContent(source, KITS);
+      expect(result).toContain('\n\\--- core/text\n');
+      const doc = parse(result, { verbatimBlocks: new Set(['core/html']) });
+      expect(doc.blocks).toHaveLength(1);
+      expect(doc.blocks[0].content).toBe('<pre>\n--- core/text\n</pre>');
+    });
+
     it('strips children from category blocks', () => {
       const source = `--- meta
 version: 1
@@ -110,6 +149,7 @@ Some item content.
       const result = stripContent(source, KITS);
       expect(result).toContain('--- newsletter/category');
       expect(result).toContain('title: Technology');
+      expect(result).toContain('--- /newsletter/category');
       expect(result).not.toContain('--- newsletter/item');
       expect(result).not.toContain('Some item content');
     });
@@ -199,6 +239,29 @@ alt: A scenic view
       expect(result).toContain('alt: A scenic view');
       expect(result).not.toContain('src:');
     });
+
+    it('keeps conditions and their containers', () => {
+      const source = `--- meta
+version: 1
+
+--- if: audience == "pro"
+
+--- core/text
+unless: meta.draft
+
+Members only.
+
+--- /if
+`;
+      const result = stripContent(source, KITS);
+      expect(result).toContain('--- if: audience == "pro"\n\n--- core/text\nunless: meta.draft\n\n--- /if');
+      expect(result).not.toContain('Members only');
+    });
+
+    it('keeps repeated templates as written', () => {
+      const source = '--- each: links as link\n\n--- core/text\n\n[{{link.title}}]({{link.url}})\n\n--- /each';
+      expect(stripContent(source, KITS)).toContain(source);
+    });
   });
 
   describe('injectSampleContent', () => {
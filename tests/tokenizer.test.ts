@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'bun:test';
-import { tokenize } from '../src/tokenizer';
+import { tokenize, escapeBlockBoundaries } from '../src/tokenizer';
 import type { TokenizedLine } from '../src/types';
 
 describe('tokenizer', () => {
@@ -7,21 +7,21 @@ describe('tokenizer', () => {
     it('should tokenize blank lines', () => {
       const result = tokenize('\n\n');
       expect(result).toHaveLength(3);
-      expect(result[0]).toEqual({ type: 'blank', line: 1 });
-      expect(result[1]).toEqual({ type: 'blank', line: 2 });
+      expect(result[0]).toMatchObject({ type: 'blank', line: 1 });
+      expect(result[1]).toMatchObject({ type: 'blank', line: 2 });
     });
 
     it('should tokenize lines with only spaces as blank', () => {
       const result = tokenize('   \n\t\t\n');
-      expect(result[0]).toEqual({ type: 'blank', line: 1 });
-      expect(result[1]).toEqual({ type: 'blank', line: 2 });
+      expect(result[0]).toMatchObject({ type: 'blank', line: 1 });
+      expect(result[1]).toMatchObject({ type: 'blank', line: 2 });
     });
   });
 
   describe('comments', () => {
     it('should tokenize comment lines', () => {
       const result = tokenize('// This is a comment');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'comment',
         content: 'This is a comment',
         line: 1,
@@ -30,7 +30,7 @@ describe('tokenizer', () => {
 
     it('should tokenize comment with leading spaces', () => {
       const result = tokenize('  // Indented comment');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'comment',
         content: 'Indented comment',
         line: 1,
@@ -39,7 +39,7 @@ describe('tokenizer', () => {
 
     it('should handle comment with no space after //', () => {
       const result = tokenize('//No space');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'comment',
         content: 'No space',
         line: 1,
@@ -50,7 +50,7 @@ describe('tokenizer', () => {
   describe('block start', () => {
     it('should tokenize basic block start', () => {
       const result = tokenize('--- core/text');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'block_start',
         blockType: 'core/text',
         line: 1,
@@ -59,7 +59,7 @@ describe('tokenizer', () => {
 
     it('should tokenize block start with label', () => {
       const result = tokenize('--- core/section: Features');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'block_start',
         blockType: 'core/section',
         label: 'Features',
@@ -69,7 +69,7 @@ describe('tokenizer', () => {
 
     it('should tokenize block start with label containing spaces', () => {
       const result = tokenize('--- newsletter/category: Tools & Resources');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'block_start',
         blockType: 'newsletter/category',
         label: 'Tools & Resources',
@@ -79,7 +79,7 @@ describe('tokenizer', () => {
 
     it('should tokenize block start with leading spaces', () => {
       const result = tokenize('  --- core/hero');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'block_start',
         blockType: 'core/hero',
         line: 1,
@@ -88,7 +88,7 @@ describe('tokenizer', () => {
 
     it('should tokenize block start with trailing spaces', () => {
       const result = tokenize('--- core/card   ');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'block_start',
         blockType: 'core/card',
         line: 1,
@@ -96,10 +96,29 @@ describe('tokenizer', () => {
     });
   });
 
+  describe('block ids', () => {
+    it('should read an id on block starts and ends', () => {
+      expect(tokenize('--- core/section#outer: Main')[0]).toMatchObject({
+        type: 'block_start',
+        blockType: 'core/section',
+        id: 'outer',
+        label: 'Main',
+        idRange: { start: { line: 1, column: 18 }, end: { line: 1, column: 23 } },
+        labelRange: { start: { line: 1, column: 25 }, end: { line: 1, column: 29 } },
+      });
+      expect(tokenize('--- /core/section#outer')[0]).toMatchObject({ type: 'block_end', blockType: 'core/section', id: 'outer' });
+    });
+
+    it('should leave ids off blocks without one', () => {
+      expect(tokenize('--- core/section: #not-an-id')[0]).toMatchObject({ label: '#not-an-id' });
+      expect(tokenize('--- core/section: #not-an-id')[0]).not.toHaveProperty('id');
+    });
+  });
+
   describe('block end', () => {
     it('should tokenize block end', () => {
       const result = tokenize('--- /core/section');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'block_end',
         blockType: 'core/section',
         line: 1,
@@ -108,7 +127,7 @@ describe('tokenizer', () => {
 
     it('should tokenize block end with spaces', () => {
       const result = tokenize('  --- /newsletter/category  ');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'block_end',
         blockType: 'newsletter/category',
         line: 1,
@@ -124,7 +143,7 @@ describe('tokenizer', () => {
   describe('properties', () => {
     it('should tokenize simple property', () => {
       const result = tokenize('title: Hello World');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'property',
         key: 'title',
         value: 'Hello World',
@@ -135,7 +154,7 @@ describe('tokenizer', () => {
 
     it('should tokenize property with quoted value', () => {
       const result = tokenize('title: "Hello World"');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'property',
         key: 'title',
         value: 'Hello World',
@@ -146,7 +165,7 @@ describe('tokenizer', () => {
 
     it('should tokenize property with URL', () => {
       const result = tokenize('url: https://example.com/path?q=1');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'property',
         key: 'url',
         value: 'https://example.com/path?q=1',
@@ -157,7 +176,7 @@ describe('tokenizer', () => {
 
     it('should tokenize property with numeric value', () => {
       const result = tokenize('height: 100');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'property',
         key: 'height',
         value: '100',
@@ -168,7 +187,7 @@ describe('tokenizer', () => {
 
     it('should handle property with leading spaces', () => {
       const result = tokenize('  image: test.png');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'property',
         key: 'image',
         value: 'test.png',
@@ -179,7 +198,7 @@ describe('tokenizer', () => {
 
     it('should handle property with value containing colons', () => {
       const result = tokenize('time: 10:30:45');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'property',
         key: 'time',
         value: '10:30:45',
@@ -189,10 +208,43 @@ describe('tokenizer', () => {
     });
   });
 
+  describe('block scalars', () => {
+    it('should keep line breaks in a literal scalar', () => {
+      const result = tokenize('body: |\n  Line one\n\n    Indented\nnext: x');
+      expect(result[0]).toMatchObject({ type: 'property', key: 'body', value: 'Line one\n\n  Indented', scalar: '|' });
+      expect(result.slice(1, 4).map(t => t.type)).toEqual(['continuation', 'continuation', 'continuation']);
+      expect(result[4]).toMatchObject({ type: 'property', key: 'next', value: 'x' });
+    });
+
+    it('should fold lines of a folded scalar', () => {
+      const result = tokenize('summary: >\n  One\n  two\n\n  Three');
+      expect(result[0]).toMatchObject({ value: 'One two\nThree', scalar: '>' });
+    });
+
+    it('should span the value range over the indented lines', () => {
+      const result = tokenize('body: |\n  Line one\n  Line two');
+      expect((result[0] as Extract<TokenizedLine, { type: 'property' }>).valueRange).toEqual({
+        start: { line: 2, column: 3 },
+        end: { line: 3, column: 11 },
+      });
+    });
+
+    it('should leave trailing blank lines and block headers out of the value', () => {
+      const result = tokenize('body: |\n  Text\n\n  --- core/text\nMore');
+      expect(result[0]).toMatchObject({ value: 'Text' });
+      expect(result.map(t => t.type)).toEqual(['property', 'continuation', 'blank', 'block_start', 'text']);
+    });
+
+    it('should keep a bare indicator without indented lines as the value', () => {
+      expect(tokenize('sep: |\nnext: x')[0]).toMatchObject({ value: '|' });
+      expect(tokenize('sep: "|"\n  indented')[1].type).toBe('text');
+    });
+  });
+
   describe('text lines', () => {
     it('should tokenize plain text', () => {
       const result = tokenize('This is plain text');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'text',
         content: 'This is plain text',
         line: 1,
@@ -201,7 +253,7 @@ describe('tokenizer', () => {
 
     it('should preserve indentation in text lines', () => {
       const result = tokenize('  Indented text');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'text',
         content: '  Indented text',
         line: 1,
@@ -210,7 +262,7 @@ describe('tokenizer', () => {
 
     it('should preserve code indentation', () => {
       const result = tokenize('    function test() {');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'text',
         content: '    function test() {',
         line: 1,
@@ -219,7 +271,7 @@ describe('tokenizer', () => {
 
     it('should tokenize markdown heading as text', () => {
       const result = tokenize('## Heading');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'text',
         content: '## Heading',
         line: 1,
@@ -228,7 +280,7 @@ describe('tokenizer', () => {
 
     it('should tokenize markdown list as text', () => {
       const result = tokenize('- List item');
-      expect(result[0]).toEqual({
+      expect(result[0]).toMatchObject({
         type: 'text',
         content: '- List item',
         line: 1,
@@ -236,6 +288,29 @@ describe('tokenizer', () => {
     });
   });
 
+  describe('escaped block boundaries', () => {
+    it('should read an escaped block start or end as text without the backslash', () => {
+      expect(tokenize('\\--- core/text')[0]).toMatchObject({ type: 'text', content: '--- core/text' });
+      expect(tokenize('  \\--- /core/section')[0]).toMatchObject({ type: 'text', content: '  --- /core/section' });
+    });
+
+    it('should drop only one backslash', () => {
+      expect(tokenize('\\\\--- core/text')[0]).toMatchObject({ type: 'text', content: '\\--- core/text' });
+    });
+
+    it('should leave other backslash lines alone', () => {
+      expect(tokenize('\\---')[0]).toMatchObject({ type: 'text', content: '\\---' });
+      expect(tokenize('\\# not a heading')[0]).toMatchObject({ type: 'text', content: '\\# not a heading' });
+    });
+
+    it('should escape boundary lines so they tokenize back to the original', () => {
+      const content = '--- core/text\n  --- /core/section\n\\--- core/card\n---\nplain';
+      const escaped = escapeBlockBoundaries(content);
+      expect(escaped).toBe('\\--- core/text\n  \\--- /core/section\n\\\\--- core/card\n---\nplain');
+      expect(tokenize(escaped).map(t => (t.type === 'text' ? t.content : t.type)).join('\n')).toBe(content);
+    });
+  });
+
   describe('edge cases', () => {
     it('should treat lines with colons as properties if they match pattern', () => {
       const result = tokenize('This: is a property');
@@ -248,7 +323,7 @@ describe('tokenizer', () => {
     it('should handle empty input', () => {
       const result = tokenize('');
       expect(result).toHaveLength(1);
-      expect(result[0]).toEqual({ type: 'blank', line: 1 });
+      expect(result[0]).toMatchObject({ type: 'blank', line: 1 });
     });
 
     it('should track line numbers correctly', () => {
@@ -280,4 +355,41 @@ Some text content`;
       expect(result[0].type).toBe('text');
     });
   });
+  describe('ranges', () => {
+    const at = (line: number, start: number, end: number) => ({
+      start: { line, column: start },
+      end: { line, column: end },
+    });
+
+    it('should record block type and label columns', () => {
+      const result = tokenize('  --- core/section: Features');
+      const token = result[0] as Extract<TokenizedLine, { type: 'block_start' }>;
+      expect(token.range).toEqual(at(1, 3, 29));
+      expect(token.typeRange).toEqual(at(1, 7, 19));
+      expect(token.labelRange).toEqual(at(1, 21, 29));
+    });
+
+    it('should record block end type columns', () => {
+      const token = tokenize('--- /core/section')[0] as Extract<TokenizedLine, { type: 'block_end' }>;
+      expect(token.typeRange).toEqual(at(1, 6, 18));
+    });
+
+    it('should record property key and value columns', () => {
+      const token = tokenize('\ntitle: Hello World')[1] as Extract<TokenizedLine, { type: 'property' }>;
+      expect(token.keyRange).toEqual(at(2, 1, 6));
+      expect(token.valueRange).toEqual(at(2, 8, 19));
+    });
+
+    it('should exclude quotes from the value range', () => {
+      const token = tokenize('alt: "A photo"')[0] as Extract<TokenizedLine, { type: 'property' }>;
+      expect(token.value).toBe('A photo');
+      expect(token.valueRange).toEqual(at(1, 7, 14));
+    });
+
+    it('should cover trimmed text and comments', () => {
+      const result = tokenize('  Some text  \n// note');
+      expect(result[0].range).toEqual(at(1, 3, 12));
+      expect(result[1].range).toEqual(at(2, 1, 8));
+    });
+  });
 });
@@ -11,8 +11,9 @@ describe('version system', () => {
   describe('CORE_KIT versions', () => {
     it('should have versions defined', () => {
       expect(CORE_KIT.versions).toBeDefined();
-      expect(CORE_KIT.versions!.current).toBe(1);
+      expect(CORE_KIT.versions!.current).toBe(2);
       expect(CORE_KIT.versions!.supported).toContain(1);
+      expect(CORE_KIT.versions!.supported).toContain(2);
     });
   });
 
@@ -118,6 +119,14 @@ describe('version system', () => {
       expect(result.errors).toHaveLength(0);
     });
 
+    it('should keep a paragraph per content line before version 2', () => {
+      const source = '--- core/text\n\nFirst line\nsecond line';
+      const v1 = mkly(source, { kits: { core: CORE_KIT }, sourceMap: true });
+      expect(v1.html).toContain('<p data-mkly-line="3">First line</p>\n<p data-mkly-line="4">second line</p>');
+      const v2 = mkly(`--- meta\nversion: 2\n\n${source}`, { kits: { core: CORE_KIT }, sourceMap: true });
+      expect(v2.html).toContain('<p data-mkly-line="6">First line\nsecond line</p>');
+    });
+
     it('should fail to compile with unsupported version', () => {
       const result = mkly('--- use: core\n\n--- meta\nversion: 99\n\n--- core/text\n\nHello', { kits: { core: CORE_KIT } });
       expect(result.errors.length).toBeGreaterThan(0);